@@ -12,9 +12,14 @@ const Admin           = lazy(() => import('./pages/Admin'))
 const AdminConfig     = lazy(() => import('./pages/AdminConfig'))
 const AdminQuestions  = lazy(() => import('./pages/AdminQuestions'))
 const AuthPage        = lazy(() => import('./pages/AuthPage'))
+const DailyFloor      = lazy(() => import('./pages/DailyFloor'))
 const MultiplayerGame = lazy(() => import('./pages/MultiplayerGame'))
 const MultiplayerLobby = lazy(() => import('./pages/MultiplayerLobby'))
 const Ranking         = lazy(() => import('./pages/Ranking'))
+const Solo            = lazy(() => import('./pages/Solo'))
+const Tournaments     = lazy(() => import('./pages/Tournaments'))
+const Training        = lazy(() => import('./pages/Training'))
+const TournamentBracket = lazy(() => import('./pages/TournamentBracket'))
 const UserProfile     = lazy(() => import('./pages/UserProfile'))
 
 /** Minimalistyczny spinner widoczny podczas lazy-load chunk'a */
@@ -61,6 +66,36 @@ function AppInner() {
             <MultiplayerGame />
           </ErrorBoundary>
         } />
+        <Route path="/multiplayer/watch/:code" element={
+          <ErrorBoundary>
+            <MultiplayerGame spectate />
+          </ErrorBoundary>
+        } />
+        <Route path="/tournaments" element={
+          <ErrorBoundary>
+            <Tournaments />
+          </ErrorBoundary>
+        } />
+        <Route path="/tournaments/:id" element={
+          <ErrorBoundary>
+            <TournamentBracket />
+          </ErrorBoundary>
+        } />
+        <Route path="/daily" element={
+          <ErrorBoundary>
+            <DailyFloor />
+          </ErrorBoundary>
+        } />
+        <Route path="/solo" element={
+          <ErrorBoundary>
+            <Solo />
+          </ErrorBoundary>
+        } />
+        <Route path="/training" element={
+          <ErrorBoundary>
+            <Training />
+          </ErrorBoundary>
+        } />
 
         {/* Auth */}
         <Route path="/login"   element={<AuthPage />} />
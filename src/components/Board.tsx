@@ -14,17 +14,29 @@
 // → identyczna logika jak newGame() → kafelki zawsze pasują do canvasu.
 // ─────────────────────────────────────────────────────────────────────────────
 import { useCallback, useEffect, useRef } from 'react'
-import type { TileOwner } from '../types'
+import type { PlayerSettings, TileOwner } from '../types'
+import { defaultSeat, seatOf } from '../domain/party'
 import { getBoardDimensions, useConfigStore } from '../store/useConfigStore'
 import { getCatEmoji, useGameStore } from '../store/useGameStore'
+import { drawTerritoryBorders } from './game/territoryBorders'
 
-const PLAYERS: Record<TileOwner, { color: string; border: string; glow: string }> = {
+type TileStyle = { color: string; border: string; glow: string }
+
+const PLAYERS: Record<'gold' | 'silver' | 'neutral', TileStyle> = {
   gold:    { color: '#1a1200', border: '#FFD700', glow: 'rgba(255,215,0,0.15)'    },
   silver:  { color: '#0e0e0e', border: '#C0C0C0', glow: 'rgba(192,192,192,0.10)' },
-  // Unclaimed tiles (used by multiplayer; single-player tiles are always gold/silver).
+  // Unclaimed tiles (used by multiplayer; single-player tiles always have an owner).
   neutral: { color: '#0c0c0c', border: '#555555', glow: 'rgba(255,255,255,0.04)' },
 }
 
+// Pola trybu imprezowego (pN) biorą kolor gracza z listy party
+function tileStyle(owner: TileOwner, party: PlayerSettings[]): TileStyle {
+  const seat = seatOf(owner)
+  if (seat === null) return PLAYERS[owner as keyof typeof PLAYERS]
+  const c = party[seat]?.color ?? defaultSeat(seat).color
+  return { color: '#0c0c0c', border: c, glow: `${c}55` }
+}
+
 const emojiCache = new Map<string, HTMLCanvasElement>()
 
 function getEmojiCanvas(emoji: string, size: number): HTMLCanvasElement {
@@ -54,8 +66,9 @@ export default function Board() {
   const categories        = useGameStore(s => s.categories)
   const setCursor         = useGameStore(s => s.setCursor)
   const playedTileIndices = useGameStore(s => s.playedTileIndices)
-  const { config }        = useConfigStore()
+  const { config, partyPlayers } = useConfigStore()
   const lotteryEnabled    = config.LOTTERY_PICK === 1
+  const territoryMode     = config.RULES_MODE === 1
 
   // ── Jedyne źródło prawdy o wymiarach planszy ─────────────────────────────
   // getBoardDimensions() klamruje custom GRID_COLS/GRID_ROWS, fallbackuje na preset 0.
@@ -125,7 +138,7 @@ export default function Board() {
         const tile = tiles[i]
         const px = tile.x * S
         const py = tile.y * S
-        const p  = PLAYERS[tile.owner]
+        const p  = tileStyle(tile.owner, partyPlayers)
         // W trybie losowania (L) — kafelki rozegrane są przyciemnione i wykluczone z losowania.
         const isPlayed = lotteryEnabled && playedTileIndices.includes(i)
 
@@ -194,8 +207,8 @@ export default function Board() {
           ctx.fillStyle = 'rgba(0,0,0,0.55)'
           ctx.fillRect(px, py, S, S)
           // Medal w prawym górnym rogu — pokazuje, który gracz wygrał rundę:
-          //   🥇 = gracz 1 (gold), 🥈 = gracz 2 (silver)
-          const medal     = tile.owner === 'gold' ? '🥇' : '🥈'
+          //   🥇 = gracz 1 (gold), 🥈 = gracz 2 (silver), 🏅 = gracz trybu imprezowego
+          const medal     = tile.owner === 'gold' ? '🥇' : tile.owner === 'silver' ? '🥈' : '🏅'
           const medalSize = Math.max(18, Math.round(S * 0.20))
           // Cache jako Canvas (jak emoji kategorii) — szybkie i ostre niezależnie od skali
           const medalCanvas = getEmojiCanvas(medal, medalSize)
@@ -203,6 +216,9 @@ export default function Board() {
         }
       }
 
+      // ── Granice terytoriów — gruba linia między polami różnych regionów ──────
+      if (territoryMode) drawTerritoryBorders(ctx, tiles, S)
+
       // ── Pulsujący kursor — bardziej widoczny na dużych ekranach ─────────────
       // Rozmiary i alpha skalują się z S, żeby na 4K planszy nadal było czytelne.
       pulseRef.current = (pulseRef.current + 1) % 120
@@ -262,7 +278,7 @@ export default function Board() {
 
     rafRef.current = requestAnimationFrame(draw)
     return () => cancelAnimationFrame(rafRef.current)
-  }, [tiles, cursor, categories, COLS, lotteryEnabled, playedTileIndices])
+  }, [tiles, cursor, categories, COLS, lotteryEnabled, territoryMode, playedTileIndices, partyPlayers])
 
   return (
     <div
@@ -6,12 +6,17 @@ import { useEffect } from 'react'
 import { useConfigStore } from '../store/useConfigStore'
 import { useGameStore } from '../store/useGameStore'
 import { useDuelLogic } from '../hooks/useDuelLogic'
+import { useClockNow } from '../hooks/useClockNow'
+import { formatClock, remainingAt } from '../domain/clock'
+import { playerOf } from '../domain/party'
+import { BOT_NAMES, botFromConfig } from '../domain/bot'
 import type { FeedbackType, WinnerNum } from '../hooks/useDuelLogic'
 
 export default function DuelModal() {
   const duel      = useGameStore(s => s.duel)
   const blockInput = useGameStore(s => s.blockInput)
-  const { config, players } = useConfigStore()
+  const showdown   = useGameStore(s => s.showdown)
+  const { config, players, partyPlayers } = useConfigStore()
 
   const {
     feedback, winner, countdown, imageUrl, hintLetter,
@@ -19,7 +24,11 @@ export default function DuelModal() {
     handleStartFight, handleCorrect, handlePass, handleClose,
   } = useDuelLogic()
 
+  // Zegary liczą się z timestampu — odświeżaj widok, póki któryś biegnie
+  const clockNow = useClockNow(!!duel?.started && !duel.paused)
+
   const voicePassEnabled = config.VOICE_PASS !== 0
+  const bot              = botFromConfig(config)
   const maxPasses        = config.MAX_PASSES ?? 0
 
   // ── Klawiatura ────────────────────────────────────────────────────────────
@@ -32,10 +41,12 @@ export default function DuelModal() {
         if (e.key === 'Escape') { e.preventDefault(); handleClose() }
         return
       }
+      // Za bota nie odpowiada nikt z klawiatury
+      const botTurn = !!bot && duel.active === 2 && !duel.buzzer
       switch (e.key) {
         case 'a': case 'A': e.preventDefault(); handleCorrect(1); break
-        case 'd': case 'D': e.preventDefault(); handleCorrect(2); break
-        case 'p': case 'P': case ' ': e.preventDefault(); handlePass(); break
+        case 'd': case 'D': e.preventDefault(); if (!bot) handleCorrect(2); break
+        case 'p': case 'P': case ' ': e.preventDefault(); if (!botTurn) handlePass(); break
         case 'm': case 'M': if (speechSupported) setSpeechEnabled(s => !s); break
         case 'Escape': e.preventDefault(); handleClose(); break
       }
@@ -44,21 +55,22 @@ export default function DuelModal() {
     return () => window.removeEventListener('keydown', handler)
   // handleCorrect/handlePass/handleClose są stabilnymi useCallback refs
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [duel, blockInput, countdown, speechSupported])
+  }, [duel, blockInput, countdown, speechSupported, bot])
 
   if (!duel) return null
 
-  const t1        = duel.timer1
-  const t2        = duel.timer2
-  const p1        = players[0]
-  const p2        = players[1]
+  const t1        = remainingAt(duel.clock1, clockNow)
+  const t2        = remainingAt(duel.clock2, clockNow)
+  // Strony pojedynku: gold/silver w grze dwuosobowej, miejsca pN w trybie imprezowym
+  const p1        = playerOf(duel.owners[0], players, partyPlayers)
+  const p2        = bot ? { ...players[1], name: `🤖 ${BOT_NAMES[bot]}` } : playerOf(duel.owners[1], players, partyPlayers)
   const passCount = duel.passCount ?? 0
   const passLeft  = maxPasses > 0 ? maxPasses - passCount : null
 
-  const timerColor = (t: number) => t <= 5 ? '#ef4444' : t <= 15 ? '#facc15' : '#ffffff'
-  const timerGlow  = (t: number) =>
-    t <= 5  ? '0 0 30px rgba(239,68,68,0.7)'  :
-    t <= 15 ? '0 0 20px rgba(250,204,21,0.5)' : 'none'
+  const timerColor = (ms: number) => ms <= 5000 ? '#ef4444' : ms <= 15000 ? '#facc15' : '#ffffff'
+  const timerGlow  = (ms: number) =>
+    ms <= 5000  ? '0 0 30px rgba(239,68,68,0.7)'  :
+    ms <= 15000 ? '0 0 20px rgba(250,204,21,0.5)' : 'none'
 
   const fbBg = (type: FeedbackType) => !feedback.text ? 'rgba(255,255,255,0.04)'
     : type === 'correct' || type === 'voice' ? 'rgba(34,197,94,0.15)'
@@ -104,6 +116,15 @@ export default function DuelModal() {
           <span style={{ fontFamily: "'Bebas Neue', sans-serif", fontSize: '1.4rem', letterSpacing: 6, color: '#D4AF37' }}>
             {duel.categoryName}
           </span>
+          {(duel.buzzer || showdown) && (
+            <span style={{
+              fontFamily: "'Bebas Neue', sans-serif", fontSize: '0.85rem', letterSpacing: 3,
+              color: '#ef4444', border: '1px solid rgba(239,68,68,0.4)',
+              padding: '2px 10px', borderRadius: 20, background: 'rgba(239,68,68,0.08)',
+            }}>
+              {duel.buzzer ? '⚡ DOGRYWKA · A / D — KTO PIERWSZY' : '⚔️ POJEDYNEK O WSZYSTKO'}
+            </span>
+          )}
 
           {passLeft !== null && (
             <span style={{
@@ -191,7 +212,7 @@ export default function DuelModal() {
         {/* Fight */}
         {duel.started && (
           <div style={{ flex: 1, display: 'grid', gridTemplateColumns: 'min(18vw, 200px) 1fr min(18vw, 200px)', minHeight: 0, overflow: 'hidden' }}>
-            <PlayerPanel name={p1.name} shortcut="A" timer={t1} active={duel.active === 1} color={p1.color} borderSide="right" timerColor={timerColor(t1)} timerGlow={timerGlow(t1)} />
+            <PlayerPanel name={p1.name} shortcut="A" timerMs={t1} active={duel.active === 1} color={p1.color} borderSide="right" timerColor={timerColor(t1)} timerGlow={timerGlow(t1)} />
 
             <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', padding: '12px 16px 10px', position: 'relative', overflow: 'hidden' }}>
               <div style={{
@@ -264,7 +285,7 @@ export default function DuelModal() {
               )}
             </div>
 
-            <PlayerPanel name={p2.name} shortcut="D" timer={t2} active={duel.active === 2} color={p2.color} borderSide="left" timerColor={timerColor(t2)} timerGlow={timerGlow(t2)} />
+            <PlayerPanel name={p2.name} shortcut="D" timerMs={t2} active={duel.active === 2} color={p2.color} borderSide="left" timerColor={timerColor(t2)} timerGlow={timerGlow(t2)} />
           </div>
         )}
 
@@ -281,7 +302,7 @@ export default function DuelModal() {
           </div>
         )}
 
-        {winner && <WinnerOverlay winner={winner} players={players} />}
+        {winner && <WinnerOverlay winner={winner} players={[p1, p2]} />}
       </div>
 
       <style>{`
@@ -296,8 +317,8 @@ export default function DuelModal() {
 
 // ── Sub-komponenty ────────────────────────────────────────────────────────────
 
-function PlayerPanel({ name, shortcut, timer, active, color, borderSide, timerColor, timerGlow }: {
-  name: string; shortcut: string; timer: number; active: boolean
+function PlayerPanel({ name, shortcut, timerMs, active, color, borderSide, timerColor, timerGlow }: {
+  name: string; shortcut: string; timerMs: number; active: boolean
   color: string; borderSide: 'left' | 'right'; timerColor: string; timerGlow: string
 }) {
   return (
@@ -326,7 +347,7 @@ function PlayerPanel({ name, shortcut, timer, active, color, borderSide, timerCo
         fontFamily: "'Bebas Neue', sans-serif",
         fontSize: 'clamp(3.5rem, 9vh, 8rem)', lineHeight: 1,
         color: timerColor, textShadow: timerGlow, transition: 'color .5s, text-shadow .5s',
-      }}>{timer}</div>
+      }}>{formatClock(timerMs)}</div>
       <div style={{ color: 'rgba(255,255,255,0.25)', fontSize: '0.7rem', letterSpacing: 2 }}>
         <kbd className="kbd">{shortcut}</kbd> poprawna
       </div>
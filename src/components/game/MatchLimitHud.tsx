@@ -0,0 +1,33 @@
+import type { DuelClock } from '../../domain/clock'
+import { formatMatchClock, matchTimeLeft } from '../../domain/matchLimit'
+import { useClockNow } from '../../hooks/useClockNow'
+
+interface MatchLimitHudProps {
+  /** Duels still to play; null without a round limit. */
+  roundsLeft: number | null
+  clock:      DuelClock | null
+}
+
+const pluralRund = (n: number) => n === 1 ? 'RUNDA' : n > 1 && n < 5 ? 'RUNDY' : 'RUND'
+
+/** Rounds left and the match clock; renders nothing for a match without limits. */
+export default function MatchLimitHud({ roundsLeft, clock }: MatchLimitHudProps) {
+  const now  = useClockNow(!!clock && clock.runningSince !== null, 250)
+  const left = matchTimeLeft(clock, now)
+  if (roundsLeft === null && left === null) return null
+  const urgent = left !== null && left < 30_000
+  return (
+    <div style={{
+      display: 'flex', justifyContent: 'center', gap: 18, padding: '4px 0',
+      fontFamily: "'Bebas Neue', sans-serif", fontSize: '1rem', letterSpacing: 3,
+      color: 'rgba(255,255,255,0.55)', fontVariantNumeric: 'tabular-nums',
+    }}>
+      {roundsLeft !== null && (
+        <span title="Pozostałe pojedynki">🏁 <span style={{ color: '#D4AF37' }}>{roundsLeft}</span> {pluralRund(roundsLeft)}</span>
+      )}
+      {left !== null && (
+        <span title="Czas do końca meczu">⏳ <span style={{ color: urgent ? '#ef4444' : '#D4AF37' }}>{formatMatchClock(left)}</span></span>
+      )}
+    </div>
+  )
+}
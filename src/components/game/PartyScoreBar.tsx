@@ -0,0 +1,46 @@
+import type { PlayerSettings } from '../../types'
+import type { PartyStanding } from '../../domain/party'
+import { styles } from '../../pages/Game.styles'
+
+interface PartyScoreBarProps {
+  party:     PlayerSettings[]
+  standings: PartyStanding[]
+  /** Seat whose turn it is to pick, highlighted. */
+  picker:    number | null
+}
+
+/** Party mode: one segment per player in the shared bar, plus a chip per player. */
+export default function PartyScoreBar({ party, standings, picker }: PartyScoreBarProps) {
+  return (
+    <div style={{ ...styles.statsPanel, flexDirection: 'column', alignItems: 'stretch', gap: 6, maxWidth: 900 }}>
+      <div style={{ ...styles.progressTrack, display: 'flex' }}>
+        {standings.map(s => (
+          <div
+            key={s.seat}
+            style={{
+              height: '100%',
+              width: `${s.pct}%`,
+              background: party[s.seat]?.color,
+              transition: 'width 0.6s cubic-bezier(0.4,0,0.2,1)',
+            }}
+          />
+        ))}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '4px 14px' }}>
+        {standings.map(s => {
+          const p   = party[s.seat]
+          const out = s.tiles === 0
+          return (
+            <div key={s.seat} style={{ ...styles.statPlayer, minWidth: 0, opacity: out ? 0.35 : 1 }}>
+              <div style={{ ...styles.statDot, background: p?.color, boxShadow: picker === s.seat ? `0 0 8px ${p?.color}` : 'none' }} />
+              <span style={{ ...styles.statName, color: p?.color, textDecoration: out ? 'line-through' : 'none' }}>
+                {picker === s.seat ? '▶ ' : ''}{p?.name}
+              </span>
+              <span style={styles.statCount}>{s.tiles}</span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
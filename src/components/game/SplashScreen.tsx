@@ -3,10 +3,13 @@ import { styles, splashCSS } from '../../pages/Game.styles'
 interface SplashScreenProps {
   onStart: () => void
   onMultiplayer: () => void
+  onDaily: () => void
+  onSolo: () => void
+  onTraining: () => void
 }
 
-/** Single-player entry screen: logo + start / multiplayer buttons. */
-export default function SplashScreen({ onStart, onMultiplayer }: SplashScreenProps) {
+/** Single-player entry screen: logo + start / multiplayer / solo / daily challenge / training buttons. */
+export default function SplashScreen({ onStart, onMultiplayer, onDaily, onSolo, onTraining }: SplashScreenProps) {
   return (
     <div style={styles.fullscreen}>
       <style>{splashCSS}</style>
@@ -48,6 +51,25 @@ export default function SplashScreen({ onStart, onMultiplayer }: SplashScreenPro
         >
           🌐&nbsp; MULTIPLAYER
         </button>
+        <div style={{ display: 'flex', gap: 18 }}>
+          {[{ label: '🎯\u00a0 SOLO', onClick: onSolo }, { label: '📅\u00a0 WYZWANIE DNIA', onClick: onDaily }, { label: '📚\u00a0 TRENING', onClick: onTraining }].map(({ label, onClick }) => (
+            <button
+              key={label}
+              onClick={onClick}
+              style={{
+                background: 'none',
+                border: 'none',
+                color: 'rgba(212,175,55,0.7)',
+                cursor: 'pointer',
+                fontFamily: "'Bebas Neue', 'Montserrat', sans-serif",
+                fontSize: '0.95rem',
+                letterSpacing: 5,
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
         <div style={styles.splashHint}>Kliknij aby wejść do gry</div>
       </div>
     </div>
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { formatClock, remainingAt } from '../../domain/clock'
+import { useClockNow } from '../../hooks/useClockNow'
+import type { useTimeAttack } from '../../hooks/useTimeAttack'
+
+interface TimeAttackPanelProps {
+  ta:    ReturnType<typeof useTimeAttack>
+  /** Category of the question on screen, e.g. "🎬 FILMY". */
+  label: string
+}
+
+const FEEDBACK_COLOR = { correct: '#4ade80', pass: '#facc15', wrong: '#f87171', '': 'transparent' } as const
+
+/** Solo time-attack run (useTimeAttack): countdown, clock, photo and the answer box. */
+export default function TimeAttackPanel({ ta, label }: TimeAttackPanelProps) {
+  const [typed, setTyped] = useState('')
+  const now  = useClockNow(ta.phase === 'playing', 100)
+  const left = remainingAt(ta.run.clock, now)
+
+  if (ta.phase === 'countdown') {
+    return (
+      <div style={{ height: 360, display: 'flex', alignItems: 'center', justifyContent: 'center', fontFamily: "'Bebas Neue',sans-serif", fontSize: '6rem', letterSpacing: 8, color: '#D4AF37' }}>
+        {ta.countdown}
+      </div>
+    )
+  }
+  if (ta.phase !== 'playing') return null
+
+  const submit = () => { if (ta.submitTyped(typed)) setTyped('') }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontFamily: "'Bebas Neue',sans-serif", letterSpacing: 3 }}>
+        <span style={{ fontSize: '1.1rem', color: '#fff' }}>{label}</span>
+        <span style={{ fontSize: '0.85rem', color: 'rgba(255,255,255,0.4)' }}>{Math.min(ta.run.index + 1, ta.run.deck.length)} / {ta.run.deck.length}</span>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '3rem', letterSpacing: 4, color: left < 10_000 ? '#f87171' : '#D4AF37' }}>{formatClock(left)}</span>
+        <span style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.6rem', letterSpacing: 3, color: '#4ade80' }}>✓ {ta.run.correct}</span>
+      </div>
+
+      <div style={{ position: 'relative', height: 300, background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.08)', borderRadius: 12, display: 'flex', alignItems: 'center', justifyContent: 'center', overflow: 'hidden' }}>
+        {ta.imageUrl
+          ? <img src={ta.imageUrl} alt="question" style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain', userSelect: 'none' }} draggable={false} />
+          : <span style={{ color: 'rgba(255,255,255,0.2)', fontSize: '0.8rem' }}>Brak zdjęcia</span>}
+        {ta.feedback.text && (
+          <div style={{ position: 'absolute', bottom: 12, left: '50%', transform: 'translateX(-50%)', padding: '6px 16px', borderRadius: 8, background: 'rgba(0,0,0,0.75)', color: FEEDBACK_COLOR[ta.feedback.type], fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.2rem', letterSpacing: 3, whiteSpace: 'nowrap' }}>
+            {ta.feedback.text}
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        <input
+          autoFocus value={typed} placeholder="Wpisz odpowiedź…"
+          onChange={e => setTyped(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') submit()
+            if (e.key === 'Escape') { setTyped(''); ta.pass() }
+          }}
+          style={{ flex: 1, padding: '10px 12px', background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff', fontSize: '0.95rem', outline: 'none' }}
+        />
+        <button onClick={submit} style={{ padding: '0 16px', borderRadius: 8, background: 'rgba(74,222,128,0.1)', border: '1px solid rgba(74,222,128,0.35)', color: '#4ade80', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 3, cursor: 'pointer' }}>OK</button>
+        <button onClick={() => { setTyped(''); ta.pass() }} style={{ padding: '0 16px', borderRadius: 8, background: 'rgba(250,204,21,0.08)', border: '1px solid rgba(250,204,21,0.3)', color: '#facc15', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 3, cursor: 'pointer' }}>PAS</button>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: '0.65rem', letterSpacing: 1, color: 'rgba(255,255,255,0.3)' }}>
+        <span>ENTER zatwierdź · ESC pas{ta.speechSupported ? ' · powiedz hasło albo „pas"' : ''}</span>
+        {ta.speechSupported && (
+          <button onClick={() => ta.setSpeechEnabled(v => !v)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '0.7rem', color: ta.listening ? '#4ade80' : 'rgba(255,255,255,0.35)' }}>
+            {ta.speechEnabled ? (ta.listening ? '🎤 słucham' : '🎤 …') : '🔇 mikrofon wył.'}
+          </button>
+        )}
+      </div>
+      {ta.speechError && <div style={{ fontSize: '0.65rem', color: '#f87171' }}>{ta.speechError}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// territoryBorders — granice terytoriów na canvasie planszy (tryb terytoriów)
+//
+// Wspólne dla planszy lokalnej (Board) i online (MPBoard): gruba linia na
+// krawędzi między sąsiednimi polami należącymi do różnych regionów.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { Tile } from '../../types'
+import { territoryOf } from '../../domain/territory'
+
+export function drawTerritoryBorders(ctx: CanvasRenderingContext2D, tiles: Tile[], S: number) {
+  const at = new Map(tiles.map((t, i) => [`${t.x},${t.y}`, i]))
+  ctx.save()
+  ctx.strokeStyle = 'rgba(0,0,0,0.85)'
+  ctx.lineWidth   = Math.max(4, Math.round(S * 0.05))
+  ctx.lineCap     = 'round'
+  ctx.beginPath()
+  tiles.forEach((t, i) => {
+    const right = at.get(`${t.x + 1},${t.y}`)
+    const below = at.get(`${t.x},${t.y + 1}`)
+    if (right !== undefined && territoryOf(tiles, right) !== territoryOf(tiles, i)) {
+      ctx.moveTo((t.x + 1) * S, t.y * S); ctx.lineTo((t.x + 1) * S, (t.y + 1) * S)
+    }
+    if (below !== undefined && territoryOf(tiles, below) !== territoryOf(tiles, i)) {
+      ctx.moveTo(t.x * S, (t.y + 1) * S); ctx.lineTo((t.x + 1) * S, (t.y + 1) * S)
+    }
+  })
+  ctx.stroke()
+  ctx.restore()
+}
@@ -1,5 +1,9 @@
 import { describe, expect, it } from 'vitest'
-import { computeStats, countOwned, evaluateBoardOutcome, shuffle } from './board'
+import {
+  boardVictor, computeStats, countOwned, DEFAULT_VICTORY, evaluateBoardOutcome, evaluateVictory, shuffle, victoryFromConfig,
+  type VictoryPolicy,
+} from './board'
+import { mulberry32 } from './random'
 import type { Tile } from '../types'
 
 const tile = (owner: Tile['owner']): Tile => ({ x: 0, y: 0, categoryId: 'c', categoryName: 'C', owner })
@@ -58,6 +62,51 @@ describe('evaluateBoardOutcome', () => {
   })
 })
 
+describe('victory policy', () => {
+  const policy = (p: Partial<VictoryPolicy>): VictoryPolicy => ({ ...DEFAULT_VICTORY, ...p })
+  const board = (...owners: Tile['owner'][]) => owners.map(tile)
+
+  it('reads VICTORY_MODE, VICTORY_PCT and VICTORY_TILES', () => {
+    expect(victoryFromConfig({ VICTORY_MODE: 2, VICTORY_PCT: 60, VICTORY_TILES: 5 })).toEqual({ kind: 'first_to', threshold: 0.6, tiles: 5 })
+    expect(victoryFromConfig({ VICTORY_MODE: 9, VICTORY_PCT: 75, VICTORY_TILES: 8 }).kind).toBe('threshold')
+  })
+
+  it('threshold matches evaluateBoardOutcome', () => {
+    const tiles = board('gold', 'gold', 'silver', 'neutral')
+    expect(evaluateVictory(tiles, policy({ threshold: 0.5 })).isOver).toBe(true)
+    expect(evaluateVictory(tiles, DEFAULT_VICTORY)).toEqual(evaluateBoardOutcome(tiles))
+  })
+
+  it('elimination waits for every tile to be claimed by one player', () => {
+    const elim = policy({ kind: 'elimination' })
+    expect(evaluateVictory(board('gold', 'gold', 'neutral'), elim).isOver).toBe(false)
+    expect(evaluateVictory(board('gold', 'gold', 'silver'), elim).isOver).toBe(false)
+    expect(boardVictor(board('silver', 'silver', 'silver'), ['gold', 'silver'], elim)).toBe('silver')
+  })
+
+  it('first_to ends on N tiles, capped at the board size', () => {
+    const tiles = board('gold', 'silver', 'silver', 'neutral')
+    expect(boardVictor(tiles, ['gold', 'silver'], policy({ kind: 'first_to', tiles: 3 }))).toBeNull()
+    expect(boardVictor(tiles, ['gold', 'silver'], policy({ kind: 'first_to', tiles: 2 }))).toBe('silver')
+    expect(boardVictor(board('gold', 'gold'), ['gold', 'silver'], policy({ kind: 'first_to', tiles: 99 }))).toBe('gold')
+  })
+
+  it('full_board ends once nothing is left to claim, most tiles winning', () => {
+    const full = policy({ kind: 'full_board' })
+    expect(boardVictor(board('gold', 'neutral', 'silver'), ['gold', 'silver'], full)).toBeNull()
+    expect(boardVictor(board('gold', 'gold', 'silver'), ['gold', 'silver'], full)).toBe('gold')
+    expect(boardVictor(board('gold', 'silver'), ['gold', 'silver'], full)).toBe('draw')
+    // A dealt local board counts the tiles still unplayed instead
+    expect(boardVictor(board('gold', 'gold', 'silver'), ['gold', 'silver'], full, 1)).toBeNull()
+  })
+
+  it('ranks party seats the same way', () => {
+    const tiles = board('p0', 'p2', 'p2', 'p2')
+    expect(boardVictor(tiles, ['p0', 'p1', 'p2'], DEFAULT_VICTORY)).toBe('p2')
+    expect(boardVictor(tiles, ['p0', 'p1', 'p2'], policy({ kind: 'elimination' }))).toBeNull()
+  })
+})
+
 describe('shuffle', () => {
   it('preserves length and elements without mutating the input', () => {
     const input = [1, 2, 3, 4, 5]
@@ -67,4 +116,10 @@ describe('shuffle', () => {
     expect([...out].sort()).toEqual([1, 2, 3, 4, 5])
     expect(input).toEqual(copy) // original untouched
   })
+
+  it('deals the same order from the same seed', () => {
+    const input = [1, 2, 3, 4, 5, 6, 7, 8]
+    expect(shuffle(input, mulberry32(7))).toEqual(shuffle(input, mulberry32(7)))
+    expect(shuffle(input, mulberry32(7))).not.toEqual(shuffle(input, mulberry32(8)))
+  })
 })
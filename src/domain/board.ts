@@ -5,13 +5,14 @@
 // pure function of its inputs, which makes it trivially unit-testable and keeps
 // the game rules in one place instead of duplicated across the stores.
 // ─────────────────────────────────────────────────────────────────────────────
-import type { GameStats, Tile, TileOwner } from '../types'
+import type { GameConfig, GameStats, Tile, TileOwner } from '../types'
+import type { Rng } from './random'
 
-/** Fisher–Yates shuffle. Returns a new array; does not mutate the input. */
-export function shuffle<T>(arr: T[]): T[] {
+/** Fisher–Yates shuffle. Returns a new array; does not mutate the input. Seeded with `rand` (domain/random.ts). */
+export function shuffle<T>(arr: T[], rand: Rng = Math.random): T[] {
   const a = [...arr]
   for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(rand() * (i + 1))
     ;[a[i], a[j]] = [a[j], a[i]]
   }
   return a
@@ -44,15 +45,72 @@ export interface BoardOutcome {
 }
 
 /**
- * Evaluate whether the board has been won.
- * @param threshold fraction of the board a player must control to win (default 75%).
+ * When the board itself ends a match:
+ * - threshold   — a player holds `threshold` of the board (the classic 75%);
+ * - elimination — every tile is claimed and only one player has any left;
+ * - first_to    — a player holds `tiles` tiles (capped at the board size);
+ * - full_board  — nothing is left to claim; most tiles wins.
  */
-export function evaluateBoardOutcome(tiles: Tile[], threshold = 0.75): BoardOutcome {
-  const total  = tiles.length
+export type VictoryKind = 'threshold' | 'elimination' | 'first_to' | 'full_board'
+
+export const VICTORY_KINDS: readonly VictoryKind[] = ['threshold', 'elimination', 'first_to', 'full_board']
+
+export interface VictoryPolicy {
+  kind:      VictoryKind
+  /** threshold: fraction of the board, 0–1. */
+  threshold: number
+  /** first_to: tiles to hold. */
+  tiles:     number
+}
+
+export const DEFAULT_VICTORY: VictoryPolicy = { kind: 'threshold', threshold: 0.75, tiles: 8 }
+
+/** Local games: VICTORY_MODE (index into VICTORY_KINDS), VICTORY_PCT and VICTORY_TILES. */
+export function victoryFromConfig(cfg: Pick<GameConfig, 'VICTORY_MODE' | 'VICTORY_PCT' | 'VICTORY_TILES'>): VictoryPolicy {
+  return {
+    kind:      VICTORY_KINDS[cfg.VICTORY_MODE] ?? DEFAULT_VICTORY.kind,
+    threshold: cfg.VICTORY_PCT / 100,
+    tiles:     cfg.VICTORY_TILES,
+  }
+}
+
+/**
+ * Which of `sides` has won the board under `policy`: a side, 'draw' when the
+ * board is decided with the top two level, or null while the match goes on.
+ * @param unclaimed tiles still to be won, for full_board. Defaults to the
+ *   neutral tiles; a local board starts fully dealt, so it passes the tiles
+ *   no duel has been played for yet.
+ */
+export function boardVictor<O extends TileOwner>(
+  tiles: Tile[], sides: readonly O[], policy: VictoryPolicy, unclaimed = countOwned(tiles, 'neutral'),
+): O | 'draw' | null {
+  const total = tiles.length
+  if (total === 0) return null
+  const ranked = sides.map(side => ({ side, n: countOwned(tiles, side) })).sort((a, b) => b.n - a.n)
+  const [first, second] = ranked
+  if (!first) return null
+  const over =
+    policy.kind === 'threshold'   ? first.n >= Math.ceil(total * policy.threshold) :
+    policy.kind === 'first_to'    ? first.n >= Math.min(Math.max(1, policy.tiles), total) :
+    policy.kind === 'elimination' ? countOwned(tiles, 'neutral') === 0 && ranked.filter(r => r.n > 0).length <= 1 :
+    unclaimed <= 0
+  if (!over) return null
+  return second && second.n === first.n ? 'draw' : first.side
+}
+
+/** Gold vs silver under `policy`; `winner` is the current leader either way. */
+export function evaluateVictory(tiles: Tile[], policy: VictoryPolicy, unclaimed?: number): BoardOutcome {
   const gold   = countOwned(tiles, 'gold')
   const silver = countOwned(tiles, 'silver')
-  const winAt  = Math.ceil(total * threshold)
-  const isOver = gold >= winAt || silver >= winAt
+  const isOver = boardVictor(tiles, ['gold', 'silver'], policy, unclaimed) !== null
   const winner: BoardOutcome['winner'] = gold > silver ? 'gold' : silver > gold ? 'silver' : 'draw'
   return { isOver, gold, silver, winner }
 }
+
+/**
+ * Evaluate whether the board has been won on a threshold.
+ * @param threshold fraction of the board a player must control to win (default 75%).
+ */
+export function evaluateBoardOutcome(tiles: Tile[], threshold = DEFAULT_VICTORY.threshold): BoardOutcome {
+  return evaluateVictory(tiles, { ...DEFAULT_VICTORY, threshold })
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import type { Tile, TileOwner } from '../types'
+import { botFromConfig, botMove, botTarget, categoryEase, categoryRates } from './bot'
+
+const board = (...owners: TileOwner[]): Tile[] =>
+  owners.map((owner, x) => ({ x, y: 0, categoryId: 'c', categoryName: 'C', owner }))
+
+describe('bot', () => {
+  it('reads BOT_LEVEL, off in party mode', () => {
+    expect(botFromConfig({ BOT_LEVEL: 0, PARTY_MODE: 0 })).toBeNull()
+    expect(botFromConfig({ BOT_LEVEL: 3, PARTY_MODE: 0 })).toBe('hard')
+    expect(botFromConfig({ BOT_LEVEL: 2, PARTY_MODE: 1 })).toBeNull()
+  })
+
+  it('counts logged answers per category', () => {
+    const rates = categoryRates([
+      { categoryId: 'a', answers: [{ result: 'correct' }, { result: 'pass' }] },
+      { categoryId: 'a', answers: [{ result: 'correct' }] },
+      { categoryId: null, answers: [{ result: 'correct' }] },
+    ])
+    expect(rates).toEqual({ a: { correct: 2, total: 3 } })
+  })
+
+  it('rates a category against the baseline, smoothed toward it', () => {
+    expect(categoryEase(undefined)).toBeCloseTo(1)
+    expect(categoryEase({ correct: 1, total: 1 })).toBeCloseTo(1.03, 2)
+    expect(categoryEase({ correct: 10, total: 100 })).toBeLessThan(0.5)
+  })
+
+  it('knows fewer questions and takes longer in a hard category', () => {
+    expect(botMove('hard', undefined, () => 0.8)).toEqual({ result: 'correct', afterMs: 2_600 })
+    expect(botMove('hard', { correct: 0, total: 200 }, () => 0.8).result).toBe('pass')
+    expect(botMove('easy', undefined, () => 0.5)).toEqual({ result: 'pass', afterMs: 5_750 })
+    expect(botMove('medium', { correct: 0, total: 200 }, () => 0).afterMs).toBe(3_000)
+  })
+
+  it('attacks tiles it does not own when it can', () => {
+    const tiles = board('silver', 'gold', 'neutral')
+    expect(botTarget(tiles, 'silver', () => true, () => 0)).toBe(1)
+    expect(botTarget(tiles, 'silver', i => i === 0, () => 0)).toBe(0)
+    expect(botTarget(tiles, 'silver', () => false)).toBeNull()
+  })
+})
@@ -0,0 +1,103 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/bot.ts — A practice opponent
+//
+// The bot plays the second seat: silver in a local game, the guest online. It
+// never sees the answer — each turn it draws whether it knows the question and
+// how long it takes to say so, from its level and from how the category plays
+// in real matches: the share of correct answers among the answers logged in
+// game_rounds (domain/rounds.ts). A category people find hard makes the bot
+// slower and less sure; one with little history stays near the level's own
+// numbers. A turn it does not know it passes, like a player would. The store
+// that hosts the bot owns the timer and feeds the move in as an answer.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { GameConfig, Tile } from '../types'
+import type { Rng } from './random'
+import type { RoundAnswer } from './rounds'
+
+export type BotLevel = 'easy' | 'medium' | 'hard'
+
+export const BOT_LEVELS: readonly BotLevel[] = ['easy', 'medium', 'hard']
+
+export interface BotProfile {
+  /** Chance to know a question of an average category. */
+  accuracy: number
+  /** Time to answer, drawn evenly from this range (ms). */
+  minMs:    number
+  maxMs:    number
+}
+
+export const BOT_PROFILES: Record<BotLevel, BotProfile> = {
+  easy:   { accuracy: 0.45, minMs: 3_500, maxMs: 8_000 },
+  medium: { accuracy: 0.65, minMs: 2_000, maxMs: 5_500 },
+  hard:   { accuracy: 0.85, minMs: 1_000, maxMs: 3_000 },
+}
+
+/** The bot's name on the board and in the lobby. */
+export const BOT_NAMES: Record<BotLevel, string> = {
+  easy: 'BOT ŁATWY', medium: 'BOT ŚREDNI', hard: 'BOT TRUDNY',
+}
+
+/** How long the bot looks at the board before picking a tile. */
+export const BOT_PICK_MS = 1_500
+
+/** Share of correct answers in an average category, the yardstick for the rest. */
+export const BASELINE_RATE = 0.6
+// Answers of made-up average history mixed into every category, so a few
+// lucky rounds do not swing the bot
+const PRIOR_ANSWERS = 20
+
+/** Logged answers per category id. */
+export type CategoryRates = Record<string, { correct: number; total: number }>
+
+/** What the bot does on its turn: answer or pass, `afterMs` into it. */
+export interface BotMove {
+  result:  'correct' | 'pass'
+  afterMs: number
+}
+
+/** Local games: BOT_LEVEL 1–3 (0 = a human on both seats). Party mode has no bot. */
+export function botFromConfig(cfg: Pick<GameConfig, 'BOT_LEVEL' | 'PARTY_MODE'>): BotLevel | null {
+  return cfg.PARTY_MODE === 1 ? null : BOT_LEVELS[cfg.BOT_LEVEL - 1] ?? null
+}
+
+/** Fold logged rounds into per-category answer counts. */
+export function categoryRates(rounds: readonly { categoryId: string | null; answers: readonly Pick<RoundAnswer, 'result'>[] }[]): CategoryRates {
+  const rates: CategoryRates = {}
+  for (const r of rounds) {
+    if (!r.categoryId || r.answers.length === 0) continue
+    const prev = rates[r.categoryId] ?? { correct: 0, total: 0 }
+    rates[r.categoryId] = {
+      correct: prev.correct + r.answers.filter(a => a.result === 'correct').length,
+      total:   prev.total + r.answers.length,
+    }
+  }
+  return rates
+}
+
+/** How hard a category plays: its smoothed correct rate against BASELINE_RATE (1 = average, below 1 = harder). */
+export function categoryEase(rate: CategoryRates[string] | undefined): number {
+  const correct = (rate?.correct ?? 0) + PRIOR_ANSWERS * BASELINE_RATE
+  const total   = (rate?.total ?? 0) + PRIOR_ANSWERS
+  return correct / total / BASELINE_RATE
+}
+
+/** The bot's move on one question of a category with history `rate`. */
+export function botMove(level: BotLevel, rate: CategoryRates[string] | undefined, rand: Rng = Math.random): BotMove {
+  const p    = BOT_PROFILES[level]
+  const ease = categoryEase(rate)
+  const accuracy = Math.min(0.97, Math.max(0.05, p.accuracy * ease))
+  // Harder categories take longer, within reason
+  const slow = Math.min(1.5, Math.max(0.75, 1 / ease))
+  return {
+    result:  rand() < accuracy ? 'correct' : 'pass',
+    afterMs: Math.round((p.minMs + rand() * (p.maxMs - p.minMs)) * slow),
+  }
+}
+
+/** The tile the bot picks: any it `may` challenge, one it does not own if there is one. Null if none. */
+export function botTarget(tiles: Tile[], own: Tile['owner'], may: (idx: number) => boolean, rand: Rng = Math.random): number | null {
+  const open  = tiles.map((_, i) => i).filter(may)
+  const other = open.filter(i => tiles[i].owner !== own)
+  const pool  = other.length > 0 ? other : open
+  return pool.length > 0 ? pool[Math.min(pool.length - 1, Math.floor(rand() * pool.length))] : null
+}
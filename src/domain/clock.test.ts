@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import {
+  chargeClock, deadlineOf, formatClock, remainingAt, runClock, stopClock, stoppedClock,
+} from './clock'
+
+describe('duel clock', () => {
+  it('a stopped clock keeps its time', () => {
+    const c = stoppedClock(5_000)
+    expect(remainingAt(c, 1_000_000)).toBe(5_000)
+    expect(deadlineOf(c)).toBeNull()
+  })
+
+  it('runs down from the moment it is started, to the millisecond', () => {
+    const c = runClock(stoppedClock(5_000), 1_000)
+    expect(remainingAt(c, 1_900)).toBe(4_100)
+    expect(remainingAt(c, 9_000)).toBe(0)
+    expect(deadlineOf(c)).toBe(6_000)
+  })
+
+  it('stopping banks the elapsed time; starting twice does not restart it', () => {
+    const running = runClock(stoppedClock(5_000), 0)
+    expect(runClock(running, 2_000)).toBe(running)
+    const stopped = stopClock(running, 1_250)
+    expect(stopped).toEqual({ remainingMs: 3_750, runningSince: null })
+    expect(remainingAt(runClock(stopped, 10_000), 10_750)).toBe(3_000)
+  })
+
+  it('a charge comes off the time left and clamps at zero', () => {
+    expect(chargeClock(stoppedClock(5_000), 2_000, 0)).toEqual(stoppedClock(3_000))
+    const running = chargeClock(runClock(stoppedClock(5_000), 0), 2_000, 1_000)
+    expect(deadlineOf(running)).toBe(3_000)
+    expect(chargeClock(stoppedClock(1_000), 2_000, 0).remainingMs).toBe(0)
+  })
+
+  it('formats whole seconds from ten up and tenths below', () => {
+    expect(formatClock(45_000)).toBe('45')
+    expect(formatClock(10_001)).toBe('11')
+    expect(formatClock(9_950)).toBe('10')
+    expect(formatClock(9_900)).toBe('9.9')
+    expect(formatClock(40)).toBe('0.1')
+    expect(formatClock(0)).toBe('0.0')
+  })
+})
@@ -0,0 +1,61 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/clock.ts — Deadline-based duel clocks
+//
+// A duel clock used to be a whole number of seconds that a 1-second interval
+// decremented: answers were credited to the second, throttled background tabs
+// lost time, and the guest only saw whole-second snapshots. Here a clock is
+// "remaining ms + running since": time left is derived from a timestamp, so it
+// is exact at any instant, the timeout fires at the deadline itself, and the
+// display can be redrawn as often as it likes. Timestamps come from the
+// caller (performance.now() in the app) and are only meaningful on the
+// machine that took them — clocks travel between clients as plain ms.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface DuelClock {
+  /** Time left when the clock was last started or stopped. */
+  remainingMs:  number
+  /** Timestamp the clock has been running since; null while stopped. */
+  runningSince: number | null
+}
+
+/** A stopped clock with `ms` on it. */
+export function stoppedClock(ms: number): DuelClock {
+  return { remainingMs: Math.max(0, ms), runningSince: null }
+}
+
+/** Time left at `now`, never below zero. */
+export function remainingAt(clock: DuelClock, now: number): number {
+  const elapsed = clock.runningSince === null ? 0 : Math.max(0, now - clock.runningSince)
+  return Math.max(0, clock.remainingMs - elapsed)
+}
+
+/** Start the clock at `now`. A running clock is left as it is. */
+export function runClock(clock: DuelClock, now: number): DuelClock {
+  return clock.runningSince === null ? { ...clock, runningSince: now } : clock
+}
+
+/** Stop the clock at `now`, banking the time it ran. */
+export function stopClock(clock: DuelClock, now: number): DuelClock {
+  return clock.runningSince === null ? clock : stoppedClock(remainingAt(clock, now))
+}
+
+/** Take `ms` off the clock (a pass penalty), clamped at zero. */
+export function chargeClock(clock: DuelClock, ms: number, now: number): DuelClock {
+  const left = Math.max(0, remainingAt(clock, now) - ms)
+  return clock.runningSince === null ? stoppedClock(left) : { remainingMs: left, runningSince: now }
+}
+
+/** When a running clock hits zero; null while stopped. */
+export function deadlineOf(clock: DuelClock): number | null {
+  return clock.runningSince === null ? null : clock.runningSince + clock.remainingMs
+}
+
+/**
+ * Seconds for the duel display: whole seconds (rounded up, so "1" is shown
+ * until the very end) from ten seconds up, tenths below that.
+ */
+export function formatClock(ms: number): string {
+  const tenths = Math.ceil(ms / 100)
+  if (tenths >= 100) return String(Math.ceil(ms / 1000))
+  return (tenths / 10).toFixed(1)
+}
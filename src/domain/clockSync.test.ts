@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_LATENCY_CREDIT_MS, SYNC_SAMPLES, addSyncSample, creditedAt, emptySync, latencyCredit,
+  syncEstimate, syncSample, toLocalTime,
+} from './clockSync'
+
+describe('syncSample', () => {
+  it('derives round trip and offset from one ping/pong', () => {
+    // Peer's clock is 5 s ahead; 40 ms each way
+    expect(syncSample(1_000, 6_040, 1_080)).toEqual({ rttMs: 80, offsetMs: 5_000 })
+  })
+})
+
+describe('syncEstimate', () => {
+  it('is null before the first exchange', () => {
+    expect(syncEstimate(emptySync())).toBeNull()
+  })
+
+  it('reports the median round trip and the offset of the fastest sample', () => {
+    let sync = emptySync()
+    sync = addSyncSample(sync, { rttMs: 120, offsetMs: 5_030 })
+    sync = addSyncSample(sync, { rttMs: 40,  offsetMs: 5_001 })
+    sync = addSyncSample(sync, { rttMs: 60,  offsetMs: 5_010 })
+    expect(syncEstimate(sync)).toEqual({ rttMs: 60, offsetMs: 5_001 })
+  })
+
+  it('keeps only the newest samples', () => {
+    let sync = emptySync()
+    for (let i = 0; i < SYNC_SAMPLES + 3; i++) sync = addSyncSample(sync, { rttMs: i, offsetMs: 0 })
+    expect(sync.samples).toHaveLength(SYNC_SAMPLES)
+    expect(sync.samples[0].rttMs).toBe(3)
+  })
+})
+
+describe('latency credit', () => {
+  const est = { rttMs: 100, offsetMs: 5_000 }
+
+  it('maps peer timestamps onto the local timeline', () => {
+    expect(toLocalTime(15_000, est)).toBe(10_000)
+  })
+
+  it('credits half the round trip, capped', () => {
+    expect(latencyCredit(null)).toBe(0)
+    expect(latencyCredit(est)).toBe(50)
+    expect(latencyCredit({ rttMs: 10_000, offsetMs: 0 })).toBe(MAX_LATENCY_CREDIT_MS)
+  })
+
+  it('clamps a claimed time into the credit window', () => {
+    expect(creditedAt(1_000, 970, 50)).toBe(970)
+    expect(creditedAt(1_000, 500, 50)).toBe(950)
+    expect(creditedAt(1_000, 1_400, 50)).toBe(1_000)
+    expect(creditedAt(1_000, undefined, 50)).toBe(1_000)
+  })
+})
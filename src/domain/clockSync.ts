@@ -0,0 +1,80 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/clockSync.ts — Clock sync and latency credit for online duels
+//
+// The host resolves its own answers the instant they are given, while a guest
+// answer only stops the guest's clock once the intent has crossed the
+// network — a systematic edge for the host. Both players therefore ping each
+// other NTP-style (send time, the peer's receive time, our receive time) to
+// estimate the round trip and the offset between the two performance.now()
+// timelines. Guest intents carry the guest's own timestamp; the host maps it
+// onto its timeline and credits the guest for the time in flight, but never
+// more than half the measured round trip and never more than a fixed cap, so
+// a doctored timestamp cannot buy time.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Samples kept; the estimate comes from the best of them. */
+export const SYNC_SAMPLES = 8
+/** Upper bound on the time credited to a remote answer. */
+export const MAX_LATENCY_CREDIT_MS = 250
+
+export interface SyncSample {
+  rttMs:    number
+  /** Remote timeline minus local timeline. */
+  offsetMs: number
+}
+
+export interface ClockSync {
+  samples: SyncSample[]   // newest last, at most SYNC_SAMPLES
+}
+
+export interface SyncEstimate {
+  /** Median round trip — what the ping display shows. */
+  rttMs:    number
+  /** Offset from the fastest round trip, the least skewed by queueing. */
+  offsetMs: number
+}
+
+export const emptySync = (): ClockSync => ({ samples: [] })
+
+/**
+ * One ping/pong exchange: we sent at `sentAt`, the peer stamped `remoteAt`
+ * on receipt, the pong reached us at `receivedAt` (local timeline).
+ */
+export function syncSample(sentAt: number, remoteAt: number, receivedAt: number): SyncSample {
+  const rttMs = Math.max(0, receivedAt - sentAt)
+  return { rttMs, offsetMs: remoteAt - (sentAt + rttMs / 2) }
+}
+
+/** Add a sample, dropping the oldest beyond SYNC_SAMPLES. */
+export function addSyncSample(sync: ClockSync, sample: SyncSample): ClockSync {
+  return { samples: [...sync.samples, sample].slice(-SYNC_SAMPLES) }
+}
+
+/** Current estimate, or null before the first exchange. */
+export function syncEstimate(sync: ClockSync): SyncEstimate | null {
+  if (sync.samples.length === 0) return null
+  const rtts   = sync.samples.map(s => s.rttMs).sort((a, b) => a - b)
+  const mid    = rtts.length >> 1
+  const median = rtts.length % 2 ? rtts[mid] : (rtts[mid - 1] + rtts[mid]) / 2
+  const best   = sync.samples.reduce((a, b) => (b.rttMs < a.rttMs ? b : a))
+  return { rttMs: median, offsetMs: best.offsetMs }
+}
+
+/** Map a timestamp from the peer's timeline onto ours. */
+export function toLocalTime(remoteAt: number, est: SyncEstimate): number {
+  return remoteAt - est.offsetMs
+}
+
+/** How much earlier than its arrival a remote action may be credited. */
+export function latencyCredit(est: SyncEstimate | null): number {
+  return est ? Math.min(MAX_LATENCY_CREDIT_MS, est.rttMs / 2) : 0
+}
+
+/**
+ * When a remote action counts as having happened: its claimed (local-timeline)
+ * time, clamped into [arrivedAt − creditMs, arrivedAt].
+ */
+export function creditedAt(arrivedAt: number, claimedAt: number | undefined, creditMs: number): number {
+  if (claimedAt === undefined || !Number.isFinite(claimedAt)) return arrivedAt
+  return Math.min(arrivedAt, Math.max(arrivedAt - creditMs, claimedAt))
+}
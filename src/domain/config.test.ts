@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { parseNumericValue, parsePlayers, parseTileCategories } from './config'
+import { parseNumericValue, parsePartyPlayers, parsePlayers, parseTileCategories } from './config'
 import type { PlayerSettings } from '../types'
 
 const DEFAULTS: [PlayerSettings, PlayerSettings] = [
@@ -58,3 +58,20 @@ describe('parsePlayers', () => {
     expect(parsePlayers(null, DEFAULTS)).toBeNull()
   })
 })
+
+describe('parsePartyPlayers', () => {
+  it('parses a roster, filling in missing colours by seat', () => {
+    const r = parsePartyPlayers('[{"name":"A","color":"#111"},{"name":"B"},{"name":"C"}]')
+    expect(r).toEqual([{ name: 'A', color: '#111' }, { name: 'B', color: '#C0C0C0' }, { name: 'C', color: '#ef4444' }])
+  })
+  it('caps the roster at twelve seats', () => {
+    const many = Array.from({ length: 15 }, (_, i) => ({ name: `P${i}`, color: '#000' }))
+    expect(parsePartyPlayers(many)).toHaveLength(12)
+  })
+  it('returns null for too few seats or unusable shapes', () => {
+    expect(parsePartyPlayers([{ name: 'A' }, { name: 'B' }])).toBeNull()
+    expect(parsePartyPlayers([{ name: 'A' }, { name: 'B' }, { noName: 1 }])).toBeNull()
+    expect(parsePartyPlayers('garbage')).toBeNull()
+    expect(parsePartyPlayers(null)).toBeNull()
+  })
+})
@@ -7,6 +7,7 @@
 // tests, so they live here instead of inside the store.
 // ─────────────────────────────────────────────────────────────────────────────
 import type { PlayerSettings } from '../types'
+import { MAX_PARTY, MIN_PARTY, defaultSeat } from './party'
 
 /** jsonb → number. Accepts numbers and numeric strings; null on anything else. */
 export function parseNumericValue(value: unknown): number | null {
@@ -50,3 +51,21 @@ export function parsePlayers(
   } catch { /* ignore */ }
   return null
 }
+
+/**
+ * jsonb → the party roster (domain/party.ts). Same tolerance as parsePlayers;
+ * seats without a colour get the default one, extra seats past MAX_PARTY are
+ * dropped, and fewer than MIN_PARTY named seats is unusable (null).
+ */
+export function parsePartyPlayers(value: unknown): PlayerSettings[] | null {
+  try {
+    const arr: unknown = typeof value === 'string' ? JSON.parse(value) : value
+    if (!Array.isArray(arr) || arr.length < MIN_PARTY) return null
+    if (!arr.every(p => typeof p?.name === 'string')) return null
+    return arr.slice(0, MAX_PARTY).map((p, seat) => ({
+      name:  p.name,
+      color: typeof p.color === 'string' ? p.color : defaultSeat(seat).color,
+    }))
+  } catch { /* ignore */ }
+  return null
+}
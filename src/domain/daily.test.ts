@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import type { CategoryWithQuestions } from './categories'
+import { currentStreak, DAILY_CATEGORIES, DAILY_PER_CATEGORY, dailyDeck, dailyKey, previousDay } from './daily'
+
+const category = (id: string, questions: number): CategoryWithQuestions => ({
+  id, name: id.toUpperCase(), emoji: '🎯', lang: 'pl-PL', created_at: '',
+  questions: Array.from({ length: questions }, (_, i) => ({
+    id: `${id}${i}`, category_id: id, image_path: null, answer: `${id}${i}`, synonyms: [], created_at: '',
+  })),
+})
+
+const cats = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(id => category(id, 10))
+
+describe('daily floor', () => {
+  it('names days in UTC', () => {
+    expect(dailyKey(new Date('2026-10-19T23:30:00-02:00'))).toBe('2026-10-20')
+    expect(previousDay('2026-03-01')).toBe('2026-02-28')
+  })
+
+  it('deals the same deck to everyone on a day, whatever the row order', () => {
+    const deck = dailyDeck(cats, '2026-10-19')
+    expect(deck).toHaveLength(DAILY_CATEGORIES * DAILY_PER_CATEGORY)
+    expect(dailyDeck([...cats].reverse(), '2026-10-19')).toEqual(deck)
+    expect(dailyDeck(cats, '2026-10-20')).not.toEqual(deck)
+  })
+
+  it('plays each category as a block and skips empty ones', () => {
+    const deck = dailyDeck([category('x', 0), category('y', 3)], '2026-10-19')
+    expect(deck.map(c => c.category.id)).toEqual(['y', 'y', 'y'])
+    expect(new Set(deck.map(c => c.question.id)).size).toBe(3)
+    expect(deck[0].category).not.toHaveProperty('questions')
+  })
+
+  it('keeps a streak alive for a day after the last run', () => {
+    expect(currentStreak(null, '2026-10-19')).toBe(0)
+    expect(currentStreak({ day: '2026-10-19', streak: 4 }, '2026-10-19')).toBe(4)
+    expect(currentStreak({ day: '2026-10-18', streak: 4 }, '2026-10-19')).toBe(4)
+    expect(currentStreak({ day: '2026-10-17', streak: 4 }, '2026-10-19')).toBe(0)
+  })
+})
@@ -0,0 +1,65 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/daily.ts — The Daily Floor
+//
+// One board a day, the same for everyone: DAILY_CATEGORIES categories and
+// DAILY_PER_CATEGORY questions from each, in an order drawn from the day's
+// seed (domain/random.ts). Categories and questions are sorted by id before
+// the draw, so every client deals the same deck whatever order the rows came
+// in. The run itself is a time attack (domain/timeAttack.ts). Days are UTC
+// dates, so the board changes for everyone at the same moment. A player's
+// streak counts the days in a row they played; the server keeps it on each
+// result row and here it is only read back.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { Category, Question } from '../types'
+import type { CategoryWithQuestions } from './categories'
+import { shuffle } from './board'
+import { seedFromText, streamRng } from './random'
+
+export const DAILY_CATEGORIES   = 5
+export const DAILY_PER_CATEGORY = 8
+/** The run's clock. */
+export const DAILY_MS           = 90_000
+/** Time a pass takes off the clock. */
+export const DAILY_PASS_PENALTY_MS = 3_000
+
+/** One question of the daily deck, with the category it is shown under. */
+export interface DailyCard {
+  category: Category
+  question: Question
+}
+
+/** The day `date` falls on, as YYYY-MM-DD in UTC. */
+export function dailyKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/** The day before `key`. */
+export function previousDay(key: string): string {
+  const d = new Date(`${key}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() - 1)
+  return dailyKey(d)
+}
+
+export function dailySeed(key: string): number {
+  return seedFromText(`daily:${key}`)
+}
+
+const byId = <T extends { id: string }>(a: T, b: T) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+
+/** The day's deck: categories in draw order, each with its questions in draw order. */
+export function dailyDeck(categories: CategoryWithQuestions[], key: string): DailyCard[] {
+  const seed = dailySeed(key)
+  const playable = categories.filter(c => c.questions.length > 0).sort(byId)
+  return shuffle(playable, streamRng(seed, 'categories'))
+    .slice(0, DAILY_CATEGORIES)
+    .flatMap(({ questions, ...category }) =>
+      shuffle([...questions].sort(byId), streamRng(seed, 'q', category.id))
+        .slice(0, DAILY_PER_CATEGORY)
+        .map(question => ({ category, question })))
+}
+
+/** A streak as of `today`: it still counts on the day after the last run, and lapses after that. */
+export function currentStreak(last: { day: string; streak: number } | null, today: string): number {
+  if (!last) return 0
+  return last.day === today || last.day === previousDay(today) ? last.streak : 0
+}
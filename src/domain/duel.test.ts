@@ -1,9 +1,10 @@
 import { describe, expect, it } from 'vitest'
 import {
-  applyPassPenalty, nextPickerAfterRound, opponentOf, ownerForWinner,
-  resolveRound, winnerAfterTimeout,
+  anchorDuel, applyPassPenalty, clockMs, freezeDuel, nextPickerAfterRound, opponentOf, ownerForWinner,
+  resolveRound, winnerAfterTimeout, withClocks,
 } from './duel'
-import type { Tile } from '../types'
+import { runClock, stoppedClock } from './clock'
+import type { MPDuelState, Tile } from '../types'
 
 const tile = (owner: Tile['owner']): Tile => ({ x: 0, y: 0, categoryId: 'c', categoryName: 'C', owner })
 
@@ -73,4 +74,45 @@ describe('resolveRound', () => {
     const r = resolveRound(tiles, 0, 'draw', 'host')
     expect(r.tiles[0].owner).toBe('silver')
   })
+
+  it('under territory rules the picker attacks and the winner absorbs a whole territory', () => {
+    const tiles: Tile[] = [
+      { ...tile('gold'), x: 0, territory: 0 },
+      { ...tile('silver'), x: 1, territory: 1 },
+      { ...tile('silver'), x: 2, territory: 1 },
+    ]
+    const r = resolveRound(tiles, 1, 'host', 'host', 'territory')
+    expect(r.tiles.map(t => t.owner)).toEqual(['gold', 'gold', 'gold'])
+    expect(r.hostScore).toBe(3)
+    expect(r.nextPicker).toBe('guest')
+  })
+})
+
+describe('duel clocks across machines', () => {
+  const duel: MPDuelState = {
+    tileIdx: 0, categoryId: 'c', categoryName: 'C', emoji: '🎯', questionId: 'q1', usedQuestionIds: ['q1'],
+    clockHost: runClock(stoppedClock(10_000), 1_000), clockGuest: stoppedClock(8_000),
+    active: 'host', started: true, paused: false, lang: 'pl-PL',
+  }
+
+  it('freezes running clocks into plain ms for the wire', () => {
+    const frozen = freezeDuel(duel, 3_500)
+    expect(frozen.clockHost).toEqual(stoppedClock(7_500))
+    expect(clockMs(duel, 3_500)).toEqual({ hostMs: 7_500, guestMs: 8_000 })
+  })
+
+  it('re-anchors a frozen live duel on the receiver\'s clock', () => {
+    const local = anchorDuel(freezeDuel(duel, 3_500), 90_000)
+    expect(local.clockHost).toEqual({ remainingMs: 7_500, runningSince: 90_000 })
+    expect(local.clockGuest).toEqual(stoppedClock(8_000))
+    expect(anchorDuel({ ...duel, paused: true }, 90_000).clockHost.runningSince).toBeNull()
+  })
+
+  it('withClocks runs only the active clock, and only if running', () => {
+    const g = { ...duel, active: 'guest' as const }
+    expect(withClocks(g, 5_000, 6_000, true, 42)).toMatchObject({
+      clockHost: stoppedClock(5_000), clockGuest: { remainingMs: 6_000, runningSince: 42 },
+    })
+    expect(withClocks(g, 5_000, 6_000, false, 42).clockGuest).toEqual(stoppedClock(6_000))
+  })
 })
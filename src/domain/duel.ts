@@ -7,8 +7,10 @@
 // useMultiplayerStore. Keeping them here removes that drift risk and makes the
 // rules unit-testable in isolation from realtime/Zustand side effects.
 // ─────────────────────────────────────────────────────────────────────────────
-import type { MPActivePlayer, Tile, TileOwner } from '../types'
+import type { MPActivePlayer, MPDuelState, Tile, TileOwner } from '../types'
 import { countOwned } from './board'
+import { remainingAt, runClock, stopClock, stoppedClock, type DuelClock } from './clock'
+import { resolveTerritoryRound, type RulesMode, type Side } from './territory'
 
 export type RoundWinner = MPActivePlayer | 'draw'
 
@@ -27,6 +29,39 @@ export function applyPassPenalty(timer: number, penalty: number): number {
   return Math.max(0, timer - penalty)
 }
 
+/** Key of a player's clock in MPDuelState. */
+export function clockKey(player: MPActivePlayer): 'clockHost' | 'clockGuest' {
+  return player === 'host' ? 'clockHost' : 'clockGuest'
+}
+
+/**
+ * The duel with both clocks stopped at `now` — the form it is broadcast and
+ * stored in, since a running clock's timestamp only means something locally.
+ */
+export function freezeDuel(duel: MPDuelState, now: number): MPDuelState {
+  return { ...duel, clockHost: stopClock(duel.clockHost, now), clockGuest: stopClock(duel.clockGuest, now) }
+}
+
+/**
+ * Set the clocks from received ms values: the active one runs from `now` if
+ * the duel is live, the other stays stopped.
+ */
+export function withClocks(duel: MPDuelState, hostMs: number, guestMs: number, running: boolean, now: number): MPDuelState {
+  const start = (player: MPActivePlayer, ms: number): DuelClock =>
+    running && duel.active === player ? runClock(stoppedClock(ms), now) : stoppedClock(ms)
+  return { ...duel, clockHost: start('host', hostMs), clockGuest: start('guest', guestMs) }
+}
+
+/** Re-anchor a frozen duel (from a snapshot or the DB) on this machine's clock. */
+export function anchorDuel(duel: MPDuelState, now: number): MPDuelState {
+  return withClocks(duel, duel.clockHost.remainingMs, duel.clockGuest.remainingMs, duel.started && !duel.paused, now)
+}
+
+/** Both clocks in ms as of `now`, for an event payload. */
+export function clockMs(duel: MPDuelState, now: number): { hostMs: number; guestMs: number } {
+  return { hostMs: remainingAt(duel.clockHost, now), guestMs: remainingAt(duel.clockGuest, now) }
+}
+
 /**
  * Tile colour claimed by a round winner. Host→gold, guest→silver; a draw leaves
  * the tile as it was.
@@ -54,20 +89,30 @@ export interface RoundResolution {
   nextPicker: MPActivePlayer
 }
 
+/** Tile colour of a player: host→gold, guest→silver. */
+export function sideOf(player: MPActivePlayer): Side {
+  return player === 'host' ? 'gold' : 'silver'
+}
+
 /**
  * Resolve a finished round into the next board state. Claims the tile at
  * `tileIdx` for the winner (a negative index leaves the board untouched — used
  * for game-end summaries), recounts scores, and decides the next picker.
+ * Under territory rules the picker was the challenger, and the winner absorbs
+ * the loser's whole territory instead (domain/territory.ts).
  */
 export function resolveRound(
   tiles:         Tile[],
   tileIdx:       number,
   winner:        RoundWinner,
   currentPicker: MPActivePlayer,
+  mode:          RulesMode = 'classic',
 ): RoundResolution {
-  const newTiles = tileIdx >= 0
-    ? tiles.map((t, i) => (i === tileIdx ? { ...t, owner: ownerForWinner(winner, t.owner) } : t))
-    : tiles
+  const newTiles = tileIdx < 0
+    ? tiles
+    : mode === 'territory'
+      ? resolveTerritoryRound(tiles, tileIdx, sideOf(currentPicker), winner === 'draw' ? 'draw' : sideOf(winner))
+      : tiles.map((t, i) => (i === tileIdx ? { ...t, owner: ownerForWinner(winner, t.owner) } : t))
   return {
     tiles:      newTiles,
     hostScore:  countOwned(newTiles, 'gold'),
@@ -0,0 +1,291 @@
+import { describe, expect, it } from 'vitest'
+import type { MPDuelState, Tile, TileOwner } from '../types'
+import { DEFAULT_VICTORY } from './board'
+import { remainingAt, runClock, stoppedClock } from './clock'
+import {
+  GAME_END_DELAY_MS, TIMEOUT_REVEAL_MS, hostStep,
+  type HostEffect, type HostIntent, type HostRules, type HostState,
+} from './hostEngine'
+import { NO_LIMITS } from './matchLimit'
+
+const rules: HostRules = {
+  passPenalty: 5,
+  feedbackMs:  800,
+  questionIds: () => ['q1', 'q2'],
+  answerOf:    (id) => `answer-${id}`,
+  graceMs:     () => 0,
+  mode:        'classic',
+  limits:      NO_LIMITS,
+  victory:     DEFAULT_VICTORY,
+  suddenDeath: false,
+}
+
+const tiles = (...owners: TileOwner[]): Tile[] =>
+  owners.map((owner, i) => ({ x: i, y: 0, categoryId: 'c', categoryName: 'C', owner }))
+
+const duel = (over: Partial<MPDuelState> = {}): MPDuelState => ({
+  tileIdx: 0, categoryId: 'c', categoryName: 'C', emoji: '🎯',
+  questionId: 'q1', usedQuestionIds: ['q1'],
+  clockHost: runClock(stoppedClock(10_000), 0), clockGuest: stoppedClock(10_000),
+  active: 'host', started: true, paused: false, lang: 'pl-PL',
+  ...over,
+})
+
+const state = (over: Partial<HostState> = {}): HostState => ({
+  tiles: tiles('neutral', 'neutral', 'neutral', 'neutral'),
+  duel: duel(), picker: 'host', hostScore: 0, guestScore: 0, winner: null,
+  roundNo: 0, answers: [], busy: false, duelsWon: {}, matchClock: null, showdown: null, seed: 1,
+  ...over,
+})
+
+const step = (s: HostState, intent: HostIntent, now = 0) => hostStep(s, intent, now, rules)
+const ofType = <T extends HostEffect['type']>(effects: HostEffect[], type: T) =>
+  effects.filter((e): e is Extract<HostEffect, { type: T }> => e.type === type)
+
+describe('hostStep — clock', () => {
+  const paused = () => duel({ paused: true, clockHost: stoppedClock(10_000) })
+
+  it('start_clock runs the active clock and schedules the timeout at its deadline', () => {
+    const r = step(state({ duel: paused() }), { type: 'start_clock' }, 5_000)
+    expect(r.state.duel).toMatchObject({ paused: false, clockHost: { remainingMs: 10_000, runningSince: 5_000 } })
+    expect(ofType(r.effects, 'persist')).toHaveLength(1)
+    expect(ofType(r.effects, 'broadcast')[0].event).toEqual({ type: 'clock', hostMs: 10_000, guestMs: 10_000, running: true })
+    expect(ofType(r.effects, 'schedule')[0]).toEqual({ type: 'schedule', at: 15_000, intent: { type: 'timeout' } })
+  })
+
+  it('pause_clock banks the time run so far and cancels the timeout', () => {
+    const r = step(state(), { type: 'pause_clock' }, 2_350)
+    expect(r.state.duel).toMatchObject({ paused: true, clockHost: { remainingMs: 7_650, runningSince: null } })
+    expect(r.effects[0]).toEqual({ type: 'cancel', timer: 'timeout' })
+    expect(ofType(r.effects, 'broadcast')[0].event).toEqual({ type: 'clock', hostMs: 7_650, guestMs: 10_000, running: false })
+  })
+
+  it('a timeout that fires early waits for the real deadline', () => {
+    const r = step(state(), { type: 'timeout' }, 9_990)
+    expect(r.state.duel?.paused).toBe(false)
+    expect(r.effects).toEqual([{ type: 'schedule', at: 10_000, intent: { type: 'timeout' } }])
+  })
+
+  it('running out freezes the duel and schedules the round for the opponent', () => {
+    const r = step(state(), { type: 'timeout' }, 10_004)
+    expect(r.state.duel).toMatchObject({ clockHost: stoppedClock(0), paused: true })
+    expect(ofType(r.effects, 'feedback')[0].feedbackType).toBe('timeout')
+    expect(ofType(r.effects, 'broadcast')[0].event).toEqual({ type: 'clock', hostMs: 0, guestMs: 10_000, running: false })
+    expect(ofType(r.effects, 'schedule')[0]).toEqual({
+      type: 'schedule', at: 10_004 + TIMEOUT_REVEAL_MS, intent: { type: 'end_round', winner: 'guest' },
+    })
+  })
+
+  it('a paused duel ignores a stray timeout', () => {
+    expect(step(state({ duel: paused() }), { type: 'timeout' }, 20_000).effects).toEqual([])
+  })
+})
+
+describe('hostStep — answers', () => {
+  it('a correct answer is revealed, logged and hands over after feedbackMs', () => {
+    const r = step(state(), { type: 'answer', player: 'host', result: 'correct' }, 3_000)
+    expect(r.state.busy).toBe(true)
+    expect(r.state.duel?.clockHost).toEqual(stoppedClock(7_000))
+    expect(r.state.answers).toEqual([{ player: 'host', questionId: 'q1', result: 'correct' }])
+    expect(ofType(r.effects, 'broadcast')[1].event).toEqual({ type: 'correct', player: 'host', answer: 'answer-q1' })
+    expect(ofType(r.effects, 'schedule')[0]).toEqual({
+      type: 'schedule', at: 3_800, intent: { type: 'advance', player: 'host', result: 'correct' },
+    })
+
+    const next = step(r.state, { type: 'advance', player: 'host', result: 'correct' }, 3_800)
+    expect(next.state.busy).toBe(false)
+    expect(next.state.duel).toMatchObject({ active: 'guest', questionId: 'q2', usedQuestionIds: ['q1', 'q2'], paused: false })
+    expect(next.state.duel?.clockGuest).toEqual({ remainingMs: 10_000, runningSince: 3_800 })
+    expect(ofType(next.effects, 'broadcast')[0].event).toEqual({ type: 'next_question', questionId: 'q2', active: 'guest', hostMs: 7_000, guestMs: 10_000 })
+    expect(ofType(next.effects, 'schedule')[0]).toEqual({ type: 'schedule', at: 13_800, intent: { type: 'timeout' } })
+  })
+
+  it('ignores answers out of turn, before the fight, while paused or while busy', () => {
+    const guest = { type: 'answer', player: 'guest', result: 'correct' } as const
+    const host  = { type: 'answer', player: 'host',  result: 'pass' } as const
+    expect(step(state(), guest).effects).toEqual([])
+    expect(step(state({ duel: duel({ started: false }) }), host).effects).toEqual([])
+    expect(step(state({ duel: duel({ paused: true }) }), host).effects).toEqual([])
+    expect(step(state({ busy: true }), host).effects).toEqual([])
+  })
+
+  it('an answer after the deadline loses to the clock even if the timeout has not fired', () => {
+    const r = step(state(), { type: 'answer', player: 'host', result: 'correct' }, 10_500)
+    expect(r.state).toMatchObject({ busy: false, answers: [] })
+    expect(r.state.duel).toMatchObject({ clockHost: stoppedClock(0), paused: true })
+    expect(ofType(r.effects, 'schedule')[0].intent).toEqual({ type: 'end_round', winner: 'guest' })
+  })
+
+  it('a pass keeps the turn and costs the passer the penalty', () => {
+    const guest = duel({ active: 'guest', clockHost: stoppedClock(10_000), clockGuest: runClock(stoppedClock(8_000), 0) })
+    const s = step(state({ duel: guest }), { type: 'answer', player: 'guest', result: 'pass' }, 500).state
+    const r = step(s, { type: 'advance', player: 'guest', result: 'pass' }, 1_300)
+    expect(r.state.duel).toMatchObject({ active: 'guest', clockHost: stoppedClock(10_000) })
+    expect(remainingAt(r.state.duel!.clockGuest, 1_300)).toBe(2_500)
+    expect(ofType(r.effects, 'schedule')[0]).toEqual({ type: 'schedule', at: 3_800, intent: { type: 'timeout' } })
+  })
+
+  it('a pass that empties the clock times the passer out', () => {
+    const s = step(state({ duel: duel({ clockHost: runClock(stoppedClock(4_000), 0) }) }), { type: 'answer', player: 'host', result: 'pass' }).state
+    const r = step(s, { type: 'advance', player: 'host', result: 'pass' })
+    expect(r.state.duel).toMatchObject({ clockHost: stoppedClock(0), paused: true })
+    expect(ofType(r.effects, 'schedule')[0].intent).toEqual({ type: 'end_round', winner: 'guest' })
+  })
+})
+
+describe('hostStep — latency credit', () => {
+  const lagged: HostRules = { ...rules, graceMs: (p) => (p === 'guest' ? 200 : 0) }
+  const guestTurn = () => state({
+    duel: duel({ active: 'guest', clockHost: stoppedClock(10_000), clockGuest: runClock(stoppedClock(10_000), 0) }),
+  })
+
+  it('stops the guest clock when the answer was given, within the grace', () => {
+    const r = hostStep(guestTurn(), { type: 'answer', player: 'guest', result: 'correct', at: 4_880 }, 5_000, lagged)
+    expect(r.state.duel?.clockGuest).toEqual(stoppedClock(5_120))
+    const capped = hostStep(guestTurn(), { type: 'answer', player: 'guest', result: 'correct', at: 1_000 }, 5_000, lagged)
+    expect(capped.state.duel?.clockGuest).toEqual(stoppedClock(5_200))
+  })
+
+  it('holds the guest timeout open for the grace and credits an answer given in time', () => {
+    const started = hostStep(guestTurn(), { type: 'pause_clock' }, 0, lagged).state
+    const r = hostStep(started, { type: 'start_clock' }, 0, lagged)
+    expect(ofType(r.effects, 'schedule')[0].at).toBe(10_200)
+    expect(hostStep(r.state, { type: 'timeout' }, 10_050, lagged).effects).toEqual([{ type: 'schedule', at: 10_200, intent: { type: 'timeout' } }])
+
+    const late = hostStep(r.state, { type: 'answer', player: 'guest', result: 'correct', at: 9_990 }, 10_150, lagged)
+    expect(late.state.busy).toBe(true)
+    expect(late.state.duel?.clockGuest).toEqual(stoppedClock(10))
+  })
+
+  it('gives the host no credit for its own answers', () => {
+    const r = hostStep(state(), { type: 'answer', player: 'host', result: 'correct', at: 2_000 }, 3_000, lagged)
+    expect(r.state.duel?.clockHost).toEqual(stoppedClock(7_000))
+  })
+})
+
+describe('hostStep — rounds and match end', () => {
+  it('end_round claims the tile, scores, advances the picker and logs the round', () => {
+    const s = state({ roundNo: 2, answers: [{ player: 'host', questionId: 'q1', result: 'correct' }] })
+    const r = step(s, { type: 'end_round', winner: 'host' })
+    expect(r.state.tiles[0].owner).toBe('gold')
+    expect(r.state).toMatchObject({ hostScore: 1, guestScore: 0, winner: 'host', roundNo: 3, answers: [] })
+    expect(ofType(r.effects, 'persist')[0]).toMatchObject({ duel: null, hostScore: 1 })
+    expect(ofType(r.effects, 'record_round')[0].record).toMatchObject({ roundNo: 3, winner: 'host', tileIdx: 0, picker: 'host', showdown: false })
+  })
+
+  it('close_duel on an open board just closes the duel', () => {
+    const r = step(state({ winner: 'host' }), { type: 'close_duel' })
+    expect(r.state).toMatchObject({ duel: null, winner: null })
+    expect(ofType(r.effects, 'broadcast')[0].event).toEqual({ type: 'duel_close' })
+    expect(ofType(r.effects, 'schedule')).toEqual([])
+  })
+
+  it('close_duel on a decided board announces the winner and schedules the finish', () => {
+    const r = step(state({ tiles: tiles('gold', 'gold', 'gold', 'silver') }), { type: 'close_duel' }, 10_000)
+    expect(r.state.winner).toBe('host')
+    expect(ofType(r.effects, 'broadcast')[0].event).toEqual({ type: 'round_end', winner: 'host', tileIdx: -1, hostScore: 3, guestScore: 1 })
+    const finish = ofType(r.effects, 'schedule')[0]
+    expect(finish.at).toBe(10_000 + GAME_END_DELAY_MS)
+
+    expect(step(r.state, finish.intent).effects).toEqual([
+      { type: 'settle', winner: 'host', margin: 2, hostTiles: 3, guestTiles: 1 },
+    ])
+  })
+
+  it('close_duel ends the match on the lobby victory policy', () => {
+    const s = state({ tiles: tiles('gold', 'silver', 'silver', 'neutral') })
+    expect(step(s, { type: 'close_duel' }).state.winner).toBeNull()
+    const firstTo2: HostRules = { ...rules, victory: { ...DEFAULT_VICTORY, kind: 'first_to', tiles: 2 } }
+    expect(hostStep(s, { type: 'close_duel' }, 0, firstTo2).state.winner).toBe('guest')
+  })
+
+  it('under territory rules the picker absorbs a territory and elimination ends the match', () => {
+    const territory: HostRules = { ...rules, mode: 'territory' }
+    const board = tiles('gold', 'silver', 'silver', 'silver').map((t, i) => ({ ...t, territory: i === 0 ? 0 : 1 }))
+    const s = state({ tiles: board, duel: duel({ tileIdx: 1 }), picker: 'host' })
+    const r = hostStep(s, { type: 'end_round', winner: 'host' }, 0, territory)
+    expect(r.state.tiles.map(t => t.owner)).toEqual(['gold', 'gold', 'gold', 'gold'])
+    expect(r.state).toMatchObject({ hostScore: 4, guestScore: 0, picker: 'guest' })
+
+    const closed = hostStep(r.state, { type: 'close_duel' }, 0, territory)
+    expect(closed.state.winner).toBe('host')
+    expect(ofType(closed.effects, 'schedule')[0].intent).toMatchObject({ type: 'finish', winner: 'host', hostTiles: 4 })
+    // 3 of 4 decides a classic match; under territory rules silver is still in it
+    const lead = tiles('gold', 'gold', 'gold', 'silver')
+    expect(ofType(hostStep(state({ tiles: lead }), { type: 'close_duel' }, 0, territory).effects, 'schedule')).toEqual([])
+  })
+
+  it('a round limit ends the match at the next close, tiles level going to the most duels won', () => {
+    const limited: HostRules = { ...rules, limits: { maxRounds: 2, clockMs: 0 } }
+    const s = state({ tiles: tiles('gold', 'silver', 'neutral', 'neutral'), duel: duel({ tileIdx: 2 }), roundNo: 1, duelsWon: { gold: 1 } })
+    const r = hostStep(s, { type: 'end_round', winner: 'guest' }, 0, limited)
+    expect(r.state.duelsWon).toEqual({ gold: 1, silver: 1 })
+    expect(ofType(r.effects, 'broadcast').map(e => e.event)).toContainEqual({ type: 'match_status', roundsPlayed: 2, matchMs: null })
+
+    // Silver now leads on tiles
+    const closed = hostStep(r.state, { type: 'close_duel' }, 0, limited)
+    expect(closed.state.winner).toBe('guest')
+    expect(ofType(closed.effects, 'feedback')[0].text).toContain('Limit rund')
+    const level = hostStep(state({ tiles: tiles('gold', 'silver'), roundNo: 2, duelsWon: { gold: 2, silver: 1 } }), { type: 'close_duel' }, 0, limited)
+    expect(level.state.winner).toBe('host')
+    const draw = hostStep(state({ tiles: tiles('gold', 'silver'), roundNo: 2, duelsWon: { gold: 1, silver: 1 } }), { type: 'close_duel' }, 0, limited)
+    expect(draw.state.winner).toBe('draw')
+  })
+
+  it('the match clock ends the match between duels and waits out a duel in progress', () => {
+    const clocked: HostRules = { ...rules, limits: { maxRounds: 0, clockMs: 60_000 } }
+    const started = hostStep(state({ duel: null }), { type: 'start_match' }, 1_000, clocked)
+    expect(ofType(started.effects, 'schedule')[0]).toEqual({ type: 'schedule', at: 61_000, intent: { type: 'match_clock' } })
+    expect(ofType(started.effects, 'broadcast')[0].event).toEqual({ type: 'match_status', roundsPlayed: 0, matchMs: 60_000 })
+
+    const early = hostStep(started.state, { type: 'match_clock' }, 60_990, clocked)
+    expect(ofType(early.effects, 'schedule')[0].at).toBe(61_000)
+
+    const leading = { ...started.state, tiles: tiles('gold', 'gold', 'silver', 'neutral') }
+    expect(hostStep({ ...leading, duel: duel() }, { type: 'match_clock' }, 61_000, clocked).effects).toEqual([])
+    const closed = hostStep({ ...leading, duel: duel() }, { type: 'close_duel' }, 62_000, clocked)
+    expect(closed.state.winner).toBe('host')
+    const between = hostStep(leading, { type: 'match_clock' }, 61_000, clocked)
+    expect(between.state.winner).toBe('host')
+    expect(ofType(between.effects, 'schedule')[0].intent).toMatchObject({ type: 'finish', winner: 'host', hostTiles: 2, guestTiles: 1 })
+  })
+
+  it('with sudden death a drawn match goes to a showdown that decides it, board untouched', () => {
+    const sudden: HostRules = { ...rules, limits: { maxRounds: 2, clockMs: 0 }, suddenDeath: true }
+    const level = state({ tiles: tiles('gold', 'silver', 'neutral'), roundNo: 2, duelsWon: { gold: 1, silver: 1 } })
+    const drawn = hostStep(level, { type: 'close_duel' }, 0, sudden)
+    expect(drawn.state).toMatchObject({ winner: null, showdown: 'pending' })
+    expect(ofType(drawn.effects, 'open_showdown')).toHaveLength(1)
+    expect(ofType(drawn.effects, 'broadcast').map(e => e.event)).toContainEqual({ type: 'showdown' })
+    expect(ofType(drawn.effects, 'schedule')).toEqual([])
+
+    // The limit is spent, but only the showdown's result counts now
+    const played = hostStep({ ...drawn.state, duel: duel({ tileIdx: 2 }) }, { type: 'end_round', winner: 'guest' }, 0, sudden)
+    expect(played.state.tiles.map(t => t.owner)).toEqual(['gold', 'silver', 'neutral'])
+    expect(played.state.showdown).toBe('guest')
+    expect(ofType(played.effects, 'broadcast')[0].event).toMatchObject({ type: 'round_end', winner: 'guest', tileIdx: -1 })
+    expect(ofType(played.effects, 'record_round')[0].record).toMatchObject({ tileIdx: 2, showdown: true })
+    const closed = hostStep(played.state, { type: 'close_duel' }, 0, sudden)
+    expect(closed.state.winner).toBe('guest')
+    expect(ofType(closed.effects, 'schedule')[0].intent).toMatchObject({ type: 'finish', winner: 'guest' })
+    expect(hostStep(played.state, { type: 'match_clock' }, 0, sudden).effects).toEqual([])
+  })
+
+  it('start_match resumes a saved match clock, or runs none', () => {
+    const clocked: HostRules = { ...rules, limits: { maxRounds: 0, clockMs: 60_000 } }
+    const resumed = hostStep(state(), { type: 'start_match', matchMs: 5_000 }, 100, clocked)
+    expect(ofType(resumed.effects, 'schedule')[0].at).toBe(5_100)
+    const none = step(state(), { type: 'start_match' })
+    expect(none.state.matchClock).toBeNull()
+    expect(ofType(none.effects, 'schedule')).toEqual([])
+  })
+
+  it('never mutates its input', () => {
+    const s = state()
+    const frozen = JSON.stringify(s)
+    step(s, { type: 'timeout' }, 20_000)
+    step(s, { type: 'answer', player: 'host', result: 'correct' })
+    step(s, { type: 'end_round', winner: 'guest' })
+    expect(JSON.stringify(s)).toBe(frozen)
+  })
+})
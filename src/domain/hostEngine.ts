@@ -0,0 +1,352 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/hostEngine.ts — The multiplayer host as a pure state machine
+//
+// The host drives every duel: it runs the clocks, takes answers (its own and
+// the guest's intents), reveals them, draws the next question, ends rounds
+// and notices when the board is decided. All of that used to live inside the
+// Zustand closure, interleaved with setTimeouts, broadcasts and DB writes.
+// Here it is one reducer: (state, intent, now) → (state, effects). Time only
+// enters through `now`, and "later" is a `schedule` effect — the caller owns
+// the real timers, the channel and the database, and feeds scheduled intents
+// back in when they fire. Bots and replays drive the same function.
+// The duel clocks are deadlines (domain/clock.ts): the engine schedules one
+// `timeout` for the moment the active clock runs out instead of ticking.
+// Guest answers arrive late by the network; rules.graceMs (domain/clockSync)
+// lets an answer count from when it was given, and holds the guest's timeout
+// open that long so such an answer is not beaten by the host's own timer.
+// Under classic rules the board ends the match on the lobby's victory policy
+// (rules.victory, domain/board.ts), 75% of the board by default. Under
+// territory rules (rules.mode) rounds absorb whole territories and the match
+// ends when a player is eliminated, whatever the policy.
+// Match limits (rules.limits, domain/matchLimit.ts) end it after a number of
+// rounds or on a match clock, which the engine runs from `start_match`.
+// With rules.suddenDeath a drawn match is not settled: the engine asks for a
+// showdown duel (domain/suddenDeath.ts) and its winner takes the match.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { MPActivePlayer, MPDuelState, MPEvent, Tile } from '../types'
+import { countOwned, evaluateVictory, type VictoryPolicy } from './board'
+import { chargeClock, deadlineOf, remainingAt, runClock, stopClock, stoppedClock, type DuelClock } from './clock'
+import { creditedAt } from './clockSync'
+import { territoryOutcome, type RulesMode } from './territory'
+import {
+  clockKey, clockMs, opponentOf, resolveRound, sideOf, winnerAfterTimeout, type RoundWinner,
+} from './duel'
+import {
+  limitLeader, limitReached, matchTimeLeft, tallyWin, type DuelTally, type LimitReason, type MatchLimits,
+} from './matchLimit'
+import { pickNextQuestionId } from './questions'
+import { streamRng } from './random'
+import { buildRoundRecord, type RoundAnswer, type RoundRecord } from './rounds'
+
+/** "Time's up" stays on screen this long before the round is scored. */
+export const TIMEOUT_REVEAL_MS = 1_200
+/** Final board on screen this long before the match is settled. */
+export const GAME_END_DELAY_MS = 3_000
+
+export interface HostState {
+  tiles:      Tile[]
+  duel:       MPDuelState | null
+  picker:     MPActivePlayer
+  hostScore:  number
+  guestScore: number
+  winner:     RoundWinner | null
+  roundNo:    number
+  answers:    RoundAnswer[]   // this round's log, for game_rounds
+  /** Duels won by gold (host) and silver (guest), the tiebreak when a limit ends the match. */
+  duelsWon:   DuelTally
+  /** Running from `start_match`; null without a match clock. */
+  matchClock: DuelClock | null
+  /** An answer is being revealed and the next question is scheduled. */
+  busy:       boolean
+  /** Sudden death after a drawn match: the showdown is being played, or who won it. */
+  showdown:   'pending' | MPActivePlayer | null
+  /** The game's seed (domain/random.ts): the questions drawn follow from it. */
+  seed:       number
+}
+
+export interface HostRules {
+  passPenalty: number
+  feedbackMs:  number
+  /** Every question id of a category, to draw the next question from. */
+  questionIds: (categoryId: string) => string[]
+  /** Answer text shown when a question is answered or passed. */
+  answerOf:    (questionId: string) => string
+  /** Latency credit for a player's answers, in ms (0 for the host's own). */
+  graceMs:     (player: MPActivePlayer) => number
+  mode:        RulesMode
+  limits:      MatchLimits
+  victory:     VictoryPolicy
+  /** A drawn match goes to a showdown duel instead of being settled. */
+  suddenDeath: boolean
+}
+
+/** Intents the host engine reacts to. The last five only arrive via `schedule`. */
+export type HostIntent =
+  // `matchMs`: match clock to run (a resumed game's remainder); default rules.limits
+  | { type: 'start_match'; matchMs?: number | null }
+  | { type: 'start_clock' }
+  | { type: 'pause_clock' }
+  // `at`: when the answer was given, on the host's timeline; credited up to graceMs back
+  | { type: 'answer';    player: MPActivePlayer; result: 'correct' | 'pass'; at?: number }
+  | { type: 'close_duel' }
+  | { type: 'timeout' }
+  | { type: 'advance';   player: MPActivePlayer; result: 'correct' | 'pass' }
+  | { type: 'end_round'; winner: RoundWinner }
+  | { type: 'finish';    winner: RoundWinner; margin: number; hostTiles: number; guestTiles: number }
+  | { type: 'match_clock' }
+
+export type TimedIntent = Extract<HostIntent, { type: 'timeout' | 'advance' | 'end_round' | 'finish' | 'match_clock' }>
+
+export type HostEffect =
+  | { type: 'broadcast';    event: MPEvent }
+  | { type: 'feedback';     text: string; feedbackType: 'correct' | 'pass' | 'timeout' | 'voice' }
+  | { type: 'persist';      tiles?: Tile[]; duel?: MPDuelState | null; hostScore?: number; guestScore?: number }
+  | { type: 'record_round'; record: RoundRecord }
+  /** Feed `intent` back at `at` (ms, same clock as `now`). Replaces a pending one of the same type. */
+  | { type: 'schedule';     at: number; intent: TimedIntent }
+  | { type: 'cancel';       timer: TimedIntent['type'] }
+  /** A drawn match goes to a showdown — open its duel on a random category. */
+  | { type: 'open_showdown' }
+  /** The board is decided — settle the match and announce the result. */
+  | { type: 'settle';       winner: RoundWinner; margin: number; hostTiles: number; guestTiles: number }
+
+export interface HostStep {
+  state:   HostState
+  effects: HostEffect[]
+}
+
+const unchanged = (state: HostState): HostStep => ({ state, effects: [] })
+
+// The broadcast that tells followers where both clocks stand.
+const clockEvent = (duel: MPDuelState, now: number, running: boolean): HostEffect =>
+  ({ type: 'broadcast', event: { type: 'clock', ...clockMs(duel, now), running } })
+
+// Rounds played and match time left, for the followers' HUD.
+const statusEvent = (state: HostState, now: number): HostEffect =>
+  ({ type: 'broadcast', event: { type: 'match_status', roundsPlayed: state.roundNo, matchMs: matchTimeLeft(state.matchClock, now) } })
+
+// When the active clock's timeout may fire: its deadline, plus the window in
+// which a late-arriving answer from that player could still be credited.
+const timeoutAt = (duel: MPDuelState, now: number, rules: HostRules): number =>
+  (deadlineOf(duel[clockKey(duel.active)]) ?? now) + rules.graceMs(duel.active)
+
+// Run the active clock from `now` and schedule its timeout.
+function startActive(state: HostState, duel: MPDuelState, effects: HostEffect[], now: number, rules: HostRules): HostStep {
+  const key     = clockKey(duel.active)
+  const running = { ...duel, [key]: runClock(duel[key], now) }
+  return {
+    state: { ...state, duel: running },
+    effects: [...effects, { type: 'schedule', at: timeoutAt(running, now, rules), intent: { type: 'timeout' } }],
+  }
+}
+
+// The active clock hit zero: freeze, reveal, score the round shortly after.
+function timeUp(state: HostState, duel: MPDuelState, effects: HostEffect[], now: number): HostStep {
+  const key    = clockKey(duel.active)
+  const frozen = { ...duel, [key]: stoppedClock(0), paused: true }
+  const text = '⏰ Czas minął!'
+  return {
+    state: { ...state, duel: frozen },
+    effects: [
+      ...effects,
+      { type: 'cancel', timer: 'timeout' },
+      clockEvent(frozen, now, false),
+      { type: 'feedback', text, feedbackType: 'timeout' },
+      { type: 'broadcast', event: { type: 'feedback', text, feedbackType: 'timeout' } },
+      { type: 'schedule', at: now + TIMEOUT_REVEAL_MS, intent: { type: 'end_round', winner: winnerAfterTimeout(duel.active) } },
+    ],
+  }
+}
+
+// Announce a limit ending the match, on both screens.
+function limitNotice(reason: LimitReason): HostEffect[] {
+  const text = reason === 'rounds' ? '🏁 Limit rund — wygrywa prowadzący!' : '⏰ Koniec czasu meczu!'
+  return [
+    { type: 'feedback', text, feedbackType: 'timeout' },
+    { type: 'broadcast', event: { type: 'feedback', text, feedbackType: 'timeout' } },
+  ]
+}
+
+// The match is decided (in tile colours): show the final board, settle shortly after.
+// A first draw under sudden death goes to the showdown instead.
+function decide(state: HostState, winner: 'gold' | 'silver' | 'draw', effects: HostEffect[], now: number, rules: HostRules): HostStep {
+  if (winner === 'draw' && rules.suddenDeath && state.showdown === null) {
+    const text = '⚔️ Remis — dogrywka: pojedynek o wszystko!'
+    return {
+      state: { ...state, showdown: 'pending' },
+      effects: [
+        ...effects,
+        { type: 'cancel', timer: 'match_clock' },
+        { type: 'feedback', text, feedbackType: 'timeout' },
+        { type: 'broadcast', event: { type: 'feedback', text, feedbackType: 'timeout' } },
+        { type: 'broadcast', event: { type: 'showdown' } },
+        { type: 'open_showdown' },
+      ],
+    }
+  }
+  const gold   = countOwned(state.tiles, 'gold')
+  const silver = countOwned(state.tiles, 'silver')
+  // Board outcome is decided in tile colours; map gold→host, silver→guest
+  const role: RoundWinner = winner === 'gold' ? 'host' : winner === 'silver' ? 'guest' : 'draw'
+  return {
+    state: { ...state, winner: role },
+    effects: [
+      ...effects,
+      { type: 'cancel', timer: 'match_clock' },
+      { type: 'broadcast', event: { type: 'round_end', winner: role, tileIdx: -1, hostScore: gold, guestScore: silver } },
+      { type: 'schedule', at: now + GAME_END_DELAY_MS, intent: { type: 'finish', winner: role, margin: Math.abs(gold - silver), hostTiles: gold, guestTiles: silver } },
+    ],
+  }
+}
+
+/** Apply one intent at time `now`. Intents that make no sense in `state` are ignored. */
+export function hostStep(state: HostState, intent: HostIntent, now: number, rules: HostRules): HostStep {
+  const d = state.duel
+
+  switch (intent.type) {
+    case 'start_match': {
+      const ms = intent.matchMs === undefined ? (rules.limits.clockMs > 0 ? rules.limits.clockMs : null) : intent.matchMs
+      const matchClock = ms === null ? null : runClock(stoppedClock(ms), now)
+      const started = { ...state, matchClock }
+      const effects: HostEffect[] = [statusEvent(started, now)]
+      if (matchClock) effects.push({ type: 'schedule', at: deadlineOf(matchClock) ?? now, intent: { type: 'match_clock' } })
+      return { state: started, effects }
+    }
+
+    case 'match_clock': {
+      const left = matchTimeLeft(state.matchClock, now)
+      if (left === null || state.showdown !== null || (state.winner !== null && !d)) return unchanged(state)
+      // Timers may fire a little early; wait out the rest
+      if (left > 0) return { state, effects: [{ type: 'schedule', at: now + left, intent: { type: 'match_clock' } }] }
+      // A duel under way is played out — close_duel ends the match after it
+      if (d) return unchanged(state)
+      return decide(state, limitLeader(state.tiles, ['gold', 'silver'], state.duelsWon) ?? 'draw', limitNotice('clock'), now, rules)
+    }
+
+    case 'start_clock': {
+      if (!d?.started) return unchanged(state)
+      const duel = { ...d, paused: false }
+      const r = startActive(state, duel, [], now, rules)
+      return { state: r.state, effects: [{ type: 'persist', duel: r.state.duel }, clockEvent(duel, now, true), ...r.effects] }
+    }
+
+    case 'pause_clock': {
+      if (!d?.started || d.paused) return unchanged(state)
+      const key  = clockKey(d.active)
+      const duel = { ...d, [key]: stopClock(d[key], now), paused: true }
+      return {
+        state: { ...state, duel },
+        effects: [{ type: 'cancel', timer: 'timeout' }, clockEvent(duel, now, false), { type: 'persist', duel }],
+      }
+    }
+
+    case 'timeout': {
+      if (!d?.started || d.paused || state.busy) return unchanged(state)
+      // Timers may fire a little early; wait out the rest of the deadline
+      const at = timeoutAt(d, now, rules)
+      if (now < at) return { state, effects: [{ type: 'schedule', at, intent: { type: 'timeout' } }] }
+      return timeUp(state, d, [], now)
+    }
+
+    case 'answer': {
+      if (!d?.started || d.paused || state.busy || d.active !== intent.player) return unchanged(state)
+      const key = clockKey(d.active)
+      // The clock stops when the answer was given (within the player's grace)
+      const given = creditedAt(now, intent.at, rules.graceMs(intent.player))
+      // An answer after the deadline loses to the clock, however late the timer fires
+      if (remainingAt(d[key], given) <= 0) return timeUp(state, d, [], now)
+      const duel    = { ...d, [key]: stopClock(d[key], given) }
+      const answer  = rules.answerOf(d.questionId)
+      const correct = intent.result === 'correct'
+      return {
+        state: { ...state, duel, busy: true, answers: [...state.answers, { player: intent.player, questionId: d.questionId, result: intent.result }] },
+        effects: [
+          { type: 'cancel', timer: 'timeout' },
+          clockEvent(duel, now, false),
+          correct
+            ? { type: 'feedback', text: `✓ ${answer}`, feedbackType: intent.player === 'host' ? 'correct' : 'voice' }
+            : { type: 'feedback', text: `⏱ PAS · ${answer}`, feedbackType: 'pass' },
+          { type: 'broadcast', event: { type: intent.result, player: intent.player, answer } },
+          { type: 'schedule', at: now + rules.feedbackMs, intent: { type: 'advance', player: intent.player, result: intent.result } },
+        ],
+      }
+    }
+
+    case 'advance': {
+      if (!d) return unchanged({ ...state, busy: false })
+      const { questionId, usedIds } = pickNextQuestionId(
+        rules.questionIds(d.categoryId), d.usedQuestionIds, streamRng(state.seed, 'q', state.roundNo, d.usedQuestionIds.length),
+      )
+      const next = { ...d, questionId, usedQuestionIds: usedIds, paused: false }
+      let duel: MPDuelState
+      if (intent.result === 'correct') {
+        duel = { ...next, active: opponentOf(intent.player) }
+      } else {
+        // A pass keeps the turn and costs the passer time
+        const key = clockKey(intent.player)
+        duel = { ...next, active: intent.player, [key]: chargeClock(d[key], rules.passPenalty * 1000, now) }
+      }
+      const effects: HostEffect[] = [
+        { type: 'broadcast', event: { type: 'next_question', questionId, active: duel.active, ...clockMs(duel, now) } },
+        { type: 'persist', duel },
+      ]
+      const settled = { ...state, busy: false }
+      if (remainingAt(duel[clockKey(duel.active)], now) <= 0) return timeUp(settled, duel, effects, now)
+      return startActive(settled, duel, effects, now, rules)
+    }
+
+    case 'end_round': {
+      if (!d) return unchanged(state)
+      // The showdown is for the match, not the tile — the board stays as it is
+      const showdown = state.showdown === 'pending' && intent.winner !== 'draw' ? intent.winner : null
+      const r = resolveRound(state.tiles, showdown ? -1 : d.tileIdx, intent.winner, state.picker, rules.mode)
+      const roundNo = state.roundNo + 1
+      const next: HostState = {
+        ...state, tiles: r.tiles, winner: intent.winner, picker: r.nextPicker,
+        hostScore: r.hostScore, guestScore: r.guestScore, roundNo, answers: [],
+        duelsWon: tallyWin(state.duelsWon, intent.winner === 'draw' ? 'draw' : sideOf(intent.winner)),
+        showdown: showdown ?? state.showdown,
+      }
+      return {
+        state: next,
+        effects: [
+          { type: 'broadcast', event: { type: 'round_end', winner: intent.winner, tileIdx: showdown ? -1 : d.tileIdx, hostScore: r.hostScore, guestScore: r.guestScore } },
+          statusEvent(next, now),
+          { type: 'persist', tiles: r.tiles, duel: null, hostScore: r.hostScore, guestScore: r.guestScore },
+          { type: 'record_round', record: buildRoundRecord(roundNo, d, state.answers, intent.winner, state.picker, state.showdown === 'pending') },
+        ],
+      }
+    }
+
+    case 'close_duel': {
+      const stop: HostEffect[] = [
+        { type: 'cancel', timer: 'timeout' }, { type: 'cancel', timer: 'advance' }, { type: 'cancel', timer: 'end_round' },
+      ]
+      const closed = { ...state, duel: null, winner: null, busy: false }
+      if (state.showdown === 'host' || state.showdown === 'guest') {
+        const text = `🏆 Dogrywkę wygrywa ${state.showdown === 'host' ? 'gospodarz' : 'gość'}!`
+        const notice: HostEffect[] = [
+          { type: 'feedback', text, feedbackType: 'correct' },
+          { type: 'broadcast', event: { type: 'feedback', text, feedbackType: 'correct' } },
+        ]
+        return decide(closed, state.showdown === 'host' ? 'gold' : 'silver', [...stop, ...notice], now, rules)
+      }
+      // The showdown duel is still to be played
+      if (state.showdown === 'pending') return { state: closed, effects: [...stop, { type: 'broadcast', event: { type: 'duel_close' } }, { type: 'open_showdown' }] }
+      const board  = rules.mode === 'territory' ? territoryOutcome(state.tiles) : evaluateVictory(state.tiles, rules.victory)
+      if (board.isOver) return decide(closed, board.winner, stop, now, rules)
+      const limit = limitReached(rules.limits, state.roundNo, matchTimeLeft(state.matchClock, now))
+      if (limit) {
+        const leader = limitLeader(state.tiles, ['gold', 'silver'], state.duelsWon) ?? 'draw'
+        return decide(closed, leader, [...stop, ...limitNotice(limit)], now, rules)
+      }
+      return { state: closed, effects: [...stop, { type: 'broadcast', event: { type: 'duel_close' } }, { type: 'persist', tiles: state.tiles }] }
+    }
+
+    case 'finish':
+      return {
+        state,
+        effects: [{ type: 'settle', winner: intent.winner, margin: intent.margin, hostTiles: intent.hostTiles, guestTiles: intent.guestTiles }],
+      }
+  }
+}
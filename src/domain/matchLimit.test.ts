@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import type { Tile, TileOwner } from '../types'
+import { runClock, stoppedClock } from './clock'
+import {
+  formatMatchClock, limitLeader, limitReached, limitsFromConfig, matchTimeLeft, roundsLeft, tallyWin,
+} from './matchLimit'
+
+const board = (...owners: TileOwner[]): Tile[] =>
+  owners.map((owner, x) => ({ x, y: 0, categoryId: 'c', categoryName: 'C', owner }))
+
+describe('match limits', () => {
+  it('reads MAX_ROUNDS and ROUND_TIMER (minutes), 0 meaning off', () => {
+    expect(limitsFromConfig({ MAX_ROUNDS: 10, ROUND_TIMER: 5 })).toEqual({ maxRounds: 10, clockMs: 300_000 })
+    expect(limitsFromConfig({ MAX_ROUNDS: 0, ROUND_TIMER: -1 })).toEqual({ maxRounds: 0, clockMs: 0 })
+  })
+
+  it('counts rounds left only with a round limit', () => {
+    expect(roundsLeft({ maxRounds: 6, clockMs: 0 }, 4)).toBe(2)
+    expect(roundsLeft({ maxRounds: 6, clockMs: 0 }, 9)).toBe(0)
+    expect(roundsLeft({ maxRounds: 0, clockMs: 0 }, 9)).toBeNull()
+  })
+
+  it('is reached after the last round or when the match clock runs out', () => {
+    const limits = { maxRounds: 3, clockMs: 60_000 }
+    const clock  = runClock(stoppedClock(60_000), 1_000)
+    expect(limitReached(limits, 2, matchTimeLeft(clock, 30_000))).toBeNull()
+    expect(limitReached(limits, 3, matchTimeLeft(clock, 30_000))).toBe('rounds')
+    expect(limitReached(limits, 1, matchTimeLeft(clock, 61_000))).toBe('clock')
+    expect(limitReached({ maxRounds: 0, clockMs: 0 }, 99, matchTimeLeft(null, 0))).toBeNull()
+  })
+
+  it('shows the match clock as m:ss', () => {
+    expect(formatMatchClock(300_000)).toBe('5:00')
+    expect(formatMatchClock(61_001)).toBe('1:02')
+    expect(formatMatchClock(1)).toBe('0:01')
+    expect(formatMatchClock(-5)).toBe('0:00')
+  })
+})
+
+describe('limit leader', () => {
+  it('goes to the side with most tiles', () => {
+    expect(limitLeader(board('gold', 'gold', 'silver'), ['gold', 'silver'], { silver: 5 })).toBe('gold')
+  })
+
+  it('breaks a tile tie on duels won, and is a draw if those are level too', () => {
+    const tiles = board('gold', 'silver', 'gold', 'silver')
+    expect(limitLeader(tiles, ['gold', 'silver'], tallyWin(tallyWin({}, 'silver'), 'draw'))).toBe('silver')
+    expect(limitLeader(tiles, ['gold', 'silver'], { gold: 2, silver: 2 })).toBeNull()
+  })
+
+  it('ranks party seats the same way', () => {
+    const tiles = board('p0', 'p1', 'p1', 'p2', 'p2')
+    expect(limitLeader(tiles, ['p0', 'p1', 'p2'], { p2: 1 })).toBe('p2')
+  })
+})
@@ -0,0 +1,89 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/matchLimit.ts — Round limit and match clock
+//
+// Besides the board itself (domain/board.ts, domain/territory.ts) a match can
+// end on a limit: after a set number of duels, or when a match clock started
+// with the game runs out. A limit never cuts a duel short — it is checked when
+// a duel closes, and a clock that expires between duels ends the match there.
+// The leader wins: most tiles, then most duels won; still level is a draw.
+// The match clock is a DuelClock (domain/clock.ts), so it runs on deadlines
+// and freezes for storage like the duel clocks do.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { GameConfig, Tile, TileOwner } from '../types'
+import { countOwned } from './board'
+import { remainingAt, type DuelClock } from './clock'
+
+export interface MatchLimits {
+  /** Duels (draws included) before the match ends; 0 = no limit. */
+  maxRounds: number
+  /** Length of the match clock in ms; 0 = no clock. */
+  clockMs:   number
+}
+
+export const NO_LIMITS: MatchLimits = { maxRounds: 0, clockMs: 0 }
+
+export type LimitReason = 'rounds' | 'clock'
+
+/**
+ * A finished match: its winner (null for a draw), and what ended it — the
+ * board (domain/board.ts), a limit, or a showdown after a draw (domain/suddenDeath.ts).
+ */
+export interface MatchEnd<O extends TileOwner = TileOwner> {
+  winner: O | null
+  reason: LimitReason | 'board' | 'showdown'
+}
+
+/** Duels won per tile owner, for the tiebreak. */
+export type DuelTally = Partial<Record<TileOwner, number>>
+
+/** Local games: MAX_ROUNDS duels and a ROUND_TIMER-minute match clock. */
+export function limitsFromConfig(cfg: Pick<GameConfig, 'MAX_ROUNDS' | 'ROUND_TIMER'>): MatchLimits {
+  return { maxRounds: Math.max(0, cfg.MAX_ROUNDS), clockMs: Math.max(0, cfg.ROUND_TIMER) * 60_000 }
+}
+
+/** Online games: the lobby's maxRounds and matchMinutes. */
+export function limitsFromSettings(s: { maxRounds: number; matchMinutes: number }): MatchLimits {
+  return { maxRounds: Math.max(0, s.maxRounds), clockMs: Math.max(0, s.matchMinutes) * 60_000 }
+}
+
+/** Duels still to play, or null without a round limit. */
+export function roundsLeft(limits: MatchLimits, played: number): number | null {
+  return limits.maxRounds > 0 ? Math.max(0, limits.maxRounds - played) : null
+}
+
+/** Ms left on the match clock at `now`, or null when the match has none. */
+export function matchTimeLeft(clock: DuelClock | null, now: number): number | null {
+  return clock ? remainingAt(clock, now) : null
+}
+
+/** Has the match hit a limit after `played` duels? `clockLeft` from matchTimeLeft. */
+export function limitReached(limits: MatchLimits, played: number, clockLeft: number | null): LimitReason | null {
+  if (limits.maxRounds > 0 && played >= limits.maxRounds) return 'rounds'
+  if (clockLeft !== null && clockLeft <= 0) return 'clock'
+  return null
+}
+
+/** Count a won duel; draws leave the tally as it is. */
+export function tallyWin(tally: DuelTally, winner: TileOwner | 'draw'): DuelTally {
+  return winner === 'draw' ? tally : { ...tally, [winner]: (tally[winner] ?? 0) + 1 }
+}
+
+/**
+ * Who wins a match ended by a limit: the side with most tiles, then the one
+ * that won most duels. Null if the top two are level on both.
+ */
+export function limitLeader<O extends TileOwner>(tiles: Tile[], sides: readonly O[], won: DuelTally): O | null {
+  const ranked = sides
+    .map(side => ({ side, tiles: countOwned(tiles, side), won: won[side] ?? 0 }))
+    .sort((a, b) => b.tiles - a.tiles || b.won - a.won)
+  const [first, second] = ranked
+  if (!first) return null
+  if (second && second.tiles === first.tiles && second.won === first.won) return null
+  return first.side
+}
+
+/** Match clock display: m:ss, rounded up so "0:01" shows until the very end. */
+export function formatMatchClock(ms: number): string {
+  const s = Math.ceil(Math.max(0, ms) / 1000)
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_MATCHMAKING_POLICY, isAcceptablePair, isQueueTimedOut, ratingWindow,
+  type MatchmakingPolicy,
+} from './matchmaking'
+
+const policy: MatchmakingPolicy = {
+  initialWindow: 100, widenBy: 25, widenEveryMs: 1_000, maxWindow: 200, timeoutMs: 10_000,
+}
+
+describe('ratingWindow', () => {
+  it('starts at the initial window', () => {
+    expect(ratingWindow(0, policy)).toBe(100)
+    expect(ratingWindow(999, policy)).toBe(100)
+  })
+  it('widens by one step per interval waited', () => {
+    expect(ratingWindow(1_000, policy)).toBe(125)
+    expect(ratingWindow(3_500, policy)).toBe(175)
+  })
+  it('never exceeds the max window', () => {
+    expect(ratingWindow(60_000, policy)).toBe(200)
+  })
+  it('treats negative waits (clock skew) as zero', () => {
+    expect(ratingWindow(-5_000, policy)).toBe(100)
+  })
+  it('uses the default policy when none is given', () => {
+    expect(ratingWindow(0)).toBe(DEFAULT_MATCHMAKING_POLICY.initialWindow)
+  })
+})
+
+describe('isQueueTimedOut', () => {
+  it('times out exactly at the limit', () => {
+    expect(isQueueTimedOut(9_999, policy)).toBe(false)
+    expect(isQueueTimedOut(10_000, policy)).toBe(true)
+  })
+})
+
+describe('isAcceptablePair', () => {
+  it('accepts a gap inside both windows', () => {
+    expect(isAcceptablePair({ rating: 1000, window: 100 }, { rating: 1080, window: 100 })).toBe(true)
+  })
+  it('uses the narrower of the two windows', () => {
+    expect(isAcceptablePair({ rating: 1000, window: 300 }, { rating: 1150, window: 100 })).toBe(false)
+    expect(isAcceptablePair({ rating: 1000, window: 300 }, { rating: 1150, window: 150 })).toBe(true)
+  })
+})
@@ -0,0 +1,47 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/matchmaking.ts — Ranked queue policy
+//
+// How wide a player's acceptable rating window is after waiting a while, and
+// when the search gives up. The pairing itself happens atomically in the
+// `matchmaking_poll` RPC (see supabase/migrations); the client just reports the
+// window computed here on every poll, so both sides widen on the same schedule.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface MatchmakingPolicy {
+  initialWindow: number   // ± rating points accepted right after enqueueing
+  widenBy:       number   // extra points added on every widening step
+  widenEveryMs:  number   // how often the window grows
+  maxWindow:     number   // the window never grows past this
+  timeoutMs:     number   // give up after waiting this long
+}
+
+export const DEFAULT_MATCHMAKING_POLICY: MatchmakingPolicy = {
+  initialWindow: 50,
+  widenBy:       50,
+  widenEveryMs:  5_000,
+  maxWindow:     500,
+  timeoutMs:     90_000,
+}
+
+/** Rating window (± points) a player accepts after waiting `waitedMs`. */
+export function ratingWindow(waitedMs: number, policy: MatchmakingPolicy = DEFAULT_MATCHMAKING_POLICY): number {
+  const steps = Math.floor(Math.max(0, waitedMs) / policy.widenEveryMs)
+  return Math.min(policy.maxWindow, policy.initialWindow + steps * policy.widenBy)
+}
+
+/** True once the player has waited long enough that the search should stop. */
+export function isQueueTimedOut(waitedMs: number, policy: MatchmakingPolicy = DEFAULT_MATCHMAKING_POLICY): boolean {
+  return waitedMs >= policy.timeoutMs
+}
+
+/**
+ * Two queued players are compatible when their rating gap fits inside BOTH
+ * windows — a fresh player is never dragged into a lopsided match just because
+ * the other side has been waiting for a long time.
+ */
+export function isAcceptablePair(
+  a: { rating: number; window: number },
+  b: { rating: number; window: number },
+): boolean {
+  return Math.abs(a.rating - b.rating) <= Math.min(a.window, b.window)
+}
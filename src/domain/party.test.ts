@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { Tile, TileOwner } from '../types'
+import {
+  partyStandings, partyWinner, pickerAfterDuel, playerOf, seatOf, seatOwner, seedParty,
+} from './party'
+
+const row = (...owners: TileOwner[]): Tile[] =>
+  owners.map((owner, x) => ({ x, y: 0, categoryId: 'c', categoryName: 'C', owner }))
+
+const grid = (cols: number, rows: number): Tile[] =>
+  Array.from({ length: cols * rows }, (_, i) => ({ x: i % cols, y: Math.floor(i / cols), categoryId: 'c', categoryName: 'C', owner: 'neutral' as const }))
+
+describe('party seats', () => {
+  it('maps seats to tile owners and back', () => {
+    expect(seatOwner(7)).toBe('p7')
+    expect(seatOf('p11')).toBe(11)
+    expect(seatOf('gold')).toBeNull()
+  })
+
+  it('deals contiguous, even blocks column by column, one territory per tile', () => {
+    const tiles = seedParty(grid(4, 3), 3)
+    // columns 0..3, top to bottom: p0 takes column 0 and the top of column 1, …
+    expect(tiles.map(t => t.owner)).toEqual([
+      'p0', 'p0', 'p1', 'p2',
+      'p0', 'p1', 'p1', 'p2',
+      'p0', 'p1', 'p2', 'p2',
+    ])
+    expect(partyStandings(tiles, 3).map(s => s.tiles)).toEqual([4, 4, 4])
+    expect(tiles.map(t => t.territory)).toEqual(tiles.map((_, i) => i))
+  })
+
+  it('gives every seat a tile when there are as many tiles as seats', () => {
+    const tiles = seedParty(grid(3, 2), 6)
+    expect(new Set(tiles.map(t => t.owner)).size).toBe(6)
+  })
+})
+
+describe('party results', () => {
+  it('reports standings with their share of the board', () => {
+    expect(partyStandings(row('p0', 'p2', 'p2', 'p2'), 3)).toEqual([
+      { seat: 0, tiles: 1, pct: 25 }, { seat: 1, tiles: 0, pct: 0 }, { seat: 2, tiles: 3, pct: 75 },
+    ])
+  })
+
+  it('has a winner only once one seat holds the whole board', () => {
+    expect(partyWinner(row('p1', 'p2', 'p1'))).toBeNull()
+    expect(partyWinner(row('p4', 'p4', 'p4'))).toBe(4)
+  })
+
+  it('passes the pick to the loser unless they were knocked out', () => {
+    expect(pickerAfterDuel(row('p0', 'p1', 'p2'), 'p0', 'p1')).toBe('p1')
+    expect(pickerAfterDuel(row('p0', 'p0', 'p2'), 'p0', 'p1')).toBe('p0')
+  })
+
+  it('looks up the player behind an owner', () => {
+    const players: [{ name: string; color: string }, { name: string; color: string }] = [{ name: 'G', color: '#1' }, { name: 'S', color: '#2' }]
+    const party = [{ name: 'ANIA', color: '#a' }, { name: 'BARTEK', color: '#b' }, { name: 'CELINA', color: '#c' }]
+    expect(playerOf('gold', players, party).name).toBe('G')
+    expect(playerOf('p2', players, party).name).toBe('CELINA')
+    expect(playerOf('p5', players, party)).toEqual({ name: 'GRACZ 6', color: '#a855f7' })
+  })
+})
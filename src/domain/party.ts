@@ -0,0 +1,87 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/party.ts — Party mode: 3–12 local players on one board
+//
+// The two-player game names its sides by tile colour (gold/silver). Party mode
+// adds seats instead: tile owner `p0`…`p11` is the seat's index into the party
+// roster, which carries each player's name and colour. Every seat starts on a
+// block of its own tiles; a challenge is a duel between the picking seat and
+// the owner of the chosen tile, so a duel still has exactly two sides and the
+// duel clocks, modal and scoring work unchanged. Territory rules apply to
+// seats the same way they apply to gold and silver (domain/territory.ts).
+// ─────────────────────────────────────────────────────────────────────────────
+import type { PartyOwner, PlayerSettings, Tile, TileOwner } from '../types'
+import { countOwned } from './board'
+
+export const MIN_PARTY = 3
+export const MAX_PARTY = 12
+
+/** Default seat colours, in seat order. */
+export const PARTY_COLORS = [
+  '#D4AF37', '#C0C0C0', '#ef4444', '#3b82f6', '#22c55e', '#a855f7',
+  '#f97316', '#14b8a6', '#ec4899', '#eab308', '#6366f1', '#84cc16',
+]
+
+/** Tile owner of a party seat. */
+export function seatOwner(seat: number): PartyOwner {
+  return `p${seat}`
+}
+
+/** Seat index of a party owner; null for gold, silver and neutral. */
+export function seatOf(owner: TileOwner): number | null {
+  const m = /^p(\d+)$/.exec(owner)
+  return m ? Number(m[1]) : null
+}
+
+/** A fresh roster entry for `seat`. */
+export function defaultSeat(seat: number): PlayerSettings {
+  return { name: `GRACZ ${seat + 1}`, color: PARTY_COLORS[seat % PARTY_COLORS.length] }
+}
+
+/**
+ * Deal the board to `seats` players: contiguous blocks (left to right, then
+ * top to bottom), as even as the tile count allows, one territory per tile.
+ * With more seats than tiles the last seats start with nothing.
+ */
+export function seedParty(tiles: Tile[], seats: number): Tile[] {
+  const order = tiles.map((_, i) => i).sort((a, b) => tiles[a].x - tiles[b].x || tiles[a].y - tiles[b].y)
+  const seatAt = new Map(order.map((idx, rank) => [idx, Math.floor((rank * seats) / tiles.length)]))
+  return tiles.map((t, i) => ({ ...t, owner: seatOwner(seatAt.get(i) ?? 0), territory: i }))
+}
+
+export interface PartyStanding {
+  seat:  number
+  tiles: number
+  pct:   number
+}
+
+/** Tiles held by every seat, in seat order. */
+export function partyStandings(tiles: Tile[], seats: number): PartyStanding[] {
+  return Array.from({ length: seats }, (_, seat) => {
+    const n = countOwned(tiles, seatOwner(seat))
+    return { seat, tiles: n, pct: tiles.length > 0 ? Math.round((n / tiles.length) * 100) : 0 }
+  })
+}
+
+/** The seat that holds the whole board, or null while two or more are left. */
+export function partyWinner(tiles: Tile[]): number | null {
+  if (tiles.length === 0) return null
+  const owner = tiles[0].owner
+  return tiles.every(t => t.owner === owner) ? seatOf(owner) : null
+}
+
+/**
+ * Who picks after a duel between `winner` and `loser`: the loser, as in the
+ * two-player game — unless the duel knocked them out, then the winner.
+ */
+export function pickerAfterDuel<O extends TileOwner>(tiles: Tile[], winner: O, loser: O): O {
+  return countOwned(tiles, loser) > 0 ? loser : winner
+}
+
+/** The player behind a tile owner: gold/silver are the two-player sides, pN a party seat. */
+export function playerOf(owner: TileOwner, players: [PlayerSettings, PlayerSettings], party: PlayerSettings[]): PlayerSettings {
+  if (owner === 'gold')    return players[0]
+  if (owner === 'silver')  return players[1]
+  if (owner === 'neutral') return { name: '—', color: '#555555' }
+  const seat = seatOf(owner) ?? 0
+  return party[seat] ?? defaultSeat(seat)
+}
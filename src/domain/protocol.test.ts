@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PROTOCOL_VERSION, canSend, checkSequence, parseEnvelope, validateEvent, wrapEvent,
+  type SequenceState,
+} from './protocol'
+import type { MPEvent } from '../types'
+
+const host = { sender: 'h1', role: 'host' as const, epoch: 1000, seq: 1 }
+
+describe('validateEvent', () => {
+  it('accepts well-formed events', () => {
+    expect(validateEvent({ type: 'clock', hostMs: 12_000, guestMs: 9_512.5, running: true })).toBe(true)
+    expect(validateEvent({ type: 'fight_start' })).toBe(true)
+    expect(validateEvent({ type: 'clock_pong', t0: 1_000.5, t1: 61_020.25 })).toBe(true)
+    expect(validateEvent({
+      type: 'game_start', gridCols: 2, gridRows: 1, cursor: 0,
+      tiles: [{ x: 0, y: 0, categoryId: 'a', categoryName: 'A', owner: 'neutral' }, { x: 1, y: 0, categoryId: 'b', categoryName: 'B', owner: 'gold' }],
+    })).toBe(true)
+  })
+
+  it('rejects unknown types, missing fields and wrong field types', () => {
+    expect(validateEvent({ type: 'launch_missiles' })).toBe(false)
+    expect(validateEvent({ type: 'toString' })).toBe(false)
+    expect(validateEvent({ type: 'clock', hostMs: 12_000, guestMs: 1 })).toBe(false)
+    expect(validateEvent({ type: 'round_end', winner: 'nobody', tileIdx: 0, hostScore: 0, guestScore: 0 })).toBe(false)
+    expect(validateEvent({ type: 'cursor_move', idx: '3' })).toBe(false)
+    expect(validateEvent({ type: 'guest_correct' })).toBe(false)
+    expect(validateEvent({ type: 'clock', hostMs: NaN, guestMs: 1, running: false })).toBe(false)
+    expect(validateEvent(null)).toBe(false)
+  })
+
+  it('checks nested tiles and the snapshot duel', () => {
+    const base = { type: 'state_snapshot', to: null, gridCols: 1, gridRows: 1, cursor: 0, hostScore: 0, guestScore: 0, picker: 'host', settings: { duelTime: 30, categoriesCount: 6, gameMode: 'classic', passPenalty: 2, rules: 'territory', maxRounds: 0, matchMinutes: 5, victory: { kind: 'first_to', threshold: 0.75, tiles: 8 }, suddenDeath: true }, roundsPlayed: 0, matchMs: 300_000, showdown: false }
+    const tiles = [{ x: 0, y: 0, categoryId: 'a', categoryName: 'A', owner: 'neutral' }]
+    expect(validateEvent({ ...base, tiles, duel: null })).toBe(true)
+    expect(validateEvent({ ...base, tiles: [{ ...tiles[0], owner: 'red' }], duel: null })).toBe(false)
+    expect(validateEvent({ ...base, tiles: [{ ...tiles[0], territory: 0 }], duel: null })).toBe(true)
+    expect(validateEvent({ ...base, tiles: [{ ...tiles[0], territory: 'a' }], duel: null })).toBe(false)
+    expect(validateEvent({ ...base, tiles, duel: null, settings: { ...base.settings, rules: 'chess' } })).toBe(false)
+    expect(validateEvent({ ...base, tiles, duel: null, settings: { ...base.settings, maxRounds: 2.5 } })).toBe(false)
+    expect(validateEvent({ ...base, tiles, duel: null, settings: { ...base.settings, victory: { ...base.settings.victory, kind: 'checkmate' } } })).toBe(false)
+    expect(validateEvent({ ...base, tiles, duel: null, settings: { ...base.settings, suddenDeath: 1 } })).toBe(false)
+    expect(validateEvent({ ...base, tiles, duel: null, matchMs: null })).toBe(true)
+    expect(validateEvent({ ...base, tiles, duel: { tileIdx: 0 } })).toBe(false)
+    expect(validateEvent({ ...base, tiles, duel: null, to: 'p1' })).toBe(true)
+    expect(validateEvent({ ...base, tiles, duel: null, to: undefined })).toBe(false)
+    expect(validateEvent({ type: 'resync_request', from: 'p1' })).toBe(true)
+    expect(validateEvent({ type: 'resync_request' })).toBe(false)
+  })
+})
+
+describe('canSend', () => {
+  it('restricts events to the seats that emit them', () => {
+    expect(canSend('host', 'clock')).toBe(true)
+    expect(canSend('guest', 'clock')).toBe(false)
+    expect(canSend('guest', 'guest_correct')).toBe(true)
+    expect(canSend('host', 'guest_correct')).toBe(false)
+    expect(canSend('spectator', 'chat_message')).toBe(false)
+    expect(canSend('spectator', 'resync_request')).toBe(true)
+    expect(canSend('guest', 'showdown')).toBe(false)
+  })
+})
+
+describe('parseEnvelope', () => {
+  const clock: MPEvent = { type: 'clock', hostMs: 10_000, guestMs: 10_000, running: true }
+
+  it('round-trips a wrapped event', () => {
+    const env = wrapEvent(clock, host)
+    expect(env.v).toBe(PROTOCOL_VERSION)
+    expect(parseEnvelope(JSON.parse(JSON.stringify(env)))).toEqual({ ok: true, envelope: env })
+  })
+
+  it('reports a different protocol version', () => {
+    expect(parseEnvelope({ ...wrapEvent(clock, host), v: PROTOCOL_VERSION + 1 })).toEqual({ ok: false, reason: 'version', version: PROTOCOL_VERSION + 1 })
+  })
+
+  it('treats a bare pre-envelope event as version 0', () => {
+    expect(parseEnvelope(clock)).toEqual({ ok: false, reason: 'version', version: 0 })
+  })
+
+  it('rejects broken envelopes, bad payloads and spoofed seats', () => {
+    expect(parseEnvelope('hello')).toMatchObject({ ok: false, reason: 'malformed' })
+    expect(parseEnvelope({ ...wrapEvent(clock, host), seq: 0 })).toMatchObject({ ok: false, reason: 'malformed' })
+    expect(parseEnvelope({ ...wrapEvent(clock, host), role: 'admin' })).toMatchObject({ ok: false, reason: 'malformed' })
+    expect(parseEnvelope({ ...wrapEvent(clock, host), event: { type: 'clock' } })).toMatchObject({ ok: false, reason: 'schema' })
+    expect(parseEnvelope(wrapEvent(clock, { ...host, role: 'guest' }))).toMatchObject({ ok: false, reason: 'sender' })
+  })
+})
+
+describe('checkSequence', () => {
+  const accept = (state: SequenceState, env: typeof host) => {
+    const r = checkSequence(state, env)
+    if (!r.accept) throw new Error(`rejected: ${r.reason}`)
+    return r.state
+  }
+
+  it('accepts increasing seqs, gaps included', () => {
+    let s: SequenceState = {}
+    s = accept(s, host)
+    s = accept(s, { ...host, seq: 2 })
+    s = accept(s, { ...host, seq: 5 })
+    expect(s['host:h1']).toEqual({ epoch: 1000, seq: 5 })
+  })
+
+  it('drops duplicates and out-of-order events', () => {
+    const s = accept(accept({}, host), { ...host, seq: 3 })
+    expect(checkSequence(s, { ...host, seq: 3 })).toEqual({ accept: false, reason: 'duplicate' })
+    expect(checkSequence(s, { ...host, seq: 2 })).toEqual({ accept: false, reason: 'stale' })
+  })
+
+  it('a reload starts over at a higher epoch; the old session is stale', () => {
+    let s = accept({}, { ...host, seq: 40 })
+    s = accept(s, { ...host, epoch: 2000, seq: 1 })
+    expect(checkSequence(s, { ...host, seq: 41 })).toEqual({ accept: false, reason: 'stale' })
+  })
+
+  it('tracks each sender and seat separately', () => {
+    const s = accept({}, { ...host, seq: 9 })
+    expect(checkSequence(s, { ...host, sender: 'g1', role: 'guest', seq: 1 }).accept).toBe(true)
+    expect(checkSequence(s, { ...host, role: 'guest', seq: 1 }).accept).toBe(true)
+  })
+})
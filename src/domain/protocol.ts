@@ -0,0 +1,159 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/protocol.ts — Realtime wire protocol for online matches
+//
+// Every MPEvent travels inside an envelope stamped with the protocol version,
+// the sender's identity and role, and a per-session sequence number. Receivers
+// check all of it before the store dispatches anything: a payload that does
+// not match its schema, comes from a role that may not send it, repeats an
+// already-seen seq or belongs to an older session of the same sender is
+// dropped, and a peer on a different PROTOCOL_VERSION is reported instead of
+// being half-understood. Bump PROTOCOL_VERSION whenever an event changes shape.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { MPEvent, MPRole } from '../types'
+import { VICTORY_KINDS } from './board'
+
+export const PROTOCOL_VERSION = 8
+
+export interface MPEnvelope {
+  v:      number
+  /** Session start of the sender (ms); a reload starts a new, higher epoch. */
+  epoch:  number
+  /** 1, 2, 3… within one epoch. */
+  seq:    number
+  sender: string
+  role:   MPRole
+  event:  MPEvent
+}
+
+export type EnvelopeRejection = 'malformed' | 'version' | 'schema' | 'sender'
+export type SequenceRejection = 'duplicate' | 'stale'
+
+export type ParsedEnvelope =
+  | { ok: true;  envelope: MPEnvelope }
+  | { ok: false; reason: EnvelopeRejection; version?: number }
+
+/** Last accepted (epoch, seq) per sender and role. */
+export type SequenceState = Readonly<Record<string, { epoch: number; seq: number }>>
+
+// ── Schema ───────────────────────────────────────────────────────────────────
+
+type Check = (v: unknown) => boolean
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+const num: Check  = v => typeof v === 'number' && Number.isFinite(v)
+const int: Check  = v => Number.isInteger(v)
+const str: Check  = v => typeof v === 'string'
+const bool: Check = v => typeof v === 'boolean'
+const oneOf = (...values: readonly unknown[]): Check => v => values.includes(v)
+const nullable = (c: Check): Check => v => v === null || c(v)
+const optional = (c: Check): Check => v => v === undefined || c(v)
+const arrayOf  = (c: Check): Check => v => Array.isArray(v) && v.every(c)
+const shape = (fields: Record<string, Check>): Check =>
+  v => isObject(v) && Object.entries(fields).every(([k, c]) => c(v[k]))
+
+const player  = oneOf('host', 'guest')
+const outcome = oneOf('host', 'guest', 'draw')
+const lang    = oneOf('pl-PL', 'en-US', 'both')
+
+const tile = shape({ x: int, y: int, categoryId: str, categoryName: str, owner: oneOf('gold', 'silver', 'neutral'), territory: optional(int) })
+
+const clock = shape({ remainingMs: num, runningSince: nullable(num) })
+
+const duelState = shape({
+  tileIdx: int, categoryId: str, categoryName: str, emoji: str,
+  questionId: str, usedQuestionIds: arrayOf(str),
+  clockHost: clock, clockGuest: clock, active: player,
+  started: bool, paused: bool, lang,
+})
+
+const rules   = oneOf('classic', 'territory')
+const victory = shape({ kind: oneOf(...VICTORY_KINDS), threshold: num, tiles: int })
+
+const settingsFields = { duelTime: num, categoriesCount: int, gameMode: str, passPenalty: num, rules, maxRounds: int, matchMinutes: num, victory, suddenDeath: bool }
+const settings = shape(settingsFields)
+
+const HOST:    readonly MPRole[] = ['host']
+const GUEST:   readonly MPRole[] = ['guest']
+const PLAYERS: readonly MPRole[] = ['host', 'guest']
+const FOLLOWERS: readonly MPRole[] = ['guest', 'spectator']
+
+/** Required fields and allowed sender roles of every event type. */
+const EVENTS = {
+  cursor_move:    { from: PLAYERS, fields: { idx: int } },
+  duel_start:     { from: PLAYERS, fields: { tileIdx: int, categoryId: str, categoryName: str, emoji: str, questionId: str, lang, firstActive: player, hostMs: num, guestMs: num } },
+  fight_start:    { from: HOST,    fields: {} },
+  clock:          { from: HOST,    fields: { hostMs: num, guestMs: num, running: bool } },
+  correct:        { from: HOST,    fields: { player, answer: str } },
+  pass:           { from: HOST,    fields: { player, answer: str } },
+  guest_correct:  { from: GUEST,   fields: { at: num } },
+  guest_pass:     { from: GUEST,   fields: { at: num } },
+  duel_close:     { from: HOST,    fields: {} },
+  next_question:  { from: HOST,    fields: { questionId: str, active: player, hostMs: num, guestMs: num } },
+  round_end:      { from: HOST,    fields: { winner: outcome, tileIdx: int, hostScore: int, guestScore: int } },
+  feedback:       { from: HOST,    fields: { text: str, feedbackType: oneOf('correct', 'pass', 'timeout', 'voice') } },
+  game_start:     { from: HOST,    fields: { tiles: arrayOf(tile), gridCols: int, gridRows: int, cursor: int } },
+  game_end:       { from: HOST,    fields: { winner: outcome, hostXpDelta: num, guestXpDelta: num, hostTiles: int, guestTiles: int } },
+  chat_message:   { from: PLAYERS, fields: { from: str, text: str, ts: num } },
+  game_settings:  { from: HOST,    fields: settingsFields },
+  opponent_name:  { from: PLAYERS, fields: { name: str, avatar: str } },
+  opponent_left:  { from: PLAYERS, fields: {} },
+  resync_request: { from: FOLLOWERS, fields: { from: str } },
+  clock_ping:     { from: PLAYERS, fields: { t0: num } },
+  clock_pong:     { from: PLAYERS, fields: { t0: num, t1: num } },
+  state_snapshot: { from: HOST,    fields: { to: nullable(str), tiles: arrayOf(tile), gridCols: int, gridRows: int, cursor: int, duel: nullable(duelState), hostScore: int, guestScore: int, picker: player, settings, roundsPlayed: int, matchMs: nullable(num), showdown: bool } },
+  match_status:   { from: HOST,    fields: { roundsPlayed: int, matchMs: nullable(num) } },
+  showdown:       { from: HOST,    fields: {} },
+} satisfies Record<MPEvent['type'], { from: readonly MPRole[]; fields: Record<string, Check> }>
+
+/** Runtime check that `raw` is a well-formed MPEvent. Extra fields are ignored. */
+export function validateEvent(raw: unknown): raw is MPEvent {
+  if (!isObject(raw) || typeof raw.type !== 'string' || !Object.prototype.hasOwnProperty.call(EVENTS, raw.type)) return false
+  return shape(EVENTS[raw.type as MPEvent['type']].fields)(raw)
+}
+
+/** May a peer with `role` send this event at all? */
+export function canSend(role: MPRole, type: MPEvent['type']): boolean {
+  return EVENTS[type].from.includes(role)
+}
+
+// ── Envelope ─────────────────────────────────────────────────────────────────
+
+/** Stamp an outgoing event. `seq` is the sender's running counter. */
+export function wrapEvent(event: MPEvent, from: { sender: string; role: MPRole; epoch: number; seq: number }): MPEnvelope {
+  return { v: PROTOCOL_VERSION, epoch: from.epoch, seq: from.seq, sender: from.sender, role: from.role, event }
+}
+
+/** Validate an incoming broadcast payload before it reaches the store. */
+export function parseEnvelope(raw: unknown): ParsedEnvelope {
+  if (!isObject(raw)) return { ok: false, reason: 'malformed' }
+  // Builds from before the envelope broadcast bare events — call that version 0
+  if (raw.v === undefined && typeof raw.type === 'string') return { ok: false, reason: 'version', version: 0 }
+  if (!int(raw.v)) return { ok: false, reason: 'malformed' }
+  if (raw.v !== PROTOCOL_VERSION) return { ok: false, reason: 'version', version: raw.v as number }
+  if (!int(raw.epoch) || !int(raw.seq) || (raw.seq as number) < 1 || !str(raw.sender)
+    || !oneOf('host', 'guest', 'spectator')(raw.role)) {
+    return { ok: false, reason: 'malformed' }
+  }
+  if (!validateEvent(raw.event)) return { ok: false, reason: 'schema' }
+  const envelope = raw as unknown as MPEnvelope
+  if (!canSend(envelope.role, envelope.event.type)) return { ok: false, reason: 'sender' }
+  return { ok: true, envelope }
+}
+
+/**
+ * Accept an envelope only if it is newer than anything seen from its sender:
+ * a higher epoch (the sender reloaded) or a higher seq within the same epoch.
+ * Gaps are fine — a lost broadcast must not stall the match.
+ */
+export function checkSequence(state: SequenceState, env: Pick<MPEnvelope, 'sender' | 'role' | 'epoch' | 'seq'>):
+  { accept: true; state: SequenceState } | { accept: false; reason: SequenceRejection } {
+  const key  = `${env.role}:${env.sender}`
+  const last = state[key]
+  if (last) {
+    if (env.epoch < last.epoch) return { accept: false, reason: 'stale' }
+    if (env.epoch === last.epoch && env.seq <= last.seq) {
+      return { accept: false, reason: env.seq === last.seq ? 'duplicate' : 'stale' }
+    }
+  }
+  return { accept: true, state: { ...state, [key]: { epoch: env.epoch, seq: env.seq } } }
+}
@@ -38,4 +38,9 @@ describe('pickNextQuestionId', () => {
     expect(r.usedIds).toHaveLength(2)
     expect(r.questionId).not.toBe('a') // 'a' still available to avoid
   })
+
+  it('draws from the generator it is given', () => {
+    expect(pickNextQuestionId(['a', 'b', 'c'], [], () => 0).questionId).toBe('a')
+    expect(pickNextQuestionId(['a', 'b', 'c'], ['a'], () => 0.99).questionId).toBe('c')
+  })
 })
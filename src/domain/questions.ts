@@ -5,6 +5,7 @@
 // from a category while avoiding immediate repeats and recycling once the pool is
 // exhausted. This is that logic, in one pure place.
 // ─────────────────────────────────────────────────────────────────────────────
+import { randInt, type Rng } from './random'
 
 export interface NextQuestionPick {
   /** Chosen question id, or '' when the pool is empty. */
@@ -19,8 +20,9 @@ export interface NextQuestionPick {
  *
  * @param questionIds all candidate question ids for the category
  * @param usedIds     ids already shown this duel
+ * @param rand        where the pick comes from; a seeded game passes its stream (domain/random.ts)
  */
-export function pickNextQuestionId(questionIds: string[], usedIds: string[]): NextQuestionPick {
+export function pickNextQuestionId(questionIds: string[], usedIds: string[], rand: Rng = Math.random): NextQuestionPick {
   if (questionIds.length === 0) return { questionId: '', usedIds: [] }
 
   let used = [...usedIds]
@@ -28,7 +30,7 @@ export function pickNextQuestionId(questionIds: string[], usedIds: string[]): Ne
 
   const available = questionIds.filter(id => !used.includes(id))
   const pool      = available.length > 0 ? available : questionIds
-  const questionId = pool[Math.floor(Math.random() * pool.length)]
+  const questionId = pool[randInt(rand, pool.length)]
 
   used.push(questionId)
   return { questionId, usedIds: used }
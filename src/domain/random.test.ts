@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { formatSeed, mulberry32, newSeed, parseSeed, randInt, seedFromText, streamRng } from './random'
+
+const draws = (rand: () => number, n: number) => Array.from({ length: n }, rand)
+
+describe('random', () => {
+  it('repeats a sequence from the same seed', () => {
+    expect(draws(mulberry32(42), 5)).toEqual(draws(mulberry32(42), 5))
+    expect(draws(mulberry32(42), 5)).not.toEqual(draws(mulberry32(43), 5))
+    expect(draws(mulberry32(42), 1000).every(x => x >= 0 && x < 1)).toBe(true)
+  })
+
+  it('keeps streams of one seed apart', () => {
+    expect(draws(streamRng(1, 'q', 0, 0), 3)).toEqual(draws(streamRng(1, 'q', 0, 0), 3))
+    expect(draws(streamRng(1, 'q', 0, 0), 3)).not.toEqual(draws(streamRng(1, 'q', 0, 1), 3))
+    expect(draws(streamRng(1, 'board'), 3)).not.toEqual(draws(streamRng(2, 'board'), 3))
+  })
+
+  it('hashes text into a seed', () => {
+    expect(seedFromText('2026-10-19')).toBe(seedFromText('2026-10-19'))
+    expect(seedFromText('2026-10-19')).not.toBe(seedFromText('2026-10-20'))
+  })
+
+  it('stays in range at the edges', () => {
+    expect(randInt(() => 0.999_999_999, 3)).toBe(2)
+    expect(newSeed(() => 0.999_999_999_9)).toBeLessThanOrEqual(0xFFFF_FFFF)
+  })
+
+  it('round-trips a seed through its code', () => {
+    for (const seed of [0, 1, 123_456_789, 0xFFFF_FFFF]) expect(parseSeed(formatSeed(seed))).toBe(seed)
+    expect(parseSeed(' zz ')).toBe(36 * 36 - 1)
+    expect(parseSeed('ZZZZZZZ')).toBeNull()
+    expect(parseSeed('AB-1')).toBeNull()
+    expect(parseSeed('')).toBeNull()
+  })
+})
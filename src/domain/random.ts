@@ -0,0 +1,67 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/random.ts — Seeded randomness
+//
+// A game that draws from a seeded generator can be played again: the same seed
+// deals the same board and, given the same moves, the same questions. Anything
+// that shapes a game takes an `Rng` — a function returning floats in [0, 1),
+// like Math.random, which stays the default where nothing needs replaying.
+// Each part of a game draws from its own stream (streamRng), derived from the
+// seed and a few labels rather than from one shared sequence, so a restored
+// save or a player who moved the cursor around draws exactly what they would
+// have. Seeds are unsigned 32-bit integers, shown to players as base-36 codes.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Floats in [0, 1), like Math.random. */
+export type Rng = () => number
+
+/** mulberry32: 32 bits of state, fast, and plenty for shuffling a board. */
+export function mulberry32(seed: number): Rng {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0
+    let t = Math.imul(a ^ (a >>> 15), a | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x1_0000_0000
+  }
+}
+
+/** A fresh seed for a new game. */
+export function newSeed(rand: Rng = Math.random): number {
+  return Math.floor(rand() * 0x1_0000_0000) >>> 0
+}
+
+/** A seed from text (FNV-1a), e.g. a date for a board everyone shares. */
+export function seedFromText(text: string): number {
+  let h = 0x811C9DC5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * The generator for one part of a seeded game, e.g. `streamRng(seed, 'q', round, n)`
+ * for the n-th question of a round. The same labels always give the same stream.
+ */
+export function streamRng(seed: number, ...labels: (string | number)[]): Rng {
+  return mulberry32(seedFromText([seed >>> 0, ...labels].join(':')))
+}
+
+/** An integer in [0, n). */
+export function randInt(rand: Rng, n: number): number {
+  return Math.min(n - 1, Math.floor(rand() * n))
+}
+
+/** Seed as players see it: base 36, upper case (at most 7 characters). */
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(36).toUpperCase()
+}
+
+/** Parse a formatSeed code; null if it is not one. */
+export function parseSeed(text: string): number | null {
+  const t = text.trim()
+  if (!/^[0-9a-z]{1,7}$/i.test(t)) return null
+  const n = parseInt(t, 36)
+  return n <= 0xFFFF_FFFF ? n : null
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_RATING, MIN_RATING, PROVISIONAL_GAMES,
+  applyRatingResult, expectedScore, isProvisional, kFactor, type PlayerRating,
+} from './rating'
+
+const est = (rating: number): PlayerRating => ({ rating, games: PROVISIONAL_GAMES })
+
+describe('expectedScore', () => {
+  it('is 0.5 for equal ratings', () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5)
+  })
+  it('is ~0.76 for a 200-point favourite, and symmetric', () => {
+    expect(expectedScore(1700, 1500)).toBeCloseTo(0.76, 2)
+    expect(expectedScore(1700, 1500) + expectedScore(1500, 1700)).toBeCloseTo(1, 10)
+  })
+})
+
+describe('kFactor / isProvisional', () => {
+  it('moves provisional ratings faster', () => {
+    expect(kFactor(0)).toBeGreaterThan(kFactor(PROVISIONAL_GAMES))
+    expect(isProvisional({ rating: DEFAULT_RATING, games: PROVISIONAL_GAMES - 1 })).toBe(true)
+    expect(isProvisional(est(DEFAULT_RATING))).toBe(false)
+  })
+})
+
+describe('applyRatingResult', () => {
+  it('equal established players: winner +10, loser -10', () => {
+    const { host, guest } = applyRatingResult(est(1500), est(1500), 'host')
+    expect(host).toEqual({ rating: 1510, games: PROVISIONAL_GAMES + 1 })
+    expect(guest).toEqual({ rating: 1490, games: PROVISIONAL_GAMES + 1 })
+  })
+  it('an upset moves ratings more than an expected win', () => {
+    const upset    = applyRatingResult(est(1300), est(1700), 'host').host.rating - 1300
+    const expected = applyRatingResult(est(1700), est(1300), 'host').host.rating - 1700
+    expect(upset).toBeGreaterThan(expected)
+  })
+  it('a draw pulls ratings towards each other', () => {
+    const { host, guest } = applyRatingResult(est(1600), est(1400), 'draw')
+    expect(host.rating).toBeLessThan(1600)
+    expect(guest.rating).toBeGreaterThan(1400)
+  })
+  it('a draw between equals changes nothing but the game count', () => {
+    const { host } = applyRatingResult(est(1500), est(1500), 'draw')
+    expect(host).toEqual({ rating: 1500, games: PROVISIONAL_GAMES + 1 })
+  })
+  it('never drops below the floor', () => {
+    const { guest } = applyRatingResult(est(1500), { rating: MIN_RATING, games: 0 }, 'host')
+    expect(guest.rating).toBe(MIN_RATING)
+  })
+  it('does not mutate the inputs', () => {
+    const h = est(1500)
+    applyRatingResult(h, est(1500), 'guest')
+    expect(h).toEqual(est(1500))
+  })
+})
@@ -0,0 +1,57 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/rating.ts — Pure ELO skill rating
+//
+// XP only ever grows with games played, so it measures activity, not skill.
+// The ELO rating here moves by how surprising a result was: beating a stronger
+// player gains more than beating a weaker one. New players move faster (higher
+// K) until their rating settles. Stored on profiles next to the XP stats,
+// applied server-side by submit_match_result() with the same formula, and used
+// as the matchmaking number.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { RoundWinner } from './duel'
+
+export const DEFAULT_RATING    = 1200
+export const MIN_RATING        = 100
+/** Games before a rating counts as established (shown with a "?" until then). */
+export const PROVISIONAL_GAMES = 10
+
+/** Persisted per-player skill rating (mirrors profiles.rating / rating_games). */
+export interface PlayerRating {
+  rating: number
+  games:  number
+}
+
+/** Probability (0..1) that a player rated `rating` beats one rated `opponent`. */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + Math.pow(10, (opponent - rating) / 400))
+}
+
+/** How far a single result can move a rating. */
+export function kFactor(games: number): number {
+  return games < PROVISIONAL_GAMES ? 40 : 20
+}
+
+export function isProvisional(r: PlayerRating): boolean {
+  return r.games < PROVISIONAL_GAMES
+}
+
+function updated(self: PlayerRating, opponent: PlayerRating, score: number): PlayerRating {
+  const delta = Math.round(kFactor(self.games) * (score - expectedScore(self.rating, opponent.rating)))
+  return { rating: Math.max(MIN_RATING, self.rating + delta), games: self.games + 1 }
+}
+
+/**
+ * Both players' ratings after a match. A forfeit counts as a normal loss for
+ * the leaver. Pure — returns new objects and never mutates the inputs.
+ */
+export function applyRatingResult(
+  host:   PlayerRating,
+  guest:  PlayerRating,
+  winner: RoundWinner,
+): { host: PlayerRating; guest: PlayerRating } {
+  const hostScore = winner === 'host' ? 1 : winner === 'draw' ? 0.5 : 0
+  return {
+    host:  updated(host,  guest, hostScore),
+    guest: updated(guest, host,  1 - hostScore),
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import type { MPDuelState } from '../types'
+import { stoppedClock } from './clock'
+import { buildRoundRecord, type RoundAnswer } from './rounds'
+
+const duel = (over: Partial<MPDuelState> = {}): MPDuelState => ({
+  tileIdx: 3, categoryId: 'cat', categoryName: 'Cat', emoji: '🎯',
+  questionId: 'q3', usedQuestionIds: ['q1', 'q2', 'q3'],
+  clockHost: stoppedClock(12_000), clockGuest: stoppedClock(0), active: 'guest', started: true, paused: true, lang: 'pl-PL',
+  ...over,
+})
+
+const answers: RoundAnswer[] = [
+  { player: 'host',  questionId: 'q1', result: 'correct' },
+  { player: 'guest', questionId: 'q2', result: 'pass' },
+  { player: 'guest', questionId: 'q3', result: 'pass' },
+]
+
+describe('buildRoundRecord', () => {
+  it('copies the tile, category and shown questions from the duel', () => {
+    const r = buildRoundRecord(2, duel(), answers, 'host', 'host')
+    expect(r).toMatchObject({
+      roundNo: 2, tileIdx: 3, categoryId: 'cat',
+      questionIds: ['q1', 'q2', 'q3'], lastQuestionId: 'q3', winner: 'host',
+    })
+  })
+  it('keeps the picker and whether it was a showdown, for the server replay', () => {
+    expect(buildRoundRecord(1, duel(), answers, 'host', 'guest')).toMatchObject({ picker: 'guest', showdown: false })
+    expect(buildRoundRecord(1, duel(), answers, 'host', 'host', true)).toMatchObject({ picker: 'host', showdown: true })
+  })
+  it('counts passes per side', () => {
+    const r = buildRoundRecord(1, duel(), answers, 'host', 'host')
+    expect(r.hostPasses).toBe(0)
+    expect(r.guestPasses).toBe(2)
+  })
+  it('records remaining clocks in whole seconds, clamped at zero', () => {
+    const r = buildRoundRecord(1, duel({ clockHost: stoppedClock(11_200), clockGuest: { remainingMs: -1, runningSince: null } }), answers, 'host', 'host')
+    expect(r.hostTimeLeft).toBe(12)
+    expect(r.guestTimeLeft).toBe(0)
+  })
+  it('does not share arrays with its inputs', () => {
+    const d = duel()
+    const r = buildRoundRecord(1, d, answers, 'draw', 'guest')
+    expect(r.questionIds).not.toBe(d.usedQuestionIds)
+    expect(r.answers).not.toBe(answers)
+    expect(r.answers).toEqual(answers)
+  })
+})
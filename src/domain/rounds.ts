@@ -0,0 +1,63 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/rounds.ts — Per-round result log
+//
+// The host appends every answer/pass to a log while a duel runs; when the round
+// ends the log is folded into a RoundRecord — the raw data behind replays,
+// question analytics and disputes. Persistence lives in lib/roundService.ts.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { MPActivePlayer, MPDuelState } from '../types'
+import type { RoundWinner } from './duel'
+
+/** One answer given during a duel, in order. */
+export interface RoundAnswer {
+  player:     MPActivePlayer
+  questionId: string
+  result:     'correct' | 'pass'
+}
+
+/** Everything worth keeping about a finished round. */
+export interface RoundRecord {
+  roundNo:        number
+  tileIdx:        number
+  categoryId:     string
+  questionIds:    string[]  // every question shown, in order
+  lastQuestionId: string    // the question on screen when the round ended
+  answers:        RoundAnswer[]
+  hostPasses:     number
+  guestPasses:    number
+  hostTimeLeft:   number    // whole seconds left on each clock at the end (rounded up)
+  guestTimeLeft:  number
+  winner:         RoundWinner
+  picker:         MPActivePlayer  // who picked the tile (the challenger, for territory rules)
+  showdown:       boolean         // a sudden-death duel: decides the match, not the tile
+}
+
+/**
+ * Fold a finished duel and its answer log into a RoundRecord. With `picker`
+ * and `showdown` the log is enough for the server to replay the board.
+ */
+export function buildRoundRecord(
+  roundNo: number,
+  duel: MPDuelState,
+  answers: readonly RoundAnswer[],
+  winner: RoundWinner,
+  picker: MPActivePlayer,
+  showdown = false,
+): RoundRecord {
+  const passesBy = (p: MPActivePlayer) => answers.filter(a => a.player === p && a.result === 'pass').length
+  return {
+    roundNo,
+    tileIdx:        duel.tileIdx,
+    categoryId:     duel.categoryId,
+    questionIds:    [...duel.usedQuestionIds],
+    lastQuestionId: duel.questionId,
+    answers:        [...answers],
+    hostPasses:     passesBy('host'),
+    guestPasses:    passesBy('guest'),
+    hostTimeLeft:   Math.ceil(Math.max(0, duel.clockHost.remainingMs) / 1000),
+    guestTimeLeft:  Math.ceil(Math.max(0, duel.clockGuest.remainingMs) / 1000),
+    winner,
+    picker,
+    showdown,
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { activeSeason, formatSeasonRange, nextSeasonName, type Season } from './seasons'
+
+const season = (number: number, endedAt: string | null): Season => ({
+  id: `s${number}`, number, name: `Sezon ${number}`,
+  startedAt: new Date(2026, number, 1).toISOString(), endedAt,
+})
+
+describe('activeSeason', () => {
+  it('picks the season that has not ended', () => {
+    const closed = season(1, new Date(2026, 2, 1).toISOString())
+    expect(activeSeason([closed, season(2, null)])?.number).toBe(2)
+  })
+  it('is null when every season is closed', () => {
+    expect(activeSeason([season(1, new Date(2026, 2, 1).toISOString())])).toBeNull()
+    expect(activeSeason([])).toBeNull()
+  })
+})
+
+describe('nextSeasonName', () => {
+  it('numbers on from the current season', () => {
+    expect(nextSeasonName(season(3, null))).toBe('Sezon 4')
+    expect(nextSeasonName(null)).toBe('Sezon 1')
+  })
+})
+
+describe('formatSeasonRange', () => {
+  it('shows both ends of a closed season', () => {
+    const s = { ...season(6, new Date(2026, 8, 30).toISOString()), startedAt: new Date(2026, 6, 1).toISOString() }
+    expect(formatSeasonRange(s)).toBe('01.07.2026 – 30.09.2026')
+  })
+  it('shows only the start of the active season', () => {
+    expect(formatSeasonRange(season(0, null))).toBe('od 01.01.2026')
+  })
+})
@@ -0,0 +1,56 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/seasons.ts — Competitive seasons
+//
+// A season is a window of the online ladder. Exactly one season is active
+// (endedAt === null); closing it archives every player's final XP / rating
+// standings and resets the live stats on profiles. The archive and the close
+// itself live in Supabase (see lib/seasonService.ts) — this module only holds
+// the shapes and the presentation rules shared by Ranking and AdminConfig.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface Season {
+  id:        string
+  number:    number
+  name:      string
+  startedAt: string         // ISO timestamp
+  endedAt:   string | null  // null while the season is active
+}
+
+/** A player's final line in a closed season (mirrors season_standings). */
+export interface SeasonStanding {
+  playerId:    string
+  username:    string
+  avatar:      string
+  avatarUrl?:  string
+  xpRank:      number
+  ratingRank:  number
+  xp:          number
+  wins:        number
+  losses:      number
+  bestStreak:  number
+  rating:      number
+  ratingGames: number
+}
+
+/** The season currently being played, if any. */
+export function activeSeason(seasons: readonly Season[]): Season | null {
+  return seasons.find(s => s.endedAt === null) ?? null
+}
+
+/** Default name for the season opened after `current` is closed. */
+export function nextSeasonName(current: Season | null): string {
+  return `Sezon ${(current?.number ?? 0) + 1}`
+}
+
+function formatDay(iso: string): string {
+  const d = new Date(iso)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${pad(d.getDate())}.${pad(d.getMonth() + 1)}.${d.getFullYear()}`
+}
+
+/** "01.07.2026 – 30.09.2026", or "od 01.07.2026" for the active season. */
+export function formatSeasonRange(s: Season): string {
+  return s.endedAt
+    ? `${formatDay(s.startedAt)} – ${formatDay(s.endedAt)}`
+    : `od ${formatDay(s.startedAt)}`
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { isNewBest, parseSoloBestKey, soloBestKey } from './solo'
+
+describe('solo personal bests', () => {
+  it('keys a best by category and clock length', () => {
+    expect(soloBestKey('cat-1', 60_000)).toBe('cat-1:60')
+    expect(parseSoloBestKey('cat-1:60')).toEqual({ categoryId: 'cat-1', ms: 60_000 })
+    expect(parseSoloBestKey('a:b:90')).toEqual({ categoryId: 'a:b', ms: 90_000 })
+    expect(parseSoloBestKey('cat-1')).toBeNull()
+    expect(parseSoloBestKey(':60')).toBeNull()
+    expect(parseSoloBestKey('cat-1:0')).toBeNull()
+  })
+
+  it('needs a hit to set a first best', () => {
+    expect(isNewBest(undefined, { score: 0, passes: 4, timeLeftMs: 0 })).toBe(false)
+    expect(isNewBest(undefined, { score: 1, passes: 4, timeLeftMs: 0 })).toBe(true)
+  })
+
+  it('beats a best by score, then time left, then fewer passes', () => {
+    const best = { score: 5, passes: 2, timeLeftMs: 1_000 }
+    expect(isNewBest(best, { score: 6, passes: 9, timeLeftMs: 0 })).toBe(true)
+    expect(isNewBest(best, { score: 5, passes: 2, timeLeftMs: 2_000 })).toBe(true)
+    expect(isNewBest(best, { score: 5, passes: 1, timeLeftMs: 1_000 })).toBe(true)
+    expect(isNewBest(best, { ...best })).toBe(false)
+    expect(isNewBest(best, { score: 4, passes: 0, timeLeftMs: 9_000 })).toBe(false)
+  })
+})
@@ -0,0 +1,42 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/solo.ts — Solo time attack on one category, and personal bests
+//
+// The player picks a category and a clock length and runs through the
+// category's photos in a shuffled order (domain/timeAttack.ts). Results at
+// different clock lengths are not comparable, so a personal best belongs to a
+// category AND a length. Bests live on the profile as one jsonb map keyed by
+// soloBestKey(); the server keeps a run only if it beats the stored one by the
+// same order as compareResults, and this module is the client-side mirror.
+// ─────────────────────────────────────────────────────────────────────────────
+import { compareResults, type TimeAttackResult } from './timeAttack'
+
+/** Clock lengths offered in the solo picker (ms). */
+export const SOLO_DURATIONS_MS = [60_000, 90_000, 120_000] as const
+export const SOLO_DEFAULT_MS   = 60_000
+export const SOLO_PASS_PENALTY_MS = 3_000
+
+/** A stored personal best: the run's result and when it was set (ISO). */
+export interface SoloBest extends TimeAttackResult {
+  at: string
+}
+
+/** profiles.solo_bests — personal bests keyed by soloBestKey(). */
+export type SoloBests = Record<string, SoloBest>
+
+export function soloBestKey(categoryId: string, ms: number): string {
+  return `${categoryId}:${Math.round(ms / 1000)}`
+}
+
+/** Split a soloBestKey() back into its category and clock length; null for a malformed key. */
+export function parseSoloBestKey(key: string): { categoryId: string; ms: number } | null {
+  const at = key.lastIndexOf(':')
+  const seconds = Number(key.slice(at + 1))
+  if (at <= 0 || !Number.isInteger(seconds) || seconds <= 0) return null
+  return { categoryId: key.slice(0, at), ms: seconds * 1000 }
+}
+
+/** Whether `result` beats `best` — a first run with at least one hit always does. */
+export function isNewBest(best: TimeAttackResult | undefined, result: TimeAttackResult): boolean {
+  if (!best) return result.score > 0
+  return compareResults(result, best) < 0
+}
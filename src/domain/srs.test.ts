@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AGAIN_MS, DAY_MS, MIN_EASE, mergeCards, newCard, nextEase, reviewCard, studyCounts, studyQueue, type ReviewCard,
+} from './srs'
+
+const NOW = 1_000_000_000_000
+
+describe('spaced repetition (SM-2)', () => {
+  it('stretches the interval 1 → 6 → interval × ease on good answers', () => {
+    let card = newCard('q1', NOW)
+    card = reviewCard(card, 'good', NOW)
+    expect(card).toMatchObject({ interval: 1, reps: 1, ease: 2.5, due: NOW + DAY_MS })
+    card = reviewCard(card, 'good', NOW)
+    expect(card.interval).toBe(6)
+    card = reviewCard(card, 'good', NOW)
+    expect(card.interval).toBe(15)
+    card = reviewCard(card, 'easy', NOW)
+    expect(card.ease).toBe(2.6)
+    expect(card.interval).toBe(39)
+  })
+
+  it('starts a missed card over and brings it back within the session', () => {
+    const learned = { ...newCard('q1', NOW), interval: 15, reps: 3 }
+    const missed = reviewCard(learned, 'again', NOW)
+    expect(missed).toMatchObject({ interval: 0, reps: 0, lapses: 1, due: NOW + AGAIN_MS, reviewedAt: NOW })
+    expect(missed.ease).toBeLessThan(learned.ease)
+  })
+
+  it('never lets the ease drop below the floor', () => {
+    let ease = 2.5
+    for (let i = 0; i < 20; i++) ease = nextEase(ease, 1)
+    expect(ease).toBe(MIN_EASE)
+    expect(nextEase(2.5, 3)).toBe(2.36)
+  })
+
+  it('queues due cards, most overdue first, then a few new ones', () => {
+    const cards: Record<string, ReviewCard> = {
+      a: { ...newCard('a', 0), due: NOW - 10 },
+      b: { ...newCard('b', 0), due: NOW - 500 },
+      c: { ...newCard('c', 0), due: NOW + DAY_MS },
+    }
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f']
+    expect(studyQueue(ids, cards, NOW, 2).map(c => c.questionId)).toEqual(['b', 'a', 'd', 'e'])
+    expect(studyCounts(ids, cards, NOW)).toEqual({ due: 2, fresh: 3 })
+  })
+
+  it('merges two copies by the latest review', () => {
+    const local  = { a: { ...newCard('a', 0), reviewedAt: 5, reps: 2 }, b: { ...newCard('b', 0), reviewedAt: 1 } }
+    const remote = { a: { ...newCard('a', 0), reviewedAt: 3, reps: 1 }, b: { ...newCard('b', 0), reviewedAt: 9 }, c: newCard('c', 0) }
+    const merged = mergeCards(local, remote)
+    expect(merged.a.reps).toBe(2)
+    expect(merged.b.reviewedAt).toBe(9)
+    expect(Object.keys(merged).sort()).toEqual(['a', 'b', 'c'])
+  })
+})
@@ -0,0 +1,100 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/srs.ts — Spaced repetition (SM-2) for learning category answers
+//
+// Every question a player studies gets a ReviewCard: an ease factor, the
+// current interval and the moment it is due again. Grading a card follows
+// SM-2: a good answer stretches the interval (1 day, 6 days, then interval ×
+// ease) and nudges the ease; a miss starts the card over and brings it back
+// within the session. Times are epoch milliseconds so cards survive a trip
+// through localStorage and Supabase unchanged. Progress lives in two places
+// (the device and the account), so cards carry `reviewedAt` and a merge keeps
+// the most recently reviewed copy of each.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+/** A missed card comes back this soon — still within the session. */
+export const AGAIN_MS = 10 * 60 * 1000
+export const START_EASE = 2.5
+export const MIN_EASE   = 1.3
+/** New cards introduced per study session. */
+export const NEW_PER_SESSION = 10
+
+export interface ReviewCard {
+  questionId: string
+  ease:       number
+  /** Current interval in days; 0 while the card is being (re)learned. */
+  interval:   number
+  /** Correct reviews in a row. */
+  reps:       number
+  lapses:     number
+  due:        number
+  reviewedAt: number
+}
+
+/** How well the player knew the answer — the four buttons under a revealed card. */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+/** SM-2 response quality (0–5) for each grade. */
+export const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 }
+
+/** A card for a question never studied, due right away. */
+export function newCard(questionId: string, now: number): ReviewCard {
+  return { questionId, ease: START_EASE, interval: 0, reps: 0, lapses: 0, due: now, reviewedAt: 0 }
+}
+
+/** SM-2 ease update for response quality `q`, never below MIN_EASE. */
+export function nextEase(ease: number, q: number): number {
+  const next = ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)
+  return Math.max(MIN_EASE, Math.round(next * 100) / 100)
+}
+
+/** Grade a card at `now` and schedule its next review. */
+export function reviewCard(card: ReviewCard, grade: ReviewGrade, now: number): ReviewCard {
+  const q    = GRADE_QUALITY[grade]
+  const ease = nextEase(card.ease, q)
+  if (q < 3) {
+    return { ...card, ease, interval: 0, reps: 0, lapses: card.lapses + 1, due: now + AGAIN_MS, reviewedAt: now }
+  }
+  const reps     = card.reps + 1
+  const interval = reps === 1 ? 1 : reps === 2 ? 6 : Math.round(card.interval * ease)
+  return { ...card, ease, interval, reps, due: now + interval * DAY_MS, reviewedAt: now }
+}
+
+/** The interval a grade would give, in days (0 = later in this session) — shown on the grade buttons. */
+export function previewInterval(card: ReviewCard, grade: ReviewGrade, now: number): number {
+  return reviewCard(card, grade, now).interval
+}
+
+/**
+ * The cards to study in `questionIds` at `now`: every card already due, most
+ * overdue first, then up to `newLimit` questions never studied, in the order
+ * given.
+ */
+export function studyQueue(
+  questionIds: string[], cards: Record<string, ReviewCard>, now: number, newLimit = NEW_PER_SESSION,
+): ReviewCard[] {
+  const due = questionIds.map(id => cards[id]).filter(c => c && c.due <= now).sort((a, b) => a.due - b.due)
+  const fresh = questionIds.filter(id => !cards[id]).slice(0, newLimit).map(id => newCard(id, now))
+  return [...due, ...fresh]
+}
+
+/** How many of `questionIds` are due at `now`, and how many were never studied. */
+export function studyCounts(questionIds: string[], cards: Record<string, ReviewCard>, now: number): { due: number; fresh: number } {
+  let due = 0
+  let fresh = 0
+  for (const id of questionIds) {
+    const card = cards[id]
+    if (!card) fresh++
+    else if (card.due <= now) due++
+  }
+  return { due, fresh }
+}
+
+/** Merge two copies of a player's cards, keeping the latest review of each question. */
+export function mergeCards(a: Record<string, ReviewCard>, b: Record<string, ReviewCard>): Record<string, ReviewCard> {
+  const merged = { ...a }
+  for (const [id, card] of Object.entries(b)) {
+    if (!merged[id] || card.reviewedAt > merged[id].reviewedAt) merged[id] = card
+  }
+  return merged
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import type { Tile, TileOwner } from '../types'
+import { showdownSides, showdownTile, suddenDeathFromConfig } from './suddenDeath'
+
+const board = (...cells: [TileOwner, string][]): Tile[] =>
+  cells.map(([owner, categoryId], x) => ({ x, y: 0, categoryId, categoryName: categoryId.toUpperCase(), owner }))
+
+describe('sudden death', () => {
+  it('reads SUDDEN_DEATH_DUEL and SUDDEN_DEATH_MATCH', () => {
+    expect(suddenDeathFromConfig({ SUDDEN_DEATH_DUEL: 1, SUDDEN_DEATH_MATCH: 0 })).toEqual({ duels: true, matches: false })
+  })
+
+  it('puts the two leaders into the showdown', () => {
+    const tiles = board(['gold', 'a'], ['silver', 'b'])
+    expect(showdownSides(tiles, ['gold', 'silver'], {})).toEqual(['gold', 'silver'])
+    const party = board(['p0', 'a'], ['p1', 'a'], ['p1', 'b'], ['p2', 'c'], ['p2', 'c'])
+    expect(showdownSides(party, ['p0', 'p1', 'p2'], { p1: 1 })).toEqual(['p1', 'p2'])
+    expect(showdownSides(party, ['p0'], {})).toBeNull()
+  })
+
+  it('draws a random playable category, not a random tile', () => {
+    const tiles = board(['gold', 'a'], ['gold', 'a'], ['gold', 'a'], ['silver', 'b'], ['silver', 'c'])
+    expect(showdownTile(tiles, () => true, () => 0)).toBe(0)
+    expect(showdownTile(tiles, () => true, () => 0.5)).toBe(3)
+    expect(showdownTile(tiles, () => true, () => 0.99)).toBe(4)
+    expect(showdownTile(tiles, id => id === 'c', () => 0)).toBe(4)
+    expect(showdownTile(tiles, () => false)).toBeNull()
+  })
+})
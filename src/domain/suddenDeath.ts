@@ -0,0 +1,53 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/suddenDeath.ts — Sudden death for drawn duels and drawn matches
+//
+// Optional, and off by default. A drawn duel goes to a buzzer round: one
+// question at a time for both players, no clocks, and the first correct
+// answer wins the tile. A drawn match — on the board or on a limit
+// (domain/board.ts, domain/matchLimit.ts) — goes to a showdown: one more duel
+// between the two leaders on a random category, whose winner takes the match
+// without the board changing. A showdown that is itself drawn goes to the
+// buzzer. Online duels always have a loser (a clock runs out), so online
+// games only ever need the showdown.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { GameConfig, Tile, TileOwner } from '../types'
+import { countOwned } from './board'
+import type { DuelTally } from './matchLimit'
+import type { Rng } from './random'
+
+export interface SuddenDeathRules {
+  /** A drawn duel goes to a buzzer round. */
+  duels:   boolean
+  /** A drawn match goes to a showdown duel. */
+  matches: boolean
+}
+
+/** Local games: SUDDEN_DEATH_DUEL and SUDDEN_DEATH_MATCH. */
+export function suddenDeathFromConfig(cfg: Pick<GameConfig, 'SUDDEN_DEATH_DUEL' | 'SUDDEN_DEATH_MATCH'>): SuddenDeathRules {
+  return { duels: cfg.SUDDEN_DEATH_DUEL === 1, matches: cfg.SUDDEN_DEATH_MATCH === 1 }
+}
+
+/**
+ * The two sides a drawn match's showdown is between: the top two by tiles,
+ * then by duels won. Null with fewer than two sides.
+ */
+export function showdownSides<O extends TileOwner>(tiles: Tile[], sides: readonly O[], won: DuelTally): [O, O] | null {
+  const ranked = sides
+    .map(side => ({ side, tiles: countOwned(tiles, side), won: won[side] ?? 0 }))
+    .sort((a, b) => b.tiles - a.tiles || b.won - a.won)
+  return ranked.length >= 2 ? [ranked[0].side, ranked[1].side] : null
+}
+
+/**
+ * A tile to play the showdown on: a random category among those that have
+ * questions (`playable`), every category equally likely however many tiles
+ * it covers. Null if none is playable.
+ */
+export function showdownTile(tiles: Tile[], playable: (categoryId: string) => boolean, rand: Rng = Math.random): number | null {
+  const first = new Map<string, number>()
+  tiles.forEach((t, i) => {
+    if (!first.has(t.categoryId) && playable(t.categoryId)) first.set(t.categoryId, i)
+  })
+  const options = [...first.values()]
+  return options.length > 0 ? options[Math.min(options.length - 1, Math.floor(rand() * options.length))] : null
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import type { Tile, TileOwner } from '../types'
+import {
+  attackingTerritory, canChallenge, neighbours, resolveTerritoryRound, seedTerritories, territoryOutcome,
+} from './territory'
+
+// A 3×2 board from rows of [owner, territory] pairs
+const board = (...rows: [TileOwner, number][][]): Tile[] =>
+  rows.flatMap((row, y) => row.map(([owner, territory], x) => ({ x, y, categoryId: 'c', categoryName: 'C', owner, territory })))
+
+const owners = (tiles: Tile[]) => tiles.map(t => t.owner[0]).join('')
+
+describe('territory board', () => {
+  it('finds edge neighbours by x/y', () => {
+    const tiles = board([['gold', 0], ['gold', 1], ['silver', 2]], [['gold', 3], ['silver', 4], ['silver', 5]])
+    expect(neighbours(tiles, 0)).toEqual([1, 3])
+    expect(neighbours(tiles, 4).sort()).toEqual([1, 3, 5])
+  })
+
+  it('seeds a half-and-half board with one territory per tile', () => {
+    const plain = board([['neutral', 0], ['neutral', 0], ['neutral', 0]], [['neutral', 0], ['neutral', 0], ['neutral', 0]])
+    const seeded = seedTerritories(plain)
+    expect(owners(seeded)).toBe('ggsgss')
+    expect(seeded.map(t => t.territory)).toEqual([0, 1, 2, 3, 4, 5])
+  })
+})
+
+describe('challenges', () => {
+  const tiles = board([['gold', 0], ['gold', 0], ['silver', 2]], [['gold', 3], ['silver', 4], ['silver', 4]])
+
+  it('only allows attacking a foreign tile next to your own territory', () => {
+    expect(canChallenge(tiles, 2, 'gold')).toBe(true)
+    expect(canChallenge(tiles, 5, 'gold')).toBe(false)
+    expect(canChallenge(tiles, 1, 'gold')).toBe(false)
+    expect(canChallenge(tiles, 0, 'silver')).toBe(false)
+    expect(canChallenge(tiles, 1, 'silver')).toBe(true)
+  })
+
+  it('attacks from the largest bordering territory', () => {
+    expect(attackingTerritory(tiles, 4, 'gold')).toBe(0)
+    expect(attackingTerritory(tiles, 5, 'gold')).toBeNull()
+  })
+})
+
+describe('resolveTerritoryRound', () => {
+  const tiles = board([['gold', 0], ['gold', 0], ['silver', 2]], [['gold', 3], ['silver', 4], ['silver', 4]])
+
+  it('a winning challenger absorbs the whole defending territory', () => {
+    const r = resolveTerritoryRound(tiles, 4, 'gold', 'gold')
+    expect(owners(r)).toBe('ggsggg')
+    expect(r[4].territory).toBe(0)
+    expect(r[5].territory).toBe(0)
+  })
+
+  it('a winning defender absorbs the attacking territory', () => {
+    const r = resolveTerritoryRound(tiles, 4, 'gold', 'silver')
+    expect(owners(r)).toBe('sssgss')
+    expect(r[0].territory).toBe(4)
+    expect(r[3]).toBe(tiles[3])
+  })
+
+  it('a draw changes nothing', () => {
+    expect(resolveTerritoryRound(tiles, 4, 'gold', 'draw')).toBe(tiles)
+  })
+
+  it('a neutral tile is taken on its own', () => {
+    const open = board([['gold', 0], ['neutral', 1], ['silver', 2]])
+    expect(owners(resolveTerritoryRound(open, 1, 'gold', 'gold'))).toBe('ggs')
+    expect(owners(resolveTerritoryRound(open, 1, 'gold', 'silver'))).toBe('gss')
+  })
+
+  it('eliminates a player who loses their last territory', () => {
+    const last = board([['gold', 0], ['silver', 1], ['silver', 1]])
+    expect(territoryOutcome(last).isOver).toBe(false)
+    const r = resolveTerritoryRound(last, 1, 'gold', 'gold')
+    expect(territoryOutcome(r)).toEqual({ isOver: true, gold: 3, silver: 0, winner: 'gold' })
+  })
+})
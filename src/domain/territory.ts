@@ -0,0 +1,98 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/territory.ts — "The Floor" territory rules
+//
+// Classic rules let either player duel for any tile and colour just that one.
+// Territory rules follow the TV show: the board starts fully split between the
+// two players, every tile its own territory. The picker (the challenger) may
+// only attack a territory touching one of their own, and the duel decides who
+// absorbs whom — the winner takes the loser's *entire* territory, which then
+// carries the winner's territory id. A player who loses their last territory
+// is eliminated and the match is over. Adjacency is by Tile.x/y, so irregular
+// board shapes work as well as rectangles.
+// ─────────────────────────────────────────────────────────────────────────────
+import type { Tile, TileOwner } from '../types'
+import { countOwned, type BoardOutcome } from './board'
+
+export type RulesMode = 'classic' | 'territory'
+
+/** A player's tiles: gold is player 1 / host, silver player 2 / guest, pN a party seat. */
+export type Side = Exclude<TileOwner, 'neutral'>
+
+/** Territory id of the tile at `idx`; a tile without one is a territory of its own. */
+export function territoryOf(tiles: Tile[], idx: number): number {
+  return tiles[idx]?.territory ?? idx
+}
+
+/** Indices of the tiles sharing an edge with the tile at `idx`. */
+export function neighbours(tiles: Tile[], idx: number): number[] {
+  const t = tiles[idx]
+  if (!t) return []
+  const out: number[] = []
+  tiles.forEach((o, i) => {
+    if (Math.abs(o.x - t.x) + Math.abs(o.y - t.y) === 1) out.push(i)
+  })
+  return out
+}
+
+/**
+ * The starting board for territory rules: the first half of the tiles (left to
+ * right, then top to bottom) is gold, the rest silver, one territory per tile.
+ */
+export function seedTerritories(tiles: Tile[]): Tile[] {
+  const order = tiles.map((_, i) => i).sort((a, b) => tiles[a].x - tiles[b].x || tiles[a].y - tiles[b].y)
+  const gold  = new Set(order.slice(0, Math.floor(tiles.length / 2)))
+  return tiles.map((t, i) => ({ ...t, owner: gold.has(i) ? 'gold' : 'silver', territory: i }))
+}
+
+/**
+ * The challenger's territory the attack on `idx` comes from: the largest one
+ * of theirs bordering the target (lowest id on a tie), or null if none does.
+ */
+export function attackingTerritory(tiles: Tile[], idx: number, challenger: Side): number | null {
+  const size = (id: number) => tiles.filter((t, i) => t.owner === challenger && territoryOf(tiles, i) === id).length
+  let best: number | null = null
+  for (const n of neighbours(tiles, idx)) {
+    if (tiles[n].owner !== challenger) continue
+    const id = territoryOf(tiles, n)
+    if (best === null || size(id) > size(best) || (size(id) === size(best) && id < best)) best = id
+  }
+  return best
+}
+
+/** May `challenger` attack the tile at `idx`? Only a foreign tile bordering their own. */
+export function canChallenge(tiles: Tile[], idx: number, challenger: Side): boolean {
+  const t = tiles[idx]
+  if (!t || t.owner === challenger) return false
+  return attackingTerritory(tiles, idx, challenger) !== null
+}
+
+/**
+ * Apply a finished territory duel for the tile at `idx`. If the challenger
+ * wins, the target's whole territory joins the attacking one; if the defender
+ * wins, they absorb the attacking territory instead. A neutral target is only
+ * the one tile, and a draw changes nothing.
+ */
+export function resolveTerritoryRound(tiles: Tile[], idx: number, challenger: Side, winner: Side | 'draw'): Tile[] {
+  const target = tiles[idx]
+  if (!target || winner === 'draw') return tiles
+  const targetId = territoryOf(tiles, idx)
+  const attackId = attackingTerritory(tiles, idx, challenger)
+
+  // Every tile of `owner`'s territory `id` goes to the winner, under id `into`
+  const absorb = (owner: TileOwner, id: number, into: number) => (t: Tile, i: number): Tile =>
+    t.owner === owner && territoryOf(tiles, i) === id ? { ...t, owner: winner, territory: into } : t
+
+  if (winner === challenger) return tiles.map(absorb(target.owner, targetId, attackId ?? targetId))
+  if (target.owner === winner && attackId !== null) return tiles.map(absorb(challenger, attackId, targetId))
+  // The defender held a neutral tile (or no attack was possible): just that tile
+  return tiles.map((t, i) => (i === idx ? { ...t, owner: winner, territory: targetId } : t))
+}
+
+/** Territory rules end the match when a player is left without territory. */
+export function territoryOutcome(tiles: Tile[]): BoardOutcome {
+  const gold   = countOwned(tiles, 'gold')
+  const silver = countOwned(tiles, 'silver')
+  const isOver = tiles.length > 0 && (gold === 0 || silver === 0)
+  const winner: BoardOutcome['winner'] = gold > silver ? 'gold' : silver > gold ? 'silver' : 'draw'
+  return { isOver, gold, silver, winner }
+}
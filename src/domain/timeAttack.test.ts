@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { answerRun, compareResults, currentQuestionId, isRunOver, newRun, runResult, startRun } from './timeAttack'
+
+describe('time attack', () => {
+  it('scores, passes and moves through the deck', () => {
+    let run = startRun(newRun(['a', 'b', 'c'], 10_000), 0)
+    run = answerRun(run, 'correct', 1_000, 2_000)
+    expect(currentQuestionId(run)).toBe('b')
+    run = answerRun(run, 'pass', 2_000, 2_000)
+    expect(runResult(run, 2_000)).toEqual({ score: 1, passes: 1, timeLeftMs: 6_000 })
+  })
+
+  it('ends with the deck and keeps the time left', () => {
+    let run = startRun(newRun(['a'], 10_000), 0)
+    run = answerRun(run, 'correct', 4_000, 0)
+    expect(isRunOver(run, 4_000)).toBe(true)
+    expect(runResult(run, 9_000).timeLeftMs).toBe(6_000)
+    expect(answerRun(run, 'correct', 5_000, 0)).toBe(run)
+  })
+
+  it('ends when the clock runs out, a pass included', () => {
+    const run = startRun(newRun(['a', 'b', 'c'], 5_000), 0)
+    expect(isRunOver(run, 5_000)).toBe(true)
+    expect(answerRun(run, 'correct', 6_000, 0)).toBe(run)
+    const charged = answerRun(run, 'pass', 3_000, 3_000)
+    expect(isRunOver(charged, 3_000)).toBe(true)
+    expect(runResult(charged, 3_000)).toEqual({ score: 0, passes: 1, timeLeftMs: 0 })
+  })
+
+  it('ranks by score, then time left, then fewer passes', () => {
+    const r = (score: number, timeLeftMs: number, passes: number) => ({ score, timeLeftMs, passes })
+    const sorted = [r(3, 0, 1), r(4, 0, 5), r(3, 500, 2), r(3, 0, 0)].sort(compareResults)
+    expect(sorted).toEqual([r(4, 0, 5), r(3, 500, 2), r(3, 0, 0), r(3, 0, 1)])
+  })
+})
@@ -0,0 +1,76 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/timeAttack.ts — A solo run against the clock
+//
+// One player, one clock and a deck of questions in a fixed order. A correct
+// answer scores and moves on; a pass moves on too, but costs time. The run is
+// over when the clock runs out or the deck does. The clock is a DuelClock
+// (domain/clock.ts), so it runs on a deadline exactly like the duel clocks and
+// the store only needs one timeout. Results rank by score, then by time left,
+// then by fewer passes.
+// ─────────────────────────────────────────────────────────────────────────────
+import { chargeClock, remainingAt, runClock, stopClock, stoppedClock, type DuelClock } from './clock'
+
+export interface TimeAttackRun {
+  /** Question ids in the order they are shown. */
+  deck:    string[]
+  /** Position in the deck of the question on screen. */
+  index:   number
+  clock:   DuelClock
+  correct: number
+  passes:  number
+}
+
+export interface TimeAttackResult {
+  score:      number
+  passes:     number
+  timeLeftMs: number
+}
+
+/** A run on `deck` with `ms` on a stopped clock. */
+export function newRun(deck: string[], ms: number): TimeAttackRun {
+  return { deck, index: 0, clock: stoppedClock(ms), correct: 0, passes: 0 }
+}
+
+/** Start the clock at `now`. */
+export function startRun(run: TimeAttackRun, now: number): TimeAttackRun {
+  return { ...run, clock: runClock(run.clock, now) }
+}
+
+/** The question on screen, or null once the deck is done. */
+export function currentQuestionId(run: TimeAttackRun): string | null {
+  return run.deck[run.index] ?? null
+}
+
+export function isRunOver(run: TimeAttackRun, now: number): boolean {
+  return run.index >= run.deck.length || remainingAt(run.clock, now) <= 0
+}
+
+/** Stop the clock of a run that is over, keeping the time left for the result. */
+export function finishRun(run: TimeAttackRun, now: number): TimeAttackRun {
+  return { ...run, clock: stopClock(run.clock, now) }
+}
+
+/**
+ * Answer the question on screen at `now`: score it or pass it (taking
+ * `penaltyMs` off the clock), then move on. A finished run stays as it is.
+ */
+export function answerRun(run: TimeAttackRun, result: 'correct' | 'pass', now: number, penaltyMs: number): TimeAttackRun {
+  if (isRunOver(run, now)) return run
+  const next: TimeAttackRun = {
+    ...run,
+    index:   run.index + 1,
+    clock:   result === 'pass' ? chargeClock(run.clock, penaltyMs, now) : run.clock,
+    correct: run.correct + (result === 'correct' ? 1 : 0),
+    passes:  run.passes + (result === 'pass' ? 1 : 0),
+  }
+  return isRunOver(next, now) ? finishRun(next, now) : next
+}
+
+export function runResult(run: TimeAttackRun, now: number): TimeAttackResult {
+  return { score: run.correct, passes: run.passes, timeLeftMs: Math.round(remainingAt(run.clock, now)) }
+}
+
+/** Sort order for results: negative when `a` ranks above `b`. */
+export function compareResults(a: TimeAttackResult, b: TimeAttackResult): number {
+  return b.score - a.score || b.timeLeftMs - a.timeLeftMs || a.passes - b.passes
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import {
+  BYE, bracketOrder, buildBracket, leagueStandings, playableMatches, recordResult,
+  roundLabel, seedEntrants, tournamentChampion, type BracketMatch,
+} from './tournament'
+
+const ids = (n: number) => Array.from({ length: n }, (_, i) => `p${i + 1}`)
+const byKey = (ms: BracketMatch[], key: string) => ms.find(m => m.key === key)!
+
+// Play every playable match, the better seed (lower number) always winning
+function playOut(ms: BracketMatch[]): BracketMatch[] {
+  let cur = ms
+  for (let guard = 0; guard < 200; guard++) {
+    const next = playableMatches(cur)[0]
+    if (!next) return cur
+    const seed = (id: string) => Number(id.slice(1))
+    cur = recordResult(cur, next.key, seed(next.a!) < seed(next.b!) ? 'a' : 'b')
+  }
+  throw new Error('bracket never finished')
+}
+
+describe('seedEntrants', () => {
+  it('orders by the chosen stat, best first', () => {
+    const es = [
+      { playerId: 'a', username: 'ala', xp: 10, rating: 1500 },
+      { playerId: 'b', username: 'bob', xp: 30, rating: 1100 },
+    ]
+    expect(seedEntrants(es, 'xp')).toEqual(['b', 'a'])
+    expect(seedEntrants(es, 'rating')).toEqual(['a', 'b'])
+  })
+})
+
+describe('bracketOrder', () => {
+  it('keeps the top two seeds apart until the final', () => {
+    expect(bracketOrder(4)).toEqual([1, 4, 2, 3])
+    expect(bracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6])
+  })
+})
+
+describe('single elimination', () => {
+  it('gives the top seeds first-round byes', () => {
+    const ms = buildBracket('single', ids(3))
+    expect(byKey(ms, 'W1-0')).toMatchObject({ a: 'p1', b: BYE, winner: 'a' })
+    expect(byKey(ms, 'W2-0').a).toBe('p1')
+    expect(playableMatches(ms).map(m => m.key)).toEqual(['W1-1'])
+  })
+
+  it('advances the winner and crowns the final winner', () => {
+    let ms = buildBracket('single', ids(4))
+    ms = recordResult(ms, 'W1-0', 'a')
+    ms = recordResult(ms, 'W1-1', 'b')
+    expect(byKey(ms, 'W2-0')).toMatchObject({ a: 'p1', b: 'p3' })
+    expect(tournamentChampion('single', ms, ids(4))).toBeNull()
+    ms = recordResult(ms, 'W2-0', 'b')
+    expect(tournamentChampion('single', ms, ids(4))).toBe('p3')
+  })
+
+  it('sends slot a through on a draw and ignores repeated results', () => {
+    let ms = buildBracket('single', ids(2))
+    ms = recordResult(ms, 'W1-0', 'draw')
+    expect(byKey(ms, 'W1-0').winner).toBe('a')
+    expect(recordResult(ms, 'W1-0', 'b')).toEqual(ms)
+  })
+})
+
+describe('double elimination', () => {
+  it('drops winners-bracket losers into the losers bracket', () => {
+    let ms = buildBracket('double', ids(4))
+    ms = recordResult(ms, 'W1-0', 'a')
+    ms = recordResult(ms, 'W1-1', 'a')
+    expect(byKey(ms, 'L1-0')).toMatchObject({ a: 'p4', b: 'p3' })
+  })
+
+  it('gives a player one loss before elimination', () => {
+    const ms = playOut(buildBracket('double', ids(6)))
+    expect(tournamentChampion('double', ms, ids(6))).toBe('p1')
+    expect(byKey(ms, 'GF').b).toBe('p2')
+  })
+
+  it('plays a two-player event as final plus grand final', () => {
+    let ms = buildBracket('double', ids(2))
+    ms = recordResult(ms, 'W1-0', 'b')
+    expect(byKey(ms, 'GF')).toMatchObject({ a: 'p2', b: 'p1' })
+    ms = recordResult(ms, 'GF', 'b')
+    expect(tournamentChampion('double', ms, ids(2))).toBe('p1')
+  })
+})
+
+describe('round robin', () => {
+  it('pairs every player with every other exactly once', () => {
+    const ms = buildBracket('round_robin', ids(5))
+    expect(ms).toHaveLength(10)
+    const pairs = new Set(ms.map(m => [m.a, m.b].sort().join('-')))
+    expect(pairs.size).toBe(10)
+    expect(Math.max(...ms.map(m => m.round))).toBe(5)
+  })
+
+  it('ranks by points with draws worth half', () => {
+    let ms = buildBracket('round_robin', ids(3))
+    for (const m of ms) {
+      const outcome = m.a === 'p3' || m.b === 'p3' ? (m.a === 'p3' ? 'a' : 'b') : 'draw'
+      ms = recordResult(ms, m.key, outcome)
+    }
+    const table = leagueStandings(ms, ids(3))
+    expect(table.map(r => r.playerId)).toEqual(['p3', 'p1', 'p2'])
+    expect(table[1]).toMatchObject({ wins: 0, draws: 1, losses: 1, points: 0.5 })
+    expect(tournamentChampion('round_robin', ms, ids(3))).toBe('p3')
+  })
+})
+
+describe('roundLabel', () => {
+  it('names the last winners rounds', () => {
+    expect(roundLabel({ side: 'winners', round: 3 }, 3)).toBe('FINAŁ')
+    expect(roundLabel({ side: 'winners', round: 2 }, 3)).toBe('PÓŁFINAŁ')
+    expect(roundLabel({ side: 'winners', round: 1 }, 4)).toBe('1/8')
+    expect(roundLabel({ side: 'final', round: 1 }, 3)).toBe('WIELKI FINAŁ')
+  })
+})
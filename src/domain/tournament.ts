@@ -0,0 +1,265 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// domain/tournament.ts — Tournament brackets
+//
+// Builds single-elimination, double-elimination and round-robin brackets from
+// a seeded list of players and advances them match by match. Every match
+// carries explicit routes ("winner goes to W2-0 slot a, loser to L1-0 slot b"),
+// so the server only has to follow them when a room result lands. The server
+// builds the same bracket itself at start (start_tournament in
+// supabase/migrations/20260707_tournaments.sql) — change one, change both.
+// Byes are ordinary slot values and resolve themselves as soon as the opposing
+// slot is known. Elimination rooms always play sudden death, so a draw there
+// is only a fallback.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TournamentFormat   = 'single' | 'double' | 'round_robin'
+export type TournamentSeeding  = 'xp' | 'rating'
+export type TournamentStatus   = 'open' | 'running' | 'finished'
+export type BracketSide        = 'winners' | 'losers' | 'final' | 'league'
+export type BracketSlot        = 'a' | 'b'
+/** 'draw' only in round robin — an elimination draw (sudden death makes it rare) sends slot a through. */
+export type MatchOutcome       = BracketSlot | 'draw'
+
+/** Slot value for "nobody will ever play here". */
+export const BYE = 'bye'
+
+export const MIN_ENTRANTS = 2
+export const MAX_ENTRANTS = 32
+
+export const FORMAT_LABEL: Record<TournamentFormat, string> = {
+  single:      'PUCHAR',
+  double:      'PODWÓJNA ELIMINACJA',
+  round_robin: 'KAŻDY Z KAŻDYM',
+}
+
+export interface Route { key: string; slot: BracketSlot }
+
+export interface BracketMatch {
+  key:      string              // 'W1-0', 'L2-1', 'GF', 'R3-2'
+  side:     BracketSide
+  round:    number              // 1-based within its side
+  index:    number              // 0-based within its round
+  a:        string | null       // player id, BYE, or null while pending
+  b:        string | null
+  winner:   MatchOutcome | null
+  winnerTo: Route | null
+  loserTo:  Route | null
+  roomId?:  string | null
+}
+
+export interface Entrant {
+  playerId: string
+  username: string
+  xp:       number
+  rating:   number
+}
+
+export interface LeagueStanding {
+  playerId: string
+  played:   number
+  wins:     number
+  draws:    number
+  losses:   number
+  points:   number              // win 1, draw ½
+}
+
+/** Entrant ids, best seed first. Ties fall back to the username. Mirrors start_tournament. */
+export function seedEntrants(entrants: readonly Entrant[], by: TournamentSeeding): string[] {
+  return [...entrants]
+    .sort((x, y) => (y[by] - x[by]) || x.username.localeCompare(y.username))
+    .map(e => e.playerId)
+}
+
+/**
+ * Standard bracket order for `size` (a power of two) seed numbers: seed 1 and 2
+ * can only meet in the final, 1–4 in the semis, and so on.
+ */
+export function bracketOrder(size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const n = order.length * 2
+    order = order.flatMap(s => [s, n + 1 - s])
+  }
+  return order
+}
+
+function nextPowerOfTwo(n: number): number {
+  let p = 1
+  while (p < n) p *= 2
+  return p
+}
+
+const slotOf = (i: number): BracketSlot => i % 2 === 0 ? 'a' : 'b'
+
+function match(key: string, side: BracketSide, round: number, index: number): BracketMatch {
+  return { key, side, round, index, a: null, b: null, winner: null, winnerTo: null, loserTo: null }
+}
+
+function buildElimination(seeds: readonly string[], double: boolean): BracketMatch[] {
+  const size   = nextPowerOfTwo(Math.max(2, seeds.length))
+  const rounds = Math.log2(size)
+  const out: BracketMatch[] = []
+  const wKey = (r: number, i: number) => `W${r}-${i}`
+  const lKey = (r: number, i: number) => `L${r}-${i}`
+
+  const order = bracketOrder(size)
+  for (let r = 1; r <= rounds; r++) {
+    for (let i = 0; i < size / 2 ** r; i++) {
+      const m = match(wKey(r, i), 'winners', r, i)
+      if (r === 1) {
+        m.a = seeds[order[2 * i] - 1]     ?? BYE
+        m.b = seeds[order[2 * i + 1] - 1] ?? BYE
+      }
+      if (r < rounds) m.winnerTo = { key: wKey(r + 1, Math.floor(i / 2)), slot: slotOf(i) }
+      out.push(m)
+    }
+  }
+  if (!double) return out
+
+  const final = match('GF', 'final', 1, 0)
+  out.find(m => m.key === wKey(rounds, 0))!.winnerTo = { key: 'GF', slot: 'a' }
+
+  if (rounds === 1) {
+    out.find(m => m.key === wKey(1, 0))!.loserTo = { key: 'GF', slot: 'b' }
+    return [...out, final]
+  }
+
+  // Losers bracket: odd rounds pair up survivors, even rounds take the next
+  // wave of winners-bracket losers (fed in reverse to avoid quick rematches).
+  const lRounds = 2 * (rounds - 1)
+  for (let r = 1; r <= lRounds; r++) {
+    const count = size / 2 ** (Math.floor((r + 1) / 2) + 1)
+    for (let i = 0; i < count; i++) {
+      const m = match(lKey(r, i), 'losers', r, i)
+      if (r < lRounds) {
+        m.winnerTo = r % 2 === 1
+          ? { key: lKey(r + 1, i), slot: 'a' }
+          : { key: lKey(r + 1, Math.floor(i / 2)), slot: slotOf(i) }
+      } else {
+        m.winnerTo = { key: 'GF', slot: 'b' }
+      }
+      out.push(m)
+    }
+  }
+  for (const m of out) {
+    if (m.side !== 'winners') continue
+    if (m.round === 1) {
+      m.loserTo = { key: lKey(1, Math.floor(m.index / 2)), slot: slotOf(m.index) }
+    } else {
+      const count = size / 2 ** m.round
+      m.loserTo = { key: lKey(2 * (m.round - 1), count - 1 - m.index), slot: 'b' }
+    }
+  }
+  return [...out, final]
+}
+
+// Circle method: seat 0 stays put, everyone else rotates one step per round.
+function buildRoundRobin(seeds: readonly string[]): BracketMatch[] {
+  const seats = seeds.length % 2 === 0 ? [...seeds] : [...seeds, BYE]
+  const n = seats.length
+  const out: BracketMatch[] = []
+  for (let r = 1; r < n; r++) {
+    let index = 0
+    for (let i = 0; i < n / 2; i++) {
+      const a = seats[i], b = seats[n - 1 - i]
+      if (a === BYE || b === BYE) continue
+      out.push({ ...match(`R${r}-${index}`, 'league', r, index), a, b })
+      index++
+    }
+    seats.splice(1, 0, seats.pop()!)
+  }
+  return out
+}
+
+/** All matches of a new tournament, with first-round byes already played out. */
+export function buildBracket(format: TournamentFormat, seeds: readonly string[]): BracketMatch[] {
+  if (format === 'round_robin') return buildRoundRobin(seeds)
+  return resolveByes(buildElimination(seeds, format === 'double'))
+}
+
+function place(byKey: Map<string, BracketMatch>, route: Route | null, player: string) {
+  if (!route) return
+  const target = byKey.get(route.key)
+  if (target) byKey.set(route.key, { ...target, [route.slot]: player })
+}
+
+function decide(byKey: Map<string, BracketMatch>, key: string, outcome: MatchOutcome) {
+  const m = byKey.get(key)
+  if (!m || m.winner || !m.a || !m.b) return
+  const slot: BracketSlot = outcome === 'draw' && m.side !== 'league' ? 'a' : outcome === 'b' ? 'b' : 'a'
+  byKey.set(key, { ...m, winner: m.side === 'league' ? outcome : slot })
+  if (m.side === 'league') return
+  place(byKey, m.winnerTo, slot === 'a' ? m.a : m.b)
+  place(byKey, m.loserTo,  slot === 'a' ? m.b : m.a)
+}
+
+function resolveByes(matches: readonly BracketMatch[]): BracketMatch[] {
+  const byKey = new Map(matches.map(m => [m.key, m]))
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const m of byKey.values()) {
+      if (m.winner || !m.a || !m.b || (m.a !== BYE && m.b !== BYE)) continue
+      decide(byKey, m.key, m.a === BYE && m.b !== BYE ? 'b' : 'a')
+      changed = true
+    }
+  }
+  return matches.map(m => byKey.get(m.key)!)
+}
+
+/**
+ * Apply a finished match and advance winner / loser along their routes.
+ * Unknown keys and already-decided matches leave the bracket unchanged.
+ */
+export function recordResult(matches: readonly BracketMatch[], key: string, outcome: MatchOutcome): BracketMatch[] {
+  const byKey = new Map(matches.map(m => [m.key, m]))
+  decide(byKey, key, outcome)
+  return resolveByes(matches.map(m => byKey.get(m.key)!))
+}
+
+/** Matches waiting to be played: both players known, no result yet. */
+export function playableMatches(matches: readonly BracketMatch[]): BracketMatch[] {
+  return matches.filter(m => !m.winner && m.a && m.b && m.a !== BYE && m.b !== BYE)
+}
+
+/** Win / draw / loss table of a round robin, leader first. */
+export function leagueStandings(matches: readonly BracketMatch[], seeds: readonly string[]): LeagueStanding[] {
+  const rows = new Map(seeds.map(id => [id, { playerId: id, played: 0, wins: 0, draws: 0, losses: 0, points: 0 }]))
+  for (const m of matches) {
+    if (m.side !== 'league' || !m.winner || !m.a || !m.b) continue
+    const a = rows.get(m.a), b = rows.get(m.b)
+    if (!a || !b) continue
+    a.played++; b.played++
+    if (m.winner === 'draw') { a.draws++; b.draws++ }
+    else {
+      const [w, l] = m.winner === 'a' ? [a, b] : [b, a]
+      w.wins++; l.losses++
+    }
+  }
+  for (const r of rows.values()) r.points = r.wins + r.draws / 2
+  return [...rows.values()].sort((x, y) => (y.points - x.points) || (seeds.indexOf(x.playerId) - seeds.indexOf(y.playerId)))
+}
+
+/** The tournament winner, or null while matches remain. */
+export function tournamentChampion(format: TournamentFormat, matches: readonly BracketMatch[], seeds: readonly string[]): string | null {
+  if (format === 'round_robin') {
+    if (matches.some(m => !m.winner)) return null
+    return leagueStandings(matches, seeds)[0]?.playerId ?? null
+  }
+  const final = matches.find(m => !m.winnerTo && m.side !== 'losers')
+  if (!final?.winner) return null
+  const id = final.winner === 'b' ? final.b : final.a
+  return id && id !== BYE ? id : null
+}
+
+/** Polish round name for the bracket view ("FINAŁ", "PÓŁFINAŁ", "1/8", "KOLEJKA 3"). */
+export function roundLabel(m: Pick<BracketMatch, 'side' | 'round'>, winnersRounds: number): string {
+  if (m.side === 'final')  return 'WIELKI FINAŁ'
+  if (m.side === 'league') return `KOLEJKA ${m.round}`
+  if (m.side === 'losers') return `DRABINKA PRZEGRANYCH ${m.round}`
+  const left = winnersRounds - m.round
+  if (left === 0) return 'FINAŁ'
+  if (left === 1) return 'PÓŁFINAŁ'
+  if (left === 2) return 'ĆWIERĆFINAŁ'
+  return `1/${2 ** left}`
+}
@@ -1,21 +1,63 @@
 import { describe, expect, it } from 'vitest'
-import { applyMatchResult, playerXpDelta, xpRewards, type ProfileStats } from './xp'
+import {
+  applyMatchResult, playerXpDelta, xpPolicyFromConfig, xpRewards,
+  type ProfileStats, type XpPolicy, type XpRewards,
+} from './xp'
 
 const base = (over: Partial<ProfileStats> = {}): ProfileStats => ({
   xp: 0, wins: 0, losses: 0, win_streak: 0, best_streak: 0, ...over,
 })
 
+const policy = (over: Partial<XpPolicy> = {}): XpPolicy => ({
+  win: 12, draw: 6, loss: 0, modeMultiplier: 1, forfeitPct: 50,
+  marginBonus: 0, streakBonus: 0, streakCap: 5, ...over,
+})
+
+describe('xpPolicyFromConfig', () => {
+  it('maps the MP_XP_* keys and the mode multiplier', () => {
+    const p = xpPolicyFromConfig({
+      MP_XP_WIN: 10, MP_XP_DRAW: 5, MP_XP_LOSS: 1, MP_XP_FORFEIT_PCT: 50,
+      MP_XP_MARGIN_BONUS: 2, MP_XP_STREAK_BONUS: 3, MP_XP_STREAK_CAP: 4,
+    }, 1.5)
+    expect(p).toEqual({
+      win: 10, draw: 5, loss: 1, modeMultiplier: 1.5, forfeitPct: 50,
+      marginBonus: 2, streakBonus: 3, streakCap: 4,
+    })
+  })
+})
+
 describe('xpRewards', () => {
-  it('normal result: winner gets categoriesCount, loser 0, draw half', () => {
-    expect(xpRewards(12)).toEqual({ win: 12, loss: 0, draw: 6 })
+  it('normal result uses the configured base values', () => {
+    expect(xpRewards(policy())).toEqual({ win: 12, loss: 0, draw: 6 })
+    expect(xpRewards(policy({ loss: 2 }))).toEqual({ win: 12, loss: 2, draw: 6 })
+  })
+  it('scales every base value by the mode multiplier', () => {
+    expect(xpRewards(policy({ loss: 2, modeMultiplier: 1.5 }))).toEqual({ win: 18, loss: 3, draw: 9 })
+  })
+  it('forfeit: winner gets +pct%, the leaver is docked pct% of the win', () => {
+    expect(xpRewards(policy(), { forfeit: true })).toEqual({ win: 18, loss: -6, draw: 6 })
+    expect(xpRewards(policy({ forfeitPct: 0 }), { forfeit: true })).toEqual({ win: 12, loss: 0, draw: 6 })
+  })
+  it('adds a margin bonus per tile to the winner only', () => {
+    expect(xpRewards(policy({ marginBonus: 2 }), { margin: 3 })).toEqual({ win: 18, loss: 0, draw: 6 })
+  })
+  it('skips the margin bonus on a forfeit', () => {
+    expect(xpRewards(policy({ marginBonus: 2 }), { forfeit: true, margin: 3 }).win).toBe(18)
+  })
+  it('adds a capped streak bonus to the winner', () => {
+    expect(xpRewards(policy({ streakBonus: 1 }), { winnerStreak: 2 }).win).toBe(14)
+    expect(xpRewards(policy({ streakBonus: 1, streakCap: 3 }), { winnerStreak: 10 }).win).toBe(15)
+  })
+  it('bonuses of 0 are switched off', () => {
+    expect(xpRewards(policy(), { margin: 8, winnerStreak: 4 }).win).toBe(12)
   })
-  it('forfeit: winner gets 1.5×, loser is docked half', () => {
-    expect(xpRewards(12, true)).toEqual({ win: 18, loss: -6, draw: 6 })
+  it('never produces negative rewards from negative config', () => {
+    expect(xpRewards(policy({ win: -5, draw: -1, loss: -3 }))).toEqual({ win: 0, loss: 0, draw: 0 })
   })
 })
 
 describe('playerXpDelta', () => {
-  const r = xpRewards(10)
+  const r: XpRewards = { win: 10, loss: 0, draw: 5 }
   it('gives the winner the win reward and the loser the loss reward', () => {
     expect(playerXpDelta('host', 'host', r)).toBe(10)
     expect(playerXpDelta('guest', 'host', r)).toBe(0)
@@ -27,7 +69,7 @@ describe('playerXpDelta', () => {
 })
 
 describe('applyMatchResult', () => {
-  const r = xpRewards(12) // win 12, loss 0, draw 6
+  const r = xpRewards(policy()) // win 12, loss 0, draw 6
 
   it('host win: host gains xp/win/streak, guest gains a loss with streak reset', () => {
     const { host, guest } = applyMatchResult(base({ xp: 5, win_streak: 2, best_streak: 3 }), base({ xp: 4, win_streak: 1, best_streak: 1 }), 'host', r)
@@ -48,7 +90,7 @@ describe('applyMatchResult', () => {
   })
 
   it('forfeit loss never drives XP below zero', () => {
-    const forfeit = xpRewards(12, true) // loss -6
+    const forfeit = xpRewards(policy(), { forfeit: true }) // loss -6
     const { guest } = applyMatchResult(base(), base({ xp: 2 }), 'host', forfeit)
     expect(guest.xp).toBe(0) // 2 - 6 clamped to 0
   })
@@ -1,11 +1,12 @@
 // ─────────────────────────────────────────────────────────────────────────────
 // domain/xp.ts — Pure XP / ranking math
 //
-// The reward values and how a match result mutates each player's profile stats
-// are pure functions of their inputs. The actual database reads/writes live in
-// lib/profileService.ts; this module knows nothing about Supabase.
+// The reward values (an admin-configurable policy) and how a match result
+// mutates each player's profile stats are pure functions of their inputs. The
+// server applies the same rules in the submit_match_result() RPC (see
+// lib/profileService.ts); here they drive previews and end-of-game estimates.
 // ─────────────────────────────────────────────────────────────────────────────
-import type { MPActivePlayer } from '../types'
+import type { GameConfig, MPActivePlayer } from '../types'
 import type { RoundWinner } from './duel'
 
 /** Persisted per-player ranking stats (mirrors the columns we read/write). */
@@ -24,14 +25,62 @@ export interface XpRewards {
 }
 
 /**
- * XP awarded for a match. A forfeit rewards the winner more and docks the loser;
- * a normal result never reduces XP.
+ * Admin-tunable XP policy. Base values come from config (MP_XP_*), the
+ * multiplier from the game mode; bonuses of 0 switch that bonus off.
  */
-export function xpRewards(categoriesCount: number, forfeit = false): XpRewards {
+export interface XpPolicy {
+  win:            number
+  draw:           number
+  loss:           number   // participation XP for a normal loss (≥ 0)
+  modeMultiplier: number   // per MP_MODES entry, scales every base value
+  forfeitPct:     number   // forfeit: winner gets +pct%, the leaver is docked pct% of the win
+  marginBonus:    number   // extra XP per tile of winning margin
+  streakBonus:    number   // extra XP per consecutive win already on the winner's streak
+  streakCap:      number   // streak steps counted towards the bonus
+}
+
+/** Config keys the policy is read from. */
+export type XpConfig = Pick<GameConfig,
+  'MP_XP_WIN' | 'MP_XP_DRAW' | 'MP_XP_LOSS' | 'MP_XP_FORFEIT_PCT' |
+  'MP_XP_MARGIN_BONUS' | 'MP_XP_STREAK_BONUS' | 'MP_XP_STREAK_CAP'>
+
+export function xpPolicyFromConfig(cfg: XpConfig, modeMultiplier = 1): XpPolicy {
+  return {
+    win:            cfg.MP_XP_WIN,
+    draw:           cfg.MP_XP_DRAW,
+    loss:           cfg.MP_XP_LOSS,
+    modeMultiplier,
+    forfeitPct:     cfg.MP_XP_FORFEIT_PCT,
+    marginBonus:    cfg.MP_XP_MARGIN_BONUS,
+    streakBonus:    cfg.MP_XP_STREAK_BONUS,
+    streakCap:      cfg.MP_XP_STREAK_CAP,
+  }
+}
+
+/** What happened in the match, beyond who won. */
+export interface MatchContext {
+  forfeit?:      boolean
+  margin?:       number   // |winner tiles − loser tiles|
+  winnerStreak?: number   // winner's win_streak BEFORE this match
+}
+
+/**
+ * XP awarded for a match. A forfeit rewards the winner more and docks the
+ * leaver; a normal result never reduces XP. Margin and streak bonuses go to
+ * the winner only (margin is meaningless on a forfeit, so it is skipped).
+ */
+export function xpRewards(policy: XpPolicy, ctx: MatchContext = {}): XpRewards {
+  const m       = Math.max(0, policy.modeMultiplier)
+  const baseWin = Math.max(0, policy.win) * m
+  const pct     = Math.max(0, policy.forfeitPct) / 100
+  const streak  = Math.min(Math.max(0, ctx.winnerStreak ?? 0), Math.max(0, policy.streakCap))
+  const bonus   = streak * Math.max(0, policy.streakBonus)
+    + (ctx.forfeit ? 0 : Math.max(0, ctx.margin ?? 0) * Math.max(0, policy.marginBonus))
+
   return {
-    win:  forfeit ? Math.round(categoriesCount * 1.5) : categoriesCount,
-    loss: forfeit ? -Math.floor(categoriesCount / 2) : 0,
-    draw: Math.floor(categoriesCount / 2),
+    win:  Math.round((ctx.forfeit ? baseWin * (1 + pct) : baseWin) + bonus),
+    loss: ctx.forfeit ? 0 - Math.round(baseWin * pct) : Math.round(Math.max(0, policy.loss) * m),
+    draw: Math.round(Math.max(0, policy.draw) * m),
   }
 }
 
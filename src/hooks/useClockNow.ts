@@ -0,0 +1,26 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// useClockNow — bieżący performance.now() do rysowania zegarów pojedynku
+//
+// Zegary (domain/clock.ts) nie tykają — czas liczy się z timestampu. Ten hook
+// tylko odświeża widok: póki `running`, co klatkę animacji (nie częściej niż
+// co `stepMs`) zwraca nowy timestamp; zatrzymany zegar nie potrzebuje renderów.
+// ─────────────────────────────────────────────────────────────────────────────
+import { useEffect, useState } from 'react'
+
+export function useClockNow(running: boolean, stepMs = 50): number {
+  const [now, setNow] = useState(() => performance.now())
+
+  useEffect(() => {
+    if (!running) return
+    let frame = 0
+    let last  = 0
+    const loop = (t: number) => {
+      if (t - last >= stepMs) { last = t; setNow(t) }
+      frame = requestAnimationFrame(loop)
+    }
+    frame = requestAnimationFrame(loop)
+    return () => cancelAnimationFrame(frame)
+  }, [running, stepMs])
+
+  return now
+}
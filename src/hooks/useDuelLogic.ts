@@ -2,13 +2,14 @@
  * useDuelLogic — wydzielona logika z DuelModal.tsx
  *
  * Odpowiada za:
- *  - timer (setInterval + tick)
+ *  - zegar: timeout w deadline aktywnego zegara (domain/clock.ts) → expireClock
  *  - countdown (timeouty 3-2-1-START)
- *  - wykrywanie końca duel (timer → 0 → winner)
+ *  - wykrywanie końca duel (timer → 0 → winner; remis → runda na refleks, gdy włączona)
  *  - ładowanie URL obrazka
  *  - feedback state + showFeedback()
  *  - speech recognition (useSpeechRecognition + tryVoiceMatch)
  *  - hint litera (SHOW_ANSWER_HINT po 10s)
+ *  - bot jako gracz 2 (BOT_LEVEL, domain/bot.ts): odpowiada na swojej turze
  *
  * DuelModal.tsx jest odpowiedzialny wyłącznie za:
  *  - renderowanie JSX
@@ -16,6 +17,9 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { botFromConfig, botMove, type CategoryRates } from '../domain/bot'
+import { deadlineOf } from '../domain/clock'
+import { fetchCategoryRates } from '../lib/roundService'
 import { SoundEngine } from '../lib/SoundEngine'
 import { supabase } from '../lib/supabase'
 import {
@@ -56,11 +60,13 @@ export function useDuelLogic(): DuelLogicResult {
   const nextQuestion      = useGameStore(s => s.nextQuestion)
   const endDuelWithWinner = useGameStore(s => s.endDuelWithWinner)
   const endDuelDraw       = useGameStore(s => s.endDuelDraw)
+  const startBuzzer       = useGameStore(s => s.startBuzzer)
   const { config, players } = useConfigStore()
 
   const speechSupported  = isSpeechRecognitionSupported()
   const voicePassEnabled = config.VOICE_PASS !== 0
   const maxPasses        = config.MAX_PASSES ?? 0
+  const bot              = botFromConfig(config)
 
   // ── State ─────────────────────────────────────────────────────────────────
   const [countdown,     setCountdown]     = useState<string | null>(null)
@@ -71,11 +77,11 @@ export function useDuelLogic(): DuelLogicResult {
   const [hintLetter,    setHintLetter]    = useState<string | null>(null)
 
   // ── Refs ──────────────────────────────────────────────────────────────────
-  const intervalIdRef       = useRef<ReturnType<typeof setInterval> | null>(null)
   const feedbackTimer       = useRef<ReturnType<typeof setTimeout> | null>(null)
   const winnerTimer         = useRef<ReturnType<typeof setTimeout> | null>(null)
   const hintTimer           = useRef<ReturnType<typeof setTimeout> | null>(null)
   const winnerHandled       = useRef(false)
+  const buzzedRef           = useRef(false)           // runda na refleks: liczy się pierwsza odpowiedź
   const countdownTimeouts   = useRef<ReturnType<typeof setTimeout>[]>([])
   const duelRef             = useRef(duel)
   const blockRef            = useRef(blockInput)
@@ -90,8 +96,9 @@ export function useDuelLogic(): DuelLogicResult {
   const matchedQIdRef       = useRef<string | null>(null)
   const passedQIdRef        = useRef<string | null>(null)
   const lastPassFiredTs     = useRef(0)           // cooldown: ignore pass for 1.2s after firing
-  const prevActiveTimerRef  = useRef<number | null>(null)
   const pasDebounceTimer    = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const botRatesRef         = useRef<CategoryRates>({})
+  const botRef              = useRef(bot)
 
   // Aktualizuj refs co render
   duelRef.current         = duel
@@ -99,6 +106,7 @@ export function useDuelLogic(): DuelLogicResult {
   countdownRef.current    = countdown
   activePlayerRef.current = duel?.active ?? 1
   voicePassRef.current    = voicePassEnabled
+  botRef.current          = bot
 
   const isOpen = !!duel
 
@@ -129,16 +137,18 @@ export function useDuelLogic(): DuelLogicResult {
     if (isOpen) SoundEngine.stopBg(600)
   }, [isOpen])
 
+  // Deadline biegnącego zegara (null, gdy stoi)
+  const deadline = duel?.started && !duel.paused ? deadlineOf(duel.active === 1 ? duel.clock1 : duel.clock2) : null
+
   // ── Beep timera (3·2·1) ──────────────────────────────────────────────────
   useEffect(() => {
-    if (!duel?.started || duel.paused || countdown) { prevActiveTimerRef.current = null; return }
-    const activeTimer = duel.active === 1 ? duel.timer1 : duel.timer2
-    const prev        = prevActiveTimerRef.current
-    prevActiveTimerRef.current = activeTimer
-    if (prev !== null && activeTimer < prev && activeTimer >= 1 && activeTimer <= 3) {
-      SoundEngine.timerBeep(activeTimer as 1 | 2 | 3, 1)
-    }
-  }, [duel?.timer1, duel?.timer2, duel?.active, duel?.started, duel?.paused, countdown])
+    if (deadline === null || countdown) return
+    const now = performance.now()
+    const ids = ([3, 2, 1] as const)
+      .filter(sec => deadline - sec * 1000 > now)
+      .map(sec => setTimeout(() => SoundEngine.timerBeep(sec, 1), deadline - sec * 1000 - now))
+    return () => ids.forEach(clearTimeout)
+  }, [deadline, countdown])
 
   // ── Image URL ─────────────────────────────────────────────────────────────
   useEffect(() => {
@@ -147,34 +157,57 @@ export function useDuelLogic(): DuelLogicResult {
     setImageUrl(data.publicUrl)
   }, [duel?.currentQuestion?.id])
 
-  // ── Ticker (setInterval → useGameStore.tick) ──────────────────────────────
+  // ── Deadline → useGameStore.expireClock ──────────────────────────────────
+  // Jeden timeout na deadline zamiast tykania co sekundę; jeśli odpali za
+  // wcześnie, expireClock zwraca resztę i czekamy dalej.
   useEffect(() => {
-    const shouldRun = duel?.started && !duel.paused
-    if (!shouldRun) {
-      if (intervalIdRef.current) { clearInterval(intervalIdRef.current); intervalIdRef.current = null }
-      return
-    }
-    if (intervalIdRef.current) return
-    intervalIdRef.current = setInterval(useGameStore.getState().tick, 1000)
-    return () => {
-      if (intervalIdRef.current) { clearInterval(intervalIdRef.current); intervalIdRef.current = null }
+    if (deadline === null) return
+    let id: ReturnType<typeof setTimeout>
+    const fire = () => {
+      const left = useGameStore.getState().expireClock()
+      if (left > 0) id = setTimeout(fire, left)
     }
-  }, [duel?.started, duel?.paused])
+    id = setTimeout(fire, Math.max(0, deadline - performance.now()))
+    return () => clearTimeout(id)
+  }, [deadline])
+
+  // ── Bot (gracz 2) ─────────────────────────────────────────────────────────
+  // Na swojej turze bot losuje ruch (domain/bot.ts) i odpowiada jak klawisz D
+  // albo pas. W rundzie na refleks ściga się z graczem o każde pytanie.
+  useEffect(() => {
+    if (bot) fetchCategoryRates().then(r => { botRatesRef.current = r })
+  }, [bot])
+
+  const botQuestion = bot && duel?.started && !countdown && !winner && (duel.buzzer || (!duel.paused && duel.active === 2))
+    ? duel.currentQuestion?.id ?? null : null
+  useEffect(() => {
+    const d = duelRef.current
+    if (!bot || !botQuestion || !d) return
+    const move = botMove(bot, botRatesRef.current[d.categoryId])
+    // Na refleks bot, który nie zna odpowiedzi, czeka na następne pytanie
+    if (d.buzzer && move.result === 'pass') return
+    const id = setTimeout(() => {
+      if (move.result === 'correct') handleCorrectRef.current(2)
+      else handlePassRef.current()
+    }, move.afterMs)
+    return () => clearTimeout(id)
+  }, [bot, botQuestion])
 
   // ── Koniec timera → winner ────────────────────────────────────────────────
   useEffect(() => {
     const d = duel
     if (!d?.started || !d.paused || winnerHandled.current) return
-    if (d.timer1 > 0 && d.timer2 > 0) return
-    if (intervalIdRef.current) { clearInterval(intervalIdRef.current); intervalIdRef.current = null }
+    if (d.clock1.remainingMs > 0 && d.clock2.remainingMs > 0) return
 
     winnerHandled.current = true
     showFeedback('⏰ Czas minął!', 'timeout')
 
     winnerTimer.current = setTimeout(() => {
-      const p1Lost = d.timer1 <= 0
-      const p2Lost = d.timer2 <= 0
+      const p1Lost = d.clock1.remainingMs <= 0
+      const p2Lost = d.clock2.remainingMs <= 0
       if (p1Lost && p2Lost) {
+        // Dogrywka: jedno pytanie dla obu, bez zegarów — pierwsza poprawna odpowiedź wygrywa
+        if (startBuzzer()) { showFeedback('⚡ Remis — runda na refleks!', 'timeout'); return }
         setWinner('draw'); endDuelDraw(); SoundEngine.play('applause', 0.6)
       } else {
         const w: 1 | 2 = p1Lost ? 2 : 1
@@ -183,21 +216,20 @@ export function useDuelLogic(): DuelLogicResult {
       winnerTimer.current = setTimeout(() => handleCloseRef.current(), config.WIN_CLOSE_MS)
     }, 1200)
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [duel?.timer1, duel?.timer2, duel?.paused])
+  }, [duel?.clock1, duel?.clock2, duel?.paused])
 
   // ── Reset gdy modal zamknięty ─────────────────────────────────────────────
   useEffect(() => {
     if (!duel) {
-      if (intervalIdRef.current)   { clearInterval(intervalIdRef.current); intervalIdRef.current = null }
       if (hintTimer.current)       { clearTimeout(hintTimer.current); hintTimer.current = null }
       if (pasDebounceTimer.current){ clearTimeout(pasDebounceTimer.current); pasDebounceTimer.current = null }
       setCountdown(null); setFeedback({ text: '', type: '' }); setWinner(null)
       setImageUrl(''); setHintLetter(null)
       winnerHandled.current       = false
+      buzzedRef.current           = false
       matchedQIdRef.current       = null
       passedQIdRef.current        = null
       lastPassFiredTs.current     = 0
-      prevActiveTimerRef.current  = null
     }
   }, [duel])
 
@@ -230,9 +262,9 @@ export function useDuelLogic(): DuelLogicResult {
     const finalId = setTimeout(() => {
       setCountdown(null)
       countdownTimeouts.current = []
-      prevActiveTimerRef.current = null
       const q = nextQuestion()
-      useGameStore.setState(s => ({ duel: s.duel ? { ...s.duel, paused: false, currentQuestion: q } : null }))
+      useGameStore.setState(s => ({ duel: s.duel ? { ...s.duel, currentQuestion: q } : null }))
+      useGameStore.getState().startClock()
       SoundEngine.startBg('duelMusic', 0.22)
     }, 5000)
     countdownTimeouts.current.push(finalId)
@@ -247,20 +279,31 @@ export function useDuelLogic(): DuelLogicResult {
 
   const handleCorrect = useCallback((playerNum: 1 | 2, fromVoice = false) => {
     if (!duelRef.current?.started || blockRef.current || countdownRef.current) return
-    if (duelRef.current.active !== playerNum) return
     const ans = duelRef.current.currentQuestion?.answer ?? '???'
+    // Runda na refleks: odpowiada każdy (klawiszem — głos nie wie, kto mówi)
+    if (duelRef.current.buzzer) {
+      if (fromVoice || buzzedRef.current) return
+      buzzedRef.current = true
+      SoundEngine.play('correct', 0.75)
+      showFeedback(`⚡ ${ans}`, 'correct')
+      setWinner(playerNum); endDuelWithWinner(playerNum); SoundEngine.play('applause', 0.9)
+      winnerTimer.current = setTimeout(() => handleCloseRef.current(), config.WIN_CLOSE_MS)
+      return
+    }
+    if (duelRef.current.active !== playerNum) return
     SoundEngine.play('correct', 0.75)
     showFeedback(fromVoice ? `🎤 ${ans}` : `✓  ${ans}`, fromVoice ? 'voice' : 'correct')
     markCorrect(playerNum)
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [markCorrect])
+  }, [markCorrect, endDuelWithWinner])
 
   const handlePass = useCallback((fromVoice = false) => {
     if (!duelRef.current?.started || blockRef.current || countdownRef.current) return
     const d   = duelRef.current
     const ans = d.currentQuestion?.answer ?? '???'
+    if (d.buzzer && buzzedRef.current) return
 
-    if (maxPasses > 0 && (d.passCount ?? 0) >= maxPasses) {
+    if (!d.buzzer && maxPasses > 0 && (d.passCount ?? 0) >= maxPasses) {
       SoundEngine.play('buzzer', 0.6)
       showFeedback('🚫 Przekroczono limit pasów!', 'forfeit')
       const loser   = d.active
@@ -282,7 +325,6 @@ export function useDuelLogic(): DuelLogicResult {
 
   const handleClose = useCallback(() => {
     cancelCountdown()
-    if (intervalIdRef.current) { clearInterval(intervalIdRef.current); intervalIdRef.current = null }
     if (winnerTimer.current)   clearTimeout(winnerTimer.current)
     if (feedbackTimer.current) clearTimeout(feedbackTimer.current)
     if (hintTimer.current)     clearTimeout(hintTimer.current)
@@ -312,6 +354,8 @@ export function useDuelLogic(): DuelLogicResult {
   const tryVoiceMatch = useCallback((transcript: string, isFinal: boolean) => {
     const d = duelRef.current
     if (!d?.started || blockRef.current || countdownRef.current) return
+    // Tura bota — mikrofon słyszy tylko gracza
+    if (botRef.current && d.active === 2 && !d.buzzer) return
     const questionId = d.currentQuestion?.id ?? null
 
     // PAS — cooldown + per-question guard prevent double-fire
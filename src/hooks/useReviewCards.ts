@@ -0,0 +1,62 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// useReviewCards — karty powtórek gracza (domain/srs.ts)
+//
+// Start z kopii lokalnej (localStorage), więc trening działa od razu, także
+// dla gości i bez sieci. Zalogowanemu dociągamy karty z konta, łączymy obie
+// kopie po najnowszej powtórce (mergeCards) i odsyłamy na konto to, co było
+// nowsze na urządzeniu. Każda ocena trafia najpierw lokalnie, potem na konto;
+// nieudany zapis zostaje w kopii lokalnej i wyrówna się przy następnym wejściu.
+// Karty pytań, których już nie ma w bazie, wypadają przy łączeniu — inaczej
+// klucz obcy wywracałby cały upsert przy każdym wejściu.
+// Klucz: komponent montuje hook od nowa przy zmianie gracza.
+// ─────────────────────────────────────────────────────────────────────────────
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { mergeCards, reviewCard, type ReviewCard, type ReviewGrade } from '../domain/srs'
+import { fetchReviewCards, loadLocalReviewCards, saveLocalReviewCards, saveReviewCards } from '../lib/reviewService'
+
+/** Gdzie jest postęp: tylko na urządzeniu, w trakcie łączenia, czy także na koncie. */
+export type ReviewSync = 'local' | 'syncing' | 'account'
+
+/** `questionIds` — istniejące pytania, gdy już wczytane (null: nic nie wyrzucamy). */
+export function useReviewCards(playerId: string | null, questionIds: ReadonlySet<string> | null) {
+  const [cards, setCards] = useState<Record<string, ReviewCard>>(() => loadLocalReviewCards(playerId))
+  const [sync,  setSync]  = useState<ReviewSync>(playerId ? 'syncing' : 'local')
+  const cardsRef = useRef(cards)
+  const syncRef  = useRef(sync)
+
+  const apply = useCallback((next: Record<string, ReviewCard>, nextSync: ReviewSync) => {
+    cardsRef.current = next
+    syncRef.current  = nextSync
+    saveLocalReviewCards(playerId, next)
+    setCards(next)
+    setSync(nextSync)
+  }, [playerId])
+
+  useEffect(() => {
+    if (!playerId) return
+    let cancelled = false
+    fetchReviewCards(playerId).then(remote => {
+      if (cancelled) return
+      if (!remote) { apply(cardsRef.current, 'local'); return }
+      const local  = questionIds
+        ? Object.fromEntries(Object.entries(cardsRef.current).filter(([id]) => questionIds.has(id)))
+        : cardsRef.current
+      const newer  = Object.values(local).filter(c => !remote[c.questionId] || c.reviewedAt > remote[c.questionId].reviewedAt)
+      apply(mergeCards(local, remote), 'account')
+      saveReviewCards(playerId, newer).then(ok => { if (!ok && !cancelled) apply(cardsRef.current, 'local') })
+    })
+    return () => { cancelled = true }
+  }, [apply, playerId, questionIds])
+
+  /** Oceń kartę teraz; zwraca kartę z nowym terminem. */
+  const review = useCallback((card: ReviewCard, grade: ReviewGrade): ReviewCard => {
+    const next = reviewCard(card, grade, Date.now())
+    apply({ ...cardsRef.current, [next.questionId]: next }, syncRef.current)
+    if (playerId && syncRef.current === 'account') {
+      saveReviewCards(playerId, [next]).then(ok => { if (!ok) apply(cardsRef.current, 'local') })
+    }
+    return next
+  }, [apply, playerId])
+
+  return { cards, sync, review }
+}
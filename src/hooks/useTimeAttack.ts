@@ -0,0 +1,167 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// useTimeAttack — bieg na czas w pojedynkę (domain/timeAttack.ts)
+//
+// Jeden gracz, jeden zegar, talia pytań w stałej kolejności. Odpowiada głosem
+// (useSpeechRecognition + dopasowanie jak w pojedynku) albo wpisując hasło
+// (isAnswerMatch); pas przechodzi dalej, ale zabiera czas. Zegar to deadline
+// (domain/clock.ts) — jeden timeout kończy bieg, widok odświeża useClockNow.
+// Wynik trafia do `onFinish`; zapis (ranking, rekordy) należy do strony.
+// ─────────────────────────────────────────────────────────────────────────────
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { deadlineOf } from '../domain/clock'
+import {
+  answerRun, currentQuestionId, finishRun, isRunOver, newRun, runResult, startRun,
+  type TimeAttackResult, type TimeAttackRun,
+} from '../domain/timeAttack'
+import { SoundEngine } from '../lib/SoundEngine'
+import { getPublicImageUrl } from '../lib/supabase'
+import {
+  buildMatchData, isAnswerMatch, isAnswerMatchFast, isPassCommand,
+  isSpeechRecognitionSupported, useSpeechRecognition,
+} from '../lib/useSpeechRecognition'
+import type { Question, SpeechLang } from '../types'
+
+export type TimeAttackPhase = 'ready' | 'countdown' | 'playing' | 'over'
+
+export interface TimeAttackOptions {
+  deck:      Question[]
+  /** Czas biegu (ms). */
+  ms:        number
+  /** Ile czasu zabiera pas (ms). */
+  penaltyMs: number
+  /** Język rozpoznawania mowy dla pytania. */
+  langOf:    (q: Question) => SpeechLang
+  onFinish:  (result: TimeAttackResult) => void
+}
+
+const COUNTDOWN = ['3', '2', '1', 'START!']
+const COUNTDOWN_STEP_MS = 800
+
+export function useTimeAttack({ deck, ms, penaltyMs, langOf, onFinish }: TimeAttackOptions) {
+  const [run,           setRun]           = useState<TimeAttackRun>(() => newRun(deck.map(q => q.id), ms))
+  const [phase,         setPhase]         = useState<TimeAttackPhase>('ready')
+  const [countdown,     setCountdown]     = useState<string | null>(null)
+  const [feedback,      setFeedback]      = useState<{ text: string; type: 'correct' | 'pass' | 'wrong' | '' }>({ text: '', type: '' })
+  const [speechEnabled, setSpeechEnabled] = useState(true)
+
+  const runRef        = useRef(run)
+  const phaseRef      = useRef(phase)
+  const onFinishRef   = useRef(onFinish)
+  const answeredQId   = useRef<string | null>(null)   // głos: jedno trafienie / pas na pytanie
+  const timers        = useRef<ReturnType<typeof setTimeout>[]>([])
+  const feedbackTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => { onFinishRef.current = onFinish }, [onFinish])
+  useEffect(() => () => {
+    timers.current.forEach(clearTimeout)
+    if (feedbackTimer.current) clearTimeout(feedbackTimer.current)
+  }, [])
+
+  const byId     = useMemo(() => new Map(deck.map(q => [q.id, q])), [deck])
+  const question = phase === 'playing' ? byId.get(currentQuestionId(run) ?? '') ?? null : null
+  const match    = useMemo(() => question ? buildMatchData(question.answer, question.synonyms) : null, [question])
+  const imageUrl = useMemo(() => question?.image_path ? getPublicImageUrl(question.image_path) : '', [question])
+
+  const showFeedback = useCallback((text: string, type: 'correct' | 'pass' | 'wrong') => {
+    setFeedback({ text, type })
+    if (feedbackTimer.current) clearTimeout(feedbackTimer.current)
+    feedbackTimer.current = setTimeout(() => setFeedback({ text: '', type: '' }), 1_200)
+  }, [])
+
+  // Jedyne miejsce, które zmienia bieg — refy pilnują, by głos i klawiatura nie policzyły pytania dwa razy
+  const commit = useCallback((next: TimeAttackRun, now: number) => {
+    runRef.current = next
+    setRun(next)
+    if (!isRunOver(next, now)) return
+    const done = finishRun(next, now)
+    runRef.current   = done
+    phaseRef.current = 'over'
+    setRun(done)
+    setPhase('over')
+    SoundEngine.play('applause', 0.6)
+    onFinishRef.current(runResult(done, now))
+  }, [])
+
+  const start = useCallback(() => {
+    if (phaseRef.current !== 'ready') return
+    phaseRef.current = 'countdown'
+    setPhase('countdown')
+    SoundEngine.unlockAudio().catch(() => {})
+    SoundEngine.play('countdown', 0.85)
+    COUNTDOWN.forEach((label, i) => timers.current.push(setTimeout(() => setCountdown(label), i * COUNTDOWN_STEP_MS)))
+    timers.current.push(setTimeout(() => {
+      setCountdown(null)
+      phaseRef.current = 'playing'
+      setPhase('playing')
+      const started = startRun(runRef.current, performance.now())
+      runRef.current = started
+      setRun(started)
+    }, COUNTDOWN.length * COUNTDOWN_STEP_MS))
+  }, [])
+
+  const answer = useCallback((result: 'correct' | 'pass') => {
+    const cur = runRef.current
+    const now = performance.now()
+    if (phaseRef.current !== 'playing' || isRunOver(cur, now)) return
+    const q = byId.get(currentQuestionId(cur) ?? '')
+    SoundEngine.play(result === 'correct' ? 'correct' : 'buzzer', result === 'correct' ? 0.75 : 0.4)
+    showFeedback(result === 'correct' ? `✓ ${q?.answer ?? ''}` : `⏱ PAS · ${q?.answer ?? ''}`, result)
+    commit(answerRun(cur, result, now, penaltyMs), now)
+  }, [byId, commit, penaltyMs, showFeedback])
+
+  const pass = useCallback(() => answer('pass'), [answer])
+
+  /** Wpisana odpowiedź: trafienie liczy się jak głosowe, pudło tylko miga. */
+  const submitTyped = useCallback((text: string): boolean => {
+    const q = byId.get(currentQuestionId(runRef.current) ?? '')
+    if (phaseRef.current !== 'playing' || !q || !text.trim()) return false
+    if (isAnswerMatch(text, q.answer, q.synonyms)) { answer('correct'); return true }
+    SoundEngine.play('buzzer', 0.25)
+    showFeedback('✗ Nie to', 'wrong')
+    return false
+  }, [answer, byId, showFeedback])
+
+  // ── Deadline → koniec biegu ───────────────────────────────────────────────
+  const deadline = phase === 'playing' ? deadlineOf(run.clock) : null
+  useEffect(() => {
+    if (deadline === null) return
+    let id: ReturnType<typeof setTimeout>
+    const fire = () => {
+      const now = performance.now()
+      if (isRunOver(runRef.current, now)) commit(runRef.current, now)
+      else id = setTimeout(fire, Math.max(0, (deadlineOf(runRef.current.clock) ?? now) - now))
+    }
+    id = setTimeout(fire, Math.max(0, deadline - performance.now()))
+    return () => clearTimeout(id)
+  }, [deadline, commit])
+
+  // ── Głos: hasło albo „pas" ────────────────────────────────────────────────
+  const onSpeech = useCallback((transcript: string, isFinal: boolean) => {
+    const qId = currentQuestionId(runRef.current)
+    if (phaseRef.current !== 'playing' || !qId || answeredQId.current === qId) return
+    if (isPassCommand(transcript)) {
+      answeredQId.current = qId
+      answer('pass')
+    } else if (match && isAnswerMatchFast(transcript, match, !isFinal)) {
+      answeredQId.current = qId
+      answer('correct')
+    }
+  }, [answer, match])
+
+  const handleFinal   = useCallback((t: string) => onSpeech(t, true),  [onSpeech])
+  const handleInterim = useCallback((t: string) => onSpeech(t, false), [onSpeech])
+  const speechSupported = isSpeechRecognitionSupported()
+  const lang = question ? langOf(question) : 'pl-PL'
+  const { listening, error: speechError } = useSpeechRecognition({
+    onFinal:   handleFinal,
+    onInterim: handleInterim,
+    active:    speechSupported && speechEnabled && phase === 'playing',
+    lang:      lang === 'both' ? ['pl-PL', 'en-US'] : lang,
+  })
+
+  return {
+    run, phase, countdown, question, imageUrl, feedback,
+    listening, speechError: speechError ?? null, speechSupported, speechEnabled, setSpeechEnabled,
+    start, pass, submitTyped,
+  }
+}
@@ -0,0 +1,105 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// lib/dailyService.ts — Supabase adapter for `daily_results`.
+//
+// This is the ONLY place that knows the table's column layout. Runs go through
+// the start_daily_run() / submit_daily_run() RPCs (see
+// supabase/migrations/20260711_daily_floor.sql): the first START of the day
+// claims the day's row — an abandoned run still counts as played — and the
+// server counts the streak.
+// ─────────────────────────────────────────────────────────────────────────────
+import { supabase } from './supabase'
+import type { TimeAttackResult } from '../domain/timeAttack'
+
+/** One player's run on a day's leaderboard. */
+export interface DailyEntry extends TimeAttackResult {
+  day:        string
+  playerId:   string
+  username:   string
+  avatar:     string
+  avatarUrl?: string
+  streak:     number
+}
+
+/** What the server kept of a submitted run, and where it stands. */
+export interface DailySubmission {
+  score:  number
+  streak: number
+  rank:   number
+}
+
+interface DailyRow {
+  day: string; player_id: string; username: string; avatar: string | null; avatar_url: string | null
+  score: number; passes: number; time_left_ms: number; streak: number
+}
+
+const DAILY_SELECT = 'day,player_id,username,avatar,avatar_url,score,passes,time_left_ms,streak'
+
+const toEntry = (r: DailyRow): DailyEntry => ({
+  day:        r.day,
+  playerId:   r.player_id,
+  username:   r.username,
+  avatar:     r.avatar ?? '',
+  avatarUrl:  r.avatar_url ?? undefined,
+  score:      r.score,
+  passes:     r.passes,
+  timeLeftMs: r.time_left_ms,
+  streak:     r.streak,
+})
+
+/** A day's finished runs, best first (domain/timeAttack.ts compareResults). Empty when the migration is missing. */
+export async function fetchDailyLeaderboard(day: string, limit = 50): Promise<DailyEntry[]> {
+  const { data, error } = await supabase.from('daily_results')
+    .select(DAILY_SELECT)
+    .eq('day', day)
+    .not('finished_at', 'is', null)
+    .order('score', { ascending: false })
+    .order('time_left_ms', { ascending: false })
+    .order('passes', { ascending: true })
+    .limit(limit)
+  if (error) {
+    console.warn('[daily] fetchDailyLeaderboard error:', error)
+    return []
+  }
+  return (data as DailyRow[]).map(toEntry)
+}
+
+/** The player's latest run, started or finished, for today's status and the streak; null if they never played. */
+export async function fetchLastDailyRun(playerId: string): Promise<DailyEntry | null> {
+  const { data, error } = await supabase.from('daily_results')
+    .select(DAILY_SELECT)
+    .eq('player_id', playerId)
+    .order('day', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) {
+    console.warn('[daily] fetchLastDailyRun error:', error)
+    return null
+  }
+  return data ? toEntry(data as DailyRow) : null
+}
+
+/**
+ * Claim the day's ranked run when the player presses START. False when it was
+ * already claimed (another tab, a reload) or could not be recorded — the run
+ * is then practice.
+ */
+export async function startDailyRun(day: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('start_daily_run', { p_day: day })
+  if (error) {
+    console.warn('[daily] startDailyRun error:', error)
+    return false
+  }
+  return data === true
+}
+
+/** Submit the day's started run. Null when it could not be saved (the reason is logged). */
+export async function submitDailyRun(day: string, result: TimeAttackResult): Promise<DailySubmission | null> {
+  const { data, error } = await supabase.rpc('submit_daily_run', {
+    p_day: day, p_score: result.score, p_passes: result.passes, p_time_left_ms: result.timeLeftMs,
+  })
+  if (error) {
+    console.warn('[daily] submitDailyRun error:', error)
+    return null
+  }
+  return data as DailySubmission
+}
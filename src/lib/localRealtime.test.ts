@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { createLocalTransport } from './localRealtime'
+
+const flush = () => new Promise(r => setTimeout(r, 0))
+
+describe('createLocalTransport — broadcast', () => {
+  it('delivers to other members of the same channel only', async () => {
+    const t = createLocalTransport()
+    const got: unknown[] = []
+    const other: unknown[] = []
+    const a = t.channel('room:1').subscribe()
+    t.channel('room:1').onBroadcast('game', p => got.push(p)).subscribe()
+    t.channel('room:2').onBroadcast('game', p => other.push(p)).subscribe()
+    await a.send('game', { n: 1 })
+    await flush()
+    expect(got).toEqual([{ n: 1 }])
+    expect(other).toEqual([])
+  })
+
+  it('skips the sender unless self is set', async () => {
+    const t = createLocalTransport()
+    const quiet: unknown[] = []
+    const loud: unknown[] = []
+    await t.channel('c').onBroadcast('e', p => quiet.push(p)).subscribe().send('e', 1)
+    await t.channel('c2', { self: true }).onBroadcast('e', p => loud.push(p)).subscribe().send('e', 2)
+    await flush()
+    expect(quiet).toEqual([])
+    expect(loud).toEqual([2])
+  })
+
+  it('reports SUBSCRIBED and stops delivering after unsubscribe', async () => {
+    const t = createLocalTransport()
+    const statuses: string[] = []
+    const got: unknown[] = []
+    const rx = t.channel('c').onBroadcast('e', p => got.push(p)).subscribe(s => statuses.push(s))
+    const tx = t.channel('c').subscribe()
+    await flush()
+    expect(statuses).toEqual(['SUBSCRIBED'])
+    await rx.unsubscribe()
+    await tx.send('e', 1)
+    await flush()
+    expect(got).toEqual([])
+  })
+})
+
+describe('createLocalTransport — presence', () => {
+  it('groups metas by presence key and syncs on join and leave', async () => {
+    const t = createLocalTransport()
+    let syncs = 0
+    const host  = t.channel('room:1', { presenceKey: 'h' }).onPresenceSync(() => { syncs++ }).subscribe()
+    const guest = t.channel('room:1', { presenceKey: 'g' }).subscribe()
+    await host.track({ role: 'host' })
+    await guest.track({ role: 'guest' })
+    await flush()
+    expect(host.presenceState()).toEqual({ h: [{ role: 'host' }], g: [{ role: 'guest' }] })
+    const before = syncs
+    await guest.unsubscribe()
+    await flush()
+    expect(syncs).toBeGreaterThan(before)
+    expect(Object.keys(host.presenceState())).toEqual(['h'])
+  })
+})
+
+describe('createLocalTransport — row changes', () => {
+  it('matches table, event and id=eq filters', async () => {
+    const t = createLocalTransport()
+    const got: unknown[] = []
+    t.channel('room:1')
+      .onRowChange({ event: 'UPDATE', table: 'game_rooms', filter: 'id=eq.r1' }, c => got.push(c.new))
+      .subscribe()
+    t.emitRowChange('game_rooms', { eventType: 'UPDATE', new: { id: 'r1', status: 'playing' }, old: {} })
+    t.emitRowChange('game_rooms', { eventType: 'UPDATE', new: { id: 'r2', status: 'playing' }, old: {} })
+    t.emitRowChange('game_rooms', { eventType: 'INSERT', new: { id: 'r1' }, old: {} })
+    t.emitRowChange('profiles',   { eventType: 'UPDATE', new: { id: 'r1' }, old: {} })
+    await flush()
+    expect(got).toEqual([{ id: 'r1', status: 'playing' }])
+  })
+})
+
+describe('createLocalTransport — row delegate', () => {
+  it('takes row changes from the delegate transport, broadcasts stay local', async () => {
+    const db = createLocalTransport()
+    const t  = createLocalTransport({ rows: db })
+    const rows: unknown[] = []
+    const msgs: unknown[] = []
+    t.channel('room:1').onRowChange({ event: '*', table: 'game_rooms' }, c => rows.push(c.new)).subscribe()
+    db.channel('room:1').onBroadcast('game', p => msgs.push(p)).subscribe()
+    await flush()
+    db.emitRowChange('game_rooms', { eventType: 'UPDATE', new: { id: 'r1' }, old: {} })
+    await t.channel('room:1').subscribe().send('game', 1)
+    await flush()
+    expect(rows).toEqual([{ id: 'r1' }])
+    expect(msgs).toEqual([])
+  })
+})
@@ -0,0 +1,195 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// lib/localRealtime.ts — In-memory RealtimeTransport.
+//
+// Channels with the same name inside one transport see each other's
+// broadcasts and presence, exactly like two clients on a Supabase channel.
+// With `crossTab` the traffic is mirrored over a BroadcastChannel, so two tabs
+// of the same browser can share a room without any network. Row changes have
+// no database behind them here: either pass `rows` to take them from a real
+// transport (local traffic, live database), or push them with
+// emitRowChange() from whatever stands in for the database in a test.
+// ─────────────────────────────────────────────────────────────────────────────
+import type {
+  ChannelOptions, ChannelStatus, RealtimeChannel, RealtimeTransport, RowChange, RowChangeFilter,
+} from './realtime'
+
+export interface LocalTransport extends RealtimeTransport {
+  /** Deliver a row change to every channel listening on `table`. */
+  emitRowChange(table: string, change: RowChange): void
+  /** Drop every channel and the cross-tab link. */
+  close(): void
+}
+
+type Meta = Record<string, unknown>
+
+type Wire =
+  | { kind: 'broadcast'; tab: string; name: string; event: string; payload: unknown }
+  | { kind: 'presence';  tab: string; name: string; id: string; key: string; meta: Meta | null }
+  | { kind: 'row';       tab: string; table: string; change: RowChange }
+  | { kind: 'hello';     tab: string }
+
+interface Member {
+  id:        string
+  name:      string
+  opts:      ChannelOptions
+  broadcast: Map<string, ((payload: unknown) => void)[]>
+  presence:  (() => void)[]
+  rows:      { filter: RowChangeFilter; handler: (change: RowChange) => void }[]
+  meta:      Meta | null
+}
+
+const BUS_NAME = 'thefloor-realtime'
+
+/** `id=eq.abc` against a row — the only filter shape the app uses. */
+function matchesFilter(f: RowChangeFilter, table: string, change: RowChange): boolean {
+  if (f.table !== table) return false
+  if (f.event !== '*' && f.event !== change.eventType) return false
+  if (!f.filter) return true
+  const m = /^(\w+)=eq\.(.*)$/.exec(f.filter)
+  if (!m) return false
+  const row = change.eventType === 'DELETE' ? change.old : change.new
+  return String(row?.[m[1]] ?? '') === m[2]
+}
+
+export function createLocalTransport(opts: { crossTab?: boolean; rows?: RealtimeTransport } = {}): LocalTransport {
+  const tab = Math.random().toString(36).slice(2, 10)
+  const joined = new Map<string, Set<Member>>()
+  // name → presence id → entry, for members living in other tabs
+  const remote = new Map<string, Map<string, { key: string; meta: Meta }>>()
+  let nextId = 0
+
+  const bus = opts.crossTab && typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(BUS_NAME) : null
+  const post = (msg: Wire) => bus?.postMessage(msg)
+
+  const later = (fn: () => void) => queueMicrotask(fn)
+
+  function deliverBroadcast(name: string, event: string, payload: unknown, from: Member | null) {
+    for (const m of joined.get(name) ?? []) {
+      if (m === from && !m.opts.self) continue
+      for (const h of m.broadcast.get(event) ?? []) later(() => h(payload))
+    }
+  }
+
+  function presenceChanged(name: string) {
+    for (const m of joined.get(name) ?? []) for (const h of m.presence) later(h)
+  }
+
+  function deliverRow(table: string, change: RowChange) {
+    for (const members of joined.values()) {
+      for (const m of members) {
+        for (const r of m.rows) if (matchesFilter(r.filter, table, change)) later(() => r.handler(change))
+      }
+    }
+  }
+
+  function announce(m: Member) {
+    post({ kind: 'presence', tab, name: m.name, id: `${tab}:${m.id}`, key: m.opts.presenceKey ?? m.id, meta: m.meta })
+  }
+
+  if (bus) {
+    bus.onmessage = (e: MessageEvent<Wire>) => {
+      const msg = e.data
+      if (msg.tab === tab) return
+      switch (msg.kind) {
+        case 'broadcast':
+          deliverBroadcast(msg.name, msg.event, msg.payload, null)
+          break
+        case 'presence': {
+          const entries = remote.get(msg.name) ?? new Map()
+          if (msg.meta) entries.set(msg.id, { key: msg.key, meta: msg.meta })
+          else entries.delete(msg.id)
+          remote.set(msg.name, entries)
+          presenceChanged(msg.name)
+          break
+        }
+        case 'row':
+          deliverRow(msg.table, msg.change)
+          break
+        case 'hello':
+          for (const members of joined.values()) for (const m of members) if (m.meta) announce(m)
+          break
+      }
+    }
+    post({ kind: 'hello', tab })
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => {
+        for (const members of joined.values()) for (const m of members) if (m.meta) announce({ ...m, meta: null })
+      })
+    }
+  }
+
+  function channel(name: string, channelOpts: ChannelOptions = {}): RealtimeChannel {
+    const member: Member = {
+      id: String(++nextId), name, opts: channelOpts,
+      broadcast: new Map(), presence: [], rows: [], meta: null,
+    }
+    const isJoined = () => joined.get(name)?.has(member) ?? false
+    // Row changes from the delegate transport, if any, on a companion channel
+    let rowChannel: RealtimeChannel | null = null
+
+    const api: RealtimeChannel = {
+      onBroadcast(event, handler) {
+        member.broadcast.set(event, [...(member.broadcast.get(event) ?? []), handler])
+        return api
+      },
+      onPresenceSync(handler) {
+        member.presence.push(handler)
+        return api
+      },
+      onRowChange(filter, handler) {
+        member.rows.push({ filter, handler: handler as (change: RowChange) => void })
+        if (opts.rows) (rowChannel ??= opts.rows.channel(`${name}:rows`)).onRowChange(filter, handler)
+        return api
+      },
+      subscribe(onStatus?: (status: ChannelStatus, err?: Error) => void) {
+        joined.set(name, (joined.get(name) ?? new Set()).add(member))
+        rowChannel?.subscribe()
+        later(() => onStatus?.('SUBSCRIBED'))
+        for (const h of member.presence) later(h)
+        return api
+      },
+      async send(event, payload) {
+        if (!isJoined()) return
+        deliverBroadcast(name, event, payload, member)
+        post({ kind: 'broadcast', tab, name, event, payload })
+      },
+      async track(meta) {
+        if (!isJoined()) return
+        member.meta = meta
+        announce(member)
+        presenceChanged(name)
+      },
+      presenceState<T>() {
+        const state: Record<string, T[]> = {}
+        const add = (key: string, meta: Meta) => { (state[key] ??= []).push(meta as T) }
+        for (const m of joined.get(name) ?? []) if (m.meta) add(m.opts.presenceKey ?? m.id, m.meta)
+        for (const r of remote.get(name)?.values() ?? []) add(r.key, r.meta)
+        return state
+      },
+      async unsubscribe() {
+        if (!isJoined()) return
+        joined.get(name)!.delete(member)
+        await rowChannel?.unsubscribe()
+        if (member.meta) {
+          member.meta = null
+          announce(member)
+          presenceChanged(name)
+        }
+      },
+    }
+    return api
+  }
+
+  return {
+    channel,
+    emitRowChange(table, change) {
+      deliverRow(table, change)
+      post({ kind: 'row', tab, table, change })
+    },
+    close() {
+      joined.clear()
+      remote.clear()
+      bus?.close()
+    },
+  }
+}
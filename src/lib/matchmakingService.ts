@@ -0,0 +1,40 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// lib/matchmakingService.ts — Supabase adapter for the ranked queue.
+//
+// All queue writes go through SECURITY DEFINER RPCs (see
+// supabase/migrations/20260701_ranked_matchmaking.sql) so pairing and room
+// creation happen atomically on the server. Window/timeout policy lives in
+// domain/matchmaking.ts.
+// ─────────────────────────────────────────────────────────────────────────────
+import { supabase } from './supabase'
+
+export interface MatchedRoom {
+  roomId: string
+  code:   string
+}
+
+/**
+ * Put the signed-in player into the queue (re-entering resets the wait). The
+ * server queues them at their profile rating.
+ */
+export async function enqueueForMatch(eloWindow: number): Promise<void> {
+  const { error } = await supabase.rpc('matchmaking_enqueue', { p_window: eloWindow })
+  if (error) throw error
+}
+
+/**
+ * Report the current rating window and try to pair. Resolves to the room the
+ * player was matched into, or null while the search continues.
+ */
+export async function pollForMatch(eloWindow: number, roomConfig: Record<string, number>): Promise<MatchedRoom | null> {
+  const { data, error } = await supabase.rpc('matchmaking_poll', { p_window: eloWindow, p_config: roomConfig })
+  if (error) throw error
+  const row = (data as { room_id: string; code: string }[] | null)?.[0]
+  return row ? { roomId: row.room_id, code: row.code } : null
+}
+
+/** Leave the queue. Safe to call when not queued. */
+export async function cancelMatchSearch(): Promise<void> {
+  const { error } = await supabase.rpc('matchmaking_cancel')
+  if (error) console.warn('[MM] cancel failed:', error)
+}
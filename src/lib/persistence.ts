@@ -7,6 +7,10 @@
  */
 
 import { DuelState, Tile } from '../types'
+import { remainingAt } from '../domain/clock'
+import type { Side } from '../domain/territory'
+import type { DuelTally, MatchEnd } from '../domain/matchLimit'
+import { seatOf } from '../domain/party'
 
 const STORAGE_KEY     = 'thefloor_game_v1'
 const CURRENT_VERSION = 2  // ← BUMP: odrzuca stare zapisy z wersji 1
@@ -17,13 +21,25 @@ export interface SavedDuel {
   categoryId:        string
   categoryName:      string
   emoji:             string
-  timer1:            number
+  timer1:            number   // sekundy (ułamkowe) pozostałe na zegarze w chwili zapisu
   timer2:            number
   active:            1 | 2
   paused:            boolean
   started:           boolean
   usedIds:           string[]
   currentQuestionId: string | null
+  owners?:           [Side, Side]   // brak w zapisach sprzed trybu imprezowego = gold/silver
+  buzzer?:           boolean        // runda na refleks po remisie (domain/suddenDeath.ts)
+}
+
+/** Match progress: limits (domain/matchLimit.ts), sudden death and the seed */
+export interface SavedMatch {
+  roundsPlayed: number
+  duelsWon:     DuelTally
+  clockMs:      number | null   // zegar meczu w chwili zapisu; null = bez zegara
+  end:          MatchEnd<Side> | null
+  showdown?:    { winner: Side | null } | null   // dogrywka meczu (domain/suddenDeath.ts)
+  seed?:        number                         // ziarno gry (domain/random.ts); starsze zapisy go nie mają
 }
 
 export interface SavedGameState {
@@ -33,23 +49,28 @@ export interface SavedGameState {
   cursor:    number
   showStats: boolean
   duel:      SavedDuel | null
+  picker?:   Side   // kto wybiera następne pole (zapisy sprzed trybu terytoriów go nie mają)
+  match?:    SavedMatch
 }
 
 // ── Serialize ─────────────────────────────────────────────────────────────────
 
 export function serializeDuel(duel: DuelState): SavedDuel {
+  const now = performance.now()
   return {
     tileIdx:           duel.tileIdx,
     categoryId:        duel.categoryId,
     categoryName:      duel.categoryName,
     emoji:             duel.emoji,
-    timer1:            duel.timer1,
-    timer2:            duel.timer2,
+    timer1:            remainingAt(duel.clock1, now) / 1000,
+    timer2:            remainingAt(duel.clock2, now) / 1000,
     active:            duel.active,
     paused:            true,
     started:           duel.started,
     usedIds:           Array.from(duel.usedIds),
     currentQuestionId: duel.currentQuestion?.id ?? null,
+    owners:            duel.owners,
+    buzzer:            duel.buzzer,
   }
 }
 
@@ -60,6 +81,8 @@ export function saveGameState(
   cursor:    number,
   showStats: boolean,
   duel:      DuelState | null,
+  picker:    Side = 'gold',
+  match?:    SavedMatch,
 ): void {
   if (tiles.length === 0) return
 
@@ -70,6 +93,8 @@ export function saveGameState(
     cursor,
     showStats,
     duel: duel ? serializeDuel(duel) : null,
+    picker,
+    match,
   }
 
   try {
@@ -106,7 +131,7 @@ export function loadGameState(): SavedGameState | null {
       !firstTile ||
       typeof firstTile.x !== 'number' ||
       typeof firstTile.y !== 'number' ||
-      (firstTile.owner !== 'gold' && firstTile.owner !== 'silver')
+      (firstTile.owner !== 'gold' && firstTile.owner !== 'silver' && seatOf(firstTile.owner) === null)
     ) {
       clearGameState()
       return null
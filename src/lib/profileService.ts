@@ -3,66 +3,83 @@
 // tables.
 //
 // This is the ONLY place that knows the column layout of those tables. The
-// multiplayer store talks to it in domain terms (ProfileStats) and never touches
-// raw Supabase queries for ranking data. XP math lives in domain/xp.ts.
+// multiplayer store talks to it in domain terms and never touches raw Supabase
+// queries for ranking data. Match results are applied server-side by the
+// submit_match_result() RPC, which mirrors domain/xp.ts and domain/rating.ts;
+// solo personal bests by submit_solo_run(), which mirrors domain/solo.ts.
 // ─────────────────────────────────────────────────────────────────────────────
 import { supabase } from './supabase'
-import type { ProfileStats } from '../domain/xp'
+import type { XpRewards } from '../domain/xp'
+import type { RoundWinner } from '../domain/duel'
+import type { SoloBest } from '../domain/solo'
+import type { TimeAttackResult } from '../domain/timeAttack'
 
-const STATS_COLUMNS = 'xp,wins,losses,win_streak,best_streak'
+/**
+ * 'forfeit' means the caller concedes; 'abandon' claims a forfeit win over an
+ * opponent whose room heartbeat has gone stale. A board result (host / guest /
+ * draw) only the host may report.
+ */
+export type MatchOutcome = RoundWinner | 'forfeit' | 'abandon'
+
+/** What the server applied for a match (mirrors game_rooms.result). */
+export interface MatchResult {
+  winner:  RoundWinner
+  forfeit: boolean
+  rewards: XpRewards
+}
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function toStats(row: any): ProfileStats {
+function toMatchResult(row: any): MatchResult {
   return {
-    xp:          row.xp ?? 0,
-    wins:        row.wins ?? 0,
-    losses:      row.losses ?? 0,
-    win_streak:  row.win_streak ?? 0,
-    best_streak: row.best_streak ?? 0,
+    winner:  row.winner,
+    forfeit: !!row.forfeit,
+    rewards: { win: row.win ?? 0, loss: row.loss ?? 0, draw: row.draw ?? 0 },
   }
 }
 
-/** Read both players' ranking stats. Returns null if either profile is missing. */
-export async function fetchMatchStats(
-  hostId: string,
-  guestId: string,
-): Promise<{ host: ProfileStats; guest: ProfileStats } | null> {
-  const [{ data: hp }, { data: gp }] = await Promise.all([
-    supabase.from('profiles').select(STATS_COLUMNS).eq('id', hostId).maybeSingle(),
-    supabase.from('profiles').select(STATS_COLUMNS).eq('id', guestId).maybeSingle(),
-  ])
-  if (!hp || !gp) return null
-  return { host: toStats(hp), guest: toStats(gp) }
+/**
+ * Ask the server to settle a match. submit_match_result() validates the room
+ * and board, then applies XP, streaks, rating, game_history and the round
+ * links in one transaction. Settling twice returns the first result, so both
+ * players may call it. Resolves to null if the server rejected the call.
+ */
+export async function submitMatchResult(roomId: string, outcome: MatchOutcome): Promise<MatchResult | null> {
+  const { data, error } = await supabase.rpc('submit_match_result', { p_room_id: roomId, p_outcome: outcome })
+  if (error || !data) {
+    console.warn('[profile] submitMatchResult error:', error)
+    return null
+  }
+  return toMatchResult(data)
 }
 
-/** Persist both players' updated ranking stats. */
-export async function saveMatchStats(
-  hostId: string, host: ProfileStats,
-  guestId: string, guest: ProfileStats,
-): Promise<void> {
-  const updated_at = new Date().toISOString()
-  await Promise.all([
-    supabase.from('profiles').update({ ...host, updated_at }).eq('id', hostId),
-    supabase.from('profiles').update({ ...guest, updated_at }).eq('id', guestId),
-  ])
+/** The result already applied to a room, or null while it is unsettled. */
+export async function fetchMatchResult(roomId: string): Promise<MatchResult | null> {
+  const { data } = await supabase.from('game_rooms').select('result').eq('id', roomId).maybeSingle()
+  const result = (data as { result: unknown } | null)?.result
+  return result ? toMatchResult(result) : null
 }
 
-export interface GameHistoryRecord {
-  winnerId:    string
-  loserId:     string
-  winnerScore: number
-  loserScore:  number
+/** What the server kept of a solo run: whether it set a personal best, and the best after it. */
+export interface SoloSubmission {
+  best:   boolean
+  record: SoloBest | null
 }
 
-/** Append a finished (non-draw) match to the history table. */
-export async function recordGameHistory(r: GameHistoryRecord): Promise<void> {
-  await supabase.from('game_history').insert({
-    winner_id:    r.winnerId,
-    loser_id:     r.loserId,
-    winner_score: r.winnerScore,
-    loser_score:  r.loserScore,
-    is_draw:      false,
-  }).select()
+/**
+ * Submit a solo run on a category. submit_solo_run() stores it in
+ * profiles.solo_bests only if it beats the best for that category and clock
+ * length. Resolves to null if the server rejected the call.
+ */
+export async function submitSoloRun(categoryId: string, ms: number, result: TimeAttackResult): Promise<SoloSubmission | null> {
+  const { data, error } = await supabase.rpc('submit_solo_run', {
+    p_category_id: categoryId, p_duration_ms: ms,
+    p_score: result.score, p_passes: result.passes, p_time_left_ms: result.timeLeftMs,
+  })
+  if (error || !data) {
+    console.warn('[profile] submitSoloRun error:', error)
+    return null
+  }
+  return data as SoloSubmission
 }
 
 /**
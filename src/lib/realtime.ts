@@ -0,0 +1,117 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// lib/realtime.ts — Realtime transport interface + Supabase adapter.
+//
+// Everything that streams — room events, presence, invites and row-change
+// notifications — goes through a RealtimeTransport instead of calling
+// `supabase.channel()` directly. The Supabase adapter below is the default;
+// lib/localRealtime.ts runs the same channels in memory (or across tabs via
+// BroadcastChannel), so room traffic can be exercised without Supabase
+// Realtime — in tests, or in two tabs that only share the database.
+// Pick one with VITE_REALTIME=supabase|local, or swap it at runtime with
+// setRealtimeTransport() in tests.
+// ─────────────────────────────────────────────────────────────────────────────
+import { supabase } from './supabase'
+import { createLocalTransport } from './localRealtime'
+
+export type ChannelStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR'
+export type RowChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE'
+
+export interface RowChangeFilter {
+  event: RowChangeEvent | '*'
+  table: string
+  /** PostgREST-style `column=eq.value`; the only operator the app uses. */
+  filter?: string
+}
+
+export interface RowChange<T = Record<string, unknown>> {
+  eventType: RowChangeEvent
+  new: T
+  old: Partial<T>
+}
+
+export interface ChannelOptions {
+  /** Receive your own broadcasts too (default false). */
+  self?: boolean
+  /** Presence key for this client; one entry per key in presenceState(). */
+  presenceKey?: string
+}
+
+/** One named channel. Register handlers first, then subscribe(). */
+export interface RealtimeChannel {
+  onBroadcast(event: string, handler: (payload: unknown) => void): RealtimeChannel
+  onPresenceSync(handler: () => void): RealtimeChannel
+  onRowChange<T = Record<string, unknown>>(filter: RowChangeFilter, handler: (change: RowChange<T>) => void): RealtimeChannel
+  subscribe(onStatus?: (status: ChannelStatus, err?: Error) => void): RealtimeChannel
+  send(event: string, payload: unknown): Promise<void>
+  track(meta: Record<string, unknown>): Promise<void>
+  presenceState<T = Record<string, unknown>>(): Record<string, T[]>
+  unsubscribe(): Promise<void>
+}
+
+export interface RealtimeTransport {
+  channel(name: string, opts?: ChannelOptions): RealtimeChannel
+}
+
+// ── Supabase adapter ─────────────────────────────────────────────────────────
+
+function supabaseChannel(name: string, opts: ChannelOptions = {}): RealtimeChannel {
+  const ch = supabase.channel(name, {
+    config: {
+      broadcast: { self: opts.self ?? false },
+      ...(opts.presenceKey ? { presence: { key: opts.presenceKey } } : {}),
+    },
+  })
+  const api: RealtimeChannel = {
+    onBroadcast(event, handler) {
+      ch.on('broadcast', { event }, (msg) => handler(msg.payload))
+      return api
+    },
+    onPresenceSync(handler) {
+      ch.on('presence', { event: 'sync' }, () => handler())
+      return api
+    },
+    onRowChange(f, handler) {
+      // Listen to '*' and narrow here — keeps one overload of the typed `on()`
+      ch.on('postgres_changes', { event: '*', schema: 'public', table: f.table, filter: f.filter }, (pl) => {
+        if (f.event !== '*' && pl.eventType !== f.event) return
+        handler({ eventType: pl.eventType, new: pl.new as never, old: pl.old as never })
+      })
+      return api
+    },
+    subscribe(onStatus) {
+      ch.subscribe((status, err) => onStatus?.(status as ChannelStatus, err))
+      return api
+    },
+    async send(event, payload) {
+      await ch.send({ type: 'broadcast', event, payload })
+    },
+    async track(meta) {
+      await ch.track(meta)
+    },
+    presenceState<T>() {
+      return ch.presenceState() as unknown as Record<string, T[]>
+    },
+    async unsubscribe() {
+      await ch.unsubscribe()
+    },
+  }
+  return api
+}
+
+export const supabaseTransport: RealtimeTransport = { channel: supabaseChannel }
+
+// ── Active transport ─────────────────────────────────────────────────────────
+
+let _transport: RealtimeTransport = import.meta.env.VITE_REALTIME === 'local'
+  ? createLocalTransport({ crossTab: true, rows: supabaseTransport })
+  : supabaseTransport
+
+/** The transport every realtime caller should use. */
+export function realtime(): RealtimeTransport {
+  return _transport
+}
+
+/** Swap the transport (tests, local two-tab play). */
+export function setRealtimeTransport(t: RealtimeTransport): void {
+  _transport = t
+}
@@ -0,0 +1,79 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// lib/reviewService.ts — Supabase adapter for `review_cards`, plus the local copy.
+//
+// This is the ONLY place that knows the table's column layout. Training
+// progress (domain/srs.ts) is kept twice: in localStorage, so guests can study
+// and nothing is lost offline, and on the account, so it follows the player
+// between devices. hooks/useReviewCards merges the two by the latest review.
+// ─────────────────────────────────────────────────────────────────────────────
+import { supabase } from './supabase'
+import type { ReviewCard } from '../domain/srs'
+
+const LS_PREFIX = 'thefloor_review_v1:'
+
+interface ReviewRow {
+  question_id: string; ease: number; interval_days: number; reps: number; lapses: number
+  due_at: string; reviewed_at: string
+}
+
+const toCard = (r: ReviewRow): ReviewCard => ({
+  questionId: r.question_id,
+  ease:       r.ease,
+  interval:   r.interval_days,
+  reps:       r.reps,
+  lapses:     r.lapses,
+  due:        Date.parse(r.due_at),
+  reviewedAt: Date.parse(r.reviewed_at),
+})
+
+const toRow = (playerId: string, c: ReviewCard) => ({
+  player_id:     playerId,
+  question_id:   c.questionId,
+  ease:          c.ease,
+  interval_days: c.interval,
+  reps:          c.reps,
+  lapses:        c.lapses,
+  due_at:        new Date(c.due).toISOString(),
+  reviewed_at:   new Date(c.reviewedAt).toISOString(),
+})
+
+/** All of a player's cards by question id. Null when they could not be fetched (e.g. the migration is missing). */
+export async function fetchReviewCards(playerId: string): Promise<Record<string, ReviewCard> | null> {
+  const { data, error } = await supabase.from('review_cards')
+    .select('question_id,ease,interval_days,reps,lapses,due_at,reviewed_at')
+    .eq('player_id', playerId)
+  if (error) {
+    console.warn('[review] fetchReviewCards error:', error)
+    return null
+  }
+  return Object.fromEntries((data as ReviewRow[]).map(r => [r.question_id, toCard(r)]))
+}
+
+/** Upsert cards to the account. False when the write failed (the local copy still has them). */
+export async function saveReviewCards(playerId: string, cards: ReviewCard[]): Promise<boolean> {
+  if (cards.length === 0) return true
+  const { error } = await supabase.from('review_cards')
+    .upsert(cards.map(c => toRow(playerId, c)), { onConflict: 'player_id,question_id' })
+  if (error) {
+    console.warn('[review] saveReviewCards error:', error)
+    return false
+  }
+  return true
+}
+
+/** The device's copy of a player's cards (`playerId` null = guest). */
+export function loadLocalReviewCards(playerId: string | null): Record<string, ReviewCard> {
+  try {
+    const raw = localStorage.getItem(LS_PREFIX + (playerId ?? 'guest'))
+    const parsed = raw ? JSON.parse(raw) : null
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, ReviewCard> : {}
+  } catch {
+    return {}
+  }
+}
+
+export function saveLocalReviewCards(playerId: string | null, cards: Record<string, ReviewCard>): void {
+  try {
+    localStorage.setItem(LS_PREFIX + (playerId ?? 'guest'), JSON.stringify(cards))
+  } catch { /* ignore — storage full or disabled */ }
+}
@@ -0,0 +1,62 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// lib/roundService.ts — Supabase adapter for the `game_rounds` table.
+//
+// This is the ONLY place that knows the column layout of game_rounds. Rounds
+// are written as they finish (linked to the room); once the match ends the
+// submit_match_result() RPC attaches them to its game_history row.
+// ─────────────────────────────────────────────────────────────────────────────
+import { getCached, setCached, supabase } from './supabase'
+import { categoryRates, type CategoryRates } from '../domain/bot'
+import type { RoundAnswer, RoundRecord } from '../domain/rounds'
+
+/** Persist one finished round. `winnerId` is null for a drawn round. */
+export async function recordRound(roomId: string, r: RoundRecord, winnerId: string | null): Promise<void> {
+  const { error } = await supabase.from('game_rounds').insert({
+    room_id:         roomId,
+    round_no:        r.roundNo,
+    tile_idx:        r.tileIdx,
+    category_id:     r.categoryId || null,
+    question_id:     r.lastQuestionId || null,
+    question_ids:    r.questionIds,
+    answers:         r.answers,
+    host_passes:     r.hostPasses,
+    guest_passes:    r.guestPasses,
+    host_time_left:  r.hostTimeLeft,
+    guest_time_left: r.guestTimeLeft,
+    winner_role:     r.winner,
+    winner_id:       winnerId,
+    picker:          r.picker,
+    showdown:        r.showdown,
+  })
+  if (error) console.warn('[rounds] recordRound error:', error)
+}
+
+const RATES_KEY = 'category_rates'
+const RATES_TTL = 10 * 60_000
+// Enough recent rounds to rate every category on a typical board
+const RATES_ROUNDS = 1000
+
+/**
+ * Correct answers per category over the latest logged rounds, for the
+ * practice bot (domain/bot.ts). Empty when the log cannot be read — the bot
+ * then plays every category the same.
+ */
+export async function fetchCategoryRates(): Promise<CategoryRates> {
+  const cached = getCached<CategoryRates>(RATES_KEY, RATES_TTL)
+  if (cached) return cached
+  try {
+    const { data, error } = await supabase.from('game_rounds')
+      .select('category_id, answers')
+      .not('category_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(RATES_ROUNDS)
+    if (error) { console.warn('[rounds] fetchCategoryRates error:', error); return {} }
+    const rows = (data ?? []) as { category_id: string | null; answers: RoundAnswer[] | null }[]
+    const rates = categoryRates(rows.map(r => ({ categoryId: r.category_id, answers: r.answers ?? [] })))
+    setCached(RATES_KEY, rates)
+    return rates
+  } catch (e) {
+    console.warn('[rounds] fetchCategoryRates error:', e)
+    return {}
+  }
+}
@@ -0,0 +1,76 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// lib/seasonService.ts — Supabase adapter for `seasons` / `season_standings`.
+//
+// This is the ONLY place that knows the column layout of both tables. Closing
+// a season goes through the admin_close_season() RPC (see
+// supabase/migrations/20260704_seasons.sql) so archiving the standings,
+// resetting profiles and opening the next season happen in one transaction.
+// ─────────────────────────────────────────────────────────────────────────────
+import { supabase } from './supabase'
+import type { Season, SeasonStanding } from '../domain/seasons'
+
+interface SeasonRow { id: string; number: number; name: string; started_at: string; ended_at: string | null }
+
+interface StandingRow {
+  player_id: string; username: string; avatar: string | null; avatar_url: string | null
+  xp_rank: number; rating_rank: number
+  xp: number; wins: number; losses: number; best_streak: number; rating: number; rating_games: number
+}
+
+/** Columns a past leaderboard can be ordered by. */
+export type StandingOrder = 'xp' | 'wins' | 'best_streak' | 'rating'
+
+const toSeason = (r: SeasonRow): Season => ({
+  id: r.id, number: r.number, name: r.name, startedAt: r.started_at, endedAt: r.ended_at,
+})
+
+const toStanding = (r: StandingRow): SeasonStanding => ({
+  playerId:    r.player_id,
+  username:    r.username,
+  avatar:      r.avatar ?? '',
+  avatarUrl:   r.avatar_url ?? undefined,
+  xpRank:      r.xp_rank,
+  ratingRank:  r.rating_rank,
+  xp:          r.xp,
+  wins:        r.wins,
+  losses:      r.losses,
+  bestStreak:  r.best_streak,
+  rating:      r.rating,
+  ratingGames: r.rating_games,
+})
+
+/** Every season, newest first. Empty when the migration is missing. */
+export async function fetchSeasons(): Promise<Season[]> {
+  const { data, error } = await supabase.from('seasons')
+    .select('id,number,name,started_at,ended_at')
+    .order('number', { ascending: false })
+  if (error) {
+    console.warn('[seasons] fetchSeasons error:', error)
+    return []
+  }
+  return (data as SeasonRow[]).map(toSeason)
+}
+
+/** Final standings of a closed season. */
+export async function fetchSeasonStandings(seasonId: string, order: StandingOrder, limit = 100): Promise<SeasonStanding[]> {
+  const { data, error } = await supabase.from('season_standings')
+    .select('player_id,username,avatar,avatar_url,xp_rank,rating_rank,xp,wins,losses,best_streak,rating,rating_games')
+    .eq('season_id', seasonId)
+    .order(order, { ascending: false })
+    .limit(limit)
+  if (error) {
+    console.warn('[seasons] fetchSeasonStandings error:', error)
+    return []
+  }
+  return (data as StandingRow[]).map(toStanding)
+}
+
+/**
+ * Admin only: archive the active season's standings, reset live stats and open
+ * the next season. Resolves to the number of archived players.
+ */
+export async function closeSeason(nextName: string): Promise<number> {
+  const { data, error } = await supabase.rpc('admin_close_season', { p_next_name: nextName })
+  if (error) throw new Error(error.message)
+  return typeof data === 'number' ? data : 0
+}
@@ -0,0 +1,173 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// lib/tournamentService.ts — Supabase adapter for tournaments.
+//
+// This is the ONLY place that knows the column layout of `tournaments`,
+// `tournament_entrants` and `tournament_matches`. Starting a tournament and
+// opening a match room go through RPCs; advancing the bracket happens
+// server-side when a match room is settled (see
+// supabase/migrations/20260707_tournaments.sql).
+// ─────────────────────────────────────────────────────────────────────────────
+import { supabase } from './supabase'
+import { realtime } from './realtime'
+import type { MPGameSettings } from '../types'
+import type {
+  BracketMatch, BracketSide, BracketSlot, Entrant, MatchOutcome,
+  TournamentFormat, TournamentSeeding, TournamentStatus,
+} from '../domain/tournament'
+import type { MatchedRoom } from './matchmakingService'
+
+export interface Tournament {
+  id:         string
+  name:       string
+  format:     TournamentFormat
+  seeding:    TournamentSeeding
+  settings:   MPGameSettings & { cols: number; rows: number }
+  status:     TournamentStatus
+  createdBy:  string
+  winnerId:   string | null
+  winnerName: string | null
+  createdAt:  string
+  finishedAt: string | null
+}
+
+/** An entrant plus the seed assigned at start (null while registration is open). */
+export interface TournamentEntrant extends Entrant {
+  avatar: string
+  seed:   number | null
+}
+
+interface TournamentRow {
+  id: string; name: string; format: TournamentFormat; seeding: TournamentSeeding
+  settings: Tournament['settings']; status: TournamentStatus; created_by: string
+  winner_id: string | null; created_at: string; finished_at: string | null
+  winner: { username: string } | null
+}
+
+interface MatchRow {
+  key: string; side: BracketSide; round: number; idx: number
+  slot_a: string | null; slot_b: string | null; winner: MatchOutcome | null
+  winner_to: string | null; winner_to_slot: BracketSlot | null
+  loser_to: string | null; loser_to_slot: BracketSlot | null
+  room_id: string | null
+}
+
+const TOURNAMENT_COLS = 'id,name,format,seeding,settings,status,created_by,winner_id,created_at,finished_at,winner:profiles!tournaments_winner_id_fkey(username)'
+
+const toTournament = (r: TournamentRow): Tournament => ({
+  id: r.id, name: r.name, format: r.format, seeding: r.seeding, settings: r.settings,
+  status: r.status, createdBy: r.created_by, winnerId: r.winner_id,
+  winnerName: r.winner?.username ?? null, createdAt: r.created_at, finishedAt: r.finished_at,
+})
+
+const toMatch = (r: MatchRow): BracketMatch => ({
+  key: r.key, side: r.side, round: r.round, index: r.idx, a: r.slot_a, b: r.slot_b, winner: r.winner,
+  winnerTo: r.winner_to && r.winner_to_slot ? { key: r.winner_to, slot: r.winner_to_slot } : null,
+  loserTo:  r.loser_to  && r.loser_to_slot  ? { key: r.loser_to,  slot: r.loser_to_slot }  : null,
+  roomId: r.room_id,
+})
+
+/** Every tournament, newest first. Empty when the migration is missing. */
+export async function fetchTournaments(limit = 50): Promise<Tournament[]> {
+  const { data, error } = await supabase.from('tournaments')
+    .select(TOURNAMENT_COLS)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) {
+    console.warn('[tournaments] fetchTournaments error:', error)
+    return []
+  }
+  return (data as unknown as TournamentRow[]).map(toTournament)
+}
+
+export async function fetchTournament(id: string): Promise<Tournament | null> {
+  const { data, error } = await supabase.from('tournaments').select(TOURNAMENT_COLS).eq('id', id).maybeSingle()
+  if (error) {
+    console.warn('[tournaments] fetchTournament error:', error)
+    return null
+  }
+  return data ? toTournament(data as unknown as TournamentRow) : null
+}
+
+export async function fetchEntrants(tournamentId: string): Promise<TournamentEntrant[]> {
+  const { data, error } = await supabase.from('tournament_entrants')
+    .select('player_id,seed,profiles(username,avatar,xp,rating)')
+    .eq('tournament_id', tournamentId)
+    .order('joined_at')
+  if (error) {
+    console.warn('[tournaments] fetchEntrants error:', error)
+    return []
+  }
+  type Row = { player_id: string; seed: number | null; profiles: { username: string; avatar: string | null; xp: number; rating: number | null } | null }
+  return (data as unknown as Row[]).map(r => ({
+    playerId: r.player_id,
+    username: r.profiles?.username ?? '?',
+    avatar:   r.profiles?.avatar ?? '🎮',
+    xp:       r.profiles?.xp ?? 0,
+    rating:   r.profiles?.rating ?? 0,
+    seed:     r.seed,
+  }))
+}
+
+export async function fetchMatches(tournamentId: string): Promise<BracketMatch[]> {
+  const { data, error } = await supabase.from('tournament_matches')
+    .select('key,side,round,idx,slot_a,slot_b,winner,winner_to,winner_to_slot,loser_to,loser_to_slot,room_id')
+    .eq('tournament_id', tournamentId)
+    .order('side').order('round').order('idx')
+  if (error) {
+    console.warn('[tournaments] fetchMatches error:', error)
+    return []
+  }
+  return (data as MatchRow[]).map(toMatch)
+}
+
+/** Open a new tournament organised by the signed-in player. Resolves to its id. */
+export async function createTournament(createdBy: string, input: {
+  name: string; format: TournamentFormat; seeding: TournamentSeeding; settings: Tournament['settings']
+}): Promise<string> {
+  const { data, error } = await supabase.from('tournaments')
+    .insert({ name: input.name.trim(), format: input.format, seeding: input.seeding, settings: input.settings, created_by: createdBy })
+    .select('id').single()
+  if (error) throw new Error(error.message)
+  return (data as { id: string }).id
+}
+
+/** Delete a tournament that has not started yet (organiser or admin). */
+export async function cancelTournament(id: string): Promise<void> {
+  const { error } = await supabase.from('tournaments').delete().eq('id', id)
+  if (error) throw new Error(error.message)
+}
+
+export async function enterTournament(tournamentId: string, playerId: string): Promise<void> {
+  const { error } = await supabase.from('tournament_entrants').insert({ tournament_id: tournamentId, player_id: playerId })
+  if (error) throw new Error(error.message)
+}
+
+export async function leaveTournament(tournamentId: string, playerId: string): Promise<void> {
+  const { error } = await supabase.from('tournament_entrants').delete()
+    .eq('tournament_id', tournamentId).eq('player_id', playerId)
+  if (error) throw new Error(error.message)
+}
+
+/** Lock registration; the server seeds the entrants and builds the bracket. */
+export async function startTournament(tournamentId: string): Promise<void> {
+  const { error } = await supabase.rpc('start_tournament', { p_id: tournamentId })
+  if (error) throw new Error(error.message)
+}
+
+/** The game room for a bracket match, created on first call by either player. */
+export async function openTournamentMatch(tournamentId: string, key: string): Promise<MatchedRoom> {
+  const { data, error } = await supabase.rpc('tournament_open_match', { p_tournament: tournamentId, p_key: key })
+  if (error) throw new Error(error.message)
+  const row = (data as { room_id: string; code: string }[] | null)?.[0]
+  if (!row) throw new Error('Nie udało się otworzyć pokoju meczu')
+  return { roomId: row.room_id, code: row.code }
+}
+
+/** Re-run `onChange` whenever the tournament or one of its matches changes. */
+export function subscribeTournament(tournamentId: string, onChange: () => void): () => void {
+  const ch = realtime().channel(`tournament:${tournamentId}`)
+    .onRowChange({ event: '*', table: 'tournament_matches', filter: `tournament_id=eq.${tournamentId}` }, onChange)
+    .onRowChange({ event: '*', table: 'tournaments', filter: `id=eq.${tournamentId}` }, onChange)
+    .subscribe()
+  return () => { ch.unsubscribe() }
+}
@@ -23,6 +23,14 @@ import {
   InfoBox, Loading, SectionTitle, T, ToastContainer,
 } from '../components/admin/AdminUI'
 import AdminPlayers from './AdminPlayers'
+import { MP_MODES } from '../store/useMultiplayerStore'
+import { xpPolicyFromConfig, xpRewards } from '../domain/xp'
+import { DEFAULT_RATING } from '../domain/rating'
+import { activeSeason, formatSeasonRange, nextSeasonName, type Season } from '../domain/seasons'
+import { closeSeason, fetchSeasons } from '../lib/seasonService'
+import { defaultSeat, MAX_PARTY, MIN_PARTY } from '../domain/party'
+import { VICTORY_KINDS, type VictoryKind } from '../domain/board'
+import { BOT_LEVELS, BOT_NAMES } from '../domain/bot'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 type SPSection  = 'categories' | 'board' | 'gameplay_sp' | 'players_sp' | 'display' | 'advanced'
@@ -53,11 +61,21 @@ const SP_GAMEPLAY: NumField[] = [
   { key: 'DUEL_TIME',    label: 'Czas gracza',      desc: 'Sekundy na odpowiedź (SP)',      min: 10,   max: 120,   unit: 's'  },
   { key: 'PASS_PENALTY', label: 'Kara za pas',      desc: 'Sekundy odejmowane przy pasie',  min: 0,    max: 30,    unit: 's'  },
   { key: 'MAX_PASSES',   label: 'Limit pasów',      desc: 'Maks pasy per duel (0 = brak)',  min: 0,    max: 10,    unit: ''   },
+  { key: 'MAX_ROUNDS',   label: 'Limit rund',       desc: 'Pojedynki w meczu (0 = brak)',   min: 0,    max: 50,    unit: ''   },
+  { key: 'ROUND_TIMER',  label: 'Czas meczu',       desc: 'Zegar całego meczu (0 = brak)',  min: 0,    max: 60,    unit: 'min' },
   { key: 'FEEDBACK_MS',  label: 'Czas feedbacku',   desc: 'Wyświetlanie odpowiedzi (ms)',   min: 300,  max: 5000,  unit: 'ms' },
   { key: 'WIN_CLOSE_MS', label: 'Popup wygranej',   desc: 'Auto-zamknięcie wygranej (ms)',  min: 1000, max: 10000, unit: 'ms' },
   { key: 'TOAST_MS',     label: 'Czas powiadomień', desc: 'Czas toastów (ms)',              min: 500,  max: 5000,  unit: 'ms' },
 ]
 
+// VICTORY_MODE = indeks w VICTORY_KINDS
+const VICTORY_MODES: Record<VictoryKind, { label: string; desc: string }> = {
+  threshold:   { label: 'Próg planszy', desc: 'Wygrywa, kto zajmie ustalony % pól' },
+  elimination: { label: 'Eliminacja',   desc: 'Gra do utraty ostatniego pola' },
+  first_to:    { label: 'Pierwszy do N', desc: 'Wygrywa, kto pierwszy ma N pól' },
+  full_board:  { label: 'Pełna plansza', desc: 'Po pojedynku o każde pole — więcej pól wygrywa' },
+}
+
 const MP_GAMEPLAY: NumField[] = [
   { key: 'MP_DUEL_TIME',    label: 'Czas gracza MP',    desc: 'Sekundy na odpowiedź (Online)', min: 10,   max: 180,   unit: 's'  },
   { key: 'MP_PASS_PENALTY', label: 'Kara za pas MP',    desc: 'Sekundy kary za pas (Online)',  min: 0,    max: 30,    unit: 's'  },
@@ -72,6 +90,13 @@ const XP_FIELDS: XPFieldCfg[] = [
   { key: 'MP_XP_LOSS', label: 'XP za przegraną',desc: 'Punkty za uczestnictwo',       min: 0, max: 100, color: '#fb923c' },
 ]
 
+const XP_MODIFIERS: NumField[] = [
+  { key: 'MP_XP_FORFEIT_PCT',  label: 'Walkower',          desc: 'Zwycięzca +%, uciekinier traci % wygranej', min: 0, max: 200, unit: '%'  },
+  { key: 'MP_XP_MARGIN_BONUS', label: 'Bonus za przewagę', desc: 'XP za każde pole przewagi (0 = wył.)',     min: 0, max: 20,  unit: 'XP' },
+  { key: 'MP_XP_STREAK_BONUS', label: 'Bonus za serię',    desc: 'XP za każdą wygraną w serii (0 = wył.)',   min: 0, max: 50,  unit: 'XP' },
+  { key: 'MP_XP_STREAK_CAP',   label: 'Limit serii',       desc: 'Maks. liczba wygranych liczonych do bonusu', min: 0, max: 20, unit: ''  },
+]
+
 function filenameToAnswer(f: string) {
   return f.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim()
 }
@@ -84,6 +109,7 @@ export default function AdminConfig() {
   const toast = useToast()
   const {
     config, fetch, update, players, updatePlayer, resetAll,
+    partyPlayers, setPartyPlayers,
     tileCategories, setTileCategory, resetTileCategories,
   } = useConfigStore()
 
@@ -252,7 +278,11 @@ export default function AdminConfig() {
           <GameplaySPSection config={config} handleUpdate={handleUpdate} />
         )}
         {mode === 'sp' && spSect === 'players_sp' && (
-          <PlayersSPSection players={players} updatePlayer={updatePlayer} />
+          <PlayersSPSection
+            players={players} updatePlayer={updatePlayer}
+            config={config} handleUpdate={handleUpdate}
+            party={partyPlayers} setParty={setPartyPlayers}
+          />
         )}
         {mode === 'sp' && spSect === 'display' && (
           <DisplaySection config={config} handleUpdate={handleUpdate} />
@@ -874,6 +904,96 @@ function GameplaySPSection({ config, handleUpdate }: { config: GameConfig; handl
           value={config.LOTTERY_PICK === 1}
           onChange={v => handleUpdate('LOTTERY_PICK', v ? 1 : 0)}
         />
+        <ToggleField
+          label="Tryb terytoriów"
+          desc="Zasady z programu The Floor: atakować można tylko pole przeciwnika sąsiadujące z własnym terytorium, a zwycięzca przejmuje całe terytorium przegranego. Gra kończy się, gdy ktoś straci ostatnie pole. Działa od Nowej Gry."
+          value={config.RULES_MODE === 1}
+          onChange={v => handleUpdate('RULES_MODE', v ? 1 : 0)}
+        />
+        <ToggleField
+          label="Dogrywka w remisowym pojedynku"
+          desc="Gdy obu graczom skończy się czas, zamiast remisu jest runda na refleks: jedno pytanie dla obu, bez zegarów — pole bierze pierwszy, kto naciśnie A / D z poprawną odpowiedzią."
+          value={config.SUDDEN_DEATH_DUEL === 1}
+          onChange={v => handleUpdate('SUDDEN_DEATH_DUEL', v ? 1 : 0)}
+        />
+        <ToggleField
+          label="Dogrywka w remisowym meczu"
+          desc="Remis na planszy albo na limicie rund/czasu rozstrzyga pojedynek o wszystko dwóch liderów w losowej kategorii. Plansza się nie zmienia — zwycięzca bierze mecz."
+          value={config.SUDDEN_DEATH_MATCH === 1}
+          onChange={v => handleUpdate('SUDDEN_DEATH_MATCH', v ? 1 : 0)}
+        />
+      </div>
+      <div style={{ marginTop: 18 }}>
+        <div style={{ color: T.textDim2, fontSize: '0.72rem', letterSpacing: 1, marginBottom: 10 }}>
+          WARUNEK ZWYCIĘSTWA{config.RULES_MODE === 1 ? ' — w trybie terytoriów zawsze eliminacja' : ''}
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4,1fr)', gap: 8 }}>
+          {VICTORY_KINDS.map((kind, i) => {
+            const active = config.VICTORY_MODE === i
+            return (
+              <button
+                key={kind}
+                onClick={() => handleUpdate('VICTORY_MODE', i)}
+                style={{
+                  padding: '10px 8px', borderRadius: 10, cursor: 'pointer',
+                  background: active ? 'rgba(212,175,55,0.15)' : T.surface,
+                  border: `1px solid ${active ? T.gold : T.border}`,
+                  color: active ? T.gold : T.textDim2,
+                  fontSize: '0.72rem', letterSpacing: 0.5, lineHeight: 1.4,
+                }}
+              >
+                <div style={{ fontFamily: "'Bebas Neue', sans-serif", fontSize: '1rem', letterSpacing: 2, marginBottom: 2 }}>
+                  {VICTORY_MODES[kind].label}
+                </div>
+                <div>{VICTORY_MODES[kind].desc}</div>
+              </button>
+            )
+          })}
+        </div>
+        <div style={{ marginTop: 8, display: 'flex', flexDirection: 'column', gap: 8 }}>
+          {VICTORY_KINDS[config.VICTORY_MODE] === 'threshold' && (
+            <NumberField
+              label="Próg planszy" desc="Część planszy potrzebna do wygranej"
+              value={config.VICTORY_PCT} min={51} max={100} unit="%"
+              onChange={v => handleUpdate('VICTORY_PCT', v)}
+            />
+          )}
+          {VICTORY_KINDS[config.VICTORY_MODE] === 'first_to' && (
+            <NumberField
+              label="Pola do zdobycia" desc="Najwyżej cała plansza"
+              value={config.VICTORY_TILES} min={1} max={200} unit=""
+              onChange={v => handleUpdate('VICTORY_TILES', v)}
+            />
+          )}
+        </div>
+      </div>
+      <div style={{ marginTop: 18 }}>
+        <div style={{ color: T.textDim2, fontSize: '0.72rem', letterSpacing: 1, marginBottom: 10 }}>
+          GRACZ 2{config.PARTY_MODE === 1 ? ' — w trybie imprezowym bez bota' : ''}
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4,1fr)', gap: 8 }}>
+          {[null, ...BOT_LEVELS].map((level, i) => {
+            const active = config.BOT_LEVEL === i
+            return (
+              <button
+                key={level ?? 'human'}
+                onClick={() => handleUpdate('BOT_LEVEL', i)}
+                style={{
+                  padding: '10px 8px', borderRadius: 10, cursor: 'pointer',
+                  background: active ? 'rgba(212,175,55,0.15)' : T.surface,
+                  border: `1px solid ${active ? T.gold : T.border}`,
+                  color: active ? T.gold : T.textDim2,
+                  fontFamily: "'Bebas Neue', sans-serif", fontSize: '1rem', letterSpacing: 2,
+                }}
+              >
+                {level ? `🤖 ${BOT_NAMES[level]}` : '👤 CZŁOWIEK'}
+              </button>
+            )
+          })}
+        </div>
+        <div style={{ marginTop: 6, color: T.textDim2, fontSize: '0.68rem' }}>
+          Bot gra srebrnymi: sam wybiera pole na swoim ruchu i odpowiada — trafność i tempo zależą od poziomu i od tego, jak kategoria idzie graczom online.
+        </div>
       </div>
     </div>
   )
@@ -882,10 +1002,15 @@ function GameplaySPSection({ config, handleUpdate }: { config: GameConfig; handl
 // ═════════════════════════════════════════════════════════════════════════════
 // SP: PLAYERS SECTION
 // ═════════════════════════════════════════════════════════════════════════════
-function PlayersSPSection({ players, updatePlayer }: {
+function PlayersSPSection({ players, updatePlayer, config, handleUpdate, party, setParty }: {
   players: [PlayerSettings, PlayerSettings];
   updatePlayer: (idx: 0 | 1, field: keyof PlayerSettings, value: string) => Promise<void>;
+  config: GameConfig; handleUpdate: (k: keyof GameConfig, v: number) => void;
+  party: PlayerSettings[]; setParty: (party: PlayerSettings[]) => Promise<void>;
 }) {
+  const editSeat = (seat: number, field: keyof PlayerSettings, value: string) =>
+    setParty(party.map((p, i) => (i === seat ? { ...p, [field]: value } : p)))
+
   return (
     <div>
       <SectionTitle icon="👥" title="Singleplayer — Gracze" />
@@ -923,6 +1048,52 @@ function PlayersSPSection({ players, updatePlayer }: {
           </div>
         </Card>
       ))}
+
+      <div style={{ marginTop: 24 }}>
+        <ToggleField
+          label="Tryb imprezowy"
+          desc={`Od ${MIN_PARTY} do ${MAX_PARTY} graczy na jednej planszy — każdy zaczyna z własnym blokiem pól, a pojedynek toczy wybierający z właścicielem wskazanego pola. Zastępuje graczy 1 i 2. Działa od Nowej Gry.`}
+          value={config.PARTY_MODE === 1}
+          onChange={v => handleUpdate('PARTY_MODE', v ? 1 : 0)}
+        />
+      </div>
+      {config.PARTY_MODE === 1 && (
+        <Card padding={20} style={{ marginTop: 12 }}>
+          <div style={{
+            fontFamily: "'Bebas Neue', sans-serif", fontSize: '1rem',
+            letterSpacing: 4, color: T.gold, marginBottom: 14,
+          }}>GRACZE IMPREZY ({party.length})</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+            {party.map((p, seat) => (
+              <div key={seat} style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                <input type="color" value={p.color}
+                  onChange={e => editSeat(seat, 'color', e.target.value)}
+                  style={{
+                    width: 38, height: 34, padding: 2, background: T.surface2,
+                    border: `1px solid ${T.borderHi}`, borderRadius: 8, cursor: 'pointer',
+                  }}
+                />
+                <AdminInput
+                  value={p.name} maxLength={16} style={{ flex: 1 }}
+                  onChange={e => editSeat(seat, 'name', e.target.value.toUpperCase())}
+                />
+                <AdminButton
+                  onClick={() => setParty(party.filter((_, i) => i !== seat))}
+                  disabled={party.length <= MIN_PARTY}
+                  variant="ghost" size="sm"
+                >X</AdminButton>
+              </div>
+            ))}
+          </div>
+          <div style={{ marginTop: 12 }}>
+            <AdminButton
+              onClick={() => setParty([...party, defaultSeat(party.length)])}
+              disabled={party.length >= MAX_PARTY}
+              variant="secondary" size="sm" icon="+"
+            >Dodaj gracza</AdminButton>
+          </div>
+        </Card>
+      )}
     </div>
   )
 }
@@ -1005,7 +1176,9 @@ function AdvancedSection({ confirmResetAll, setConfirmResetAll, handleResetAll,
 }) {
   const toast = useToast()
   const [stats, setStats] = useState<DbStats | null>(null)
-  const [confirm, setConfirm] = useState<null | 'cache' | 'local' | 'history' | 'rooms' | 'bulk_stats'>(null)
+  const [confirm, setConfirm] = useState<null | 'cache' | 'local' | 'history' | 'rooms' | 'bulk_stats' | 'season'>(null)
+  const [seasons, setSeasons] = useState<Season[]>([])
+  const current = activeSeason(seasons)
 
   // ── DB stats loader — preferuje RPC admin_db_stats() (1 RTT zamiast 5).
   //    Fallback na count() head queries gdy migracja jeszcze nie wgrana.
@@ -1030,6 +1203,7 @@ function AdvancedSection({ confirmResetAll, setConfirmResetAll, handleResetAll,
   }, { onError: e => toast.error(e.message) })
 
   useEffect(() => { loadStats() }, []) // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { fetchSeasons().then(setSeasons) }, [])
 
   // ── Cache invalidation (in-memory, react-query-style) ─────────────────────
   const { run: clearCache } = useAsyncAction(async () => {
@@ -1058,7 +1232,7 @@ function AdvancedSection({ confirmResetAll, setConfirmResetAll, handleResetAll,
       // Fallback (np. brak migracji)
       const { error: pErr } = await supabase
         .from('profiles')
-        .update({ wins: 0, losses: 0, win_streak: 0, best_streak: 0, xp: 0, updated_at: new Date().toISOString() })
+        .update({ wins: 0, losses: 0, win_streak: 0, best_streak: 0, xp: 0, rating: DEFAULT_RATING, rating_games: 0, updated_at: new Date().toISOString() })
         .neq('id', '00000000-0000-0000-0000-000000000000')
       if (pErr) throw new Error(`Profiles: ${pErr.message}`)
     }
@@ -1069,6 +1243,18 @@ function AdvancedSection({ confirmResetAll, setConfirmResetAll, handleResetAll,
     loadStats()
   }, { onError: e => toast.error(e.message) })
 
+  // ── Close season — RPC admin_close_season() archiwizuje końcową tabelę
+  //    (season_standings), zeruje statystyki i otwiera kolejny sezon w jednej
+  //    transakcji. Bez fallbacku: reset bez archiwum to „Resetuj wszystkim".
+  const { run: endSeason, loading: closingSeason } = useAsyncAction(async () => {
+    const archived = await closeSeason(nextSeasonName(current))
+    setConfirm(null)
+    invalidateCache()
+    toast.success(`Zamknięto ${current?.name ?? 'sezon'} — zarchiwizowano ${archived} graczy`)
+    setSeasons(await fetchSeasons())
+    loadStats()
+  }, { onError: e => toast.error(e.message) })
+
   // ── Purge MP history (game_history table) ─────────────────────────────────
   const { run: purgeHistory, loading: purgingHistory } = useAsyncAction(async () => {
     const { error } = await supabase
@@ -1119,9 +1305,14 @@ function AdvancedSection({ confirmResetAll, setConfirmResetAll, handleResetAll,
     },
     bulk_stats: {
       title: 'ZRESETUJ STATYSTYKI WSZYSTKICH GRACZY', label: 'RESETUJ',
-      message: 'Zeruje wins/losses/win_streak/best_streak/xp dla KAŻDEGO gracza w bazie. Tej akcji nie można cofnąć!',
+      message: 'Zeruje wins/losses/win_streak/best_streak/xp i rating dla KAŻDEGO gracza w bazie. Tej akcji nie można cofnąć!',
       loading: resettingStats, onConfirm: bulkResetStats,
     },
+    season: {
+      title: 'ZAMKNIJ SEZON', label: 'ZAMKNIJ',
+      message: `Zapisze końcową tabelę (XP i rating) sezonu „${current?.name ?? '—'}", wyzeruje statystyki wszystkich graczy i otworzy „${nextSeasonName(current)}". Tej akcji nie można cofnąć!`,
+      loading: closingSeason, onConfirm: endSeason,
+    },
   }
 
   return (
@@ -1177,13 +1368,30 @@ function AdvancedSection({ confirmResetAll, setConfirmResetAll, handleResetAll,
         />
       </div>
 
+      {/* ── Sezony ───────────────────────────────────────────────────────────── */}
+      <SectionTitle icon="🏁" title="Sezony" />
+      {current ? (
+        <div style={{ marginBottom: 24 }}>
+          <ToolRow
+            icon="🏆" title={`Zamknij sezon: ${current.name} (${formatSeasonRange(current)})`}
+            desc={`Archiwizuje końcowy ranking XP i rating, zeruje statystyki graczy i otwiera „${nextSeasonName(current)}". Historia gier zostaje.`}
+            buttonLabel="Zamknij sezon"
+            loading={closingSeason}
+            onClick={() => setConfirm('season')}
+            variant="danger"
+          />
+        </div>
+      ) : (
+        <InfoBox color={T.warning}>Brak aktywnego sezonu — uruchom migrację 20260704_seasons.sql.</InfoBox>
+      )}
+
       {/* ── Operacje destrukcyjne ──────────────────────────────────────────── */}
       <SectionTitle icon="⚠️" title="Operacje destrukcyjne" />
       <InfoBox color={T.danger}>Wszystkie operacje poniżej są nieodwracalne — wykonują DELETE w bazie.</InfoBox>
       <div style={{ display: 'flex', flexDirection: 'column', gap: 10, marginBottom: 24 }}>
         <ToolRow
           icon="🔄" title="Zresetuj statystyki wszystkich graczy"
-          desc="Zeruje wins/losses/win_streak/best_streak/xp dla KAŻDEGO konta. Profile zostaną nietknięte."
+          desc="Zeruje wins/losses/win_streak/best_streak/xp i rating dla KAŻDEGO konta. Profile zostaną nietknięte."
           buttonLabel="Resetuj wszystkim"
           loading={resettingStats}
           onClick={() => setConfirm('bulk_stats')}
@@ -1289,6 +1497,7 @@ function GameplayMPSection({ config, handleUpdate }: { config: GameConfig; handl
 // MP: XP SECTION
 // ═════════════════════════════════════════════════════════════════════════════
 function XPSection({ config, handleUpdate }: { config: GameConfig; handleUpdate: (k: keyof GameConfig, v: number) => void }) {
+  const perGame = xpRewards(xpPolicyFromConfig(config))
   return (
     <div>
       <SectionTitle icon="🏆" title="System XP i Rankingów" />
@@ -1304,14 +1513,27 @@ function XPSection({ config, handleUpdate }: { config: GameConfig; handleUpdate:
         ))}
       </div>
 
+      <div style={{ fontSize: '0.68rem', letterSpacing: 2, color: T.textDim2, marginBottom: 10 }}>MODYFIKATORY</div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 24 }}>
+        {XP_MODIFIERS.map(f => (
+          <NumberField
+            key={f.key} label={f.label} desc={f.desc}
+            value={(config[f.key] as number) ?? (DEFAULTS[f.key] as number)}
+            min={f.min} max={f.max} unit={f.unit}
+            onChange={v => handleUpdate(f.key, v)}
+            accentColor={T.mp}
+          />
+        ))}
+      </div>
+
       {/* Preview */}
       <Card padding="16px 20px">
-        <div style={{ fontSize: '0.68rem', letterSpacing: 2, color: T.textDim2, marginBottom: 10 }}>PODGLĄD XP (10 gier)</div>
+        <div style={{ fontSize: '0.68rem', letterSpacing: 2, color: T.textDim2, marginBottom: 10 }}>PODGLĄD XP (10 gier, tryb klasyczny, bez bonusów)</div>
         <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap' }}>
           {[
-            { label: '10 wygranych', xp: 10 * (config.MP_XP_WIN  ?? 50), color: T.success },
-            { label: '10 remisów',   xp: 10 * (config.MP_XP_DRAW ?? 20), color: T.warning },
-            { label: '10 porażek',   xp: 10 * (config.MP_XP_LOSS ?? 10), color: '#fb923c' },
+            { label: '10 wygranych', xp: 10 * perGame.win,  color: T.success },
+            { label: '10 remisów',   xp: 10 * perGame.draw, color: T.warning },
+            { label: '10 porażek',   xp: 10 * perGame.loss, color: '#fb923c' },
           ].map(({ label, xp, color }) => (
             <div key={label} style={{
               flex: 1, minWidth: 130, padding: '12px 14px',
@@ -1323,6 +1545,13 @@ function XPSection({ config, handleUpdate }: { config: GameConfig; handleUpdate:
             </div>
           ))}
         </div>
+        <div style={{ display: 'flex', gap: 14, flexWrap: 'wrap', marginTop: 12, fontSize: '0.72rem', color: T.textDim2 }}>
+          {Object.values(MP_MODES).map(m => (
+            <span key={m.label}>
+              {m.emoji} {m.label} ×{m.xpMultiplier} → <strong style={{ color: T.success }}>+{xpRewards(xpPolicyFromConfig(config, m.xpMultiplier)).win} XP</strong> za wygraną
+            </span>
+          ))}
+        </div>
       </Card>
     </div>
   )
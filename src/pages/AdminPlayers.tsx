@@ -13,6 +13,7 @@ import { supabase } from '../lib/supabase'
 import { useAsyncAction } from '../hooks/useAsyncAction'
 import { useDebounce } from '../hooks/useDebounce'
 import { useToast } from '../hooks/useToast'
+import { DEFAULT_RATING } from '../domain/rating'
 import {
   AdminButton, AdminInput, Card, ConfirmDialog, EmptyState,
   Loading, T, ToastContainer,
@@ -187,7 +188,7 @@ export default function AdminPlayers() {
     const now = new Date().toISOString()
 
     if (type === 'reset_stats') {
-      const update = { wins: 0, losses: 0, win_streak: 0, best_streak: 0, xp: 0, updated_at: now }
+      const update = { wins: 0, losses: 0, win_streak: 0, best_streak: 0, xp: 0, rating: DEFAULT_RATING, rating_games: 0, updated_at: now }
       const { error } = await supabase.from('profiles').update(update).eq('id', playerId)
       if (error) throw new Error(error.message)
       setPlayers(prev => prev.map(p => p.id === playerId ? { ...p, ...update } : p))
@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import TimeAttackPanel from '../components/game/TimeAttackPanel'
+import { normalizeCategories } from '../domain/categories'
+import {
+  currentStreak, DAILY_CATEGORIES, DAILY_MS, DAILY_PASS_PENALTY_MS, dailyDeck, dailyKey, type DailyCard,
+} from '../domain/daily'
+import { formatClock } from '../domain/clock'
+import type { TimeAttackResult } from '../domain/timeAttack'
+import { useTimeAttack } from '../hooks/useTimeAttack'
+import { fetchRawCategories } from '../lib/categoryService'
+import {
+  fetchDailyLeaderboard, fetchLastDailyRun, startDailyRun, submitDailyRun, type DailyEntry, type DailySubmission,
+} from '../lib/dailyService'
+import { useAuthStore } from '../store/useAuthStore'
+
+const medal = (i: number) => i === 0 ? '🥇' : i === 1 ? '🥈' : i === 2 ? '🥉' : `${i + 1}.`
+
+export default function DailyFloor() {
+  const navigate = useNavigate()
+  const { user } = useAuthStore()
+  // Dzień ustalony przy wejściu — bieg zaczęty przed północą liczy się do swojego dnia
+  const [today]     = useState(() => dailyKey(new Date()))
+  const [deck,      setDeck]      = useState<DailyCard[] | null>(null)
+  const [board,     setBoard]     = useState<DailyEntry[]>([])
+  const [last,      setLast]      = useState<DailyEntry | null>(null)
+  const [attempt,   setAttempt]   = useState(0)   // klucz biegu — „jeszcze raz" montuje go od nowa
+
+  useEffect(() => {
+    fetchRawCategories().then(raw => setDeck(dailyDeck(normalizeCategories(raw ?? []), today)))
+    fetchDailyLeaderboard(today).then(setBoard)
+  }, [today])
+  useEffect(() => { if (user) fetchLastDailyRun(user.id).then(setLast) }, [user])
+
+  // A run started today counts as played, finished or not
+  const playedToday = last?.day === today
+  const ranked      = !!user && !playedToday
+  const streak      = currentStreak(last, today)
+
+  const handleStart = useCallback(async (): Promise<boolean> => {
+    if (!user) return false
+    const started = await startDailyRun(today)
+    fetchLastDailyRun(user.id).then(setLast)
+    return started
+  }, [today, user])
+
+  const handleSubmit = useCallback(async (result: TimeAttackResult): Promise<DailySubmission | null> => {
+    if (!user) return null
+    const saved = await submitDailyRun(today, result)
+    if (saved) {
+      fetchDailyLeaderboard(today).then(setBoard)
+      fetchLastDailyRun(user.id).then(setLast)
+    }
+    return saved
+  }, [today, user])
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#080808', fontFamily: "'Montserrat',sans-serif", color: '#fff', padding: '24px 20px' }}>
+      <div style={{ maxWidth: 700, margin: '0 auto' }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
+          <div>
+            <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '2.4rem', letterSpacing: 8, color: '#D4AF37' }}>DAILY FLOOR</div>
+            <div style={{ fontSize: '0.72rem', letterSpacing: 2, color: 'rgba(255,255,255,0.3)' }}>WYZWANIE DNIA · {today}</div>
+            {user && (
+              <div style={{ fontSize: '0.65rem', letterSpacing: 1, color: 'rgba(212,175,55,0.6)', marginTop: 2 }}>
+                🔥 SERIA: {streak} {streak === 1 ? 'DZIEŃ' : 'DNI'}
+              </div>
+            )}
+          </div>
+          <button onClick={() => navigate(-1)} style={{ background: 'none', border: 'none', color: 'rgba(255,255,255,0.3)', cursor: 'pointer', fontSize: '0.78rem', letterSpacing: 2 }}>
+            WRÓĆ
+          </button>
+        </div>
+
+        <div style={{ padding: 16, background: 'rgba(212,175,55,0.04)', border: '1px solid rgba(212,175,55,0.15)', borderRadius: 12, marginBottom: 24 }}>
+          {deck === null
+            ? <div style={{ textAlign: 'center', padding: '40px 0', color: 'rgba(255,255,255,0.3)' }}>Ładowanie…</div>
+            : deck.length === 0
+              ? <div style={{ textAlign: 'center', padding: '40px 0', color: 'rgba(255,255,255,0.3)' }}>Brak pytań — dzisiejsza plansza jest pusta</div>
+              : <DailyRun key={attempt} deck={deck} ranked={ranked} signedIn={!!user} onStart={handleStart} onSubmit={handleSubmit} onAgain={() => setAttempt(a => a + 1)} />}
+        </div>
+
+        <div style={{ fontSize: '0.65rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)', marginBottom: 8 }}>RANKING DNIA</div>
+        <div style={{ background: 'rgba(255,255,255,0.02)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 12, overflow: 'hidden' }}>
+          {board.length === 0 && <div style={{ textAlign: 'center', padding: '30px 0', color: 'rgba(255,255,255,0.25)', fontSize: '0.8rem' }}>Nikt jeszcze dziś nie zagrał</div>}
+          {board.map((e, i) => {
+            const isMe = e.playerId === user?.id
+            return (
+              <div key={e.playerId} style={{ display: 'flex', alignItems: 'center', gap: 14, padding: '10px 16px', background: isMe ? 'rgba(212,175,55,0.06)' : 'transparent', borderBottom: '1px solid rgba(255,255,255,0.04)' }}>
+                <div style={{ width: 32, textAlign: 'center', fontFamily: "'Bebas Neue',sans-serif", fontSize: i < 3 ? '1.2rem' : '0.9rem', color: i < 3 ? undefined : 'rgba(255,255,255,0.4)' }}>{medal(i)}</div>
+                <div style={{ width: 28, height: 28, borderRadius: '50%', background: 'rgba(212,175,55,0.08)', border: '1px solid rgba(212,175,55,0.2)', display: 'flex', alignItems: 'center', justifyContent: 'center', overflow: 'hidden', flexShrink: 0 }}>
+                  {e.avatarUrl ? <img src={e.avatarUrl} style={{ width: '100%', height: '100%', objectFit: 'cover' }} alt="" /> : e.avatar || '🎮'}
+                </div>
+                <div style={{ flex: 1, fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.95rem', letterSpacing: 2, color: isMe ? '#D4AF37' : '#fff' }}>
+                  {e.username}{isMe ? ' (TY)' : ''}
+                </div>
+                <div style={{ width: 50, textAlign: 'right', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', color: '#4ade80' }}>✓ {e.score}</div>
+                <div style={{ width: 50, textAlign: 'right', fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>{formatClock(e.timeLeftMs)}s</div>
+                <div style={{ width: 40, textAlign: 'right', fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>🔥{e.streak}</div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface DailyRunProps {
+  deck:     DailyCard[]
+  /** The day's first run of a signed-in player — it goes to the leaderboard. */
+  ranked:   boolean
+  signedIn: boolean
+  /** Claims the day's ranked run; false leaves this run as practice. */
+  onStart:  () => Promise<boolean>
+  onSubmit: (result: TimeAttackResult) => Promise<DailySubmission | null>
+  onAgain:  () => void
+}
+
+function DailyRun({ deck, ranked, signedIn, onStart, onSubmit, onAgain }: DailyRunProps) {
+  const [result,    setResult]    = useState<TimeAttackResult | null>(null)
+  const [saved,     setSaved]     = useState<DailySubmission | null | 'saving'>(null)
+  // Whether THIS run claimed the day; `ranked` flips to false as soon as it does
+  const [rankedRun, setRankedRun] = useState(false)
+  const [starting,  setStarting]  = useState(false)
+
+  const questions = useMemo(() => deck.map(c => c.question), [deck])
+  const langOf    = useMemo(() => {
+    const byQuestion = new Map(deck.map(c => [c.question.id, c.category.lang]))
+    return (q: { id: string }) => byQuestion.get(q.id) ?? 'pl-PL'
+  }, [deck])
+
+  const onFinish = useCallback((r: TimeAttackResult) => {
+    setResult(r)
+    if (!rankedRun) return
+    setSaved('saving')
+    onSubmit(r).then(setSaved)
+  }, [onSubmit, rankedRun])
+
+  const ta   = useTimeAttack({ deck: questions, ms: DAILY_MS, penaltyMs: DAILY_PASS_PENALTY_MS, langOf, onFinish })
+  const card = deck[Math.min(ta.run.index, deck.length - 1)]
+
+  const start = async () => {
+    if (ranked) {
+      setStarting(true)
+      setRankedRun(await onStart())
+      setStarting(false)
+    }
+    ta.start()
+  }
+
+  if (ta.phase === 'ready') {
+    const cats = [...new Map(deck.map(c => [c.category.id, c.category])).values()]
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 12, alignItems: 'center', textAlign: 'center' }}>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, justifyContent: 'center' }}>
+          {cats.map(c => (
+            <span key={c.id} style={{ padding: '4px 10px', borderRadius: 20, border: '1px solid rgba(255,255,255,0.1)', fontSize: '0.75rem', color: 'rgba(255,255,255,0.6)' }}>{c.emoji} {c.name}</span>
+          ))}
+        </div>
+        <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.45)', lineHeight: 1.6 }}>
+          {Math.min(DAILY_CATEGORIES, cats.length)} kategorii, {deck.length} zdjęć, {DAILY_MS / 1000} sekund.<br />
+          Odpowiadaj głosem albo wpisz hasło · pas zabiera {DAILY_PASS_PENALTY_MS / 1000} s.
+        </div>
+        <button onClick={start} disabled={starting} style={{ padding: '12px 36px', borderRadius: 10, background: 'rgba(212,175,55,0.12)', border: '1px solid rgba(212,175,55,0.45)', color: '#D4AF37', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.2rem', letterSpacing: 5, cursor: 'pointer' }}>
+          {ranked ? '▶ START' : '▶ ZAGRAJ TRENINGOWO'}
+        </button>
+        <div style={{ fontSize: '0.65rem', letterSpacing: 1, color: 'rgba(255,255,255,0.3)' }}>
+          {ranked ? 'Do rankingu liczy się pierwszy bieg dnia' : signedIn ? 'Dzisiejszy bieg do rankingu już był — to tylko trening' : 'Zaloguj się, aby trafić do rankingu'}
+        </div>
+      </div>
+    )
+  }
+
+  if (ta.phase === 'over' && result) {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 10, alignItems: 'center', textAlign: 'center' }}>
+        <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '3rem', letterSpacing: 6, color: '#D4AF37' }}>✓ {result.score}</div>
+        <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.45)' }}>
+          pasy: {result.passes} · zostało {formatClock(result.timeLeftMs)} s
+        </div>
+        {saved === 'saving' && <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.4)' }}>⏳ Zapisywanie…</div>}
+        {saved && saved !== 'saving' && (
+          <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.2rem', letterSpacing: 3, color: '#fff' }}>
+            #{saved.rank} DZISIAJ · 🔥 SERIA {saved.streak}
+          </div>
+        )}
+        {rankedRun && saved === null && <div style={{ fontSize: '0.75rem', color: '#f87171' }}>Nie udało się zapisać wyniku</div>}
+        <button onClick={onAgain} style={{ marginTop: 6, padding: '10px 28px', borderRadius: 10, background: 'transparent', border: '1px solid rgba(255,255,255,0.15)', color: 'rgba(255,255,255,0.6)', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 4, cursor: 'pointer' }}>
+          🔁 JESZCZE RAZ (TRENING)
+        </button>
+      </div>
+    )
+  }
+
+  return <TimeAttackPanel ta={ta} label={`${card.category.emoji} ${card.category.name}`} />
+}
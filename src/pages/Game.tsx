@@ -1,12 +1,18 @@
 import { useEffect, useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import Board from '../components/Board'
 import DuelModal from '../components/DuelModal'
 import LoadingScreen from '../components/game/LoadingScreen'
+import MatchLimitHud from '../components/game/MatchLimitHud'
+import PartyScoreBar from '../components/game/PartyScoreBar'
 import ScoreBar from '../components/game/ScoreBar'
 import SplashScreen from '../components/game/SplashScreen'
 import { SoundEngine } from '../lib/SoundEngine'
 import { hasGameState } from '../lib/persistence'
+import { partyStandings, playerOf, seatOf } from '../domain/party'
+import { limitsFromConfig, roundsLeft, type MatchEnd } from '../domain/matchLimit'
+import { BOT_NAMES, BOT_PICK_MS, botFromConfig } from '../domain/bot'
+import { formatSeed, parseSeed } from '../domain/random'
 import { useConfigStore } from '../store/useConfigStore'
 import { computeStats, useGameStore } from '../store/useGameStore'
 import { gameCSS, styles } from './Game.styles'
@@ -15,19 +21,32 @@ type AppState = 'splash' | 'restoring' | 'loading' | 'game'
 
 export default function Game() {
 	const navigate = useNavigate()
+	const [searchParams, setSearchParams] = useSearchParams()
 	const loadCategories = useGameStore(s => s.loadCategories)
 	const restoreSession = useGameStore(s => s.restoreSession)
 	const newGame = useGameStore(s => s.newGame)
 	const moveCursor = useGameStore(s => s.moveCursor)
 	const startChallenge = useGameStore(s => s.startChallenge)
 	const lotteryPick = useGameStore(s => s.lotteryPick)
+	const botPick = useGameStore(s => s.botPick)
 	const duel = useGameStore(s => s.duel)
 	const toastText = useGameStore(s => s.toastText)
 	const tiles = useGameStore(s => s.tiles)
 	const showStats = useGameStore(s => s.showStats)
 	const toggleStats = useGameStore(s => s.toggleStats)
-	const { fetch: fetchConfig, players, config } = useConfigStore()
+	const picker = useGameStore(s => s.picker)
+	const roundsPlayed = useGameStore(s => s.roundsPlayed)
+	const matchClock = useGameStore(s => s.matchClock)
+	const matchEnd = useGameStore(s => s.matchEnd)
+	const seed = useGameStore(s => s.seed)
+	const showToast = useGameStore(s => s.showToast)
+	const { fetch: fetchConfig, players, partyPlayers, config } = useConfigStore()
 	const lotteryEnabled = config.LOTTERY_PICK === 1
+	const territoryMode = config.RULES_MODE === 1
+	const partyMode = config.PARTY_MODE === 1
+	const bot = botFromConfig(config)
+	// ?seed=… — powtórka gry o tym ziarnie (domain/random.ts)
+	const replaySeed = parseSeed(searchParams.get('seed') ?? '')
 
 	const [appState, setAppState] = useState<AppState>('splash')
 
@@ -35,7 +54,7 @@ export default function Game() {
 
 	// ── On mount: check if there's a saved game to restore ──
 	useEffect(() => {
-		if (hasGameState()) {
+		if (replaySeed === null && hasGameState()) {
 			setAppState('restoring')
 			SoundEngine.startBg('bgMusic', 0.3)
 			restoreSession().then(ok => {
@@ -44,18 +63,50 @@ export default function Game() {
 		}
 	}, [])
 
+	// ── Bot na ruchu wybiera pole ──
+	const botTurn = appState === 'game' && !!bot && !duel && !matchEnd && picker === 'silver'
+	useEffect(() => {
+		if (!botTurn) return
+		const id = setTimeout(botPick, BOT_PICK_MS)
+		return () => clearTimeout(id)
+	}, [botTurn, tiles, botPick])
+
 	// ── Start fresh game ──
 	const handleStart = async () => {
 		SoundEngine.startBg('bgMusic', 0.3)
 		setAppState('loading')
 		await Promise.all([fetchConfig(), loadCategories()])
+		if (replaySeed !== null) {
+			newGame(replaySeed)
+			// Odświeżenie strony ma wznowić tę grę, nie zaczynać powtórki od nowa
+			setSearchParams({}, { replace: true })
+		}
 		setAppState('game')
 	}
 
+	// ── Link do powtórki tej planszy ──
+	const handleCopySeed = () => {
+		const url = `${window.location.origin}${window.location.pathname}?seed=${formatSeed(seed)}`
+		// Schowek bywa niedostępny (brak HTTPS, odmowa uprawnień) — wtedy link do przepisania
+		Promise.resolve()
+			.then(() => navigator.clipboard.writeText(url))
+			.then(() => showToast(`🎲 Skopiowano link do powtórki (${formatSeed(seed)})`))
+			.catch(() => showToast(`🎲 Nie udało się skopiować — seed ${formatSeed(seed)}: ${url}`))
+	}
+
 	// ── Go to multiplayer lobby ──
 	const handleMultiplayer = () => {
 		navigate('/multiplayer')
 	}
+	const handleDaily = () => {
+		navigate('/daily')
+	}
+	const handleSolo = () => {
+		navigate('/solo')
+	}
+	const handleTraining = () => {
+		navigate('/training')
+	}
 
 	// ── Keyboard controls ──
 	useEffect(() => {
@@ -107,7 +158,7 @@ export default function Game() {
 	// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, [appState, duel, lotteryEnabled])
 
-	if (appState === 'splash')    return <SplashScreen onStart={handleStart} onMultiplayer={handleMultiplayer} />
+	if (appState === 'splash')    return <SplashScreen onStart={handleStart} onMultiplayer={handleMultiplayer} onDaily={handleDaily} onSolo={handleSolo} onTraining={handleTraining} />
 	if (appState === 'restoring') return <LoadingScreen label="Wznawianie gry…" />
 	if (appState === 'loading')   return <LoadingScreen />
 
@@ -128,23 +179,32 @@ export default function Game() {
 			</main>
 
 			{/* Stats panel */}
-			{showStats && !duel && tiles.length > 0 && <ScoreBar players={players} stats={stats} />}
+			{showStats && !duel && tiles.length > 0 && (partyMode
+				? <PartyScoreBar party={partyPlayers} standings={partyStandings(tiles, partyPlayers.length)} picker={seatOf(picker)} />
+				: <ScoreBar players={players} stats={stats} />)}
+
+			{/* Match limits */}
+			{!duel && tiles.length > 0 && (matchEnd
+				? <MatchEndBanner player={matchEnd.winner && playerOf(matchEnd.winner, players, partyPlayers)} reason={matchEnd.reason} />
+				: <MatchLimitHud roundsLeft={roundsLeft(limitsFromConfig(config), roundsPlayed)} clock={matchClock} />)}
 
 			{/* Footer */}
 			{!duel && (
 				<footer style={styles.footer}>
-					<OpBtn onClick={newGame}>🎮 Nowa gra</OpBtn>
+					<OpBtn onClick={() => newGame()}>🎮 Nowa gra</OpBtn>
 					<OpBtn onClick={startChallenge} gold>
 						▶ Pojedynek
 					</OpBtn>
 					<OpBtn onClick={toggleStats}>{showStats ? '📊 Ukryj' : '📊 Statystyki'}</OpBtn>
 					<OpBtn onClick={() => navigate('/multiplayer')}>🌐 Online</OpBtn>
+					<OpBtn onClick={handleCopySeed}>🎲 {formatSeed(seed)}</OpBtn>
 				</footer>
 			)}
 
 			{/* Key hint */}
 			{!duel && (
 				<div style={styles.keyHint}>
+					{bot && botTurn ? `🤖 ${BOT_NAMES[bot]} wybiera pole… · ` : territoryMode || partyMode ? `🎯 Atakuje: ${playerOf(picker, players, partyPlayers).name} · ` : ''}
 					↑↓←→ poruszanie · ENTER pojedynek · S statystyki · N nowa gra
 					{lotteryEnabled ? ' · L losuj kategorię' : ''}
 				</div>
@@ -158,6 +218,15 @@ export default function Game() {
 	)
 }
 
+function MatchEndBanner({ player, reason }: { player: { name: string; color: string } | null; reason: MatchEnd['reason'] }) {
+	return (
+		<div style={{ ...styles.statsPanel, justifyContent: 'center', fontFamily: "'Bebas Neue', sans-serif", fontSize: '1.4rem', letterSpacing: 4, color: player?.color ?? '#C0C0C0' }}>
+			{player ? `🏆 ${player.name} WYGRYWA` : '🤝 REMIS'}
+			<span style={{ color: 'rgba(255,255,255,0.4)', fontSize: '0.9rem' }}>{reason === 'board' ? 'KONIEC MECZU' : reason === 'showdown' ? 'DOGRYWKA' : reason === 'rounds' ? 'LIMIT RUND' : 'KONIEC CZASU'}</span>
+		</div>
+	)
+}
+
 function OpBtn({ children, onClick, gold }: { children: React.ReactNode; onClick: () => void; gold?: boolean }) {
 	return (
 		<button onClick={onClick} className={gold ? 'op-btn op-btn-gold' : 'op-btn'}>
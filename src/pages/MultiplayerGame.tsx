@@ -11,6 +11,7 @@
  *  - Host = gold (player 1), Guest = silver (player 2)
  *  - Host drives the board: cursor, challenge start, timer
  *  - Both players participate in the duel
+ *  - Spectators (/multiplayer/watch/:code) see the host's side, read-only
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react'
@@ -19,8 +20,13 @@ import { SoundEngine } from '../lib/SoundEngine'
 import { isAnswerMatch, isPassCommand, isSpeechRecognitionSupported, useSpeechRecognition } from '../lib/useSpeechRecognition'
 import { supabase } from '../lib/supabase'
 import { useConfigStore } from '../store/useConfigStore'
-import { useMultiplayerStore, FeedbackType } from '../store/useMultiplayerStore'
+import { useMultiplayerStore, FeedbackType, RECONNECT_GRACE_MS } from '../store/useMultiplayerStore'
 import { Tile, Category, Question, TileOwner } from '../types'
+import { formatClock, remainingAt } from '../domain/clock'
+import { useClockNow } from '../hooks/useClockNow'
+import { drawTerritoryBorders } from '../components/game/territoryBorders'
+import MatchLimitHud from '../components/game/MatchLimitHud'
+import { limitsFromSettings, roundsLeft } from '../domain/matchLimit'
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 const COLORS: Record<TileOwner, { bg: string; border: string; glow: string; text: string }> = {
@@ -31,11 +37,12 @@ const COLORS: Record<TileOwner, { bg: string; border: string; glow: string; text
 
 // ── Tiny canvas board (self-contained, reads from props) ──────────────────────
 function MPBoard({
-  tiles, cursor, categories, gridCols, gridRows,
+  tiles, cursor, categories, gridCols, gridRows, territories,
   onCursorClick,
 }: {
   tiles: Tile[]
   cursor: number
+  territories?: boolean
   categories: (Category & { questions: Question[] })[]
   gridCols: number
   gridRows: number
@@ -132,6 +139,8 @@ function MPBoard({
         lines.forEach((l, i) => ctx.fillText(l, px+S/2, sy+i*lh))
       }
 
+      if (territories) drawTerritoryBorders(ctx, tiles, S)
+
       // Cursor
       pulseRef.current = (pulseRef.current + 1) % 120
       const alpha = 0.5 + 0.45 * Math.sin(pulseRef.current * 0.0524)
@@ -151,7 +160,7 @@ function MPBoard({
     }
     rafRef.current = requestAnimationFrame(draw)
     return () => cancelAnimationFrame(rafRef.current)
-  }, [tiles, cursor, categories, gridCols, gridRows])
+  }, [tiles, cursor, categories, gridCols, gridRows, territories])
 
   const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     const c = canvasRef.current
@@ -207,11 +216,12 @@ function StatsBar({ tiles, hostName, guestName }: { tiles: Tile[]; hostName: str
 
 // ── Player panel in duel (read-only — no buttons) ───────────────────────────
 function PlayerPanel({
-  name, timer, active, color, borderSide, isYou,
+  name, timerMs, active, color, borderSide, isYou,
 }: {
-  name: string; timer: number; active: boolean; color: string;
+  name: string; timerMs: number; active: boolean; color: string;
   borderSide: 'left' | 'right'; isYou: boolean;
 }) {
+  const timer      = timerMs / 1000
   const timerColor = timer <= 5 ? '#ef4444' : timer <= 15 ? '#facc15' : '#ffffff'
   const timerGlow  = timer <= 5
     ? '0 0 30px rgba(239,68,68,0.7)'
@@ -239,7 +249,7 @@ function PlayerPanel({
         textShadow: timerGlow,
         transition: 'color 0.3s, text-shadow 0.3s',
       }}>
-        {timer}
+        {formatClock(timerMs)}
       </div>
     </div>
   )
@@ -280,7 +290,7 @@ function WinnerOverlay({
 }
 
 // ── Main component ────────────────────────────────────────────────────────────
-export default function MultiplayerGame() {
+export default function MultiplayerGame({ spectate = false }: { spectate?: boolean }) {
   const navigate = useNavigate()
   const { code }  = useParams<{ code: string }>()
   const { config } = useConfigStore()
@@ -290,22 +300,31 @@ export default function MultiplayerGame() {
     tiles, cursor, gridCols, gridRows, categories,
     duel, currentQuestion, feedback,
     winner, countdown, toastText, hostScore, guestScore, gameResult,
-    currentPicker,
-    moveCursor, startChallenge, startFight, markCorrect, pass, closeDuel, leaveRoom,
+    currentPicker, opponentAway, spectators, pingMs, watched, tournament, gameSettings, matchStatus, showdown,
+    moveCursor, startChallenge, startFight, markCorrect, pass, closeDuel, leaveRoom, resumeRoom, watchRoom,
   } = useMultiplayerStore()
 
   const [speechEnabled, setSpeechEnabled] = useState(true) // ON by default
   const [exitConfirm,   setExitConfirm]   = useState(false) // confirm dialog
   const speechSupported = isSpeechRecognitionSupported()
 
-  const hostName  = role === 'host' ? playerName : (opponentName ?? 'HOST')
-  const guestName = role === 'guest' ? playerName : (opponentName ?? 'GOŚĆ')
+  const isHost      = role === 'host'
+  const isGuest     = role === 'guest'
+  const isSpectator = role === 'spectator'
+
+  const hostName  = isSpectator ? watched?.hostName  ?? 'HOST' : isHost  ? playerName : (opponentName ?? 'HOST')
+  const guestName = isSpectator ? watched?.guestName ?? 'GOŚĆ' : isGuest ? playerName : (opponentName ?? 'GOŚĆ')
 
-  const isHost  = role === 'host'
-  const isGuest = role === 'guest'
-  const myTimer  = isHost ? duel?.timerHost ?? 0 : duel?.timerGuest ?? 0
-  const oppTimer = isHost ? duel?.timerGuest ?? 0 : duel?.timerHost ?? 0
-  const iAmActive = duel ? (isHost ? duel.active === 'host' : duel.active === 'guest') : false
+  // Spectators look from the host's side: host on the left, guest on the right
+  const hostView = !isGuest
+  // Clocks run from a timestamp; redraw them while one is running
+  const clockNow = useClockNow(!!duel?.started && !duel.paused)
+  const hostMs   = duel ? remainingAt(duel.clockHost, clockNow) : 0
+  const guestMs  = duel ? remainingAt(duel.clockGuest, clockNow) : 0
+  const myTimer  = hostView ? hostMs : guestMs
+  const oppTimer = hostView ? guestMs : hostMs
+  const iAmActive = duel ? (hostView ? duel.active === 'host' : duel.active === 'guest') : false
+  const activeName = duel?.active === 'host' ? hostName : guestName
 
   const isMyPick = role === currentPicker  // can I move cursor / pick tiles?
 
@@ -319,9 +338,11 @@ export default function MultiplayerGame() {
   const currAnswerRef   = useRef('')
   const currSynonymsRef = useRef<string[]>([])
 
-  duelRef.current      = duel
-  countdownRef.current = countdown
-  iAmActiveRef.current = iAmActive
+  useEffect(() => {
+    duelRef.current      = duel
+    countdownRef.current = countdown
+    iAmActiveRef.current = iAmActive
+  })
 
   // Reset guards when question changes (new qId = fresh guards)
   useEffect(() => {
@@ -332,10 +353,30 @@ export default function MultiplayerGame() {
     if (pasDebounceRef.current) { clearTimeout(pasDebounceRef.current); pasDebounceRef.current = null }
   }, [currentQuestion?.id])
 
-  // Validate room access — 'finished' is handled by GameOverScreen, not auto-navigate
+  // Validate room access — 'finished' is handled by GameOverScreen, not auto-navigate.
+  // An idle store on first render means a reload: try to resume the match once.
+  const resumeTriedRef = useRef(false)
   useEffect(() => {
+    if (status === 'idle' && code && !resumeTriedRef.current) {
+      resumeTriedRef.current = true
+      if (spectate) watchRoom(code)
+      else resumeRoom(code)
+      return
+    }
     if (status === 'idle' || status === 'lobby' || status === 'waiting') navigate('/multiplayer')
-  }, [status, navigate])
+  }, [status, code, spectate, navigate, resumeRoom, watchRoom])
+
+  // Tick once a second while the opponent's reconnect grace period runs; a
+  // tick older than the drop counts as the moment of the drop
+  const [graceNow, setGraceNow] = useState(0)
+  useEffect(() => {
+    if (!opponentAway || opponentAway.expired) return
+    const iv = setInterval(() => setGraceNow(Date.now()), 1000)
+    return () => clearInterval(iv)
+  }, [opponentAway])
+  const graceLeft = opponentAway
+    ? Math.max(0, Math.ceil((opponentAway.since + RECONNECT_GRACE_MS - Math.max(graceNow, opponentAway.since)) / 1000))
+    : 0
 
   // Init SoundEngine volumes from config on mount
   useEffect(() => {
@@ -473,7 +514,7 @@ export default function MultiplayerGame() {
   const handleFinal   = useCallback((t: string) => tryVoiceMatch(t, false), [tryVoiceMatch])
 
   // Speech is active only when duel is running AND it's your turn AND no modal
-  const speechActive = speechEnabled && !!duel?.started && !duel?.paused && !exitConfirm
+  const speechActive = speechEnabled && !isSpectator && !!duel?.started && !duel?.paused && !exitConfirm
 
   // Watchdog: jeśli recognition cicho umrze (Chrome bug ~co 60s),
   // inkrementacja restartKey wymusza restart przez hook's useEffect dep.
@@ -549,7 +590,7 @@ export default function MultiplayerGame() {
           </span>
           <span style={{ color:'rgba(255,255,255,0.2)', fontSize:'0.7rem', letterSpacing:2 }}>MULTIPLAYER</span>
           <span style={{ padding:'2px 8px', background:'rgba(99,102,241,0.15)', border:'1px solid rgba(99,102,241,0.3)', borderRadius:4, color:'rgba(99,102,241,0.9)', fontSize:'0.65rem', letterSpacing:1 }}>
-            {role?.toUpperCase()}
+            {isSpectator ? '👁 WIDZ' : role?.toUpperCase()}
           </span>
         </div>
 
@@ -562,6 +603,16 @@ export default function MultiplayerGame() {
             <span style={{ width:8, height:8, borderRadius:'50%', background:'#4ade80', boxShadow:'0 0 6px rgba(74,222,128,0.6)', display:'inline-block' }} />
             <span style={{ color:'rgba(255,255,255,0.4)', fontSize:'0.7rem' }}>ONLINE</span>
           </div>
+          {pingMs !== null && !isSpectator && (
+            <span title="Opóźnienie do przeciwnika (w obie strony)" style={{
+              color: pingMs < 80 ? '#4ade80' : pingMs < 200 ? '#facc15' : '#ef4444', fontSize:'0.7rem', fontVariantNumeric:'tabular-nums',
+            }}>
+              📶 {pingMs} ms
+            </span>
+          )}
+          {spectators > 0 && (
+            <span title="Widzowie" style={{ color:'rgba(255,255,255,0.4)', fontSize:'0.7rem' }}>👁 {spectators}</span>
+          )}
           <button onClick={handleExitRequest} style={{
             background:'none', border:'1px solid rgba(255,255,255,0.1)', borderRadius:6,
             color:'rgba(255,255,255,0.35)', cursor:'pointer', fontSize:'0.72rem', padding:'4px 10px',
@@ -575,6 +626,7 @@ export default function MultiplayerGame() {
       {tiles.length > 0 && (
         <div style={{ padding:'6px 20px', flexShrink:0, borderBottom:'1px solid rgba(255,255,255,0.04)' }}>
           <StatsBar tiles={tiles} hostName={hostName} guestName={guestName} />
+          <MatchLimitHud roundsLeft={roundsLeft(limitsFromSettings(gameSettings), matchStatus.roundsPlayed)} clock={matchStatus.clock} />
         </div>
       )}
 
@@ -587,6 +639,7 @@ export default function MultiplayerGame() {
             categories={categories}
             gridCols={gridCols}
             gridRows={gridRows}
+            territories={gameSettings.rules === 'territory'}
             onCursorClick={isMyPick && !duel ? (idx) => {
               useMultiplayerStore.setState({ cursor: idx })
               useMultiplayerStore.getState()._broadcastEvent({ type: 'cursor_move', idx })
@@ -602,7 +655,11 @@ export default function MultiplayerGame() {
       {/* ── Board hint (below board, not overlapping it) ── */}
       {!duel && (
         <div style={{ textAlign:'center', padding:'6px 0 10px', flexShrink:0, color:'rgba(255,255,255,0.18)', fontSize:'0.7rem', letterSpacing:2 }}>
-          {isMyPick ? '↑↓←→ NAWIGUJ · ENTER ROZPOCZNIJ WALKĘ' : 'OCZEKIWANIE NA RUCH PRZECIWNIKA…'}
+          {isSpectator
+            ? `TRYB WIDZA · WYBIERA ${currentPicker === 'host' ? hostName : guestName}`
+            : isMyPick
+              ? gameSettings.rules === 'territory' ? '↑↓←→ NAWIGUJ · ENTER ZAATAKUJ SĄSIEDNIE POLE' : '↑↓←→ NAWIGUJ · ENTER ROZPOCZNIJ WALKĘ'
+              : 'OCZEKIWANIE NA RUCH PRZECIWNIKA…'}
         </div>
       )}
 
@@ -618,6 +675,26 @@ export default function MultiplayerGame() {
         </div>
       )}
 
+      {/* ── Opponent reconnecting ── */}
+      {opponentAway && status === 'playing' && (
+        <div style={{
+          position:'fixed', top:64, left:'50%', transform:'translateX(-50%)', zIndex:90,
+          background:'rgba(10,10,10,0.95)', border:`1px solid ${opponentAway.expired ? 'rgba(248,113,113,0.4)' : 'rgba(250,204,21,0.4)'}`,
+          borderRadius:10, padding:'10px 20px', textAlign:'center',
+        }}>
+          <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'1rem', letterSpacing:3, color: opponentAway.expired ? '#f87171' : '#facc15' }}>
+            {opponentAway.expired
+              ? `${opponentName ?? 'PRZECIWNIK'} NIE WRÓCIŁ`
+              : `⏳ ${opponentName ?? 'PRZECIWNIK'} ŁĄCZY SIĘ PONOWNIE… ${graceLeft}s`}
+          </div>
+          <div style={{ fontSize:'0.7rem', color:'rgba(255,255,255,0.45)', marginTop:2 }}>
+            {opponentAway.expired
+              ? 'Zgłaszamy walkower… Możesz też opuścić pokój bez kary.'
+              : 'Gra jest wstrzymana do powrotu gracza.'}
+          </div>
+        </div>
+      )}
+
       {/* ─────────── DUEL OVERLAY ─────────── */}
       {duel && (
         <div style={{ position:'fixed', inset:0, zIndex:50, display:'flex', alignItems:'stretch', background:'rgba(0,0,0,0.92)', backdropFilter:'blur(10px)', padding:'10px' }}>
@@ -632,9 +709,14 @@ export default function MultiplayerGame() {
             <div style={{ display:'flex', alignItems:'center', justifyContent:'center', gap:10, padding:'12px 48px', borderBottom:'1px solid rgba(255,255,255,0.06)', background:'rgba(255,255,255,0.02)', flexShrink:0, position:'relative' }}>
               <span style={{ fontSize:'1.4rem' }}>{duel.emoji}</span>
               <span style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'1.5rem', letterSpacing:6, color:'#D4AF37' }}>{duel.categoryName}</span>
+              {showdown && (
+                <span style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'0.85rem', letterSpacing:3, color:'#ef4444', border:'1px solid rgba(239,68,68,0.4)', padding:'2px 10px', borderRadius:20, background:'rgba(239,68,68,0.08)' }}>
+                  ⚔️ POJEDYNEK O WSZYSTKO
+                </span>
+              )}
 
               {/* Mic button */}
-              {duel.started && speechSupported && (
+              {duel.started && speechSupported && !isSpectator && (
                 <button onClick={() => setSpeechEnabled(s => !s)} style={{ position:'absolute', right:52, top:'50%', transform:'translateY(-50%)', background:'none', border:'none', cursor:'pointer', padding:6 }}>
                   <span style={{
                     display:'inline-block', width:10, height:10, borderRadius:'50%',
@@ -655,12 +737,12 @@ export default function MultiplayerGame() {
                 <div style={{ display:'flex', gap:20, alignItems:'center' }}>
                   <div style={{ textAlign:'center' }}>
                     <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'1rem', letterSpacing:4, color:'#FFD700', marginBottom:4 }}>{hostName}</div>
-                    <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'3rem', color:'#fff' }}>{duel.timerHost}s</div>
+                    <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'3rem', color:'#fff' }}>{formatClock(hostMs)}s</div>
                   </div>
                   <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'2rem', color:'rgba(255,255,255,0.2)' }}>VS</div>
                   <div style={{ textAlign:'center' }}>
                     <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'1rem', letterSpacing:4, color:'#C0C0C0', marginBottom:4 }}>{guestName}</div>
-                    <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'3rem', color:'#fff' }}>{duel.timerGuest}s</div>
+                    <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'3rem', color:'#fff' }}>{formatClock(guestMs)}s</div>
                   </div>
                 </div>
                 <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'1rem', letterSpacing:4, color:'rgba(255,255,255,0.3)' }}>PRZYGOTUJ SIĘ…</div>
@@ -670,12 +752,12 @@ export default function MultiplayerGame() {
               <div style={{ flex:1, display:'flex', overflow:'hidden' }}>
                 {/* My panel (left) */}
                 <PlayerPanel
-                  name={isHost ? hostName : guestName}
-                  timer={myTimer}
+                  name={hostView ? hostName : guestName}
+                  timerMs={myTimer}
                   active={iAmActive}
-                  color={isHost ? '#FFD700' : '#C0C0C0'}
+                  color={hostView ? '#FFD700' : '#C0C0C0'}
                   borderSide="right"
-                  isYou
+                  isYou={!isSpectator}
                 />
 
                 {/* Center: question + feedback */}
@@ -691,7 +773,7 @@ export default function MultiplayerGame() {
                     color: feedback.type==='correct'||feedback.type==='voice' ? '#4ade80' : feedback.type==='pass' ? '#fb923c' : 'rgba(255,255,255,0.6)',
                     transition:'all 0.2s',
                   }}>
-                    {feedback.text || (iAmActive ? '🎤 TWOJA KOLEJ' : '⏳ KOLEJ PRZECIWNIKA')}
+                    {feedback.text || (isSpectator ? `🎤 ODPOWIADA ${activeName}` : iAmActive ? '🎤 TWOJA KOLEJ' : '⏳ KOLEJ PRZECIWNIKA')}
                   </div>
 
                   {/* Question image — hidden during countdown (revealed after START!) */}
@@ -713,7 +795,9 @@ export default function MultiplayerGame() {
 
                   {/* Controls hint — voice-only, no manual buttons */}
                   <div style={{ display:'flex', alignItems:'center', gap:8, color:'rgba(255,255,255,0.2)', fontSize:'0.68rem', letterSpacing:1, flexWrap:'wrap' as const, justifyContent:'center' }}>
-                    {speechSupported && (
+                    {isSpectator ? (
+                      <span>👁 Tryb widza</span>
+                    ) : speechSupported && (
                       <span style={{ color: speechEnabled ? 'rgba(129,140,248,0.6)' : undefined }}>
                         🎤 Rozpoznawanie mowy {speechEnabled ? 'wł.' : 'wył.'}
                       </span>
@@ -731,10 +815,10 @@ export default function MultiplayerGame() {
 
                 {/* Opponent panel (right) */}
                 <PlayerPanel
-                  name={isHost ? guestName : hostName}
-                  timer={oppTimer}
+                  name={hostView ? guestName : hostName}
+                  timerMs={oppTimer}
                   active={!iAmActive}
-                  color={isHost ? '#C0C0C0' : '#FFD700'}
+                  color={hostView ? '#C0C0C0' : '#FFD700'}
                   borderSide="left"
                   isYou={false}
                 />
@@ -774,7 +858,9 @@ export default function MultiplayerGame() {
           <div style={{ background:'linear-gradient(160deg,#111,#0a0a0a)', border:'1px solid rgba(239,68,68,0.35)', borderRadius:16, padding:'32px 40px', textAlign:'center', maxWidth:320, boxShadow:'0 0 60px rgba(239,68,68,0.1)' }}>
             <div style={{ fontSize:'2rem', marginBottom:8 }}>🚪</div>
             <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'1.5rem', letterSpacing:4, color:'#ef4444', marginBottom:8 }}>OPUŚCIĆ GRĘ?</div>
-            <div style={{ fontSize:'0.78rem', color:'rgba(255,255,255,0.35)', marginBottom:24, lineHeight:1.6 }}>Twój przeciwnik zostanie powiadomiony o wyjściu. Tej akcji nie można cofnąć.</div>
+            <div style={{ fontSize:'0.78rem', color:'rgba(255,255,255,0.35)', marginBottom:24, lineHeight:1.6 }}>
+              {isSpectator ? 'Przestaniesz oglądać ten mecz.' : 'Twój przeciwnik zostanie powiadomiony o wyjściu. Tej akcji nie można cofnąć.'}
+            </div>
             <div style={{ display:'flex', gap:10 }}>
               <button onClick={handleExitCancel} style={{ flex:1, padding:'11px 0', borderRadius:8, background:'rgba(255,255,255,0.05)', border:'1px solid rgba(255,255,255,0.12)', color:'rgba(255,255,255,0.6)', fontFamily:"'Bebas Neue',sans-serif", fontSize:'0.9rem', letterSpacing:3, cursor:'pointer' }}>
                 ZOSTAŃ
@@ -806,10 +892,13 @@ export default function MultiplayerGame() {
             {(() => {
               const iWon = (gameResult.winnerRole === 'host' && isHost) || (gameResult.winnerRole === 'guest' && isGuest)
               const isDraw = gameResult.winnerRole === 'draw'
-              const color  = isDraw ? '#a78bfa' : iWon ? '#4ade80' : '#ef4444'
-              const label  = gameResult.isForfeit
-                ? (iWon ? 'WYGRAŁEŚ (WALKOWER)' : 'PRZEGRANA')
-                : isDraw ? 'REMIS' : iWon ? 'ZWYCIĘSTWO!' : 'PORAŻKA'
+              const color  = isDraw ? '#a78bfa' : isSpectator ? '#D4AF37' : iWon ? '#4ade80' : '#ef4444'
+              const winnerName = gameResult.winnerRole === 'host' ? hostName : guestName
+              const label  = isSpectator
+                ? (isDraw ? 'REMIS' : `WYGRYWA ${winnerName}${gameResult.isForfeit ? ' (WALKOWER)' : ''}`)
+                : gameResult.isForfeit
+                  ? (iWon ? 'WYGRAŁEŚ (WALKOWER)' : 'PRZEGRANA')
+                  : isDraw ? 'REMIS' : iWon ? 'ZWYCIĘSTWO!' : 'PORAŻKA'
               return (
                 <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'2.2rem', letterSpacing:6, color, marginBottom:4 }}>
                   {label}
@@ -836,7 +925,7 @@ export default function MultiplayerGame() {
             </div>
 
             {/* XP delta */}
-            <div style={{
+            {!isSpectator && <div style={{
               padding:'12px 20px', borderRadius:10, marginBottom:24,
               background: gameResult.myXpDelta >= 0 ? 'rgba(74,222,128,0.08)' : 'rgba(239,68,68,0.08)',
               border: `1px solid ${gameResult.myXpDelta >= 0 ? 'rgba(74,222,128,0.25)' : 'rgba(239,68,68,0.25)'}`,
@@ -849,10 +938,14 @@ export default function MultiplayerGame() {
                   {gameResult.myXpDelta >= 0 ? '+' : ''}{gameResult.myXpDelta} XP
                 </div>
               </div>
-            </div>
+            </div>}
 
             <button
-              onClick={async () => { await leaveRoom(); navigate('/multiplayer') }}
+              onClick={async () => {
+                const back = tournament ? `/tournaments/${tournament.id}` : '/multiplayer'
+                await leaveRoom()
+                navigate(back)
+              }}
               style={{
                 width:'100%', padding:'13px 0',
                 background:'rgba(212,175,55,0.12)', border:'1px solid rgba(212,175,55,0.35)',
@@ -861,7 +954,7 @@ export default function MultiplayerGame() {
                 cursor:'pointer', transition:'all 0.2s',
               }}
             >
-              POWRÓT DO LOBBY
+              {tournament ? 'POWRÓT DO TURNIEJU' : 'POWRÓT DO LOBBY'}
             </button>
           </div>
         </div>
@@ -2,7 +2,8 @@
  * MultiplayerLobby — waiting room + lobby before game start
  *
  * Flow:
- *  1. Main screen: create room (requires auth) or join by code
+ *  1. Main screen: create room (requires auth), join by code, or enter the
+ *     ranked queue (requires auth) which pairs players into a room automatically
  *  2. After create/join: LOBBY screen (chat, settings, player info)
  *     - status='waiting' → host only, waiting for guest
  *     - status='lobby'   → both joined, host can START
@@ -13,8 +14,11 @@ import { useNavigate } from 'react-router-dom'
 import { SoundEngine } from '../lib/SoundEngine'
 import { useConfigStore } from '../store/useConfigStore'
 import { useMultiplayerStore, MP_MODES, MPGameMode } from '../store/useMultiplayerStore'
+import { DEFAULT_VICTORY, type VictoryPolicy } from '../domain/board'
+import { BOT_LEVELS, BOT_NAMES } from '../domain/bot'
 import { useAuthStore } from '../store/useAuthStore'
 import { supabase } from '../lib/supabase'
+import { realtime } from '../lib/realtime'
 
 interface OnlinePlayer { id: string; username: string; avatar: string; xp: number; wins: number; status: string }
 interface Invitation { roomCode: string; fromName: string; fromId: string }
@@ -48,6 +52,23 @@ function SettingBtn({ label, active, onClick }: { label: string; active: boolean
   )
 }
 
+// Warunki zwycięstwa do wyboru w lobby (domain/board.ts); w terytoriach zawsze eliminacja
+const VICTORY_OPTIONS: { label: string; victory: VictoryPolicy }[] = [
+  { label: '60%',           victory: { ...DEFAULT_VICTORY, threshold: 0.6 } },
+  { label: '75%',           victory: DEFAULT_VICTORY },
+  { label: '90%',           victory: { ...DEFAULT_VICTORY, threshold: 0.9 } },
+  { label: 'ELIMINACJA',    victory: { ...DEFAULT_VICTORY, kind: 'elimination' } },
+  { label: 'DO 5 PÓL',      victory: { ...DEFAULT_VICTORY, kind: 'first_to', tiles: 5 } },
+  { label: 'DO 8 PÓL',      victory: { ...DEFAULT_VICTORY, kind: 'first_to', tiles: 8 } },
+  { label: 'PEŁNA PLANSZA', victory: { ...DEFAULT_VICTORY, kind: 'full_board' } },
+]
+
+const sameVictory = (a: VictoryPolicy, b: VictoryPolicy) =>
+  a.kind === b.kind && (a.kind !== 'threshold' || a.threshold === b.threshold) && (a.kind !== 'first_to' || a.tiles === b.tiles)
+
+const victoryLabel = (v: VictoryPolicy) =>
+  v.kind === 'threshold' ? `${Math.round(v.threshold * 100)}% planszy` : v.kind === 'elimination' ? 'eliminacja' : v.kind === 'first_to' ? `do ${v.tiles} pól` : 'pełna plansza'
+
 /** Returns dot color + label based on player status */
 function StatusDot({ status }: { status: string }) {
   const isInGame = status === 'in_game'
@@ -79,6 +100,7 @@ export default function MultiplayerLobby() {
     createRoom, joinRoom, startGame, leaveRoom, role,
     chatMessages, sendChatMessage, gameSettings, updateGameSettings,
     opponentName, opponentAvatar, guestReady, sendInvite,
+    findMatch, cancelMatchmaking, matchmaking, tournament, practiceBot,
   } = useMultiplayerStore()
 
   const [nameInput,     setNameInput]     = useState(user?.username || playerName || '')
@@ -104,6 +126,8 @@ export default function MultiplayerLobby() {
   useEffect(() => { if (user?.username) { setPlayerName(user.username); setNameInput(user.username); setNameSet(true) } }, [user])
   useEffect(() => { if (status === 'playing' && roomCode) { SoundEngine.stopBg(300); navigate('/multiplayer/room/' + roomCode) } }, [status, roomCode])
   useEffect(() => { chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }) }, [chatMessages])
+  // Leaving the page must not leave a ghost entry in the ranked queue
+  useEffect(() => () => { useMultiplayerStore.getState().cancelMatchmaking() }, [])
 
   // ── Player list ───────────────────────────────────────────────────────────
   // Only show players whose last_seen is within 2 minutes (handles crashes/
@@ -132,9 +156,9 @@ export default function MultiplayerLobby() {
 
     // Presence channel — lightweight, no WAL overhead
     // Players joining/leaving lobby trigger instant re-fetch
-    const presence = supabase.channel('lobby-presence')
+    const presence = realtime().channel('lobby-presence')
     presence
-      .on('presence', { event: 'sync' }, () => {
+      .onPresenceSync(() => {
         searchPlayers(searchQRef.current)
       })
       .subscribe(async (status) => {
@@ -155,9 +179,10 @@ export default function MultiplayerLobby() {
   // ── Invite subscription (receive invites) ─────────────────────────────────
   useEffect(() => {
     if (!user?.id) return
-    const ch = supabase.channel(`invites:${user.id}`)
-    ch.on('broadcast', { event: 'invite' }, ({ payload }) => {
-      setInvitation({ roomCode: payload.roomCode, fromName: payload.fromName, fromId: payload.fromId })
+    const ch = realtime().channel(`invites:${user.id}`)
+    ch.onBroadcast('invite', (payload) => {
+      const p = payload as { roomCode: string; fromName: string; fromId: string }
+      setInvitation({ roomCode: p.roomCode, fromName: p.fromName, fromId: p.fromId })
     }).subscribe()
     return () => { ch.unsubscribe() }
   }, [user?.id])
@@ -165,9 +190,9 @@ export default function MultiplayerLobby() {
   // ── Decline subscription (HOST hears when invite is declined) ────────────
   useEffect(() => {
     if (!user?.id) return
-    const ch = supabase.channel(`invite_response:${user.id}`)
-    ch.on('broadcast', { event: 'decline' }, ({ payload }) => {
-      setInviteDeclineMsg(`${payload.fromName} odrzucił zaproszenie`)
+    const ch = realtime().channel(`invite_response:${user.id}`)
+    ch.onBroadcast('decline', (payload) => {
+      setInviteDeclineMsg(`${(payload as { fromName: string }).fromName} odrzucił zaproszenie`)
       setTimeout(() => setInviteDeclineMsg(null), 4000)
     }).subscribe()
     return () => { ch.unsubscribe() }
@@ -181,6 +206,11 @@ export default function MultiplayerLobby() {
     try { await createRoom() } finally { setLoadingCreate(false) }
   }
 
+  const handleFindMatch = () => {
+    if (!user) { navigate('/login?next=/multiplayer'); return }
+    findMatch()
+  }
+
   const handleJoin = async () => {
     if (!nameSet || codeInput.trim().length < 4 || loadingJoin) return
     setLoadingJoin(true)
@@ -200,10 +230,10 @@ export default function MultiplayerLobby() {
     const inv = invitation
     setInvitation(null)
     // Notify the host that this player declined — self:false prevents self-receipt
-    const respCh = supabase.channel(`invite_response:${inv.fromId}`, { config: { broadcast: { self: false } } })
+    const respCh = realtime().channel(`invite_response:${inv.fromId}`, { self: false })
     respCh.subscribe((st) => {
       if (st === 'SUBSCRIBED') {
-        respCh.send({ type: 'broadcast', event: 'decline', payload: { fromName: user?.username ?? playerName } })
+        respCh.send('decline', { fromName: user?.username ?? playerName })
           .then(() => setTimeout(() => respCh.unsubscribe(), 1000))
       }
     })
@@ -259,7 +289,7 @@ export default function MultiplayerLobby() {
           <div style={G.card(true)}>
             <div style={{ marginBottom:16 }}>
               <div style={G.logo}>THE FLOOR</div>
-              <div style={G.sub}>🌐 POCZEKALNIA</div>
+              <div style={G.sub}>{tournament ? '🏟 MECZ TURNIEJOWY' : '🌐 POCZEKALNIA'}</div>
             </div>
 
             {/* Code */}
@@ -343,15 +373,15 @@ export default function MultiplayerLobby() {
 
             {/* Settings (host edits, guest views) */}
             <div style={{ marginBottom:14 }}>
-              <div style={{ ...G.label, marginBottom:8 }}>⚙️ TRYB GRY</div>
-              {isHost ? (
+              <div style={{ ...G.label, marginBottom:8 }}>⚙️ TRYB GRY{tournament && ' · USTALONY PRZEZ TURNIEJ'}</div>
+              {isHost && !tournament ? (
                 <>
                   {/* Mode selector */}
                   <div style={{ display:'flex', gap:6, marginBottom:10 }}>
                     {(Object.entries(MP_MODES) as [MPGameMode, typeof MP_MODES[MPGameMode]][]).map(([key, mode]) => {
                       const active = gameSettings.gameMode === key
                       return (
-                        <button key={key} onClick={() => updateGameSettings({ gameMode: key, duelTime: mode.duelTime, passPenalty: mode.passPenalty, categoriesCount: mode.categoriesCount })}
+                        <button key={key} onClick={() => updateGameSettings({ gameMode: key, duelTime: mode.duelTime, passPenalty: mode.passPenalty, categoriesCount: mode.categoriesCount, maxRounds: mode.maxRounds, matchMinutes: mode.matchMinutes })}
                           style={{ flex:1, padding:'8px 4px', borderRadius:9, cursor:'pointer', textAlign:'center', background: active ? 'rgba(212,175,55,0.15)' : 'rgba(255,255,255,0.03)', border:`1px solid ${active ? '#D4AF37' : 'rgba(255,255,255,0.08)'}`, transition:'all 0.15s' }}>
                           <div style={{ fontSize:'1.2rem', marginBottom:2 }}>{mode.emoji}</div>
                           <div style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'0.72rem', letterSpacing:2, color: active ? '#D4AF37' : 'rgba(255,255,255,0.4)' }}>{mode.label}</div>
@@ -364,6 +394,11 @@ export default function MultiplayerLobby() {
                     <span>⏱ <strong style={{ color:'#D4AF37' }}>{gameSettings.duelTime}s</strong></span>
                     <span>⚠️ kara <strong style={{ color:'#fb923c' }}>-{gameSettings.passPenalty}s</strong></span>
                     <span>📦 <strong style={{ color:'#D4AF37' }}>{gameSettings.categoriesCount}</strong> pól</span>
+                    {gameSettings.rules === 'territory' && <span>🗺️ <strong style={{ color:'#D4AF37' }}>terytoria</strong></span>}
+                    {gameSettings.rules === 'classic' && !sameVictory(gameSettings.victory, DEFAULT_VICTORY) && <span>🏆 <strong style={{ color:'#D4AF37' }}>{victoryLabel(gameSettings.victory)}</strong></span>}
+                    {gameSettings.maxRounds > 0 && <span>🏁 <strong style={{ color:'#D4AF37' }}>{gameSettings.maxRounds}</strong> rund</span>}
+                    {gameSettings.matchMinutes > 0 && <span>⏳ mecz <strong style={{ color:'#D4AF37' }}>{gameSettings.matchMinutes} min</strong></span>}
+                    {gameSettings.suddenDeath && <span>⚔️ <strong style={{ color:'#D4AF37' }}>dogrywka</strong></span>}
                   </div>
                   {/* Custom overrides */}
                   <details style={{ marginTop:8 }}>
@@ -387,6 +422,40 @@ export default function MultiplayerLobby() {
                           {[6,9,12,16].map(n => <SettingBtn key={n} label={`${n}`} active={gameSettings.categoriesCount===n} onClick={() => updateGameSettings({categoriesCount:n})} />)}
                         </div>
                       </div>
+                      <div>
+                        <div style={{ ...G.label, fontSize:'0.55rem' }}>ZASADY</div>
+                        <div style={{ display:'flex', gap:5, flexWrap:'wrap' as const }}>
+                          <SettingBtn label="KLASYCZNE" active={gameSettings.rules==='classic'} onClick={() => updateGameSettings({rules:'classic'})} />
+                          <SettingBtn label="TERYTORIA" active={gameSettings.rules==='territory'} onClick={() => updateGameSettings({rules:'territory'})} />
+                        </div>
+                      </div>
+                      {gameSettings.rules === 'classic' && (
+                        <div>
+                          <div style={{ ...G.label, fontSize:'0.55rem' }}>WYGRANA</div>
+                          <div style={{ display:'flex', gap:5, flexWrap:'wrap' as const }}>
+                            {VICTORY_OPTIONS.map(o => <SettingBtn key={o.label} label={o.label} active={sameVictory(gameSettings.victory, o.victory)} onClick={() => updateGameSettings({victory:o.victory})} />)}
+                          </div>
+                        </div>
+                      )}
+                      <div>
+                        <div style={{ ...G.label, fontSize:'0.55rem' }}>LIMIT RUND</div>
+                        <div style={{ display:'flex', gap:5, flexWrap:'wrap' as const }}>
+                          {[0,6,10,15].map(n => <SettingBtn key={n} label={n === 0 ? 'BEZ' : `${n}`} active={gameSettings.maxRounds===n} onClick={() => updateGameSettings({maxRounds:n})} />)}
+                        </div>
+                      </div>
+                      <div>
+                        <div style={{ ...G.label, fontSize:'0.55rem' }}>CZAS MECZU</div>
+                        <div style={{ display:'flex', gap:5, flexWrap:'wrap' as const }}>
+                          {[0,5,10,15].map(m => <SettingBtn key={m} label={m === 0 ? 'BEZ' : `${m} min`} active={gameSettings.matchMinutes===m} onClick={() => updateGameSettings({matchMinutes:m})} />)}
+                        </div>
+                      </div>
+                      <div>
+                        <div style={{ ...G.label, fontSize:'0.55rem' }}>DOGRYWKA PRZY REMISIE</div>
+                        <div style={{ display:'flex', gap:5, flexWrap:'wrap' as const }}>
+                          <SettingBtn label="NIE" active={!gameSettings.suddenDeath} onClick={() => updateGameSettings({suddenDeath:false})} />
+                          <SettingBtn label="POJEDYNEK O WSZYSTKO" active={gameSettings.suddenDeath} onClick={() => updateGameSettings({suddenDeath:true})} />
+                        </div>
+                      </div>
                     </div>
                   </details>
                 </>
@@ -402,6 +471,11 @@ export default function MultiplayerLobby() {
                     <span>⏱ <strong style={{ color:'#D4AF37' }}>{gameSettings.duelTime}s</strong></span>
                     <span>⚠️ <strong style={{ color:'#fb923c' }}>-{gameSettings.passPenalty}s</strong> pas</span>
                     <span>📦 <strong style={{ color:'#D4AF37' }}>{gameSettings.categoriesCount}</strong> pól</span>
+                    {gameSettings.rules === 'territory' && <span>🗺️ terytoria</span>}
+                    {gameSettings.rules === 'classic' && !sameVictory(gameSettings.victory, DEFAULT_VICTORY) && <span>🏆 {victoryLabel(gameSettings.victory)}</span>}
+                    {gameSettings.maxRounds > 0 && <span>🏁 {gameSettings.maxRounds} rund</span>}
+                    {gameSettings.matchMinutes > 0 && <span>⏳ {gameSettings.matchMinutes} min</span>}
+                    {gameSettings.suddenDeath && <span>⚔️ dogrywka</span>}
                   </div>
                 </div>
               )}
@@ -527,10 +601,42 @@ export default function MultiplayerLobby() {
           {error && <div style={G.err}>⚠️ {error}</div>}
 
           {/* Create room — requires auth */}
-          <button onClick={handleCreate} disabled={loadingCreate} style={{ ...btn(!loadingCreate), marginBottom:12 }}>
+          <button onClick={handleCreate} disabled={loadingCreate || status === 'searching'} style={{ ...btn(!loadingCreate && status !== 'searching'), marginBottom:8 }}>
             {loadingCreate ? '⏳ TWORZENIE POKOJU…' : user ? '🏠 UTWÓRZ POKÓJ' : '🔑 ZALOGUJ SIĘ BY GRAĆ'}
           </button>
 
+          {/* Ranked matchmaking — requires auth */}
+          {status === 'searching' && matchmaking ? (
+            <div style={{ padding:'10px 12px', background:'rgba(74,222,128,0.05)', border:'1px solid rgba(74,222,128,0.2)', borderRadius:10, marginBottom:12 }}>
+              <div style={{ display:'flex', alignItems:'center', gap:10, marginBottom:8 }}>
+                <div style={{ display:'flex', gap:4 }}>{[0,1,2].map(i => <div key={i} style={{ width:6, height:6, borderRadius:'50%', background:'#4ade80', animation:`wp 1.2s ease-in-out ${i*0.2}s infinite` }} />)}</div>
+                <span style={{ flex:1, fontSize:'0.75rem', color:'rgba(255,255,255,0.45)', letterSpacing:1 }}>Szukanie przeciwnika…</span>
+                <span style={{ fontFamily:"'Bebas Neue',sans-serif", fontSize:'0.9rem', letterSpacing:2, color:'#4ade80' }}>
+                  {Math.floor(matchmaking.waitedMs / 60_000)}:{String(Math.floor(matchmaking.waitedMs / 1000) % 60).padStart(2, '0')}
+                </span>
+              </div>
+              <div style={{ fontSize:'0.62rem', color:'rgba(255,255,255,0.25)', letterSpacing:1, marginBottom:8 }}>
+                Zakres rankingu: ±{matchmaking.window}
+              </div>
+              <button onClick={cancelMatchmaking} style={btn(true, 'rgba(255,80,80,0.8)')}>✕ ANULUJ</button>
+            </div>
+          ) : (
+            <button onClick={handleFindMatch} disabled={loadingCreate} style={{ ...btn(!loadingCreate, '#4ade80'), marginBottom:12 }}>
+              ⚔️ SZYBKI MECZ RANKINGOWY
+            </button>
+          )}
+
+          {/* Practice against the bot — no account needed, nothing is saved */}
+          <div style={G.label}>🤖 TRENING Z BOTEM</div>
+          <div style={{ display:'flex', gap:6, marginBottom:12 }}>
+            {BOT_LEVELS.map(level => (
+              <button key={level} onClick={() => practiceBot(level)} disabled={status !== 'idle'}
+                style={{ ...btn(status === 'idle', '#60a5fa'), flex:1, fontSize:'0.85rem' }}>
+                {BOT_NAMES[level].replace('BOT ', '')}
+              </button>
+            ))}
+          </div>
+
           <div style={{ display:'flex', alignItems:'center', gap:10, margin:'10px 0', color:'rgba(255,255,255,0.18)', fontSize:'0.66rem', letterSpacing:2 }}>
             <div style={{ flex:1, height:1, background:'rgba(255,255,255,0.06)' }} />LUB WPISZ KOD<div style={{ flex:1, height:1, background:'rgba(255,255,255,0.06)' }} />
           </div>
@@ -560,11 +666,19 @@ export default function MultiplayerLobby() {
           <button onClick={handleJoin} disabled={loadingJoin || codeInput.trim().length < 4} style={btn(!loadingJoin && codeInput.trim().length===4,'#818cf8')}>
             {loadingJoin ? '⏳ DOŁĄCZANIE…' : '🚪 DOŁĄCZ DO POKOJU'}
           </button>
+          <button onClick={() => navigate(`/multiplayer/watch/${codeInput.trim()}`)} disabled={codeInput.trim().length < 4}
+            style={{ width:'100%', marginTop:6, background:'none', border:'none', color: codeInput.trim().length===4 ? 'rgba(255,255,255,0.45)' : 'rgba(255,255,255,0.15)', cursor: codeInput.trim().length===4 ? 'pointer' : 'default', fontSize:'0.68rem', letterSpacing:2, fontFamily:"'Montserrat',sans-serif" }}>
+            👁 OGLĄDAJ TRWAJĄCY MECZ
+          </button>
 
           <div style={{ borderTop:'1px solid rgba(255,255,255,0.05)', marginTop:16, paddingTop:12, display:'flex', justifyContent:'space-between', alignItems:'center' }}>
             <button onClick={() => navigate('/')} style={{ background:'none', border:'none', color:'rgba(255,255,255,0.3)', cursor:'pointer', fontSize:'0.7rem', letterSpacing:2, fontFamily:"'Montserrat',sans-serif" }}>← MENU</button>
             <div style={{ display:'flex', gap:8 }}>
               <button onClick={() => navigate('/ranking')} style={{ background:'none', border:'none', color:'rgba(255,255,255,0.3)', cursor:'pointer', fontSize:'0.7rem', fontFamily:"'Montserrat',sans-serif" }}>🏆 Ranking</button>
+              <button onClick={() => navigate('/tournaments')} style={{ background:'none', border:'none', color:'rgba(255,255,255,0.3)', cursor:'pointer', fontSize:'0.7rem', fontFamily:"'Montserrat',sans-serif" }}>🏟 Turnieje</button>
+              <button onClick={() => navigate('/daily')} style={{ background:'none', border:'none', color:'rgba(255,255,255,0.3)', cursor:'pointer', fontSize:'0.7rem', fontFamily:"'Montserrat',sans-serif" }}>📅 Wyzwanie dnia</button>
+              <button onClick={() => navigate('/solo')} style={{ background:'none', border:'none', color:'rgba(255,255,255,0.3)', cursor:'pointer', fontSize:'0.7rem', fontFamily:"'Montserrat',sans-serif" }}>🎯 Solo</button>
+              <button onClick={() => navigate('/training')} style={{ background:'none', border:'none', color:'rgba(255,255,255,0.3)', cursor:'pointer', fontSize:'0.7rem', fontFamily:"'Montserrat',sans-serif" }}>📚 Trening</button>
               {user
                 ? <button onClick={() => navigate('/profile')} style={{ background:'none', border:'none', color:'rgba(212,175,55,0.6)', cursor:'pointer', fontSize:'0.7rem', fontFamily:"'Montserrat',sans-serif" }}>👤 Profil</button>
                 : <button onClick={() => navigate('/login')} style={{ background:'none', border:'none', color:'rgba(99,102,241,0.7)', cursor:'pointer', fontSize:'0.7rem', fontFamily:"'Montserrat',sans-serif" }}>🔑 Zaloguj</button>
@@ -624,7 +738,7 @@ export default function MultiplayerLobby() {
           <div style={{ padding:'12px 14px', background:'rgba(99,102,241,0.05)', border:'1px solid rgba(99,102,241,0.12)', borderRadius:10 }}>
             <div style={{ fontSize:'0.7rem', color:'rgba(255,255,255,0.35)', lineHeight:1.7 }}>
               <strong style={{ color:'rgba(99,102,241,0.8)', fontFamily:"'Bebas Neue',sans-serif", letterSpacing:2, fontSize:'0.78rem' }}>ZASADY</strong><br />
-              1. Zaloguj się i utwórz pokój<br />
+              1. Zaloguj się i utwórz pokój — albo kliknij <strong style={{ color:'#4ade80' }}>SZYBKI MECZ</strong>, by dobrać rywala o podobnym rankingu<br />
               2. Zaproś gracza przyciskiem <strong style={{ color:'#D4AF37' }}>✉ ZAPROŚ</strong> lub podaj kod<br />
               3. Obaj widzicie pokój z czatem<br />
               4. Host klika <strong style={{ color:'#4ade80' }}>ROZPOCZNIJ</strong> gdy jesteście gotowi<br />
@@ -2,9 +2,21 @@ import { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { supabase } from '../lib/supabase'
 import { useAuthStore } from '../store/useAuthStore'
+import { DEFAULT_RATING, isProvisional } from '../domain/rating'
+import { activeSeason, formatSeasonRange, type Season, type SeasonStanding } from '../domain/seasons'
+import { fetchSeasonStandings, fetchSeasons } from '../lib/seasonService'
 
-interface Player { id: string; username: string; avatar: string; avatar_url?: string; xp: number; wins: number; losses: number; win_streak: number; best_streak: number; status: string }
+interface Player { id: string; username: string; avatar: string; avatar_url?: string; xp: number; wins: number; losses: number; win_streak: number; best_streak: number; rating?: number; rating_games?: number; status: string }
 type SortKey = 'xp' | 'wins' | 'win_streak'
+/** XP ranks activity, SKILL ranks the ELO rating (domain/rating.ts). */
+type Board   = 'xp' | 'skill'
+
+/** Archived rows have no live status or current streak — the best streak stands in. */
+const fromStanding = (s: SeasonStanding): Player => ({
+  id: s.playerId, username: s.username, avatar: s.avatar, avatar_url: s.avatarUrl,
+  xp: s.xp, wins: s.wins, losses: s.losses, win_streak: s.bestStreak, best_streak: s.bestStreak,
+  rating: s.rating, rating_games: s.ratingGames, status: '',
+})
 
 export default function Ranking() {
   const navigate = useNavigate()
@@ -12,21 +24,35 @@ export default function Ranking() {
   const [players, setPlayers] = useState<Player[]>([])
   const [search,  setSearch]  = useState('')
   const [sort,    setSort]    = useState<SortKey>('xp')
+  const [board,   setBoard]   = useState<Board>('xp')
   const [loading, setLoading] = useState(true)
+  const [seasons, setSeasons] = useState<Season[]>([])
+  const [seasonId, setSeasonId] = useState('')  // '' = live (current season)
+  const archived = seasonId !== ''
+  const current  = activeSeason(seasons)
+  const shown    = archived ? seasons.find(s => s.id === seasonId) ?? null : current
 
-  useEffect(() => { load() }, [sort])
+  useEffect(() => { fetchSeasons().then(setSeasons) }, [])
+  useEffect(() => { load() }, [sort, board, seasonId])
 
   const load = async () => {
     setLoading(true)
+    if (archived) {
+      const order = board === 'skill' ? 'rating' : sort === 'win_streak' ? 'best_streak' : sort
+      setPlayers((await fetchSeasonStandings(seasonId, order)).map(fromStanding))
+      setLoading(false)
+      return
+    }
     const { data } = await supabase
-      .from('profiles').select('id,username,avatar,avatar_url,xp,wins,losses,win_streak,best_streak,status')
-      .order(sort, { ascending: false }).limit(100)
+      .from('profiles').select('id,username,avatar,avatar_url,xp,wins,losses,win_streak,best_streak,rating,rating_games,status')
+      .order(board === 'skill' ? 'rating' : sort, { ascending: false }).limit(100)
     setPlayers((data ?? []) as Player[])
     setLoading(false)
   }
 
   const filtered = players.filter(p => !search || p.username.toLowerCase().includes(search.toLowerCase()))
   const winRate  = (p: Player) => p.wins + p.losses > 0 ? Math.round(p.wins / (p.wins + p.losses) * 100) : 0
+  const rating   = (p: Player) => ({ rating: p.rating ?? DEFAULT_RATING, games: p.rating_games ?? 0 })
   const medal    = (i: number) => i === 0 ? '🥇' : i === 1 ? '🥈' : i === 2 ? '🥉' : `${i + 1}.`
 
   return (
@@ -35,32 +61,54 @@ export default function Ranking() {
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
           <div>
             <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '2.4rem', letterSpacing: 8, color: '#D4AF37' }}>RANKING</div>
-            <div style={{ fontSize: '0.72rem', letterSpacing: 2, color: 'rgba(255,255,255,0.3)' }}>TOP GRACZE ONLINE</div>
+            <div style={{ fontSize: '0.72rem', letterSpacing: 2, color: 'rgba(255,255,255,0.3)' }}>{board === 'skill' ? 'RANKING UMIEJĘTNOŚCI (ELO)' : 'TOP GRACZE ONLINE'}</div>
+            {shown && (
+              <div style={{ fontSize: '0.65rem', letterSpacing: 1, color: 'rgba(212,175,55,0.6)', marginTop: 2 }}>
+                {shown.name.toUpperCase()} · {formatSeasonRange(shown)}{archived ? ' · ARCHIWUM' : ''}
+              </div>
+            )}
           </div>
           <button onClick={() => navigate(-1)} style={{ background: 'none', border: 'none', color: 'rgba(255,255,255,0.3)', cursor: 'pointer', fontSize: '0.78rem', letterSpacing: 2 }}>
             WRÓĆ
           </button>
         </div>
 
+        <div style={{ display: 'flex', gap: 6, marginBottom: 12 }}>
+          {([['xp','XP'],['skill','SKILL']] as [Board,string][]).map(([k,l]) => (
+            <button key={k} onClick={() => setBoard(k)} style={{ flex: 1, padding: '10px 14px', borderRadius: 8, background: board===k ? 'rgba(212,175,55,0.15)' : 'transparent', border: `1px solid ${board===k ? '#D4AF37' : 'rgba(255,255,255,0.1)'}`, color: board===k ? '#D4AF37' : 'rgba(255,255,255,0.4)', fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.95rem', letterSpacing: 3, cursor: 'pointer' }}>{l}</button>
+          ))}
+        </div>
+
         <div style={{ display: 'flex', gap: 10, marginBottom: 16, flexWrap: 'wrap' }}>
           <input
             style={{ flex: 1, background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff', fontFamily: "'Montserrat',sans-serif", fontSize: '0.85rem', padding: '9px 14px', outline: 'none', minWidth: 180 }}
             value={search} placeholder="Szukaj gracza..." onChange={e => setSearch(e.target.value)}
           />
-          <div style={{ display: 'flex', gap: 6 }}>
+          {seasons.length > 1 && (
+            <select
+              value={seasonId} onChange={e => setSeasonId(e.target.value)}
+              style={{ background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff', fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.8rem', letterSpacing: 2, padding: '8px 10px', outline: 'none', cursor: 'pointer' }}
+            >
+              <option value="" style={{ background: '#111' }}>{current ? `${current.name} (TRWA)` : 'BIEŻĄCY'}</option>
+              {seasons.filter(s => s.endedAt).map(s => (
+                <option key={s.id} value={s.id} style={{ background: '#111' }}>{s.name}</option>
+              ))}
+            </select>
+          )}
+          {board === 'xp' && <div style={{ display: 'flex', gap: 6 }}>
             {([['xp','XP'],['wins','WYGRANE'],['win_streak','SERIA']] as [SortKey,string][]).map(([k,l]) => (
               <button key={k} onClick={() => setSort(k)} style={{ padding: '8px 14px', borderRadius: 8, background: sort===k ? 'rgba(212,175,55,0.15)' : 'transparent', border: `1px solid ${sort===k ? '#D4AF37' : 'rgba(255,255,255,0.1)'}`, color: sort===k ? '#D4AF37' : 'rgba(255,255,255,0.4)', fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.8rem', letterSpacing: 2, cursor: 'pointer' }}>{l}</button>
             ))}
-          </div>
+          </div>}
         </div>
 
         <div style={{ display: 'flex', gap: 14, padding: '8px 16px', fontSize: '0.65rem', letterSpacing: 2, color: 'rgba(255,255,255,0.3)', marginBottom: 2 }}>
           <span style={{ width: 32, flexShrink: 0 }}>#</span>
           <span style={{ flex: 1 }}>GRACZ</span>
-          <span style={{ width: 55, textAlign: 'right' }}>XP</span>
+          <span style={{ width: 55, textAlign: 'right' }}>{board === 'skill' ? 'ELO' : 'XP'}</span>
           <span style={{ width: 55, textAlign: 'right' }}>W/L</span>
           <span style={{ width: 55, textAlign: 'right' }}>WIN%</span>
-          <span style={{ width: 50, textAlign: 'right' }}>SERIA</span>
+          <span style={{ width: 50, textAlign: 'right' }}>{archived ? 'MAX' : 'SERIA'}</span>
         </div>
 
         <div style={{ background: 'rgba(255,255,255,0.02)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 12, overflow: 'hidden' }}>
@@ -85,13 +133,17 @@ export default function Ranking() {
                     <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.95rem', letterSpacing: 2, color: isMe ? '#D4AF37' : '#fff' }}>
                       {p.username}{isMe ? ' (TY)' : ''}
                     </div>
-                    <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    {!archived && <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
                       <div style={{ width: 6, height: 6, borderRadius: '50%', background: p.status==='online' ? '#4ade80' : p.status==='in_game' ? '#facc15' : 'rgba(255,255,255,0.2)' }} />
                       <span style={{ fontSize: '0.62rem', color: 'rgba(255,255,255,0.3)' }}>{p.status==='online' ? 'online' : p.status==='in_game' ? 'w grze' : 'offline'}</span>
-                    </div>
+                    </div>}
                   </div>
                 </div>
-                <div style={{ width: 55, textAlign: 'right', fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.95rem', color: '#D4AF37' }}>{p.xp}</div>
+                <div style={{ width: 55, textAlign: 'right', fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.95rem', color: '#D4AF37' }}>
+                  {board === 'skill'
+                    ? <span title={isProvisional(rating(p)) ? 'Rating tymczasowy — za mało meczów' : undefined}>{rating(p).rating}{isProvisional(rating(p)) ? '?' : ''}</span>
+                    : p.xp}
+                </div>
                 <div style={{ width: 55, textAlign: 'right', fontSize: '0.8rem', color: 'rgba(255,255,255,0.5)' }}>{p.wins}/{p.losses}</div>
                 <div style={{ width: 55, textAlign: 'right', fontSize: '0.8rem', color: winRate(p) >= 60 ? '#4ade80' : winRate(p) >= 40 ? '#facc15' : '#f87171' }}>{winRate(p)}%</div>
                 <div style={{ width: 50, textAlign: 'right', fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.9rem', color: 'rgba(255,255,255,0.6)' }}>x{p.win_streak}</div>
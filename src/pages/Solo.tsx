@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import TimeAttackPanel from '../components/game/TimeAttackPanel'
+import { shuffle } from '../domain/board'
+import { normalizeCategories, type CategoryWithQuestions } from '../domain/categories'
+import { formatClock } from '../domain/clock'
+import {
+  isNewBest, SOLO_DEFAULT_MS, SOLO_DURATIONS_MS, SOLO_PASS_PENALTY_MS, soloBestKey, type SoloBest,
+} from '../domain/solo'
+import type { TimeAttackResult } from '../domain/timeAttack'
+import { useTimeAttack } from '../hooks/useTimeAttack'
+import { fetchRawCategories } from '../lib/categoryService'
+import { submitSoloRun, type SoloSubmission } from '../lib/profileService'
+import { useAuthStore } from '../store/useAuthStore'
+
+const pill = (active: boolean): React.CSSProperties => ({
+  padding: '8px 14px', borderRadius: 20, cursor: 'pointer', fontSize: '0.8rem',
+  background: active ? 'rgba(212,175,55,0.15)' : 'rgba(255,255,255,0.03)',
+  border: `1px solid ${active ? 'rgba(212,175,55,0.6)' : 'rgba(255,255,255,0.08)'}`,
+  color: active ? '#D4AF37' : 'rgba(255,255,255,0.6)',
+})
+
+export default function Solo() {
+  const navigate = useNavigate()
+  const { user, refreshProfile } = useAuthStore()
+  const [categories, setCategories] = useState<CategoryWithQuestions[] | null>(null)
+  const [categoryId, setCategoryId] = useState<string | null>(null)
+  const [ms,         setMs]         = useState<number>(SOLO_DEFAULT_MS)
+  const [attempt,    setAttempt]    = useState(0)      // klucz biegu — „jeszcze raz" montuje go od nowa
+  const [playing,    setPlaying]    = useState(false)
+
+  useEffect(() => {
+    fetchRawCategories().then(raw => setCategories(normalizeCategories(raw ?? []).filter(c => c.questions.length > 0)))
+  }, [])
+
+  const category = categories?.find(c => c.id === categoryId) ?? null
+  const best     = category ? user?.solo_bests?.[soloBestKey(category.id, ms)] : undefined
+
+  const handleSubmit = useCallback(async (result: TimeAttackResult): Promise<SoloSubmission | null> => {
+    if (!user || !category) return null
+    const saved = await submitSoloRun(category.id, ms, result)
+    if (saved?.best) refreshProfile()
+    return saved
+  }, [category, ms, refreshProfile, user])
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#080808', fontFamily: "'Montserrat',sans-serif", color: '#fff', padding: '24px 20px' }}>
+      <div style={{ maxWidth: 700, margin: '0 auto' }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
+          <div>
+            <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '2.4rem', letterSpacing: 8, color: '#D4AF37' }}>SOLO</div>
+            <div style={{ fontSize: '0.72rem', letterSpacing: 2, color: 'rgba(255,255,255,0.3)' }}>BIEG NA CZAS W JEDNEJ KATEGORII</div>
+          </div>
+          <button onClick={() => playing ? setPlaying(false) : navigate(-1)} style={{ background: 'none', border: 'none', color: 'rgba(255,255,255,0.3)', cursor: 'pointer', fontSize: '0.78rem', letterSpacing: 2 }}>
+            WRÓĆ
+          </button>
+        </div>
+
+        {playing && category ? (
+          <div style={{ padding: 16, background: 'rgba(212,175,55,0.04)', border: '1px solid rgba(212,175,55,0.15)', borderRadius: 12 }}>
+            <SoloRunner
+              key={attempt} category={category} ms={ms} best={best} signedIn={!!user}
+              onSubmit={handleSubmit}
+              onAgain={() => setAttempt(a => a + 1)}
+              onPick={() => setPlaying(false)}
+            />
+          </div>
+        ) : categories === null ? (
+          <div style={{ textAlign: 'center', padding: '40px 0', color: 'rgba(255,255,255,0.3)' }}>Ładowanie…</div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
+            <div>
+              <div style={{ fontSize: '0.65rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)', marginBottom: 8 }}>KATEGORIA</div>
+              {categories.length === 0 && <div style={{ color: 'rgba(255,255,255,0.3)', fontSize: '0.8rem' }}>Brak kategorii z pytaniami</div>}
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                {categories.map(c => (
+                  <button key={c.id} onClick={() => setCategoryId(c.id)} style={pill(c.id === categoryId)}>
+                    {c.emoji} {c.name} <span style={{ opacity: 0.4 }}>· {c.questions.length}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div style={{ fontSize: '0.65rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)', marginBottom: 8 }}>CZAS</div>
+              <div style={{ display: 'flex', gap: 6 }}>
+                {SOLO_DURATIONS_MS.map(d => (
+                  <button key={d} onClick={() => setMs(d)} style={pill(d === ms)}>{d / 1000} s</button>
+                ))}
+              </div>
+            </div>
+            <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.45)', lineHeight: 1.6 }}>
+              Odpowiadaj głosem albo wpisz hasło · pas zabiera {SOLO_PASS_PENALTY_MS / 1000} s.<br />
+              {!user
+                ? 'Zaloguj się, aby zapisywać rekordy.'
+                : best ? `Twój rekord: ✓ ${best.score} · zostało ${formatClock(best.timeLeftMs)} s · pasy: ${best.passes}` : category ? 'Jeszcze bez rekordu w tej kategorii.' : ''}
+            </div>
+            <button
+              disabled={!category}
+              onClick={() => setPlaying(true)}
+              style={{ alignSelf: 'center', padding: '12px 36px', borderRadius: 10, background: category ? 'rgba(212,175,55,0.12)' : 'transparent', border: `1px solid ${category ? 'rgba(212,175,55,0.45)' : 'rgba(255,255,255,0.08)'}`, color: category ? '#D4AF37' : 'rgba(255,255,255,0.2)', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.2rem', letterSpacing: 5, cursor: category ? 'pointer' : 'default' }}
+            >
+              DALEJ →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface SoloRunnerProps {
+  category: CategoryWithQuestions
+  ms:       number
+  /** The personal best for this category and clock length, if any. */
+  best?:    SoloBest
+  signedIn: boolean
+  onSubmit: (result: TimeAttackResult) => Promise<SoloSubmission | null>
+  onAgain:  () => void
+  onPick:   () => void
+}
+
+function SoloRunner({ category, ms, best, signedIn, onSubmit, onAgain, onPick }: SoloRunnerProps) {
+  const [deck]              = useState(() => shuffle(category.questions))
+  const [result, setResult] = useState<TimeAttackResult | null>(null)
+  const [saved,  setSaved]  = useState<SoloSubmission | null | 'saving'>(null)
+  // Rekord sprzed biegu — po zapisie profil się odświeża i `best` to już nowy wynik
+  const [bestBefore]        = useState(best)
+
+  const langOf   = useCallback(() => category.lang, [category])
+  const onFinish = useCallback((r: TimeAttackResult) => {
+    setResult(r)
+    if (!signedIn) return
+    setSaved('saving')
+    onSubmit(r).then(setSaved)
+  }, [onSubmit, signedIn])
+
+  const ta = useTimeAttack({ deck, ms, penaltyMs: SOLO_PASS_PENALTY_MS, langOf, onFinish })
+
+  if (ta.phase === 'ready') {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 12, alignItems: 'center', textAlign: 'center' }}>
+        <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.6rem', letterSpacing: 4, color: '#fff' }}>{category.emoji} {category.name}</div>
+        <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.45)' }}>
+          {deck.length} zdjęć · {ms / 1000} s{bestBefore ? ` · rekord ✓ ${bestBefore.score}` : ''}
+        </div>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button onClick={ta.start} style={{ padding: '12px 36px', borderRadius: 10, background: 'rgba(212,175,55,0.12)', border: '1px solid rgba(212,175,55,0.45)', color: '#D4AF37', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.2rem', letterSpacing: 5, cursor: 'pointer' }}>
+            ▶ START
+          </button>
+          <button onClick={onPick} style={{ padding: '12px 24px', borderRadius: 10, background: 'transparent', border: '1px solid rgba(255,255,255,0.15)', color: 'rgba(255,255,255,0.6)', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 4, cursor: 'pointer' }}>
+            ZMIEŃ KATEGORIĘ
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (ta.phase === 'over' && result) {
+    const record = isNewBest(bestBefore, result)
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 10, alignItems: 'center', textAlign: 'center' }}>
+        <div style={{ fontSize: '0.75rem', letterSpacing: 2, color: 'rgba(255,255,255,0.4)' }}>{category.emoji} {category.name} · {ms / 1000} s</div>
+        <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '3rem', letterSpacing: 6, color: '#D4AF37' }}>✓ {result.score}</div>
+        <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.45)' }}>
+          pasy: {result.passes} · zostało {formatClock(result.timeLeftMs)} s
+        </div>
+        {record && <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.3rem', letterSpacing: 4, color: '#4ade80' }}>🏅 NOWY REKORD</div>}
+        {!record && bestBefore && <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.45)' }}>Rekord: ✓ {bestBefore.score} · zostało {formatClock(bestBefore.timeLeftMs)} s</div>}
+        {saved === 'saving' && <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.4)' }}>⏳ Zapisywanie…</div>}
+        {signedIn && record && saved === null && <div style={{ fontSize: '0.75rem', color: '#f87171' }}>Nie udało się zapisać rekordu</div>}
+        {!signedIn && record && <div style={{ fontSize: '0.7rem', color: 'rgba(255,255,255,0.3)' }}>Zaloguj się, aby zapisywać rekordy</div>}
+        <div style={{ display: 'flex', gap: 8, marginTop: 6 }}>
+          <button onClick={onAgain} style={{ padding: '10px 24px', borderRadius: 10, background: 'rgba(212,175,55,0.12)', border: '1px solid rgba(212,175,55,0.45)', color: '#D4AF37', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 4, cursor: 'pointer' }}>
+            🔁 JESZCZE RAZ
+          </button>
+          <button onClick={onPick} style={{ padding: '10px 24px', borderRadius: 10, background: 'transparent', border: '1px solid rgba(255,255,255,0.15)', color: 'rgba(255,255,255,0.6)', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 4, cursor: 'pointer' }}>
+            ZMIEŃ KATEGORIĘ
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return <TimeAttackPanel ta={ta} label={`${category.emoji} ${category.name}`} />
+}
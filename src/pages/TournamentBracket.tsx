@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useAuthStore } from '../store/useAuthStore'
+import { MP_MODES, useMultiplayerStore, type MPGameMode } from '../store/useMultiplayerStore'
+import {
+  cancelTournament, enterTournament, fetchEntrants, fetchMatches, fetchTournament,
+  leaveTournament, startTournament, subscribeTournament,
+  type Tournament, type TournamentEntrant,
+} from '../lib/tournamentService'
+import {
+  BYE, FORMAT_LABEL, MAX_ENTRANTS, MIN_ENTRANTS, leagueStandings, playableMatches,
+  roundLabel, type BracketMatch, type BracketSide,
+} from '../domain/tournament'
+
+const SIDE_TITLE: Record<BracketSide, string> = {
+  winners: 'DRABINKA GŁÓWNA',
+  losers:  'DRABINKA PRZEGRANYCH',
+  final:   'WIELKI FINAŁ',
+  league:  'TERMINARZ',
+}
+
+export default function TournamentBracket() {
+  const navigate = useNavigate()
+  const { id = '' } = useParams<{ id: string }>()
+  const { user } = useAuthStore()
+  const playTournamentMatch = useMultiplayerStore(s => s.playTournamentMatch)
+
+  const [tournament, setTournament] = useState<Tournament | null>(null)
+  const [entrants,   setEntrants]   = useState<TournamentEntrant[]>([])
+  const [matches,    setMatches]    = useState<BracketMatch[]>([])
+  const [loading,    setLoading]    = useState(true)
+  const [busy,       setBusy]       = useState(false)
+  const [error,      setError]      = useState<string | null>(null)
+
+  const [version,    setVersion]    = useState(0)
+  const reload = useCallback(() => setVersion(v => v + 1), [])
+
+  useEffect(() => {
+    let alive = true
+    Promise.all([fetchTournament(id), fetchEntrants(id), fetchMatches(id)]).then(([t, es, ms]) => {
+      if (!alive) return
+      setTournament(t)
+      setEntrants(es)
+      setMatches(ms)
+      setLoading(false)
+    })
+    return () => { alive = false }
+  }, [id, version])
+
+  useEffect(() => subscribeTournament(id, reload), [id, reload])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try { await action() } catch (e) { setError(e instanceof Error ? e.message : String(e)) }
+    setBusy(false)
+    reload()
+  }
+
+  if (loading || !tournament) {
+    return (
+      <div style={{ minHeight: '100vh', background: '#080808', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'rgba(255,255,255,0.4)', fontFamily: "'Montserrat',sans-serif" }}>
+        {loading ? 'Ładowanie…' : 'Nie znaleziono turnieju'}
+      </div>
+    )
+  }
+
+  const nameOf   = (pid: string | null) => pid === BYE ? 'wolny los' : entrants.find(e => e.playerId === pid)?.username ?? '—'
+  const isOwner  = user?.id === tournament.createdBy
+  const entered  = !!user && entrants.some(e => e.playerId === user.id)
+  const seeds    = [...entrants].sort((x, y) => (x.seed ?? 0) - (y.seed ?? 0)).map(e => e.playerId)
+  const myMatch  = user ? playableMatches(matches).find(m => m.a === user.id || m.b === user.id) : undefined
+  const winnersRounds = Math.max(0, ...matches.filter(m => m.side === 'winners').map(m => m.round))
+
+  const handleStart = () => run(() => startTournament(tournament.id))
+  const handleCancel = () => run(async () => { await cancelTournament(tournament.id); navigate('/tournaments') })
+  const handlePlay = async (m: BracketMatch) => {
+    setBusy(true)
+    if (await playTournamentMatch(tournament.id, m.key)) navigate('/multiplayer')
+    else { setError(useMultiplayerStore.getState().error); setBusy(false) }
+  }
+
+  const sides = (['winners', 'losers', 'final', 'league'] as BracketSide[]).filter(s => matches.some(m => m.side === s))
+  const mode  = MP_MODES[tournament.settings.gameMode as MPGameMode]
+
+  const btn = (color: string, enabled = true) => ({
+    padding: '10px 18px', borderRadius: 8, cursor: enabled ? 'pointer' : 'default',
+    background: `${color}1f`, border: `1px solid ${color}59`, color: enabled ? color : `${color}59`,
+    fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.95rem', letterSpacing: 3,
+  })
+
+  const card = (m: BracketMatch) => {
+    const line = (slot: 'a' | 'b') => {
+      const pid = m[slot]
+      const won = m.winner === slot
+      const me  = !!user && pid === user.id
+      return (
+        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, padding: '5px 8px', background: won ? 'rgba(212,175,55,0.12)' : 'transparent', borderRadius: 5 }}>
+          <span style={{ fontSize: '0.75rem', color: pid === BYE || !pid ? 'rgba(255,255,255,0.25)' : me ? '#D4AF37' : 'rgba(255,255,255,0.8)', fontWeight: won ? 700 : 400, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {nameOf(pid)}
+          </span>
+          {won && <span style={{ fontSize: '0.7rem' }}>✓</span>}
+        </div>
+      )
+    }
+    return (
+      <div key={m.key} style={{ width: 170, padding: 4, background: 'rgba(255,255,255,0.03)', border: `1px solid ${myMatch?.key === m.key ? 'rgba(74,222,128,0.45)' : 'rgba(255,255,255,0.07)'}`, borderRadius: 8 }}>
+        {line('a')}
+        <div style={{ height: 1, background: 'rgba(255,255,255,0.05)', margin: '0 6px' }} />
+        {line('b')}
+        {m.winner === 'draw' && <div style={{ textAlign: 'center', fontSize: '0.6rem', color: '#a78bfa', letterSpacing: 2 }}>REMIS</div>}
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#080808', fontFamily: "'Montserrat',sans-serif", color: '#fff', padding: '24px 20px' }}>
+      <div style={{ maxWidth: 1100, margin: '0 auto' }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 20 }}>
+          <div>
+            <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '2.2rem', letterSpacing: 6, color: '#D4AF37' }}>{tournament.name}</div>
+            <div style={{ fontSize: '0.7rem', letterSpacing: 2, color: 'rgba(255,255,255,0.35)' }}>
+              {FORMAT_LABEL[tournament.format]} · {mode ? `${mode.emoji} ${mode.label}` : tournament.settings.gameMode} · ROZSTAWIENIE {tournament.seeding === 'xp' ? 'XP' : 'RATING'} · {entrants.length} GRACZY
+            </div>
+          </div>
+          <button onClick={() => navigate('/tournaments')} style={{ background: 'none', border: 'none', color: 'rgba(255,255,255,0.3)', cursor: 'pointer', fontSize: '0.78rem', letterSpacing: 2 }}>
+            WRÓĆ
+          </button>
+        </div>
+
+        {error && <div style={{ marginBottom: 14, padding: '8px 12px', background: 'rgba(239,68,68,0.1)', border: '1px solid rgba(239,68,68,0.3)', borderRadius: 8, color: '#f87171', fontSize: '0.78rem' }}>{error}</div>}
+
+        {tournament.status === 'finished' && (
+          <div style={{ marginBottom: 20, padding: '18px 20px', textAlign: 'center', background: 'rgba(212,175,55,0.06)', border: '1px solid rgba(212,175,55,0.3)', borderRadius: 12 }}>
+            <div style={{ fontSize: '2rem' }}>🏆</div>
+            <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.8rem', letterSpacing: 5, color: '#D4AF37' }}>{tournament.winnerName ?? '—'}</div>
+            <div style={{ fontSize: '0.65rem', letterSpacing: 2, color: 'rgba(255,255,255,0.35)' }}>
+              ZWYCIĘZCA{tournament.finishedAt ? ` · ${new Date(tournament.finishedAt).toLocaleDateString('pl-PL')}` : ''}
+            </div>
+          </div>
+        )}
+
+        {/* ── Registration ── */}
+        {tournament.status === 'open' && (
+          <div style={{ marginBottom: 20, padding: 16, background: 'rgba(255,255,255,0.02)', border: '1px solid rgba(255,255,255,0.07)', borderRadius: 12 }}>
+            <div style={{ fontSize: '0.65rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)', marginBottom: 10 }}>ZAPISANI ({entrants.length}/{MAX_ENTRANTS})</div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 14 }}>
+              {entrants.length === 0 && <span style={{ fontSize: '0.78rem', color: 'rgba(255,255,255,0.25)' }}>Nikt się jeszcze nie zapisał</span>}
+              {entrants.map(e => (
+                <span key={e.playerId} style={{ padding: '5px 10px', borderRadius: 6, background: 'rgba(255,255,255,0.04)', fontSize: '0.75rem', color: e.playerId === user?.id ? '#D4AF37' : 'rgba(255,255,255,0.75)' }}>
+                  {e.avatar} {e.username} <span style={{ color: 'rgba(255,255,255,0.3)' }}>· {tournament.seeding === 'xp' ? `${e.xp} XP` : e.rating}</span>
+                </span>
+              ))}
+            </div>
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+              {user && !entered && entrants.length < MAX_ENTRANTS && (
+                <button disabled={busy} onClick={() => run(() => enterTournament(tournament.id, user.id))} style={btn('#4ade80')}>＋ ZAPISZ SIĘ</button>
+              )}
+              {user && entered && (
+                <button disabled={busy} onClick={() => run(() => leaveTournament(tournament.id, user.id))} style={btn('#f87171')}>WYPISZ SIĘ</button>
+              )}
+              {isOwner && (
+                <>
+                  <button disabled={busy || entrants.length < MIN_ENTRANTS} onClick={handleStart} style={btn('#D4AF37', entrants.length >= MIN_ENTRANTS)}>▶ ROZPOCZNIJ TURNIEJ</button>
+                  <button disabled={busy} onClick={handleCancel} style={btn('#9ca3af')}>ANULUJ TURNIEJ</button>
+                </>
+              )}
+              {!user && <span style={{ fontSize: '0.78rem', color: 'rgba(255,255,255,0.4)' }}>Zaloguj się, aby się zapisać.</span>}
+            </div>
+          </div>
+        )}
+
+        {/* ── My next match ── */}
+        {tournament.status === 'running' && myMatch && (
+          <div style={{ marginBottom: 20, padding: '14px 16px', display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, background: 'rgba(74,222,128,0.06)', border: '1px solid rgba(74,222,128,0.3)', borderRadius: 12 }}>
+            <div>
+              <div style={{ fontSize: '0.62rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)' }}>TWÓJ MECZ · {roundLabel(myMatch, winnersRounds)}</div>
+              <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.2rem', letterSpacing: 3 }}>
+                {nameOf(myMatch.a)} <span style={{ color: 'rgba(255,255,255,0.3)' }}>VS</span> {nameOf(myMatch.b)}
+              </div>
+            </div>
+            <button disabled={busy} onClick={() => handlePlay(myMatch)} style={btn('#4ade80')}>{busy ? '⏳' : '▶ GRAJ'}</button>
+          </div>
+        )}
+
+        {/* ── League table ── */}
+        {tournament.format === 'round_robin' && tournament.status !== 'open' && (
+          <div style={{ marginBottom: 20 }}>
+            <div style={{ fontSize: '0.65rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)', marginBottom: 8 }}>TABELA</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '32px 1fr repeat(5, 48px)', gap: '4px 0', fontSize: '0.78rem' }}>
+              {['#', 'GRACZ', 'M', 'W', 'R', 'P', 'PKT'].map(h => <div key={h} style={{ color: 'rgba(255,255,255,0.3)', fontSize: '0.62rem', letterSpacing: 2 }}>{h}</div>)}
+              {leagueStandings(matches, seeds).map((r, i) => [
+                <div key={`${r.playerId}-i`} style={{ color: 'rgba(255,255,255,0.4)' }}>{i + 1}.</div>,
+                <div key={`${r.playerId}-n`} style={{ color: r.playerId === user?.id ? '#D4AF37' : '#fff' }}>{nameOf(r.playerId)}</div>,
+                <div key={`${r.playerId}-m`}>{r.played}</div>,
+                <div key={`${r.playerId}-w`} style={{ color: '#4ade80' }}>{r.wins}</div>,
+                <div key={`${r.playerId}-d`} style={{ color: '#a78bfa' }}>{r.draws}</div>,
+                <div key={`${r.playerId}-l`} style={{ color: '#f87171' }}>{r.losses}</div>,
+                <div key={`${r.playerId}-p`} style={{ fontWeight: 700 }}>{r.points}</div>,
+              ])}
+            </div>
+          </div>
+        )}
+
+        {/* ── Bracket ── */}
+        {sides.map(side => {
+          const ofSide = matches.filter(m => m.side === side)
+          const rounds = [...new Set(ofSide.map(m => m.round))].sort((x, y) => x - y)
+          return (
+            <div key={side} style={{ marginBottom: 24 }}>
+              <div style={{ fontSize: '0.65rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)', marginBottom: 8 }}>{SIDE_TITLE[side]}</div>
+              <div style={{ display: 'flex', gap: 14, overflowX: 'auto', paddingBottom: 6 }}>
+                {rounds.map(r => (
+                  <div key={r} style={{ display: 'flex', flexDirection: 'column', justifyContent: 'space-around', gap: 8, flexShrink: 0 }}>
+                    <div style={{ fontSize: '0.58rem', letterSpacing: 2, color: 'rgba(212,175,55,0.6)', textAlign: 'center' }}>
+                      {roundLabel({ side, round: r }, winnersRounds)}
+                    </div>
+                    {ofSide.filter(m => m.round === r).sort((x, y) => x.index - y.index).map(card)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
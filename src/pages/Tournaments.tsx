@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuthStore } from '../store/useAuthStore'
+import { MP_BOARD, MP_MODES, type MPGameMode } from '../store/useMultiplayerStore'
+import { createTournament, fetchTournaments, type Tournament } from '../lib/tournamentService'
+import { DEFAULT_VICTORY } from '../domain/board'
+import { FORMAT_LABEL, type TournamentFormat, type TournamentSeeding } from '../domain/tournament'
+
+const STATUS_LABEL: Record<Tournament['status'], { text: string; color: string }> = {
+  open:     { text: 'ZAPISY',    color: '#4ade80' },
+  running:  { text: 'W TRAKCIE', color: '#FBBF24' },
+  finished: { text: 'ZAKOŃCZONY', color: 'rgba(255,255,255,0.35)' },
+}
+
+export default function Tournaments() {
+  const navigate = useNavigate()
+  const { user } = useAuthStore()
+  const [list,     setList]     = useState<Tournament[]>([])
+  const [loading,  setLoading]  = useState(true)
+  const [name,     setName]     = useState('')
+  const [format,   setFormat]   = useState<TournamentFormat>('single')
+  const [seeding,  setSeeding]  = useState<TournamentSeeding>('xp')
+  const [mode,     setMode]     = useState<MPGameMode>('classic')
+  const [creating, setCreating] = useState(false)
+  const [error,    setError]    = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchTournaments().then(ts => { setList(ts); setLoading(false) })
+  }, [])
+
+  const handleCreate = async () => {
+    if (!user || !name.trim() || creating) return
+    setCreating(true)
+    setError(null)
+    try {
+      const m = MP_MODES[mode]
+      const id = await createTournament(user.id, {
+        name, format, seeding,
+        settings: {
+          gameMode: mode, duelTime: m.duelTime, passPenalty: m.passPenalty, rules: 'classic',
+          categoriesCount: m.categoriesCount, maxRounds: m.maxRounds, matchMinutes: m.matchMinutes, victory: DEFAULT_VICTORY,
+          // Elimination needs a winner every match; start_tournament enforces it too
+          suddenDeath: format !== 'round_robin',
+          ...MP_BOARD[m.categoriesCount],
+        },
+      })
+      navigate(`/tournaments/${id}`)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      setCreating(false)
+    }
+  }
+
+  const active  = list.filter(t => t.status !== 'finished')
+  const history = list.filter(t => t.status === 'finished')
+
+  const chip = (on: boolean) => ({
+    flex: 1, padding: '8px 6px', borderRadius: 8, cursor: 'pointer',
+    background: on ? 'rgba(212,175,55,0.15)' : 'transparent',
+    border: `1px solid ${on ? '#D4AF37' : 'rgba(255,255,255,0.1)'}`,
+    color: on ? '#D4AF37' : 'rgba(255,255,255,0.4)',
+    fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.85rem', letterSpacing: 2,
+  })
+
+  const row = (t: Tournament) => (
+    <div key={t.id} onClick={() => navigate(`/tournaments/${t.id}`)} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '12px 14px', background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 10, cursor: 'pointer' }}>
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '1.05rem', letterSpacing: 2, color: '#fff', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{t.name}</div>
+        <div style={{ fontSize: '0.65rem', color: 'rgba(255,255,255,0.35)', letterSpacing: 1 }}>
+          {FORMAT_LABEL[t.format]} · {MP_MODES[t.settings.gameMode as MPGameMode]?.label ?? t.settings.gameMode} · {new Date(t.createdAt).toLocaleDateString('pl-PL')}
+        </div>
+      </div>
+      {t.status === 'finished'
+        ? <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '0.9rem', letterSpacing: 2, color: '#D4AF37' }}>🏆 {t.winnerName ?? '—'}</div>
+        : <div style={{ fontSize: '0.62rem', letterSpacing: 2, color: STATUS_LABEL[t.status].color }}>{STATUS_LABEL[t.status].text}</div>}
+    </div>
+  )
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#080808', fontFamily: "'Montserrat',sans-serif", color: '#fff', padding: '24px 20px' }}>
+      <div style={{ maxWidth: 700, margin: '0 auto' }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
+          <div>
+            <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '2.4rem', letterSpacing: 8, color: '#D4AF37' }}>TURNIEJE</div>
+            <div style={{ fontSize: '0.72rem', letterSpacing: 2, color: 'rgba(255,255,255,0.3)' }}>DRABINKI I HISTORIA</div>
+          </div>
+          <button onClick={() => navigate('/multiplayer')} style={{ background: 'none', border: 'none', color: 'rgba(255,255,255,0.3)', cursor: 'pointer', fontSize: '0.78rem', letterSpacing: 2 }}>
+            WRÓĆ
+          </button>
+        </div>
+
+        {user ? (
+          <div style={{ padding: 16, background: 'rgba(212,175,55,0.04)', border: '1px solid rgba(212,175,55,0.15)', borderRadius: 12, marginBottom: 24, display: 'flex', flexDirection: 'column', gap: 10 }}>
+            <div style={{ fontSize: '0.65rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)' }}>NOWY TURNIEJ</div>
+            <input value={name} maxLength={60} placeholder="Nazwa turnieju…" onChange={e => setName(e.target.value)}
+              style={{ padding: '10px 12px', background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff', fontSize: '0.9rem', outline: 'none' }} />
+            <div style={{ display: 'flex', gap: 6 }}>
+              {(Object.keys(FORMAT_LABEL) as TournamentFormat[]).map(f => (
+                <button key={f} onClick={() => setFormat(f)} style={chip(format === f)}>{FORMAT_LABEL[f]}</button>
+              ))}
+            </div>
+            <div style={{ display: 'flex', gap: 6 }}>
+              {(Object.entries(MP_MODES) as [MPGameMode, typeof MP_MODES[MPGameMode]][]).map(([k, m]) => (
+                <button key={k} onClick={() => setMode(k)} style={chip(mode === k)}>{m.emoji} {m.label}</button>
+              ))}
+            </div>
+            <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <span style={{ fontSize: '0.62rem', letterSpacing: 2, color: 'rgba(255,255,255,0.35)', marginRight: 4 }}>ROZSTAWIENIE</span>
+              <button onClick={() => setSeeding('xp')} style={chip(seeding === 'xp')}>XP</button>
+              <button onClick={() => setSeeding('rating')} style={chip(seeding === 'rating')}>RATING</button>
+            </div>
+            {error && <div style={{ color: '#f87171', fontSize: '0.75rem' }}>{error}</div>}
+            <button onClick={handleCreate} disabled={!name.trim() || creating} style={{ padding: '11px 0', borderRadius: 8, background: 'rgba(212,175,55,0.12)', border: '1px solid rgba(212,175,55,0.35)', color: name.trim() ? '#D4AF37' : 'rgba(212,175,55,0.35)', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 4, cursor: name.trim() ? 'pointer' : 'default' }}>
+              {creating ? '⏳ TWORZENIE…' : '＋ UTWÓRZ TURNIEJ'}
+            </button>
+          </div>
+        ) : (
+          <div style={{ padding: 14, marginBottom: 24, textAlign: 'center', fontSize: '0.78rem', color: 'rgba(255,255,255,0.4)' }}>
+            Zaloguj się, aby tworzyć turnieje i się do nich zapisywać.
+          </div>
+        )}
+
+        <div style={{ fontSize: '0.65rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)', marginBottom: 8 }}>AKTUALNE</div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 24 }}>
+          {loading && <div style={{ color: 'rgba(255,255,255,0.3)', fontSize: '0.8rem' }}>Ładowanie…</div>}
+          {!loading && active.length === 0 && <div style={{ color: 'rgba(255,255,255,0.2)', fontSize: '0.8rem' }}>Brak otwartych turniejów</div>}
+          {active.map(row)}
+        </div>
+
+        <div style={{ fontSize: '0.65rem', letterSpacing: 3, color: 'rgba(255,255,255,0.4)', marginBottom: 8 }}>HISTORIA</div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+          {!loading && history.length === 0 && <div style={{ color: 'rgba(255,255,255,0.2)', fontSize: '0.8rem' }}>Nie rozegrano jeszcze żadnego turnieju</div>}
+          {history.map(row)}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { normalizeCategories, type CategoryWithQuestions } from '../domain/categories'
+import {
+  NEW_PER_SESSION, previewInterval, studyCounts, studyQueue, type ReviewCard, type ReviewGrade,
+} from '../domain/srs'
+import { useReviewCards } from '../hooks/useReviewCards'
+import { fetchRawCategories } from '../lib/categoryService'
+import { getPublicImageUrl } from '../lib/supabase'
+import { buildMatchData, isAnswerMatchFast } from '../lib/useSpeechRecognition'
+import { useAuthStore } from '../store/useAuthStore'
+import type { Question } from '../types'
+
+const GRADES: { grade: ReviewGrade; label: string; color: string }[] = [
+  { grade: 'again', label: 'NIE WIEM', color: '#f87171' },
+  { grade: 'hard',  label: 'TRUDNE',   color: '#facc15' },
+  { grade: 'good',  label: 'DOBRZE',   color: '#4ade80' },
+  { grade: 'easy',  label: 'ŁATWE',    color: '#60a5fa' },
+]
+
+const intervalLabel = (days: number) => days === 0 ? '< 10 min' : days === 1 ? '1 dzień' : `${days} dni`
+
+interface Session {
+  category: CategoryWithQuestions
+  queue:    ReviewCard[]
+  reviewed: number
+  missed:   number
+}
+
+/** A session on `category`: the cards due now, then a few new ones. */
+function openSession(category: CategoryWithQuestions, cards: Record<string, ReviewCard>): Session {
+  return { category, queue: studyQueue(category.questions.map(q => q.id), cards, Date.now()), reviewed: 0, missed: 0 }
+}
+
+export default function Training() {
+  const { user } = useAuthStore()
+  // Karty należą do gracza — zmiana konta montuje trening od nowa
+  return <TrainingPage key={user?.id ?? 'guest'} playerId={user?.id ?? null} />
+}
+
+function TrainingPage({ playerId }: { playerId: string | null }) {
+  const navigate = useNavigate()
+  const [categories,  setCategories]  = useState<CategoryWithQuestions[] | null>(null)
+  const [questionIds, setQuestionIds] = useState<ReadonlySet<string> | null>(null)
+  const { cards, sync, review } = useReviewCards(playerId, questionIds)
+  const [session,     setSession]     = useState<Session | null>(null)
+  const [now,         setNow]         = useState(() => Date.now())   // chwila, dla której liczymy „do powtórki"
+
+  useEffect(() => {
+    fetchRawCategories().then(raw => {
+      const all = normalizeCategories(raw ?? [])
+      setCategories(all.filter(c => c.questions.length > 0))
+      // Tylko z udanego odczytu — pusta lista wyrzuciłaby wszystkie karty
+      if (raw) setQuestionIds(new Set(all.flatMap(c => c.questions.map(q => q.id))))
+    })
+  }, [])
+
+  const start = (category: CategoryWithQuestions) => setSession(openSession(category, cards))
+
+  const grade = (card: ReviewCard, g: ReviewGrade) => {
+    const next = review(card, g)
+    setSession(s => s && {
+      ...s,
+      queue:    [...s.queue.slice(1), ...(g === 'again' ? [next] : [])],
+      reviewed: s.reviewed + 1,
+      missed:   s.missed + (g === 'again' ? 1 : 0),
+    })
+  }
+
+  const close = () => { setSession(null); setNow(Date.now()) }
+
+  const syncNote = sync === 'account' ? '☁ Postęp zapisany na koncie'
+    : sync === 'syncing' ? '⏳ Synchronizacja z kontem…'
+    : playerId ? '⚠ Brak połączenia z kontem — postęp zapisany na tym urządzeniu'
+    : 'Postęp zapisany na tym urządzeniu · zaloguj się, aby mieć go wszędzie'
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#080808', fontFamily: "'Montserrat',sans-serif", color: '#fff', padding: '24px 20px' }}>
+      <div style={{ maxWidth: 700, margin: '0 auto' }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
+          <div>
+            <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '2.4rem', letterSpacing: 8, color: '#D4AF37' }}>TRENING</div>
+            <div style={{ fontSize: '0.72rem', letterSpacing: 2, color: 'rgba(255,255,255,0.3)' }}>NAUKA ZDJĘĆ Z POWTÓRKAMI</div>
+            <div style={{ fontSize: '0.65rem', letterSpacing: 1, color: 'rgba(255,255,255,0.35)', marginTop: 2 }}>{syncNote}</div>
+          </div>
+          <button onClick={() => session ? close() : navigate(-1)} style={{ background: 'none', border: 'none', color: 'rgba(255,255,255,0.3)', cursor: 'pointer', fontSize: '0.78rem', letterSpacing: 2 }}>
+            WRÓĆ
+          </button>
+        </div>
+
+        {session ? (
+          <div style={{ padding: 16, background: 'rgba(212,175,55,0.04)', border: '1px solid rgba(212,175,55,0.15)', borderRadius: 12 }}>
+            {session.queue.length > 0
+              ? <StudyCard
+                  key={`${session.queue[0].questionId}:${session.reviewed}`}
+                  card={session.queue[0]}
+                  question={session.category.questions.find(q => q.id === session.queue[0].questionId)!}
+                  label={`${session.category.emoji} ${session.category.name}`}
+                  left={session.queue.length}
+                  onGrade={grade}
+                />
+              : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 10, alignItems: 'center', textAlign: 'center', padding: '20px 0' }}>
+                  <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '2rem', letterSpacing: 5, color: '#D4AF37' }}>
+                    {session.reviewed > 0 ? '✓ NA DZIŚ WSZYSTKO' : 'NIC DO POWTÓRKI'}
+                  </div>
+                  <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.45)' }}>
+                    {session.reviewed > 0
+                      ? `Ocenione karty: ${session.reviewed} · do poprawki w trakcie: ${session.missed}`
+                      : 'Wszystkie karty tej kategorii czekają na swój termin.'}
+                  </div>
+                  <button onClick={close} style={{ marginTop: 6, padding: '10px 28px', borderRadius: 10, background: 'transparent', border: '1px solid rgba(255,255,255,0.15)', color: 'rgba(255,255,255,0.6)', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 4, cursor: 'pointer' }}>
+                    ← KATEGORIE
+                  </button>
+                </div>
+              )}
+          </div>
+        ) : categories === null ? (
+          <div style={{ textAlign: 'center', padding: '40px 0', color: 'rgba(255,255,255,0.3)' }}>Ładowanie…</div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            {categories.length === 0 && <div style={{ color: 'rgba(255,255,255,0.3)', fontSize: '0.8rem' }}>Brak kategorii z pytaniami</div>}
+            {categories.map(c => {
+              const { due, fresh } = studyCounts(c.questions.map(q => q.id), cards, now)
+              const ready = due + Math.min(fresh, NEW_PER_SESSION)
+              return (
+                <button key={c.id} onClick={() => start(c)} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '12px 16px', borderRadius: 10, background: 'rgba(255,255,255,0.02)', border: `1px solid ${ready > 0 ? 'rgba(212,175,55,0.25)' : 'rgba(255,255,255,0.06)'}`, color: '#fff', cursor: 'pointer', textAlign: 'left' }}>
+                  <span style={{ flex: 1, fontSize: '0.9rem' }}>{c.emoji} {c.name}</span>
+                  <span style={{ width: 100, textAlign: 'right', fontSize: '0.72rem', color: due > 0 ? '#D4AF37' : 'rgba(255,255,255,0.3)' }}>🔁 {due} do powtórki</span>
+                  <span style={{ width: 70, textAlign: 'right', fontSize: '0.72rem', color: 'rgba(255,255,255,0.35)' }}>✨ {fresh} nowych</span>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface StudyCardProps {
+  card:     ReviewCard
+  question: Question
+  /** Category of the card, e.g. "🎬 FILMY". */
+  label:    string
+  /** Cards left in the session, this one included. */
+  left:     number
+  onGrade:  (card: ReviewCard, grade: ReviewGrade) => void
+}
+
+/** One flashcard: the photo, an optional guess, then the answer and the four grades. */
+function StudyCard({ card, question, label, left, onGrade }: StudyCardProps) {
+  const [guess,    setGuess]    = useState('')
+  const [revealed, setRevealed] = useState(false)
+  const [shownAt]               = useState(() => Date.now())
+
+  const match    = useMemo(() => buildMatchData(question.answer, question.synonyms), [question])
+  const imageUrl = question.image_path ? getPublicImageUrl(question.image_path) : ''
+  const guessed  = guess.trim() ? isAnswerMatchFast(guess, match) : null
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontFamily: "'Bebas Neue',sans-serif", letterSpacing: 3 }}>
+        <span style={{ fontSize: '1.1rem', color: '#fff' }}>{label}</span>
+        <span style={{ fontSize: '0.85rem', color: 'rgba(255,255,255,0.4)' }}>{card.reviewedAt === 0 ? '✨ NOWA' : '🔁 POWTÓRKA'} · zostało {left}</span>
+      </div>
+
+      <div style={{ height: 300, background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.08)', borderRadius: 12, display: 'flex', alignItems: 'center', justifyContent: 'center', overflow: 'hidden' }}>
+        {imageUrl
+          ? <img src={imageUrl} alt="question" style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain', userSelect: 'none' }} draggable={false} />
+          : <span style={{ color: 'rgba(255,255,255,0.2)', fontSize: '0.8rem' }}>Brak zdjęcia</span>}
+      </div>
+
+      {!revealed ? (
+        <div style={{ display: 'flex', gap: 8 }}>
+          <input
+            autoFocus value={guess} placeholder="Twoja odpowiedź (opcjonalnie)…"
+            onChange={e => setGuess(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') setRevealed(true) }}
+            style={{ flex: 1, padding: '10px 12px', background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff', fontSize: '0.95rem', outline: 'none' }}
+          />
+          <button onClick={() => setRevealed(true)} style={{ padding: '0 18px', borderRadius: 8, background: 'rgba(212,175,55,0.12)', border: '1px solid rgba(212,175,55,0.45)', color: '#D4AF37', fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 3, cursor: 'pointer' }}>
+            POKAŻ ODPOWIEDŹ
+          </button>
+        </div>
+      ) : (
+        <>
+          <div style={{ textAlign: 'center' }}>
+            <div style={{ fontFamily: "'Bebas Neue',sans-serif", fontSize: '2rem', letterSpacing: 4, color: '#D4AF37' }}>{question.answer}</div>
+            {question.synonyms.length > 0 && (
+              <div style={{ fontSize: '0.72rem', color: 'rgba(255,255,255,0.4)' }}>także: {question.synonyms.join(', ')}</div>
+            )}
+            {guessed !== null && (
+              <div style={{ marginTop: 6, fontSize: '0.8rem', color: guessed ? '#4ade80' : '#f87171' }}>
+                {guessed ? `✓ „${guess.trim()}" — zaliczone` : `✗ „${guess.trim()}" — to nie to`}
+              </div>
+            )}
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 6 }}>
+            {GRADES.map(({ grade, label: text, color }) => (
+              <button key={grade} onClick={() => onGrade(card, grade)} style={{ padding: '10px 0', borderRadius: 8, background: `${color}14`, border: `1px solid ${color}55`, color, fontFamily: "'Bebas Neue',sans-serif", fontSize: '1rem', letterSpacing: 2, cursor: 'pointer' }}>
+                {text}
+                <div style={{ fontFamily: "'Montserrat',sans-serif", fontSize: '0.6rem', letterSpacing: 0, opacity: 0.7 }}>{intervalLabel(previewInterval(card, grade, shownAt))}</div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,11 @@ import { useEffect, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAuthStore, AVATAR_OPTIONS } from '../store/useAuthStore'
 import { supabase } from '../lib/supabase'
+import { fetchRawCategories } from '../lib/categoryService'
+import { normalizeCategories } from '../domain/categories'
+import { formatClock } from '../domain/clock'
+import { parseSoloBestKey } from '../domain/solo'
+import type { Category } from '../types'
 
 interface RecentGame { id: string; opponent: string; result: 'win'|'loss'|'draw'; host_score: number; guest_score: number; played_at: string }
 interface GameHistoryRow { id: string; winner_id: string; loser_id: string; winner_score: number; loser_score: number; is_draw: boolean; played_at: string }
@@ -17,10 +22,14 @@ export default function UserProfile() {
   const [busy, setBusy]           = useState(false)
   const [msg, setMsg]             = useState('')
   const [games, setGames]         = useState<RecentGame[]>([])
+  const [categories, setCategories] = useState<Map<string, Category>>(new Map())
   const fileRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => { if (!user) navigate('/login') }, [user, navigate])
   useEffect(() => { if (user) { refreshProfile(); loadHistory() } }, [])
+  useEffect(() => {
+    fetchRawCategories().then(raw => setCategories(new Map(normalizeCategories(raw ?? []).map(c => [c.id, c]))))
+  }, [])
 
   const loadHistory = async () => {
     if (!user) return
@@ -70,6 +79,9 @@ export default function UserProfile() {
   const winRate = user.wins + user.losses > 0 ? Math.round((user.wins / (user.wins + user.losses)) * 100) : 0
   const level   = Math.floor(user.xp / 100) + 1
   const xpPct   = (user.xp % 100)
+  const soloBests = Object.entries(user.solo_bests ?? {})
+    .flatMap(([key, best]) => { const k = parseSoloBestKey(key); return k ? [{ ...k, best, category: categories.get(k.categoryId) }] : [] })
+    .sort((a, b) => (a.category?.name ?? '').localeCompare(b.category?.name ?? '', 'pl') || a.ms - b.ms)
 
   // `tabStyle`/`btnStyle` are style factories (depend on runtime state) and so
   // live outside the static style map, which stays strictly typed.
@@ -199,6 +211,23 @@ export default function UserProfile() {
                 <div style={S.statLbl}>PUNKTY XP</div>
               </div>
             </div>
+            <div style={{ marginTop:16 }}>
+              <div style={{ fontSize:'0.68rem', letterSpacing:2, color:'rgba(255,255,255,0.35)', marginBottom:8 }}>🎯 REKORDY SOLO</div>
+              {soloBests.length === 0 ? (
+                <div style={{ display:'flex', alignItems:'center', justifyContent:'space-between', fontSize:'0.78rem', color:'rgba(255,255,255,0.3)' }}>
+                  <span>Brak rekordów — zagraj bieg na czas w trybie solo</span>
+                  <button onClick={() => navigate('/solo')} style={{ ...btnStyle(), fontSize:'0.75rem', padding:'6px 14px' }}>🎯 SOLO</button>
+                </div>
+              ) : soloBests.map(({ categoryId, ms, best, category }) => (
+                <div key={`${categoryId}:${ms}`} style={{ display:'flex', alignItems:'center', gap:12, padding:'8px 0', borderBottom:'1px solid rgba(255,255,255,0.04)' }}>
+                  <div style={{ flex:1, fontSize:'0.82rem', color:'rgba(255,255,255,0.7)' }}>{category ? `${category.emoji} ${category.name}` : '???'}</div>
+                  <div style={{ width:44, fontSize:'0.72rem', color:'rgba(255,255,255,0.35)' }}>{ms / 1000} s</div>
+                  <div style={{ width:44, textAlign:'right', fontFamily:"'Bebas Neue',sans-serif", fontSize:'1rem', color:'#D4AF37' }}>✓ {best.score}</div>
+                  <div style={{ width:52, textAlign:'right', fontSize:'0.72rem', color:'rgba(255,255,255,0.35)' }}>{formatClock(best.timeLeftMs)} s</div>
+                  <div style={{ width:72, textAlign:'right', fontSize:'0.72rem', color:'rgba(255,255,255,0.3)' }}>{new Date(best.at).toLocaleDateString('pl')}</div>
+                </div>
+              ))}
+            </div>
           </div>
         )}
 
@@ -5,6 +5,7 @@
 import { create } from 'zustand'
 import type { Session } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
+import type { SoloBests } from '../domain/solo'
 
 export interface UserProfile {
   id: string
@@ -17,6 +18,9 @@ export interface UserProfile {
   losses: number
   win_streak: number
   best_streak: number
+  rating?: number        // ELO (domain/rating.ts); DB default for fresh profiles
+  rating_games?: number
+  solo_bests?: SoloBests // solo time-attack personal bests (domain/solo.ts)
   status: 'online' | 'offline' | 'in_game'
   last_username_change?: string
   created_at?: string
@@ -59,7 +63,7 @@ export const AVATAR_OPTIONS = AVATARS
 async function loadProfile(userId: string): Promise<UserProfile | null> {
   const { data, error } = await supabase
     .from('profiles')
-    .select('id,username,avatar,avatar_url,xp,wins,losses,win_streak,best_streak,status,last_username_change,created_at')
+    .select('id,username,avatar,avatar_url,xp,wins,losses,win_streak,best_streak,rating,rating_games,solo_bests,status,last_username_change,created_at')
     .eq('id', userId)
     .maybeSingle()
   if (error || !data) return null
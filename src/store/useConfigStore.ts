@@ -11,6 +11,10 @@
 //   - Dodano MUSIC_VOLUME (0–100) i SFX_VOLUME (0–100)
 //   - SoundEngine.init() wywoływane po fetch()
 //
+// Tryb imprezowy:
+//   - partyPlayers: lista 3–12 graczy (domain/party.ts), zapis jak players
+//     (Supabase config row 'PARTY_PLAYERS' + localStorage)
+//
 // NAPRAWA jsonb:
 //   - value może być liczbą, stringiem lub tablicą (jsonb)
 //   - parseNumericValue() i parseTileCategories() obsługują oba formaty
@@ -18,7 +22,8 @@
 import { create } from 'zustand'
 import { SoundEngine } from '../lib/SoundEngine'
 import { getCachedStale, invalidateCache, setCached, supabase } from '../lib/supabase'
-import { parseNumericValue, parsePlayers, parseTileCategories } from '../domain/config'
+import { parseNumericValue, parsePartyPlayers, parsePlayers, parseTileCategories } from '../domain/config'
+import { defaultSeat } from '../domain/party'
 import { GameConfig, PlayerSettings } from '../types'
 
 export const DEFAULTS: GameConfig = {
@@ -36,6 +41,17 @@ export const DEFAULTS: GameConfig = {
 	RANDOM_TILES: 0,
 	MAX_PASSES: 0,
 	LOTTERY_PICK: 0,
+	RULES_MODE: 0,
+	PARTY_MODE: 0,
+	// Warunek zwycięstwa (domain/board.ts): lokalnie domyślnie eliminacja
+	VICTORY_MODE: 1,
+	VICTORY_PCT: 75,
+	VICTORY_TILES: 8,
+	// Dogrywka (domain/suddenDeath.ts)
+	SUDDEN_DEATH_DUEL: 0,
+	SUDDEN_DEATH_MATCH: 0,
+	// Bot jako gracz 2 (domain/bot.ts), 0 = dwóch ludzi
+	BOT_LEVEL: 0,
 	// Dźwięk
 	SOUND_VOLUME: 80, // legacy fallback
 	MUSIC_VOLUME: 70,
@@ -46,9 +62,9 @@ export const DEFAULTS: GameConfig = {
 	SHOW_STATS: 1,
 	SHOW_ANSWER_HINT: 0,
 	TILE_FLIP_ANIM: 1,
-	// Tryb rund (przyszłe)
+	// Limity meczu (0 = bez limitu)
 	ROUND_TIMER: 0,
-	MAX_ROUNDS: 10,
+	MAX_ROUNDS: 0,
 
 	MP_DUEL_TIME: 45,
 	MP_PASS_PENALTY: 2,
@@ -57,6 +73,10 @@ export const DEFAULTS: GameConfig = {
 	MP_XP_WIN: 10,
 	MP_XP_DRAW: 5,
 	MP_XP_LOSS: 0,
+	MP_XP_FORFEIT_PCT: 50,
+	MP_XP_MARGIN_BONUS: 0,
+	MP_XP_STREAK_BONUS: 0,
+	MP_XP_STREAK_CAP: 5,
 }
 
 export const BOARD_PRESETS: Record<number, { cols: number; rows: number; label: string; custom?: boolean }> = {
@@ -96,21 +116,28 @@ export const DEFAULT_PLAYERS: [PlayerSettings, PlayerSettings] = [
 	{ name: 'SREBRNY', color: '#C0C0C0' },
 ]
 
+export const DEFAULT_PARTY: PlayerSettings[] = [0, 1, 2, 3].map(defaultSeat)
+
 const TILE_CATEGORIES_KEY = 'TILE_CATEGORIES'
 const PLAYER_SETTINGS_KEY = 'PLAYER_SETTINGS' // nowy klucz w tabeli config
+const PARTY_PLAYERS_KEY = 'PARTY_PLAYERS'
 const LS_PLAYERS_KEY = 'thefloor_players'
+const LS_PARTY_KEY = 'thefloor_party'
 const CACHE_KEY_CFG = 'config_all_v2'
 const CACHE_TTL_CFG = 10 * 60 * 1000
 
 interface ConfigStore {
 	config: GameConfig
 	players: [PlayerSettings, PlayerSettings]
+	/** Gracze trybu imprezowego (3–12), indeks = miejsce `pN` na planszy. */
+	partyPlayers: PlayerSettings[]
 	tileCategories: string[]
 	loading: boolean
 
 	fetch: () => Promise<void>
 	update: (key: keyof GameConfig, value: number) => Promise<void>
 	updatePlayer: (idx: 0 | 1, field: keyof PlayerSettings, value: string) => Promise<void>
+	setPartyPlayers: (party: PlayerSettings[]) => Promise<void>
 	setTileCategory: (tileIdx: number, categoryId: string, totalTiles: number) => Promise<void>
 	resetTileCategories: () => Promise<void>
 	resetAll: () => Promise<void>
@@ -119,6 +146,7 @@ interface ConfigStore {
 export const useConfigStore = create<ConfigStore>((set, get) => ({
 	config: DEFAULTS,
 	players: DEFAULT_PLAYERS,
+	partyPlayers: DEFAULT_PARTY,
 	tileCategories: [],
 	loading: false,
 
@@ -130,9 +158,13 @@ export const useConfigStore = create<ConfigStore>((set, get) => ({
 				config: GameConfig
 				tileCategories: string[]
 				players: [PlayerSettings, PlayerSettings]
+				partyPlayers?: PlayerSettings[]
 			}>(CACHE_KEY_CFG, CACHE_TTL_CFG)
 			if (cached) {
-				set({ config: cached.data.config, tileCategories: cached.data.tileCategories, players: cached.data.players })
+				set({
+					config: cached.data.config, tileCategories: cached.data.tileCategories, players: cached.data.players,
+					partyPlayers: cached.data.partyPlayers ?? DEFAULT_PARTY,
+				})
 				SoundEngine.init(cached.data.config.MUSIC_VOLUME, cached.data.config.SFX_VOLUME)
 				// If cache is fresh, skip network fetch entirely
 				if (cached.fresh) { set({ loading: false }); return }
@@ -145,6 +177,7 @@ export const useConfigStore = create<ConfigStore>((set, get) => ({
 				let tileCats: string[] = []
 				let players: [PlayerSettings, PlayerSettings] = [...DEFAULT_PLAYERS] as [PlayerSettings, PlayerSettings]
 				let playersFromSupabase = false
+				let partyPlayers: PlayerSettings[] | null = null
 
 				data.forEach(({ key, value }: { key: string; value: unknown }) => {
 					if (key === TILE_CATEGORIES_KEY) {
@@ -155,6 +188,8 @@ export const useConfigStore = create<ConfigStore>((set, get) => ({
 							players = p
 							playersFromSupabase = true
 						}
+					} else if (key === PARTY_PLAYERS_KEY) {
+						partyPlayers = parsePartyPlayers(value)
 					} else if (key in merged) {
 						const n = parseNumericValue(value)
 						if (n !== null) (merged as Record<string, number>)[key] = n
@@ -171,12 +206,18 @@ export const useConfigStore = create<ConfigStore>((set, get) => ({
 						}
 					} catch { /* ignore */ }
 				}
+				if (!partyPlayers) {
+					try {
+						partyPlayers = parsePartyPlayers(localStorage.getItem(LS_PARTY_KEY))
+					} catch { /* ignore */ }
+				}
+				const party = partyPlayers ?? DEFAULT_PARTY
 
 				// Aktualizuj SoundEngine
 				SoundEngine.init(merged.MUSIC_VOLUME, merged.SFX_VOLUME)
 
-				setCached(CACHE_KEY_CFG, { config: merged, tileCategories: tileCats, players })
-				set({ config: merged, tileCategories: tileCats, players })
+				setCached(CACHE_KEY_CFG, { config: merged, tileCategories: tileCats, players, partyPlayers: party })
+				set({ config: merged, tileCategories: tileCats, players, partyPlayers: party })
 			}
 		} catch (e) {
 			// Fallback: localStorage
@@ -186,6 +227,8 @@ export const useConfigStore = create<ConfigStore>((set, get) => ({
 					const p = parsePlayers(ls, DEFAULT_PLAYERS)
 					if (p) set({ players: p })
 				}
+				const party = parsePartyPlayers(localStorage.getItem(LS_PARTY_KEY))
+				if (party) set({ partyPlayers: party })
 			} catch { /* ignore */ }
 			console.warn('[Config] Błąd Supabase, używam defaults:', e)
 		}
@@ -236,6 +279,19 @@ export const useConfigStore = create<ConfigStore>((set, get) => ({
 		}
 	},
 
+	setPartyPlayers: async (party) => {
+		set({ partyPlayers: party })
+		try {
+			localStorage.setItem(LS_PARTY_KEY, JSON.stringify(party))
+		} catch { /* ignore */ }
+		try {
+			await supabase.from('config').upsert({ key: PARTY_PLAYERS_KEY, value: party })
+			invalidateCache(CACHE_KEY_CFG)
+		} catch (e) {
+			console.warn('[Config] Nie udało się zapisać graczy party do Supabase:', e)
+		}
+	},
+
 	setTileCategory: async (tileIdx, categoryId, totalTiles) => {
 		const current = [...get().tileCategories]
 		while (current.length < totalTiles) current.push('')
@@ -257,9 +313,10 @@ export const useConfigStore = create<ConfigStore>((set, get) => ({
 		await supabase.from('config').upsert(rows)
 		try {
 			localStorage.removeItem(LS_PLAYERS_KEY)
+			localStorage.removeItem(LS_PARTY_KEY)
 		} catch { /* ignore */ }
 		invalidateCache(CACHE_KEY_CFG)
 		SoundEngine.init(DEFAULTS.MUSIC_VOLUME, DEFAULTS.SFX_VOLUME)
-		set({ config: DEFAULTS, players: DEFAULT_PLAYERS, tileCategories: [] })
+		set({ config: DEFAULTS, players: DEFAULT_PLAYERS, partyPlayers: DEFAULT_PARTY, tileCategories: [] })
 	},
 }))
@@ -6,15 +6,41 @@
 //   - pass() inkrementuje passCount
 //   - startChallenge() inicjalizuje passCount: 0
 //   - restoreSession() przywraca passCount
+//   - zegary pojedynku to deadline'y (domain/clock.ts) na performance.now():
+//     startClock() je uruchamia, expireClock() woła useDuelLogic w deadline
+//   - tryb terytoriów (RULES_MODE = 1, domain/territory.ts): picker atakuje
+//     tylko sąsiednie pole przeciwnika, zwycięzca przejmuje całe terytorium
+//   - tryb imprezowy (PARTY_MODE = 1, domain/party.ts): 3–12 graczy, pola
+//     `pN`; pojedynek toczą picker i właściciel wybranego pola (duel.owners)
+//   - limity meczu (MAX_ROUNDS, ROUND_TIMER, domain/matchLimit.ts): po N
+//     pojedynkach lub po czasie meczu wygrywa prowadzący (matchEnd)
+//   - warunek zwycięstwa (VICTORY_MODE, domain/board.ts): próg, eliminacja,
+//     pierwszy do N pól albo pełna plansza (w terytoriach zawsze eliminacja)
+//   - dogrywka (SUDDEN_DEATH_DUEL / _MATCH, domain/suddenDeath.ts): remis w
+//     pojedynku → runda na refleks (duel.buzzer), remis w meczu → pojedynek
+//     o wszystko na losowej kategorii (showdown)
+//   - bot (BOT_LEVEL, domain/bot.ts): gracz 2 (srebrny) to bot — na swoim
+//     ruchu wybiera pole (botPick), odpowiada w useDuelLogic
+//   - ziarno gry (seed, domain/random.ts): z niego losowane są plansza,
+//     pytania, losowanie pola i dogrywka — newGame(seed) powtarza grę
 // ─────────────────────────────────────────────────────────────────────────────
 import { create } from 'zustand'
 import { getCachedStale, setCached } from '../lib/supabase'
 import { clearGameState, loadGameState, saveGameState } from '../lib/persistence'
 import { fetchRawCategories } from '../lib/categoryService'
-import { Category, DuelState, Question, Tile, TileOwner } from '../types'
+import { Category, DuelState, GameConfig, Question, Tile, TileOwner } from '../types'
 import { normalizeCategories } from '../domain/categories'
-import { computeStats, shuffle } from '../domain/board'
+import { boardVictor, computeStats, countOwned, DEFAULT_VICTORY, shuffle, victoryFromConfig } from '../domain/board'
 import { pickNextQuestionId } from '../domain/questions'
+import { chargeClock, remainingAt, runClock, stopClock, stoppedClock, type DuelClock } from '../domain/clock'
+import { canChallenge, resolveTerritoryRound, seedTerritories, type Side } from '../domain/territory'
+import { partyWinner, pickerAfterDuel, playerOf, seatOwner, seedParty } from '../domain/party'
+import {
+  limitLeader, limitReached, limitsFromConfig, matchTimeLeft, tallyWin, type DuelTally, type MatchEnd,
+} from '../domain/matchLimit'
+import { showdownSides, showdownTile, suddenDeathFromConfig } from '../domain/suddenDeath'
+import { botFromConfig, botTarget } from '../domain/bot'
+import { newSeed, randInt, streamRng } from '../domain/random'
 import { CATEGORY_EMOJI, getCatEmoji } from '../domain/emoji'
 import { getBoardDimensions, useConfigStore } from './useConfigStore'
 
@@ -33,10 +59,24 @@ interface GameStore {
   showStats:  boolean
   /** Indeksy kafelków rozegranych w bieżącej grze (zerowane przez newGame). */
   playedTileIndices: number[]
+  /** Kto wybiera następne pole — przegrany ostatniego pojedynku (w terytoriach i party: atakujący). */
+  picker:     Side
+  /** Rozegrane pojedynki (z remisami) i wygrane per gracz — do limitów meczu. */
+  roundsPlayed: number
+  duelsWon:     DuelTally
+  /** Zegar meczu (ROUND_TIMER); null = bez zegara. */
+  matchClock:   DuelClock | null
+  /** Mecz zakończony (plansza albo limit) — do Nowej Gry nie ma kolejnych pojedynków. */
+  matchEnd:     MatchEnd<Side> | null
+  /** Dogrywka meczu po remisie; winner ustawia rozstrzygnięty pojedynek o wszystko. */
+  showdown:     { winner: Side | null } | null
+  /** Ziarno gry (domain/random.ts) — ta sama wartość daje tę samą planszę i te same pytania. */
+  seed:         number
 
   loadCategories:    () => Promise<void>
   restoreSession:    () => Promise<boolean>
-  newGame:           () => void
+  /** Nowa gra; z podanym ziarnem — powtórka tamtej. */
+  newGame:           (seed?: number) => void
   setCursor:         (idx: number) => void
   moveCursor:        (dir: 'up' | 'down' | 'left' | 'right') => void
   startChallenge:    () => void
@@ -47,12 +87,24 @@ interface GameStore {
   closeDuel:         () => void
   showToast:         (text: string) => void
   toggleStats:       () => void
-  tick:              () => void
+  /** Zdejmuje pauzę i uruchamia zegar aktywnego gracza. */
+  startClock:        () => void
+  /**
+   * Wołane w deadline aktywnego zegara. Zwraca ms, które jeszcze zostały
+   * (timer odpalił za wcześnie), albo 0 — zegar stanął, pojedynek zamrożony.
+   */
+  expireClock:       () => number
   nextQuestion:      () => Question | null
   endDuelWithWinner: (winnerNum: 1 | 2) => void
   endDuelDraw:       () => void
+  /** Remis w pojedynku → runda na refleks, jeśli dogrywka jest włączona (albo to pojedynek o wszystko). */
+  startBuzzer:       () => boolean
   /** Losuje kursor z nierozegranych kafelków. Po wyczerpaniu — restart cyklu. */
   lotteryPick:       () => void
+  /** Bot na ruchu (picker srebrny) wybiera pole i otwiera pojedynek. */
+  botPick:           () => void
+  /** Kończy mecz, jeśli plansza jest rozstrzygnięta albo minął limit rund lub czas meczu (poza pojedynkiem). */
+  checkMatchEnd:     () => void
 }
 
 // ═════════════════════════════════════════════════════════════════════════════
@@ -63,6 +115,8 @@ let _correctLock = false
 let _lastPassedQuestionId: string | null = null
 let _lastPassTime = 0
 const PASS_DEBOUNCE_MS = 400
+// Wynik pojedynku już zapisany — w terytoriach drugie wywołanie przejęłoby kolejny region
+let _duelResolved = false
 
 function resetPassLocks() {
   _passLock             = false
@@ -73,6 +127,72 @@ function resetPassLocks() {
 // ─────────────────────────────────────────────────────────────────────────────
 // Cache
 // ─────────────────────────────────────────────────────────────────────────────
+const clockKey = (active: 1 | 2) => active === 1 ? 'clock1' as const : 'clock2' as const
+
+// Aktywny zegar stanął na zero: zamroź pojedynek (useDuelLogic ogłasza wynik)
+function expired(duel: DuelState): DuelState {
+  return { ...duel, [clockKey(duel.active)]: stoppedClock(0), paused: true }
+}
+
+const territoryRules = () => useConfigStore.getState().config.RULES_MODE === 1
+// Lista graczy party, gdy tryb imprezowy jest włączony; null = gra dwuosobowa
+const partyRoster = () => {
+  const { config, partyPlayers } = useConfigStore.getState()
+  return config.PARTY_MODE === 1 ? partyPlayers : null
+}
+// Gracz (nazwa, kolor) stojący za właścicielem pola
+const playerFor = (owner: Side) => {
+  const { players, partyPlayers } = useConfigStore.getState()
+  return playerOf(owner, players, partyPlayers)
+}
+
+// Zegar meczu: timer odpala checkMatchEnd w deadline (między pojedynkami kończy mecz)
+let _matchTimer: ReturnType<typeof setTimeout> | null = null
+function armMatchTimer(clock: DuelClock | null) {
+  if (_matchTimer) { clearTimeout(_matchTimer); _matchTimer = null }
+  const left = matchTimeLeft(clock, performance.now())
+  if (left !== null) _matchTimer = setTimeout(() => useGameStore.getState().checkMatchEnd(), left)
+}
+
+// Strony liczone przy końcu meczu: wszyscy gracze party albo złoty i srebrny
+const matchSides = (): Side[] => {
+  const party = partyRoster()
+  return party ? party.map((_, seat) => seatOwner(seat)) : ['gold', 'silver']
+}
+
+// Nowy pojedynek o pole `tileIdx` między `owners`; null, gdy kategoria nie ma pytań
+function duelOn(tileIdx: number, owners: [Side, Side], cfg: GameConfig): DuelState | null {
+  const { tiles, categories } = useGameStore.getState()
+  const tile      = tiles[tileIdx]
+  const cat       = categories.find(c => c.id === tile?.categoryId)
+  const questions = cat?.questions ?? []
+  if (!tile || questions.length === 0) return null
+  return {
+    tileIdx, categoryId: tile.categoryId, categoryName: tile.categoryName,
+    emoji: getCatEmoji(tile.categoryName, cat?.emoji), lang: cat?.lang ?? 'pl-PL',
+    questions, usedIds: new Set(), owners,
+    clock1: stoppedClock(cfg.DUEL_TIME * 1000), clock2: stoppedClock(cfg.DUEL_TIME * 1000),
+    active: 1, paused: false, started: false, currentQuestion: null,
+    passCount: 0,
+  }
+}
+
+// Dogrywka meczu: pojedynek o wszystko dwóch prowadzących na losowej kategorii.
+// false, gdy nie ma kim albo na czym grać.
+function openShowdown(): boolean {
+  const { tiles, categories, duelsWon, seed } = useGameStore.getState()
+  const order = matchSides()
+  const sides = showdownSides(tiles, order, duelsWon)
+  const idx   = showdownTile(tiles, id => (categories.find(c => c.id === id)?.questions.length ?? 0) > 0, streamRng(seed, 'showdown'))
+  if (!sides || idx === null) return false
+  sides.sort((a, b) => order.indexOf(a) - order.indexOf(b))
+  const duel = duelOn(idx, sides, useConfigStore.getState().config)
+  if (!duel) return false
+  useGameStore.setState(s => ({ showdown: s.showdown ?? { winner: null }, cursor: idx, duel }))
+  resetPassLocks(); _correctLock = false; _duelResolved = false
+  return true
+}
+
 const CACHE_KEY_CATS = 'categories_all'
 const CACHE_TTL_CATS = 10 * 60 * 1000
 
@@ -86,6 +206,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
   toastTimer: null,
   showStats:  true,
   playedTileIndices: [],
+  picker:     'gold',
+  roundsPlayed: 0,
+  duelsWon:     {},
+  matchClock:   null,
+  matchEnd:     null,
+  showdown:     null,
+  seed:         0,
 
   loadCategories: async () => {
     const needsNewGame = () => get().tiles.length === 0
@@ -148,12 +275,23 @@ export const useGameStore = create<GameStore>((set, get) => ({
       }
     })
 
+    const match = saved.match
+    const savedClock = typeof match?.clockMs === 'number' ? stoppedClock(match.clockMs) : null
     set({
       categories,
       tiles:     patched,
       cursor:    Math.min(Math.max(saved.cursor, 0), expectedTotal - 1),
       showStats: saved.showStats,
+      picker:    typeof saved.picker === 'string' ? saved.picker : 'gold',
+      // Zegar meczu rusza od chwili wznowienia z czasem z zapisu
+      roundsPlayed: match?.roundsPlayed ?? 0,
+      duelsWon:     match?.duelsWon ?? {},
+      matchClock:   savedClock && !match?.end ? runClock(savedClock, performance.now()) : savedClock,
+      matchEnd:     match?.end ?? null,
+      showdown:     match?.showdown ?? null,
+      seed:         match?.seed ?? newSeed(),
     })
+    if (!get().matchEnd) armMatchTimer(get().matchClock)
 
     if (saved.duel) {
       const sd  = saved.duel
@@ -168,12 +306,14 @@ export const useGameStore = create<GameStore>((set, get) => ({
           lang:            cat?.lang ?? 'pl-PL',
           questions,
           usedIds:         new Set(sd.usedIds),
-          timer1:          sd.timer1,
-          timer2:          sd.timer2,
+          owners:          sd.owners ?? ['gold', 'silver'],
+          clock1:          stoppedClock(sd.timer1 * 1000),
+          clock2:          stoppedClock(sd.timer2 * 1000),
           active:          sd.active,
           paused:          true,
           started:         sd.started,
           passCount:       (sd as { passCount?: number }).passCount ?? 0,
+          buzzer:          sd.buzzer,
           currentQuestion: sd.started
             ? (sd.currentQuestionId ? (questions.find(q => q.id === sd.currentQuestionId) ?? null) : null)
             : null,
@@ -183,7 +323,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     return true
   },
 
-  newGame: () => {
+  newGame: (seed = newSeed()) => {
     const { categories } = get()
     const cfg            = useConfigStore.getState().config
     const { tileCategories } = useConfigStore.getState()
@@ -196,22 +336,31 @@ export const useGameStore = create<GameStore>((set, get) => ({
     if (hasTileMap && cfg.RANDOM_TILES !== 1) {
       catList = tileCategories.slice(0, total).map(catId => catId ? categories.find(c => c.id === catId) : undefined)
     } else if (cfg.RANDOM_TILES === 1 && categories.length > 0) {
-      const pool = shuffle(categories)
+      const pool = shuffle(categories, streamRng(seed, 'board'))
       catList = Array.from({ length: total }, (_, i) => pool[i % pool.length])
     } else {
       catList = Array.from({ length: total }, (_, i) => categories[i % Math.max(categories.length, 1)])
     }
 
-    const tiles: Tile[] = catList.map((cat, i) => {
+    const board: Tile[] = catList.map((cat, i) => {
       const x = i % cols
       const y = Math.floor(i / cols)
       return { x, y, categoryId: cat?.id ?? '', categoryName: cat?.name ?? 'Kategoria', owner: (x < cols / 2 ? 'gold' : 'silver') as TileOwner }
     })
+    const party = partyRoster()
+    const tiles = party ? seedParty(board, party.length) : territoryRules() ? seedTerritories(board) : board
 
     const wasEmpty = get().tiles.length === 0
-    set({ tiles, cursor: Math.floor(total / 2) - 1, duel: null, playedTileIndices: [] })
-    if (!wasEmpty) get().showToast('🎮 Nowa gra!')
-    resetPassLocks(); _correctLock = false
+    const { clockMs } = limitsFromConfig(cfg)
+    const matchClock = clockMs > 0 ? runClock(stoppedClock(clockMs), performance.now()) : null
+    set({
+      tiles, cursor: Math.floor(total / 2) - 1, duel: null, playedTileIndices: [], picker: party ? 'p0' : 'gold',
+      roundsPlayed: 0, duelsWon: {}, matchClock, matchEnd: null, showdown: null, seed,
+    })
+    armMatchTimer(matchClock)
+    if (party && party.length > total) get().showToast(`⚠️ ${party.length} graczy na ${total} polach — ostatni zaczynają bez pola`)
+    else if (!wasEmpty) get().showToast(party ? `🎉 Nowa gra — ${party.length} graczy!` : '🎮 Nowa gra!')
+    resetPassLocks(); _correctLock = false; _duelResolved = false
     clearGameState()
   },
 
@@ -230,8 +379,11 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
 
   startChallenge: () => {
-    const { tiles, cursor, categories, duel, playedTileIndices } = get()
+    const { tiles, cursor, duel, playedTileIndices, picker, matchEnd, showdown } = get()
     if (duel) return
+    if (matchEnd) { get().showToast('🏁 Mecz zakończony — N rozpoczyna nową grę'); return }
+    // Trwa dogrywka meczu — gra się tylko pojedynek o wszystko
+    if (showdown) { openShowdown(); return }
     const tile = tiles[cursor]
     if (!tile) return
     const cfg = useConfigStore.getState().config
@@ -239,20 +391,21 @@ export const useGameStore = create<GameStore>((set, get) => ({
       get().showToast('🔒 Ta kategoria została już rozegrana — wybierz inną (L)')
       return
     }
-    const cat       = categories.find(c => c.id === tile.categoryId)
-    const questions = cat?.questions ?? []
-    if (questions.length === 0) { get().showToast('❌ Brak pytań w tej kategorii'); return }
-    set({
-      duel: {
-        tileIdx: cursor, categoryId: tile.categoryId, categoryName: tile.categoryName,
-        emoji: getCatEmoji(tile.categoryName, cat?.emoji), lang: cat?.lang ?? 'pl-PL',
-        questions, usedIds: new Set(),
-        timer1: cfg.DUEL_TIME, timer2: cfg.DUEL_TIME,
-        active: 1, paused: false, started: false, currentQuestion: null,
-        passCount: 0,
-      },
-    })
-    resetPassLocks(); _correctLock = false
+    if (territoryRules() && !canChallenge(tiles, cursor, picker)) {
+      get().showToast('🗺️ Atakować można tylko pole przeciwnika sąsiadujące z własnym terytorium')
+      return
+    }
+    const party = partyRoster()
+    if (party && tile.owner === picker) {
+      get().showToast(`🎯 ${playerFor(picker).name}: wybierz pole innego gracza`)
+      return
+    }
+    // W party walczy picker z właścicielem pola; we dwóch zawsze złoty ze srebrnym
+    const owners: [Side, Side] = party && tile.owner !== 'neutral' ? [picker, tile.owner] : ['gold', 'silver']
+    const newDuel = duelOn(cursor, owners, cfg)
+    if (!newDuel) { get().showToast('❌ Brak pytań w tej kategorii'); return }
+    set({ duel: newDuel })
+    resetPassLocks(); _correctLock = false; _duelResolved = false
   },
 
   startFight: () => {
@@ -261,14 +414,19 @@ export const useGameStore = create<GameStore>((set, get) => ({
     set({ duel: { ...duel, started: true, active: 1, paused: true } })
   },
 
-  tick: () => {
+  startClock: () => {
+    const { duel } = get()
+    if (!duel?.started) return
+    const key = clockKey(duel.active)
+    set({ duel: { ...duel, paused: false, [key]: runClock(duel[key], performance.now()) } })
+  },
+
+  expireClock: () => {
     const { duel } = get()
-    if (!duel?.started || duel.paused) return
-    const key    = duel.active === 1 ? 'timer1' : 'timer2'
-    const newVal = Math.max(0, duel[key] - 1)
-    const updated = { ...duel, [key]: newVal }
-    set({ duel: updated })
-    if (newVal <= 0) set({ duel: { ...updated, paused: true } })
+    if (!duel?.started || duel.paused) return 0
+    const left = remainingAt(duel[clockKey(duel.active)], performance.now())
+    if (left <= 0) set({ duel: expired(duel) })
+    return left
   },
 
   markCorrect: (playerNum) => {
@@ -276,8 +434,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { duel, blockInput } = get()
     if (!duel?.started || blockInput) return
     if (duel.active !== playerNum) return
+    // Odpowiedź po deadline przegrywa z zegarem, nawet jeśli timer jeszcze nie odpalił
+    const key = clockKey(duel.active)
+    const now = performance.now()
+    if (remainingAt(duel[key], now) <= 0) { set({ duel: expired(duel) }); return }
     _correctLock = true
-    set({ blockInput: true })
+    // Zegar odpowiadającego staje w chwili odpowiedzi
+    set({ blockInput: true, duel: { ...duel, [key]: stopClock(duel[key], now) } })
     const cfg = useConfigStore.getState().config
     setTimeout(() => {
       _correctLock = false
@@ -285,7 +448,9 @@ export const useGameStore = create<GameStore>((set, get) => ({
       if (!d) return
       const q = get().nextQuestion()
       _lastPassedQuestionId = null
-      set({ blockInput: false, duel: { ...d, active: (playerNum === 1 ? 2 : 1) as 1 | 2, currentQuestion: q } })
+      const handedOver = { ...d, [key]: stopClock(d[key], performance.now()), active: (playerNum === 1 ? 2 : 1) as 1 | 2, currentQuestion: q }
+      set({ blockInput: false, duel: handedOver })
+      if (!d.paused) get().startClock()
     }, cfg.FEEDBACK_MS)
   },
 
@@ -299,16 +464,27 @@ export const useGameStore = create<GameStore>((set, get) => ({
     if (_lastPassedQuestionId === currentQId) return
     if (now - _lastPassTime < PASS_DEBOUNCE_MS) return
 
+    // Runda na refleks: pas pomija pytanie, bez zegarów i bez kary
+    if (duel.buzzer) {
+      _lastPassedQuestionId = currentQId
+      _lastPassTime         = now
+      set({ duel: { ...duel, currentQuestion: get().nextQuestion() } })
+      return
+    }
+
+    const key     = clockKey(duel.active)
+    const clockTs = performance.now()
+    if (remainingAt(duel[key], clockTs) <= 0) { set({ duel: expired(duel) }); return }
+
     _passLock             = true
     _lastPassedQuestionId = currentQId
     _lastPassTime         = now
     set({ blockInput: true })
 
-    const cfg    = useConfigStore.getState().config
-    const key    = duel.active === 1 ? 'timer1' : 'timer2'
-    const newVal = Math.max(0, duel[key] - cfg.PASS_PENALTY)
-    // Inkrementuj passCount
-    set({ duel: { ...duel, [key]: newVal, passCount: (duel.passCount ?? 0) + 1 } })
+    const cfg   = useConfigStore.getState().config
+    // Zegar staje na czas podpowiedzi, kara schodzi od razu; inkrementuj passCount
+    const clock = chargeClock(stopClock(duel[key], clockTs), cfg.PASS_PENALTY * 1000, clockTs)
+    set({ duel: { ...duel, [key]: clock, passCount: (duel.passCount ?? 0) + 1 } })
 
     setTimeout(() => {
       _passLock = false
@@ -318,19 +494,26 @@ export const useGameStore = create<GameStore>((set, get) => ({
       const q = get().nextQuestion()
       _lastPassedQuestionId = null
       set({ duel: { ...d, currentQuestion: q } })
+      if (d.paused) return
+      // Kara mogła wyzerować zegar — wtedy pojedynek od razu się kończy
+      if (d[key].remainingMs <= 0) set({ duel: expired({ ...d, currentQuestion: q }) })
+      else get().startClock()
     }, cfg.FEEDBACK_MS)
   },
 
   togglePause: () => {
     const { duel } = get()
-    if (!duel?.started) return
-    set({ duel: { ...duel, paused: !duel.paused } })
+    // Runda na refleks nie ma zegarów — nie ma czego pauzować
+    if (!duel?.started || duel.buzzer) return
+    if (duel.paused) get().startClock()
+    else set({ duel: { ...duel, paused: true, [clockKey(duel.active)]: stopClock(duel[clockKey(duel.active)], performance.now()) } })
     get().showToast(duel.paused ? '▶ Wznowiono' : '⏸ Pauza')
   },
 
   closeDuel: () => {
     resetPassLocks(); _correctLock = false
     set({ duel: null, blockInput: false })
+    get().checkMatchEnd()
   },
 
   showToast: (text) => {
@@ -343,10 +526,10 @@ export const useGameStore = create<GameStore>((set, get) => ({
   toggleStats: () => set(s => ({ showStats: !s.showStats })),
 
   nextQuestion: () => {
-    const { duel } = get()
+    const { duel, seed, roundsPlayed } = get()
     if (!duel) return null
     const { questions, usedIds } = duel
-    const pick = pickNextQuestionId(questions.map(q => q.id), [...usedIds])
+    const pick = pickNextQuestionId(questions.map(q => q.id), [...usedIds], streamRng(seed, 'q', roundsPlayed, usedIds.size))
     if (!pick.questionId) return null
     // duel.usedIds is a Set carried in store state — keep it in sync in place.
     usedIds.clear()
@@ -355,31 +538,78 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
 
   endDuelWithWinner: (winnerNum) => {
-    const { tiles, duel, playedTileIndices } = get()
-    if (!duel) return
+    const { tiles, duel, playedTileIndices, picker, roundsPlayed, duelsWon, showdown } = get()
+    if (!duel || _duelResolved) return
+    _duelResolved = true
+    const winner    = duel.owners[winnerNum - 1]
+    const loser     = duel.owners[2 - winnerNum]
+    // Pojedynek o wszystko rozstrzyga mecz (checkMatchEnd) — plansza zostaje bez zmian
+    if (showdown) {
+      set({ duel: { ...duel, paused: true }, showdown: { winner }, roundsPlayed: roundsPlayed + 1, duelsWon: tallyWin(duelsWon, winner) })
+      return
+    }
     const played = playedTileIndices.includes(duel.tileIdx)
       ? playedTileIndices
       : [...playedTileIndices, duel.tileIdx]
+    const territory = territoryRules()
+    const party     = partyRoster()
+    const newTiles  = territory
+      ? resolveTerritoryRound(tiles, duel.tileIdx, picker, winner)
+      : tiles.map((t, i) => i === duel.tileIdx ? { ...t, owner: winner } : t)
     set({
-      tiles: tiles.map((t, i) =>
-        i === duel.tileIdx ? { ...t, owner: (winnerNum === 1 ? 'gold' : 'silver') as TileOwner } : t,
-      ),
+      tiles: newTiles,
       duel: { ...duel, paused: true },
       playedTileIndices: played,
+      // Przegrany wybiera następne pole (chyba że właśnie odpadł)
+      picker: pickerAfterDuel(newTiles, winner, loser),
+      roundsPlayed: roundsPlayed + 1,
+      duelsWon: tallyWin(duelsWon, winner),
     })
+    // Koniec meczu ogłasza checkMatchEnd po zamknięciu pojedynku
+    if (party && countOwned(newTiles, loser) === 0 && partyWinner(newTiles) === null) {
+      get().showToast(`💀 ${playerFor(loser).name} traci ostatnie pole i odpada!`)
+    }
   },
 
   endDuelDraw: () => {
-    const { duel, playedTileIndices } = get()
-    if (!duel) return
+    const { duel, playedTileIndices, picker, roundsPlayed } = get()
+    if (!duel || _duelResolved) return
+    _duelResolved = true
     const played = playedTileIndices.includes(duel.tileIdx)
       ? playedTileIndices
       : [...playedTileIndices, duel.tileIdx]
-    set({ duel: { ...duel, paused: true }, playedTileIndices: played })
+    // Remis: wybiera drugi z walczących
+    set({
+      duel: { ...duel, paused: true }, playedTileIndices: played, roundsPlayed: roundsPlayed + 1,
+      picker: duel.owners[0] === picker ? duel.owners[1] : duel.owners[0],
+    })
+  },
+
+  startBuzzer: () => {
+    const { duel, showdown } = get()
+    if (!duel || duel.buzzer) return false
+    if (!showdown && !suddenDeathFromConfig(useConfigStore.getState().config).duels) return false
+    set({ duel: { ...duel, buzzer: true, paused: true, currentQuestion: get().nextQuestion() } })
+    return true
+  },
+
+  botPick: () => {
+    const { tiles, categories, duel, picker, matchEnd, showdown, playedTileIndices } = get()
+    const cfg = useConfigStore.getState().config
+    if (!botFromConfig(cfg) || duel || matchEnd || picker !== 'silver') return
+    // Dogrywka meczu ma własne losowanie kategorii
+    if (showdown) { get().startChallenge(); return }
+    const idx = botTarget(tiles, 'silver', i =>
+      (categories.find(c => c.id === tiles[i].categoryId)?.questions.length ?? 0) > 0
+      && !(cfg.LOTTERY_PICK === 1 && playedTileIndices.includes(i))
+      && (!territoryRules() || canChallenge(tiles, i, 'silver')))
+    if (idx === null) return
+    set({ cursor: idx })
+    get().startChallenge()
   },
 
   lotteryPick: () => {
-    const { tiles, playedTileIndices, duel } = get()
+    const { tiles, playedTileIndices, duel, seed, roundsPlayed, cursor } = get()
     if (duel || tiles.length === 0) return
 
     // Pula nierozegranych. Po wyczerpaniu — restart cyklu.
@@ -392,7 +622,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
       cycleReset = true
     }
 
-    const pick = pool[Math.floor(Math.random() * pool.length)]
+    const pick = pool[randInt(streamRng(seed, 'lottery', roundsPlayed, cursor), pool.length)]
     if (cycleReset) {
       // Wszystkie kategorie rozegrane → zerujemy historię i wskazujemy nowe pole.
       set({ playedTileIndices: [], cursor: pick })
@@ -401,6 +631,40 @@ export const useGameStore = create<GameStore>((set, get) => ({
       set({ cursor: pick })
     }
   },
+
+  checkMatchEnd: () => {
+    // Trwający pojedynek jest rozgrywany do końca — closeDuel sprawdzi ponownie
+    const { duel, matchEnd, tiles, roundsPlayed, matchClock, duelsWon, playedTileIndices, showdown } = get()
+    if (duel || matchEnd || tiles.length === 0) return
+    let end: MatchEnd<Side>
+    if (showdown) {
+      // Dogrywka rozstrzyga mecz; anulowany pojedynek o wszystko czeka na ponowne otwarcie
+      if (!showdown.winner) return
+      end = { winner: showdown.winner, reason: 'showdown' }
+    } else {
+      const config = useConfigStore.getState().config
+      const sides  = matchSides()
+      // Terytoria kończy zawsze eliminacja. Lokalna plansza startuje rozdana,
+      // więc „do zdobycia" zostają pola, o które nie było jeszcze pojedynku.
+      const policy = territoryRules() ? { ...DEFAULT_VICTORY, kind: 'elimination' as const } : victoryFromConfig(config)
+      const victor = boardVictor(tiles, sides, policy, tiles.length - playedTileIndices.length)
+      const reason = victor ? 'board' : limitReached(limitsFromConfig(config), roundsPlayed, matchTimeLeft(matchClock, performance.now()))
+      if (!reason) return
+      const winner = victor ? (victor === 'draw' ? null : victor) : limitLeader(tiles, sides, duelsWon)
+      if (winner === null && suddenDeathFromConfig(config).matches && openShowdown()) {
+        get().showToast('⚔️ Remis — dogrywka: pojedynek o wszystko!')
+        return
+      }
+      end = { winner, reason }
+    }
+    if (_matchTimer) { clearTimeout(_matchTimer); _matchTimer = null }
+    set({ matchEnd: end, matchClock: matchClock && stopClock(matchClock, performance.now()) })
+    const name = end.winner && playerFor(end.winner).name
+    get().showToast(
+      end.reason === 'showdown' ? `🏆 ${name} wygrywa dogrywkę!` :
+      end.reason === 'board'    ? (name ? `🏆 ${name} wygrywa mecz!` : '🤝 Remis — koniec meczu!') :
+      end.reason === 'rounds'   ? '🏁 Limit rund — koniec meczu!' : '⏰ Koniec czasu meczu!')
+  },
 }))
 
 // ── Auto-save (debounced 400ms) ───────────────────────────────────────────────
@@ -409,6 +673,13 @@ useGameStore.subscribe(state => {
   if (state.tiles.length === 0) return
   if (_saveTimer) clearTimeout(_saveTimer)
   _saveTimer = setTimeout(() => {
-    saveGameState(state.tiles, state.cursor, state.showStats, state.duel)
+    saveGameState(state.tiles, state.cursor, state.showStats, state.duel, state.picker, {
+      roundsPlayed: state.roundsPlayed,
+      duelsWon:     state.duelsWon,
+      clockMs:      matchTimeLeft(state.matchClock, performance.now()),
+      end:          state.matchEnd,
+      showdown:     state.showdown,
+      seed:         state.seed,
+    })
   }, 200)
 })
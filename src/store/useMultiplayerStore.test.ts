@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createLocalTransport, type LocalTransport } from '../lib/localRealtime'
+import type { UserProfile } from './useAuthStore'
+
+// Host and guest are two copies of the store module (vi.resetModules), each
+// with its own module-level state, talking over one in-memory transport. The
+// database is a stand-in for the few game_rooms / categories calls the store
+// makes; an UPDATE on game_rooms is echoed as a row change, like Realtime does.
+
+type Row = Record<string, unknown>
+
+const fake = vi.hoisted(() => ({
+  rooms:      new Map<string, Record<string, unknown>>(),
+  categories: [] as Record<string, unknown>[],
+  transport:  null as { emitRowChange(table: string, change: unknown): void } | null,
+}))
+
+vi.mock('../lib/supabase', () => {
+  function from(table: string) {
+    let op: 'select' | 'insert' | 'update' = 'select'
+    let values: Row = {}
+    const filters: [string, unknown[]][] = []
+    const run = (): Row[] => {
+      if (table === 'categories') return fake.categories
+      if (table !== 'game_rooms') return []
+      if (op === 'insert') {
+        const row = { id: `room-${fake.rooms.size + 1}`, ...values }
+        fake.rooms.set(row.id, row)
+        return [row]
+      }
+      const rows = [...fake.rooms.values()].filter(r => filters.every(([k, vs]) => vs.includes(r[k])))
+      if (op === 'update') {
+        for (const r of rows) {
+          Object.assign(r, values)
+          fake.transport?.emitRowChange('game_rooms', { eventType: 'UPDATE', new: { ...r }, old: {} })
+        }
+      }
+      return rows
+    }
+    const result = (rows: Row[]) => Promise.resolve({ data: rows, error: null })
+    const q = {
+      select: () => q,
+      insert: (v: Row) => { op = 'insert'; values = v; return q },
+      update: (v: Row) => { op = 'update'; values = v; return q },
+      upsert: () => q,
+      eq:     (k: string, v: unknown) => { filters.push([k, [v]]); return q },
+      in:     (k: string, vs: unknown[]) => { filters.push([k, vs]); return q },
+      order:  () => q,
+      single:      async () => ({ data: run()[0] ?? null, error: null }),
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: <T>(ok: (r: { data: Row[]; error: null }) => T, fail?: (e: unknown) => T) => result(run()).then(ok, fail),
+    }
+    return q
+  }
+  return {
+    supabase: { from, rpc: async () => ({ data: null, error: null }) },
+    getCachedStale: () => null, setCached: () => {}, invalidateCache: () => {},
+  }
+})
+
+const user = (id: string, username: string): UserProfile => ({
+  id, username, avatar: '🎮', xp: 0, wins: 0, losses: 0, win_streak: 0, best_streak: 0, status: 'online',
+})
+const HOST  = user('host-id', 'ANNA')
+const GUEST = user('guest-id', 'BARTEK')
+
+const category = (n: number) => ({
+  id: `cat-${n}`, name: `Kategoria ${n}`, emoji: '📦', lang: 'pl-PL', created_at: '2026-01-01',
+  questions: [1, 2, 3].map(i => ({
+    id: `q-${n}-${i}`, category_id: `cat-${n}`, image_path: `${n}/${i}.jpg`, answer: `odpowiedź ${n}.${i}`, synonyms: [], created_at: '2026-01-01',
+  })),
+})
+
+let transport: LocalTransport
+
+/** A fresh copy of the store signed in as `who`, on the shared transport. */
+async function seat(who: UserProfile) {
+  vi.resetModules()
+  const { setRealtimeTransport } = await import('../lib/realtime')
+  setRealtimeTransport(transport)
+  const { useAuthStore } = await import('./useAuthStore')
+  useAuthStore.setState({ user: who, setInGame: async () => {}, refreshProfile: async () => {} })
+  const { useMultiplayerStore } = await import('./useMultiplayerStore')
+  return useMultiplayerStore
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  const storage = new Map<string, string>()
+  vi.stubGlobal('localStorage', {
+    getItem: (k: string) => storage.get(k) ?? null,
+    setItem: (k: string, v: string) => { storage.set(k, v) },
+    removeItem: (k: string) => { storage.delete(k) },
+  })
+  transport = createLocalTransport()
+  fake.transport = transport
+  fake.rooms.clear()
+  fake.categories = Array.from({ length: 12 }, (_, i) => category(i + 1))
+})
+
+afterEach(() => {
+  transport.close()
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('useMultiplayerStore — host and guest over a local transport', () => {
+  it('plays a duel: both screens agree on the board, scores and the next picker', async () => {
+    const host  = await seat(HOST)
+    const guest = await seat(GUEST)
+
+    const code = await host.getState().createRoom()
+    expect(code).not.toBeNull()
+    expect(await guest.getState().joinRoom(code!)).toBe(true)
+    await vi.advanceTimersByTimeAsync(1_000)
+    expect(host.getState()).toMatchObject({ status: 'lobby', opponentId: GUEST.id })
+    expect(guest.getState()).toMatchObject({ status: 'lobby', role: 'guest', opponentId: HOST.id })
+
+    host.getState().updateGameSettings({ duelTime: 10 })
+    host.getState().startGame()
+    await vi.advanceTimersByTimeAsync(500)
+    expect(guest.getState().status).toBe('playing')
+    expect(guest.getState().tiles).toEqual(host.getState().tiles)
+    expect(guest.getState().gameSettings.duelTime).toBe(10)
+
+    // The host picks first; the guest sees the same duel
+    host.getState().startChallenge()
+    const tileIdx = host.getState().cursor
+    await vi.advanceTimersByTimeAsync(100)
+    expect(guest.getState().duel?.questionId).toBe(host.getState().duel?.questionId)
+    expect(guest.getState().cursor).toBe(tileIdx)
+
+    host.getState().startFight()
+    await vi.advanceTimersByTimeAsync(4_000)
+    expect(host.getState().duel).toMatchObject({ started: true, paused: false })
+    expect(guest.getState().duel).toMatchObject({ started: true, paused: false })
+
+    // The first player answers, then the other one runs out of time
+    const first  = host.getState().duel!.active
+    const second = first === 'host' ? 'guest' : 'host'
+    const answerer = first === 'host' ? host : guest
+    answerer.getState().markCorrect()
+    await vi.advanceTimersByTimeAsync(3_000)
+    expect(host.getState().duel?.active).toBe(second)
+    expect(guest.getState().duel?.active).toBe(second)
+
+    await vi.advanceTimersByTimeAsync(10_000)
+    expect(host.getState().winner).toBe(first)
+    expect(guest.getState().winner).toBe(first)
+    const owner = first === 'host' ? 'gold' : 'silver'
+    expect(host.getState().tiles[tileIdx].owner).toBe(owner)
+    expect(guest.getState().tiles).toEqual(host.getState().tiles)
+    expect([guest.getState().hostScore, guest.getState().guestScore])
+      .toEqual([host.getState().hostScore, host.getState().guestScore])
+
+    host.getState().closeDuel()
+    await vi.advanceTimersByTimeAsync(100)
+    expect(guest.getState().duel).toBeNull()
+    expect(guest.getState().currentPicker).toBe(host.getState().currentPicker)
+    expect(fake.rooms.get(host.getState().roomId!)).toMatchObject({ status: 'playing', guest_id: GUEST.id })
+  })
+})
+
+describe('useMultiplayerStore — spectators', () => {
+  it('follows the host but drops events from a sender claiming a seat it does not hold', async () => {
+    const host  = await seat(HOST)
+    const guest = await seat(GUEST)
+    const code  = await host.getState().createRoom()
+    await guest.getState().joinRoom(code!)
+    await vi.advanceTimersByTimeAsync(1_000)
+    host.getState().startGame()
+    await vi.advanceTimersByTimeAsync(500)
+
+    const watcher = await seat(user('watcher-id', 'CELINA'))
+    expect(await watcher.getState().watchRoom(code!)).toBe(true)
+    await vi.advanceTimersByTimeAsync(500)
+    const roomId = host.getState().roomId!
+
+    // Someone else on the channel poses as the host and ends the match
+    const { wrapEvent } = await import('../domain/protocol')
+    const intruder = transport.channel(`room:${roomId}`).subscribe()
+    await vi.advanceTimersByTimeAsync(100)
+    await intruder.send('game', wrapEvent(
+      { type: 'game_end', winner: 'guest', hostXpDelta: 0, guestXpDelta: 50, hostTiles: 0, guestTiles: 12 },
+      { sender: 'intruder-id', role: 'host', epoch: Date.now(), seq: 1 },
+    ))
+    await vi.advanceTimersByTimeAsync(100)
+    expect(watcher.getState()).toMatchObject({ status: 'playing', gameResult: null })
+
+    // The real host still gets through
+    host.getState().moveCursor('right')
+    await vi.advanceTimersByTimeAsync(100)
+    expect(watcher.getState().cursor).toBe(host.getState().cursor)
+  })
+})
@@ -2,45 +2,151 @@
  * useMultiplayerStore — AUTHORITATIVE HOST ARCHITECTURE (v2 rewrite)
  *
  * RULES:
- *  1. HOST runs the timer and drives ALL state transitions.
+ *  1. HOST runs the duel clocks and drives ALL state transitions — the rules
+ *     are the pure engine in domain/hostEngine.ts; the store runs its effects.
+ *     Clocks are deadlines (domain/clock.ts) on performance.now(); followers
+ *     get ms values on every change and run the active clock locally.
  *  2. Guest sends INTENT events — host validates & advances.
- *  3. All tiles start NEUTRAL — players claim them by winning duels.
+ *  3. All tiles start NEUTRAL — players claim them by winning duels. Under
+ *     territory rules (gameSettings.rules, domain/territory.ts) the board
+ *     starts split instead, the picker may only attack a neighbouring
+ *     territory, and the winner absorbs the loser's whole territory.
  *  4. Tile selection alternates: host picks first, then guest, etc.
  *  5. Countdown timeouts are tracked and cancellable.
- *  6. Event sequence numbers prevent duplicate processing.
+ *  6. Every event travels in a versioned envelope (domain/protocol.ts):
+ *     schema-checked, sender-checked and sequence-numbered, so duplicates,
+ *     stale events and incompatible builds never reach onEvent.
+ *  7. Presence + a room heartbeat detect a lost player: after
+ *     RECONNECT_GRACE_MS the one still here wins by forfeit ('abandon').
+ *  8. Spectators follow the same stream as the guest but never send
+ *     intents, never settle and never touch the room row.
+ *  9. Host and guest ping each other (domain/clockSync.ts); guest intents
+ *     carry the guest's timestamp and the host credits the time in flight,
+ *     capped, so network latency does not cost the guest clock time.
+ * 10. Optional match limits (gameSettings.maxRounds / matchMinutes,
+ *     domain/matchLimit.ts): the host runs the match clock and ends the
+ *     match on them; match_status keeps the followers' HUD in step.
+ * 11. The board ends a classic match on gameSettings.victory
+ *     (domain/board.ts): a share of the board, elimination, first to N
+ *     tiles or most tiles once the board is full.
+ * 12. Optional sudden death (gameSettings.suddenDeath, domain/suddenDeath.ts):
+ *     a drawn match is not settled — the host opens a showdown duel on a
+ *     random category and its winner takes the match.
+ * 13. A practice match (practiceBot, domain/bot.ts) has no room: the guest
+ *     seat is a bot the host runs, fed to the engine as guest intents.
+ *     Nothing is broadcast, stored or settled.
  */
 
 import { create } from 'zustand'
 import { supabase } from '../lib/supabase'
 import {
-  Category, MPActivePlayer, MPDuelState, MPEvent,
+  Category, MPActivePlayer, MPDuelState, MPEvent, MPGameSettings,
   MPGameState, MPRole, MPStatus, Question, SpeechLang, Tile, TileOwner,
 } from '../types'
 import { normalizeCategories } from '../domain/categories'
 import { fetchRawCategories } from '../lib/categoryService'
-import { evaluateBoardOutcome, shuffle } from '../domain/board'
+import { DEFAULT_VICTORY, shuffle, VICTORY_KINDS, type VictoryPolicy } from '../domain/board'
+import { runClock, stoppedClock, type DuelClock } from '../domain/clock'
 import {
-  applyPassPenalty, nextPickerAfterRound, opponentOf, ownerForWinner,
-  resolveRound, winnerAfterTimeout,
-} from '../domain/duel'
-import { pickNextQuestionId } from '../domain/questions'
-import { applyMatchResult, playerXpDelta, xpRewards } from '../domain/xp'
+  addSyncSample, emptySync, latencyCredit, syncEstimate, syncSample, toLocalTime, type ClockSync,
+} from '../domain/clockSync'
+import { anchorDuel, freezeDuel, resolveRound, sideOf, withClocks } from '../domain/duel'
 import {
-  ensureProfileOnline, fetchMatchStats, recordGameHistory, saveMatchStats,
+  hostStep, type HostEffect, type HostIntent, type HostState, type TimedIntent,
+} from '../domain/hostEngine'
+import {
+  playerXpDelta, xpPolicyFromConfig, xpRewards, type XpPolicy, type XpRewards,
+} from '../domain/xp'
+import { isQueueTimedOut, ratingWindow } from '../domain/matchmaking'
+import type { RoundAnswer } from '../domain/rounds'
+import { limitsFromSettings, matchTimeLeft } from '../domain/matchLimit'
+import { showdownTile } from '../domain/suddenDeath'
+import { newSeed, randInt, streamRng, type Rng } from '../domain/random'
+import { BOT_NAMES, BOT_PICK_MS, botMove, botTarget, type BotLevel, type CategoryRates } from '../domain/bot'
+import { canChallenge, seedTerritories } from '../domain/territory'
+import {
+  PROTOCOL_VERSION, checkSequence, parseEnvelope, wrapEvent, type SequenceState,
+} from '../domain/protocol'
+import { cancelMatchSearch, enqueueForMatch, pollForMatch } from '../lib/matchmakingService'
+import { openTournamentMatch } from '../lib/tournamentService'
+import { realtime, type RealtimeChannel } from '../lib/realtime'
+import { fetchCategoryRates, recordRound } from '../lib/roundService'
+import {
+  ensureProfileOnline, fetchMatchResult, submitMatchResult, type MatchOutcome,
 } from '../lib/profileService'
 import { getBoardDimensions, useConfigStore } from './useConfigStore'
 import { useAuthStore } from './useAuthStore'
 
 // ── Module-level state ───────────────────────────────────────────────────────
-let tickerInterval: ReturnType<typeof setInterval> | null = null
+const hostTimers = new Map<TimedIntent['type'], ReturnType<typeof setTimeout>>()
 let countdownTimers: ReturnType<typeof setTimeout>[] = []
+let matchmakingTimer: ReturnType<typeof setTimeout> | null = null
+const MM_POLL_MS = 2_000
+let graceTimer: ReturnType<typeof setTimeout> | null = null
+let roomHeartbeatTimer: ReturnType<typeof setInterval> | null = null
+// Must stay well under the 30 s staleness the server checks for 'abandon'
+const ROOM_HEARTBEAT_MS = 10_000
+/** How long a dropped opponent has to come back before they count as gone. */
+export const RECONNECT_GRACE_MS = 30_000
+// Retrying a refused 'abandon' claim: 2 s, 4 s, 8 s… capped
+const ABANDON_RETRY_MS     = 2_000
+const ABANDON_RETRY_MAX_MS = 15_000
+// Round log inserts in flight — the server replays the board from game_rounds,
+// so settling waits for them
+let _roundWrites: Promise<void> = Promise.resolve()
+// Envelope bookkeeping — reset on every (re)subscription to a room channel
+let _outEpoch = 0
+let _outSeq   = 0
+let _inSeq: SequenceState = {}
+let _versionReported = false
+// Clock sync with the other player — reset on every (re)subscription
+let _sync: ClockSync = emptySync()
+let pingTimer: ReturnType<typeof setTimeout> | null = null
+const PING_BURST       = 5       // quick pings on join, for a first estimate
+const PING_BURST_MS    = 200
+const PING_INTERVAL_MS = 5_000   // then keep the estimate (and the display) fresh
+
+// Practice bot — set by practiceBot, reset by leaveRoom
+let _bot: BotLevel | null = null
+let _botRates: CategoryRates = {}
+let _botTimer: ReturnType<typeof setTimeout> | null = null
+let _botKey: string | null = null   // what the pending timer is for, so a re-render does not restart it
+/** roomCode of a practice match; it has no room row. */
+const BOT_ROOM = 'BOT'
 
 let _catsCache: (Category & { questions: Question[] })[] | null = null
 let _catsCachedAt = 0
 const CATS_CACHE_TTL = 5 * 60 * 1000
 
-function stopTicker() {
-  if (tickerInterval) { clearInterval(tickerInterval); tickerInterval = null }
+function clearHostTimer(type: TimedIntent['type']) {
+  const t = hostTimers.get(type)
+  if (t) { clearTimeout(t); hostTimers.delete(type) }
+}
+
+function stopHostTimers() {
+  hostTimers.forEach(t => clearTimeout(t))
+  hostTimers.clear()
+}
+
+function clearBotTimer() {
+  if (_botTimer) { clearTimeout(_botTimer); _botTimer = null }
+  _botKey = null
+}
+
+function stopMatchmakingPoll() {
+  if (matchmakingTimer) { clearTimeout(matchmakingTimer); matchmakingTimer = null }
+}
+
+function clearGraceTimer() {
+  if (graceTimer) { clearTimeout(graceTimer); graceTimer = null }
+}
+
+function stopPing() {
+  if (pingTimer) { clearTimeout(pingTimer); pingTimer = null }
+}
+
+function stopRoomHeartbeat() {
+  if (roomHeartbeatTimer) { clearInterval(roomHeartbeatTimer); roomHeartbeatTimer = null }
 }
 
 function clearCountdown() {
@@ -82,13 +188,46 @@ function generateCode(): string {
   return code
 }
 
+// xpMultiplier scales the configured MP_XP_* base values (see domain/xp.ts)
 export const MP_MODES = {
-  classic:  { label: 'KLASYCZNY', emoji: '🏛️', duelTime: 45, passPenalty: 2,  categoriesCount: 12, desc: '45s · kara -2s · 12 pól' },
-  blitz:    { label: 'BLITZ',     emoji: '⚡',  duelTime: 15, passPenalty: 5,  categoriesCount: 9,  desc: '15s · kara -5s · 9 pól' },
-  hardcore: { label: 'HARDCORE',  emoji: '💀',  duelTime: 30, passPenalty: 15, categoriesCount: 16, desc: '30s · kara -15s · 16 pól' },
+  classic:  { label: 'KLASYCZNY', emoji: '🏛️', duelTime: 45, passPenalty: 2,  categoriesCount: 12, maxRounds: 0, matchMinutes: 0, xpMultiplier: 1,    desc: '45s · kara -2s · 12 pól' },
+  blitz:    { label: 'BLITZ',     emoji: '⚡',  duelTime: 15, passPenalty: 5,  categoriesCount: 9,  maxRounds: 0, matchMinutes: 5, xpMultiplier: 0.75, desc: '15s · kara -5s · 9 pól · 5 min' },
+  hardcore: { label: 'HARDCORE',  emoji: '💀',  duelTime: 30, passPenalty: 15, categoriesCount: 16, maxRounds: 0, matchMinutes: 0, xpMultiplier: 1.5,  desc: '30s · kara -15s · 16 pól' },
 } as const
 export type MPGameMode = keyof typeof MP_MODES
 
+/** Lobby settings stored in game_rooms.config; anything missing or malformed keeps `prev`. */
+function settingsFromConfig(cfg: Record<string, unknown>, prev: MPGameSettings): MPGameSettings {
+  const num = (k: string, fallback: number) => typeof cfg[k] === 'number' ? cfg[k] as number : fallback
+  return {
+    duelTime:        num('duelTime', prev.duelTime),
+    categoriesCount: num('categoriesCount', prev.categoriesCount),
+    gameMode:        typeof cfg.gameMode === 'string' ? cfg.gameMode : prev.gameMode,
+    passPenalty:     num('passPenalty', prev.passPenalty),
+    rules:           cfg.rules === 'territory' || cfg.rules === 'classic' ? cfg.rules : prev.rules,
+    maxRounds:       num('maxRounds', prev.maxRounds),
+    matchMinutes:    num('matchMinutes', prev.matchMinutes),
+    victory:         victoryOf(cfg.victory, prev.victory),
+    suddenDeath:     typeof cfg.suddenDeath === 'boolean' ? cfg.suddenDeath : prev.suddenDeath,
+  }
+}
+
+function victoryOf(v: unknown, prev: VictoryPolicy): VictoryPolicy {
+  if (typeof v !== 'object' || v === null) return prev
+  const { kind, threshold, tiles } = v as Record<string, unknown>
+  return {
+    kind:      VICTORY_KINDS.find(k => k === kind) ?? prev.kind,
+    threshold: typeof threshold === 'number' ? threshold : prev.threshold,
+    tiles:     typeof tiles === 'number' ? tiles : prev.tiles,
+  }
+}
+
+const settingsEvent = (gs: MPGameSettings): MPEvent => ({ type: 'game_settings', ...gs })
+
+// The match clock arrives as ms left; run it locally from arrival
+const matchStatusOf = (roundsPlayed: number, matchMs: number | null) =>
+  ({ roundsPlayed, clock: matchMs === null ? null : runClock(stoppedClock(matchMs), performance.now()) })
+
 export function getCatEmoji(name: string, customEmoji?: string): string {
   if (customEmoji && customEmoji !== '🎯') return customEmoji
   return '🎯'
@@ -122,16 +261,31 @@ export interface MPStore {
   error:          string | null
   gameResult:     { winnerRole: MPActivePlayer | 'draw' | null; myXpDelta: number; isForfeit: boolean; hostTiles: number; guestTiles: number } | null
   toastText:      string
-  channel:        ReturnType<typeof supabase.channel> | null
+  channel:        RealtimeChannel | null
   chatMessages:   { from: string; text: string; ts: number }[]
-  gameSettings:   { duelTime: number; categoriesCount: number; gameMode: string; passPenalty: number }
+  gameSettings:   MPGameSettings
   guestReady:     boolean
   currentPicker:  MPActivePlayer  // who picks the next tile
+  matchmaking:    { startedAt: number; window: number; waitedMs: number } | null  // set while status='searching'
+  opponentAway:   { since: number; expired: boolean } | null  // opponent dropped mid-match; expired after RECONNECT_GRACE_MS
+  spectators:     number  // live viewers in the room (presence)
+  pingMs:         number | null  // round trip to the other player (clock sync), null until measured
+  watched:        { hostId: string; guestId: string; hostName: string; guestName: string } | null  // spectator only: both players
+  tournament:     { id: string; matchKey: string } | null  // bracket match — settings are fixed by the tournament
+  matchStatus:    { roundsPlayed: number; clock: DuelClock | null }  // match limits HUD; the clock runs on this machine
+  showdown:       boolean  // sudden death: the match was drawn and the showdown duel decides it
+  bot:            BotLevel | null  // practice match: the guest seat is a bot
 
   setPlayerName:       (name: string) => void
   loadCategories:      () => Promise<void>
   createRoom:          () => Promise<string | null>
   joinRoom:            (code: string) => Promise<boolean>
+  resumeRoom:          (code: string) => Promise<boolean>
+  watchRoom:           (code: string) => Promise<boolean>
+  findMatch:           () => Promise<void>
+  cancelMatchmaking:   () => Promise<void>
+  playTournamentMatch: (tournamentId: string, matchKey: string) => Promise<boolean>
+  practiceBot:         (level: BotLevel) => Promise<void>
   startGame:           () => void
   leaveRoom:           () => Promise<void>
   moveCursor:          (dir: 'up'|'down'|'left'|'right') => void
@@ -143,13 +297,13 @@ export interface MPStore {
   showFeedback:        (text: string, type: FeedbackType) => void
   showToast:           (text: string) => void
   sendChatMessage:     (text: string) => void
-  updateGameSettings:  (s: Partial<{ duelTime: number; categoriesCount: number; gameMode: string; passPenalty: number }>) => void
+  updateGameSettings:  (s: Partial<MPGameSettings>) => void
   sendInvite:          (targetPlayerId: string) => void
   _broadcastEvent:     (event: MPEvent) => void
 }
 
 // ── Board presets ────────────────────────────────────────────────────────────
-const MP_BOARD: Record<number, { cols: number; rows: number }> = {
+export const MP_BOARD: Record<number, { cols: number; rows: number }> = {
   6:  { cols: 3, rows: 2 },
   9:  { cols: 3, rows: 3 },
   12: { cols: 4, rows: 3 },
@@ -162,7 +316,10 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
   // ── Internal helpers ─────────────────────────────────────────────────────
 
   function broadcast(event: MPEvent) {
-    get().channel?.send({ type: 'broadcast', event: 'game', payload: event })
+    const { channel, role } = get()
+    if (!channel || !role) return
+    const payload = wrapEvent(event, { sender: effectivePlayerId(), role, epoch: _outEpoch, seq: ++_outSeq })
+    channel.send('game', payload)
   }
 
   function resolveQ(qId: string): Question | null {
@@ -173,19 +330,13 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
     return null
   }
 
-  function pickNext(duel: MPDuelState): { questionId: string; usedIds: string[] } {
-    const cat = get().categories.find(c => c.id === duel.categoryId)
-    const qs  = cat?.questions ?? []
-    return pickNextQuestionId(qs.map(q => q.id), duel.usedQuestionIds)
-  }
-
-  function buildTiles(cats: (Category & { questions: Question[] })[], categoriesCount?: number) {
+  function buildTiles(cats: (Category & { questions: Question[] })[], categoriesCount?: number, rand?: Rng) {
     const mpPreset = categoriesCount ? MP_BOARD[categoriesCount] : undefined
     const cfg      = useConfigStore.getState().config
     const { cols, rows } = mpPreset ?? getBoardDimensions(cfg)
 
     const count   = categoriesCount ?? (cols * rows)
-    const limited = count < cats.length ? shuffle(cats).slice(0, count) : shuffle(cats)
+    const limited = count < cats.length ? shuffle(cats, rand).slice(0, count) : shuffle(cats, rand)
     // All tiles start NEUTRAL — players claim them by winning duels
     const tiles: Tile[] = Array.from({ length: cols * rows }, (_, i) => {
       const cat = limited[i % Math.max(limited.length, 1)]
@@ -200,12 +351,28 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
     return { tiles, cols, rows }
   }
 
-  async function writeDB(patch: { tiles?: Tile[]; cursor?: number; host_score?: number; guest_score?: number; status?: string }) {
+  // Running clocks only make sense on this machine — freeze them for the wire/DB
+  function freezeOrNull(duel: MPDuelState | null): MPDuelState | null {
+    return duel && freezeDuel(duel, performance.now())
+  }
+
+  async function writeDB(patch: { tiles?: Tile[]; cursor?: number; duel?: MPDuelState | null; host_score?: number; guest_score?: number; status?: string }) {
     const { roomId } = get()
     if (!roomId) return
     const upd: Record<string, unknown> = { updated_at: new Date().toISOString() }
-    if (patch.tiles !== undefined || patch.cursor !== undefined) {
-      upd.game_state = { tiles: patch.tiles ?? get().tiles, cursor: patch.cursor ?? get().cursor, duel: null }
+    if (patch.tiles !== undefined || patch.cursor !== undefined || patch.duel !== undefined) {
+      const gs: MPGameState = {
+        tiles:   patch.tiles ?? get().tiles,
+        cursor:  patch.cursor ?? get().cursor,
+        duel:    freezeOrNull(patch.duel !== undefined ? patch.duel : get().duel),
+        picker:  get().currentPicker,
+        roundNo: _host.roundNo,
+        matchMs: matchTimeLeft(_host.matchClock, performance.now()),
+        duelsWon: _host.duelsWon,
+        showdown: _host.showdown,
+        seed:     _host.seed,
+      }
+      upd.game_state = gs
     }
     if (patch.host_score  !== undefined) upd.host_score  = patch.host_score
     if (patch.guest_score !== undefined) upd.guest_score = patch.guest_score
@@ -220,65 +387,48 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
     }
   }
 
-  // ── XP ─────────────────────────────────────────────────────────────────────
-
-  async function awardXP(
-    hostId: string, guestId: string,
-    winnerRole: MPActivePlayer | 'draw',
-    categoriesCount: number,
-    forfeit = false,
-  ) {
+  /** Merge the match settings into game_rooms.config — the server prices XP by gameMode. */
+  async function writeRoomSettings() {
+    const { roomId, gameSettings } = get()
+    if (!roomId) return
     try {
-      const rewards = xpRewards(categoriesCount, forfeit)
-      const stats   = await fetchMatchStats(hostId, guestId)
-      if (!stats) { console.warn('[MP] awardXP: profile missing'); return }
-
-      const next = applyMatchResult(stats.host, stats.guest, winnerRole, rewards)
-      await saveMatchStats(hostId, next.host, guestId, next.guest)
-
-      if (winnerRole !== 'draw') {
-        const hostWon = winnerRole === 'host'
-        const { hostScore, guestScore } = get()
-        await recordGameHistory({
-          winnerId:    hostWon ? hostId : guestId,
-          loserId:     hostWon ? guestId : hostId,
-          winnerScore: hostWon ? hostScore : guestScore,
-          loserScore:  hostWon ? guestScore : hostScore,
-        })
-      }
-
-      useAuthStore.getState().refreshProfile()
+      const { data } = await supabase.from('game_rooms').select('config').eq('id', roomId).maybeSingle()
+      const prev = (data as { config: Record<string, unknown> | null } | null)?.config ?? {}
+      const { error } = await supabase.from('game_rooms').update({ config: { ...prev, ...gameSettings } }).eq('id', roomId)
+      if (error) console.warn('[MP] writeRoomSettings error:', error)
     } catch (e) {
-      console.warn('[MP] awardXP error:', e)
+      console.warn('[MP] writeRoomSettings error:', e)
     }
   }
 
+  // ── XP ─────────────────────────────────────────────────────────────────────
+
+  function currentXpPolicy(): XpPolicy {
+    const mode = MP_MODES[get().gameSettings.gameMode as MPGameMode]
+    return xpPolicyFromConfig(useConfigStore.getState().config, mode?.xpMultiplier ?? 1)
+  }
+
+  /**
+   * Settle the match on the server (submit_match_result validates the room and
+   * applies XP, streaks, rating and history atomically). Resolves to the
+   * rewards actually applied — the streak bonus is only known server-side — or
+   * null if the room could not be settled.
+   */
+  async function settleMatch(outcome: MatchOutcome): Promise<XpRewards | null> {
+    const { roomId } = get()
+    if (!roomId) return null
+    await _roundWrites
+    const result = await submitMatchResult(roomId, outcome)
+    if (result) useAuthStore.getState().refreshProfile()
+    return result?.rewards ?? null
+  }
+
   async function ensureProfile(id: string, username: string, avatar: string) {
     const authUser = useAuthStore.getState().user
     await ensureProfileOnline(id, username, avatar, !!authUser && authUser.id === id)
   }
 
-  // ── Timer (HOST only) ──────────────────────────────────────────────────────
-
-  function startTicker() {
-    stopTicker()
-    tickerInterval = setInterval(() => {
-      const { duel, role } = get()
-      if (!duel?.started || duel.paused || role !== 'host') { stopTicker(); return }
-
-      const key    = duel.active === 'host' ? 'timerHost' : 'timerGuest'
-      const newVal = Math.max(0, duel[key] - 1)
-      const updated = { ...duel, [key]: newVal }
-      set({ duel: updated })
-      broadcast({ type: 'tick', timerHost: updated.timerHost, timerGuest: updated.timerGuest })
-
-      if (newVal <= 0) {
-        stopTicker()
-        set({ duel: { ...updated, paused: true } })
-        onTimeout(updated)
-      }
-    }, 1000)
-  }
+  // ── Countdown ─────────────────────────────────────────────────────────────
 
   function runCountdown(cb: () => void) {
     clearCountdown()
@@ -293,110 +443,214 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
     }, labels.length * 900 + 100))
   }
 
-  // ── State transitions (HOST only) ─────────────────────────────────────────
-
-  function onTimeout(duel: MPDuelState) {
-    const winner = winnerAfterTimeout(duel.active)
-    get().showFeedback('⏰ Czas minął!', 'timeout')
-    broadcast({ type: 'feedback', text: '⏰ Czas minął!', feedbackType: 'timeout' })
-    setTimeout(() => hostEndRound(winner, duel), 1200)
-  }
-
-  function hostEndRound(winner: MPActivePlayer | 'draw', duel: MPDuelState) {
-    const { tiles, currentPicker } = get()
-    const r = resolveRound(tiles, duel.tileIdx, winner, currentPicker)
-    set({ tiles: r.tiles, winner, hostScore: r.hostScore, guestScore: r.guestScore, currentPicker: r.nextPicker })
-    broadcast({ type: 'round_end', winner, tileIdx: duel.tileIdx, hostScore: r.hostScore, guestScore: r.guestScore })
-    writeDB({ tiles: r.tiles, cursor: get().cursor, host_score: r.hostScore, guest_score: r.guestScore })
-  }
-
-  function hostAdvanceAfterCorrect(who: MPActivePlayer) {
-    const { duel } = get()
-    if (!duel) return
-    stopTicker()
-    const ans = get().currentQuestion?.answer ?? '???'
-    get().showFeedback(`✓ ${ans}`, who === get().role ? 'correct' : 'voice')
-    broadcast({ type: 'correct', player: who, answer: ans })
-
-    const cfg = useConfigStore.getState().config
-    setTimeout(() => {
-      const { duel } = get()
-      if (!duel) return
-      const next = opponentOf(who)
-      const { questionId, usedIds } = pickNext(duel)
-      const q = resolveQ(questionId)
-      const updated = { ...duel, active: next, questionId, usedQuestionIds: usedIds, paused: false }
-      set({ duel: updated, currentQuestion: q })
-      broadcast({ type: 'next_question', questionId, active: next, timerHost: updated.timerHost, timerGuest: updated.timerGuest })
-      startTicker()
-    }, cfg.FEEDBACK_MS)
-  }
-
-  function hostAdvanceAfterPass(who: MPActivePlayer) {
-    const { duel } = get()
-    if (!duel) return
-    stopTicker()
-    const ans = get().currentQuestion?.answer ?? '???'
-    const key = who === 'host' ? 'timerHost' : 'timerGuest'
-    const pen = applyPassPenalty(duel[key], get().gameSettings.passPenalty)
-    get().showFeedback(`⏱ PAS · ${ans}`, 'pass')
-    broadcast({ type: 'pass', player: who, answer: ans })
-
-    const cfg = useConfigStore.getState().config
-    setTimeout(() => {
-      const { duel } = get()
-      if (!duel) return
-      const { questionId, usedIds } = pickNext(duel)
-      const q = resolveQ(questionId)
-      const updated = { ...duel, active: who, questionId, usedQuestionIds: usedIds, [key]: pen, paused: false }
-      set({ duel: updated, currentQuestion: q })
-      broadcast({ type: 'next_question', questionId, active: who, timerHost: updated.timerHost, timerGuest: updated.timerGuest })
-      if (pen <= 0) { stopTicker(); set({ duel: { ...updated, paused: true } }); onTimeout(updated) }
-      else startTicker()
-    }, cfg.FEEDBACK_MS)
-  }
-
-  function hostCheckGameEnd(tiles: Tile[]): boolean {
-    const { isOver, gold, silver, winner } = evaluateBoardOutcome(tiles)
-    if (!isOver) return false
-
-    // Board outcome is decided in tile colours; map gold→host, silver→guest.
-    const winnerRole: MPActivePlayer | 'draw' =
-      winner === 'gold' ? 'host' : winner === 'silver' ? 'guest' : 'draw'
-    const { opponentId, gameSettings } = get()
-    const hostId  = effectivePlayerId()
-    const guestId = opponentId ?? ''
-
-    const cc = gameSettings.categoriesCount
-    const rewards = xpRewards(cc)
-    const hostXpDelta  = playerXpDelta('host',  winnerRole, rewards)
-    const guestXpDelta = playerXpDelta('guest', winnerRole, rewards)
-
-    stopTicker()
-    clearCountdown()
-    set({ duel: null, currentQuestion: null, winner: winnerRole === 'draw' ? 'draw' : winnerRole, countdown: null })
-    broadcast({ type: 'round_end', winner: winnerRole, tileIdx: -1, hostScore: gold, guestScore: silver })
+  // ── Host engine (HOST only) ───────────────────────────────────────────────
+  // The rules live in domain/hostEngine.ts; this is the glue that feeds it the
+  // store's state and carries out its effects (timers, channel, DB).
 
-    setTimeout(async () => {
-      broadcast({ type: 'game_end', winner: winnerRole, hostXpDelta, guestXpDelta, hostTiles: gold, guestTiles: silver })
-      set({
-        status: 'finished',
-        gameResult: { winnerRole, myXpDelta: hostXpDelta, isForfeit: false, hostTiles: gold, guestTiles: silver },
-      })
-      await writeDB({ status: 'finished' })
-      if (hostId && guestId) await awardXP(hostId, guestId, winnerRole, cc)
-    }, 3000)
+  // Host-only engine fields that have no place in the UI state
+  type HostOnly = Pick<HostState, 'roundNo' | 'answers' | 'busy' | 'duelsWon' | 'matchClock' | 'showdown' | 'seed'>
+  const freshHost = (seed = newSeed()): HostOnly => ({ roundNo: 0, answers: [] as RoundAnswer[], busy: false, duelsWon: {}, matchClock: null, showdown: null, seed })
+  let _host: HostOnly = freshHost()
+
+  function hostState(): HostState {
+    const { tiles, duel, currentPicker, hostScore, guestScore, winner } = get()
+    return { tiles, duel, picker: currentPicker, hostScore, guestScore, winner, ..._host }
+  }
+
+  function dispatchHost(intent: HostIntent) {
+    if (get().role !== 'host') return
+    const { categories, gameSettings } = get()
+    const { state, effects } = hostStep(hostState(), intent, performance.now(), {
+      passPenalty: gameSettings.passPenalty,
+      feedbackMs:  useConfigStore.getState().config.FEEDBACK_MS,
+      questionIds: (categoryId) => categories.find(c => c.id === categoryId)?.questions.map(q => q.id) ?? [],
+      answerOf:    (questionId) => resolveQ(questionId)?.answer ?? '???',
+      graceMs:     (player) => player === 'guest' ? latencyCredit(syncEstimate(_sync)) : 0,
+      mode:        gameSettings.rules,
+      limits:      limitsFromSettings(gameSettings),
+      victory:     gameSettings.victory,
+      suddenDeath: gameSettings.suddenDeath,
+    })
+    const prevQuestion = get().duel?.questionId
+    _host = { roundNo: state.roundNo, answers: state.answers, busy: state.busy, duelsWon: state.duelsWon, matchClock: state.matchClock, showdown: state.showdown, seed: state.seed }
+    set({
+      showdown: state.showdown !== null,
+      tiles: state.tiles, duel: state.duel, currentPicker: state.picker,
+      hostScore: state.hostScore, guestScore: state.guestScore, winner: state.winner,
+      matchStatus: { roundsPlayed: state.roundNo, clock: state.matchClock },
+      ...(state.duel && state.duel.questionId !== prevQuestion ? { currentQuestion: resolveQ(state.duel.questionId) } : {}),
+    })
+    effects.forEach(runHostEffect)
+    botStep()
+  }
 
-    return true
+  function runHostEffect(e: HostEffect) {
+    switch (e.type) {
+      case 'broadcast':
+        broadcast(e.event)
+        break
+      case 'feedback':
+        get().showFeedback(e.text, e.feedbackType)
+        break
+      case 'persist':
+        writeDB({ tiles: e.tiles, duel: e.duel, host_score: e.hostScore, guest_score: e.guestScore })
+        break
+      case 'record_round': {
+        const { roomId, opponentId } = get()
+        if (!roomId) break
+        const w = e.record.winner
+        const winnerId = w === 'host' ? effectivePlayerId() : w === 'guest' ? opponentId : null
+        _roundWrites = _roundWrites.then(() => recordRound(roomId, e.record, winnerId))
+        break
+      }
+      case 'schedule':
+        clearHostTimer(e.intent.type)
+        hostTimers.set(e.intent.type, setTimeout(() => {
+          hostTimers.delete(e.intent.type)
+          dispatchHost(e.intent)
+        }, Math.max(0, e.at - performance.now())))
+        break
+      case 'cancel':
+        clearHostTimer(e.timer)
+        break
+      case 'open_showdown':
+        openShowdown()
+        break
+      case 'settle':
+        announceResult(e)
+        break
+    }
+  }
+
+  // The showdown is played on a random category that has questions, picked
+  // by the host like any other tile. A board without one ends as the draw it is.
+  function openShowdown() {
+    const { tiles, categories, hostScore, guestScore } = get()
+    const idx = showdownTile(tiles, id => !!categories.find(c => c.id === id)?.questions.length, streamRng(_host.seed, 'showdown'))
+    if (idx === null) {
+      dispatchHost({ type: 'finish', winner: 'draw', margin: 0, hostTiles: hostScore, guestTiles: guestScore })
+      return
+    }
+    set({ cursor: idx })
+    broadcast({ type: 'cursor_move', idx })
+    openDuel(idx)
   }
 
-  // ── Processing guard for guest intents ─────────────────────────────────────
-  let _processingIntent = false
+  // Start a duel on tiles[tileIdx]; the caller has checked it may be played
+  function openDuel(tileIdx: number) {
+    const { role, tiles, categories, gameSettings } = get()
+    const tile = tiles[tileIdx]
+    const cat  = categories.find(c => c.id === tile.categoryId)
+    const qs   = cat?.questions ?? []
+
+    const duelMs      = gameSettings.duelTime * 1000
+    const rand        = streamRng(_host.seed, 'duel', _host.roundNo)
+    const q           = qs[randInt(rand, qs.length)]
+    const lang        = (cat?.lang ?? 'pl-PL') as SpeechLang
+    const firstActive: MPActivePlayer = rand() < 0.5 ? 'host' : 'guest'
+
+    const newDuel: MPDuelState = {
+      tileIdx, categoryId: tile.categoryId, categoryName: tile.categoryName,
+      emoji: getCatEmoji(tile.categoryName, cat?.emoji),
+      questionId: q.id, usedQuestionIds: [q.id],
+      clockHost: stoppedClock(duelMs), clockGuest: stoppedClock(duelMs),
+      active: firstActive, started: false, paused: false, lang,
+    }
+    _host = { ..._host, answers: [], busy: false }
+    set({ duel: newDuel, currentQuestion: q, winner: null, feedback: { text: '', type: '' } })
+    broadcast({ type: 'duel_start', tileIdx, categoryId: tile.categoryId, categoryName: tile.categoryName, emoji: newDuel.emoji, questionId: q.id, lang, firstActive, hostMs: duelMs, guestMs: duelMs })
+    if (role === 'host') writeDB({ cursor: tileIdx, duel: newDuel })
+  }
+
+  // ── Practice bot ──────────────────────────────────────────────────────────
+  // Runs after every engine step: on the bot's pick it chooses a tile, on its
+  // turn in a running duel it answers (domain/bot.ts) as the guest would.
+  function botStep() {
+    if (!_bot) return
+    const { status, duel, currentPicker, winner, gameResult } = get()
+    const key = status !== 'playing' || gameResult ? null
+      : !duel ? (currentPicker === 'guest' && winner === null ? 'pick' : null)
+      : duel.started && !duel.paused && duel.active === 'guest' && !_host.busy ? `answer:${duel.questionId}` : null
+    if (key === _botKey) return
+    clearBotTimer()
+    _botKey = key
+    if (key === 'pick') {
+      _botTimer = setTimeout(botPick, BOT_PICK_MS)
+    } else if (key && duel) {
+      const move = botMove(_bot, _botRates[duel.categoryId])
+      _botTimer = setTimeout(() => {
+        _botTimer = null
+        dispatchHost({ type: 'answer', player: 'guest', result: move.result })
+      }, move.afterMs)
+    }
+  }
+
+  function botPick() {
+    _botTimer = null
+    const { tiles, categories, gameSettings, duel, currentPicker } = get()
+    if (duel || currentPicker !== 'guest') return
+    const idx = botTarget(tiles, 'silver', i =>
+      !!categories.find(c => c.id === tiles[i].categoryId)?.questions.length
+      && (gameSettings.rules !== 'territory' || canChallenge(tiles, i, 'silver')))
+    if (idx === null) return
+    set({ cursor: idx })
+    openDuel(idx)
+  }
+
+  async function announceResult(e: Extract<HostEffect, { type: 'settle' }>) {
+    // Settle first: the streak bonus depends on stats only the server reads
+    const rewards = (await settleMatch(e.winner)) ?? xpRewards(currentXpPolicy(), { margin: e.margin })
+    const hostXpDelta  = playerXpDelta('host',  e.winner, rewards)
+    const guestXpDelta = playerXpDelta('guest', e.winner, rewards)
+    broadcast({ type: 'game_end', winner: e.winner, hostXpDelta, guestXpDelta, hostTiles: e.hostTiles, guestTiles: e.guestTiles })
+    set({
+      status: 'finished',
+      gameResult: { winnerRole: e.winner, myXpDelta: _bot ? 0 : hostXpDelta, isForfeit: false, hostTiles: e.hostTiles, guestTiles: e.guestTiles },
+    })
+    await writeDB({ status: 'finished' })
+  }
 
   // ── Realtime event handler ────────────────────────────────────────────────
 
+  // Gatekeeper for everything that arrives on the channel: only envelopes that
+  // pass the protocol checks and come from the seat they claim reach onEvent.
+  function onPayload(raw: unknown) {
+    const parsed = parseEnvelope(raw)
+    if (!parsed.ok) {
+      if (parsed.reason === 'version') reportIncompatible(parsed.version ?? 0)
+      else console.warn(`[MP] dropped event (${parsed.reason}):`, raw)
+      return
+    }
+    const env = parsed.envelope
+    const { role, opponentId, watched } = get()
+    // A player checks its opponent once seated; a spectator always checks the
+    // seat the envelope claims against the room's host_id / guest_id
+    const seat = role === 'spectator' ? (env.role === 'host' ? watched?.hostId : watched?.guestId) : opponentId
+    if (env.role !== 'spectator' && (role === 'spectator' || opponentId) && env.sender !== seat) {
+      console.warn('[MP] dropped event (unknown sender):', env.sender, env.event.type)
+      return
+    }
+    const seq = checkSequence(_inSeq, env)
+    if (!seq.accept) return
+    _inSeq = seq.state
+    onEvent(env.event)
+  }
+
+  function reportIncompatible(theirs: number) {
+    if (_versionReported) return
+    _versionReported = true
+    const msg = theirs > PROTOCOL_VERSION
+      ? 'Druga strona ma nowszą wersję gry — odśwież stronę, aby grać dalej'
+      : 'Druga strona ma starszą wersję gry — poproś ją o odświeżenie strony'
+    console.warn(`[MP] protocol mismatch: ours v${PROTOCOL_VERSION}, theirs v${theirs}`)
+    set({ error: `${msg} (protokół v${theirs} ≠ v${PROTOCOL_VERSION})` })
+    get().showToast(`⚠️ ${msg}`)
+  }
+
   function onEvent(ev: MPEvent) {
     const { role } = get()
+    // Guest and spectators mirror the host; only the guest may answer back
+    const follower = role === 'guest' || role === 'spectator'
 
     switch (ev.type) {
       case 'cursor_move':
@@ -404,22 +658,22 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
         break
 
       case 'game_start':
-        if (role === 'guest') {
-          set({ tiles: ev.tiles, gridCols: ev.gridCols, gridRows: ev.gridRows, cursor: ev.cursor, status: 'playing' })
-          useAuthStore.getState().setInGame()
+        if (follower) {
+          set({ tiles: ev.tiles, gridCols: ev.gridCols, gridRows: ev.gridRows, cursor: ev.cursor, status: 'playing', matchStatus: matchStatusOf(0, null) })
+          if (role === 'guest') useAuthStore.getState().setInGame()
         }
         break
 
       case 'duel_start': {
-        if (role === 'guest') {
+        if (follower) {
           const q = resolveQ(ev.questionId)
-          const duelTime = ev.timerHost ?? get().gameSettings.duelTime
+          const duelMs = get().gameSettings.duelTime * 1000
           set({
             duel: {
               tileIdx: ev.tileIdx, categoryId: ev.categoryId,
               categoryName: ev.categoryName, emoji: ev.emoji,
               questionId: ev.questionId, usedQuestionIds: [ev.questionId],
-              timerHost: duelTime, timerGuest: duelTime,
+              clockHost: stoppedClock(ev.hostMs ?? duelMs), clockGuest: stoppedClock(ev.guestMs ?? duelMs),
               active: ev.firstActive, started: false, paused: false, lang: ev.lang,
             },
             currentQuestion: q, winner: null, feedback: { text: '', type: '' },
@@ -429,59 +683,62 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       }
 
       case 'fight_start':
-        if (role === 'guest') {
+        if (follower) {
           const { duel } = get()
           if (!duel) break
           set({ duel: { ...duel, started: true, paused: true }, countdown: null, winner: null })
           runCountdown(() => {
             const { duel } = get()
-            if (duel) set({ duel: { ...duel, paused: false } })
+            // The host's `clock` event re-anchors this to its own start
+            if (duel) set({ duel: anchorDuel({ ...duel, paused: false }, performance.now()) })
           })
         }
         break
 
-      case 'tick':
-        if (role === 'guest') {
+      case 'clock':
+        if (follower) {
           const { duel } = get()
-          if (duel) set({ duel: { ...duel, timerHost: ev.timerHost, timerGuest: ev.timerGuest } })
+          if (duel) set({ duel: withClocks(duel, ev.hostMs, ev.guestMs, ev.running, performance.now()) })
         }
         break
 
       case 'guest_correct':
-        if (role === 'host' && !_processingIntent) {
-          const { duel } = get()
-          if (!duel?.started || duel.paused || duel.active !== 'guest') break
-          _processingIntent = true
-          hostAdvanceAfterCorrect('guest')
-          setTimeout(() => { _processingIntent = false }, 200)
-        }
+        dispatchHost({ type: 'answer', player: 'guest', result: 'correct', at: guestTime(ev.at) })
         break
 
       case 'guest_pass':
-        if (role === 'host' && !_processingIntent) {
-          const { duel } = get()
-          if (!duel?.started || duel.paused || duel.active !== 'guest') break
-          _processingIntent = true
-          hostAdvanceAfterPass('guest')
-          setTimeout(() => { _processingIntent = false }, 200)
-        }
+        dispatchHost({ type: 'answer', player: 'guest', result: 'pass', at: guestTime(ev.at) })
+        break
+
+      case 'clock_ping':
+        if (role !== 'spectator') broadcast({ type: 'clock_pong', t0: ev.t0, t1: performance.now() })
+        break
+
+      case 'clock_pong': {
+        const now = performance.now()
+        // Our own pings only: a pong cannot predate its ping or be from the future
+        if (role === 'spectator' || ev.t0 > now) break
+        _sync = addSyncSample(_sync, syncSample(ev.t0, ev.t1, now))
+        set({ pingMs: Math.round(syncEstimate(_sync)!.rttMs) })
         break
+      }
 
       case 'correct':
-        if (role === 'guest') get().showFeedback(`✓ ${ev.answer}`, ev.player === 'guest' ? 'correct' : 'voice')
+        if (follower) get().showFeedback(`✓ ${ev.answer}`, ev.player === 'guest' ? 'correct' : 'voice')
         break
 
       case 'pass':
-        if (role === 'guest') get().showFeedback(`⏱ PAS · ${ev.answer}`, 'pass')
+        if (follower) get().showFeedback(`⏱ PAS · ${ev.answer}`, 'pass')
         break
 
       case 'next_question': {
-        if (role === 'guest') {
+        if (follower) {
           const { duel } = get()
           if (!duel) break
           const q = resolveQ(ev.questionId)
+          const next = { ...duel, questionId: ev.questionId, usedQuestionIds: [...duel.usedQuestionIds, ev.questionId], active: ev.active, paused: false }
           set({
-            duel: { ...duel, questionId: ev.questionId, usedQuestionIds: [...duel.usedQuestionIds, ev.questionId], active: ev.active, timerHost: ev.timerHost, timerGuest: ev.timerGuest, paused: false },
+            duel: withClocks(next, ev.hostMs, ev.guestMs, true, performance.now()),
             currentQuestion: q,
           })
         }
@@ -489,18 +746,17 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       }
 
       case 'round_end': {
-        if (role === 'guest') {
-          const { tiles, currentPicker } = get()
-          // Recolour the tile + advance the picker with the same rules the host
+        if (follower) {
+          const { tiles, currentPicker, gameSettings } = get()
+          // Resolve the board + advance the picker with the same rules the host
           // used; scores are authoritative from the host, so take them verbatim.
-          const owner = ownerForWinner(ev.winner, tiles[ev.tileIdx]?.owner ?? 'neutral')
-          const newTiles = ev.tileIdx >= 0 ? tiles.map((t, i) => i === ev.tileIdx ? { ...t, owner } : t) : tiles
+          const r = resolveRound(tiles, ev.tileIdx, ev.winner, currentPicker, gameSettings.rules)
           set({
-            tiles: newTiles, winner: ev.winner,
+            tiles: r.tiles, winner: ev.winner,
             hostScore: ev.hostScore, guestScore: ev.guestScore,
-            currentPicker: nextPickerAfterRound(ev.winner, currentPicker),
+            currentPicker: r.nextPicker,
           })
-        } else {
+        } else if (role === 'host') {
           const { duel } = get()
           if (duel) set({ duel: { ...duel, paused: true } })
         }
@@ -508,22 +764,22 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       }
 
       case 'duel_close':
-        if (role === 'guest') {
-          stopTicker()
+        if (follower) {
+          stopHostTimers()
           clearCountdown()
           set({ duel: null, currentQuestion: null, winner: null, countdown: null, feedback: { text: '', type: '' } })
         }
         break
 
       case 'feedback':
-        if (role === 'guest') get().showFeedback(ev.text, ev.feedbackType)
+        if (follower) get().showFeedback(ev.text, ev.feedbackType)
         break
 
       case 'game_end': {
         const { tiles, role: r } = get()
         const hostTiles  = ev.hostTiles  ?? tiles.filter(t => t.owner === 'gold').length
         const guestTiles = ev.guestTiles ?? tiles.filter(t => t.owner === 'silver').length
-        const myXpDelta  = r === 'host' ? ev.hostXpDelta : ev.guestXpDelta
+        const myXpDelta  = r === 'host' ? ev.hostXpDelta : r === 'guest' ? ev.guestXpDelta : 0
         set({
           status: 'finished',
           gameResult: { winnerRole: ev.winner, myXpDelta, isForfeit: false, hostTiles, guestTiles },
@@ -536,33 +792,58 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
         break
 
       case 'game_settings':
-        set({ gameSettings: { duelTime: ev.duelTime, categoriesCount: ev.categoriesCount, gameMode: ev.gameMode ?? 'classic', passPenalty: ev.passPenalty ?? 2 } })
+        set({ gameSettings: {
+          duelTime: ev.duelTime, categoriesCount: ev.categoriesCount, gameMode: ev.gameMode ?? 'classic', passPenalty: ev.passPenalty ?? 2,
+          rules: ev.rules, maxRounds: ev.maxRounds, matchMinutes: ev.matchMinutes, victory: ev.victory, suddenDeath: ev.suddenDeath,
+        } })
+        break
+
+      case 'match_status':
+        if (follower) set({ matchStatus: matchStatusOf(ev.roundsPlayed, ev.matchMs) })
+        break
+
+      case 'showdown':
+        if (follower) set({ showdown: true })
         break
 
       case 'opponent_name':
-        set({ opponentName: ev.name, opponentAvatar: ev.avatar })
+        if (role !== 'spectator') set({ opponentName: ev.name, opponentAvatar: ev.avatar })
+        break
+
+      case 'resync_request':
+        // Outside a running match a snapshot would pull the guest from the game-over screen back to 'playing'
+        if (role === 'host' && get().status === 'playing') broadcastSnapshot(ev.from)
+        break
+
+      case 'state_snapshot':
+        // A snapshot for a new spectator must not cut the guest's countdown or round result short
+        if (follower && (ev.to === null || ev.to === get().playerId)) {
+          clearCountdown()
+          set({
+            status: 'playing', tiles: ev.tiles, gridCols: ev.gridCols, gridRows: ev.gridRows, cursor: ev.cursor,
+            duel: ev.duel && anchorDuel(ev.duel, performance.now()), currentQuestion: ev.duel ? resolveQ(ev.duel.questionId) : null,
+            hostScore: ev.hostScore, guestScore: ev.guestScore, currentPicker: ev.picker,
+            gameSettings: ev.settings, winner: null, countdown: null,
+            matchStatus: matchStatusOf(ev.roundsPlayed, ev.matchMs), showdown: ev.showdown,
+          })
+        }
         break
 
       case 'opponent_left': {
-        stopTicker()
-        clearCountdown()
+        // Spectators learn the forfeit from the settled room row instead
+        if (role === 'spectator') { get().showToast('🚪 Gracz opuścił pokój'); break }
         get().showToast('🚪 Przeciwnik opuścił pokój')
-        const { status: curStatus, opponentId, gameSettings: gsCur, role: curRole, tiles: curTiles } = get()
-        const forfeitXpWin = xpRewards(gsCur.categoriesCount, true).win
-        if (curStatus === 'playing' && curRole === 'guest' && opponentId) {
-          awardXP(opponentId, effectivePlayerId(), 'guest', gsCur.categoriesCount, true).catch(() => {})
+        const { status: curStatus, roomId: curRoomId, role: curRole } = get()
+        if (curStatus === 'playing' && curRoomId) {
+          // The leaver settled the forfeit before announcing it — replace the
+          // estimate with the real reward (incl. streak bonus)
+          fetchMatchResult(curRoomId).then(r => {
+            const res = get().gameResult
+            if (r && res?.isForfeit) set({ gameResult: { ...res, myXpDelta: r.rewards.win } })
+            if (r) useAuthStore.getState().refreshProfile()
+          })
         }
-        set({
-          status: 'finished',
-          duel: null, currentQuestion: null, winner: null, countdown: null, feedback: { text: '', type: '' },
-          gameResult: {
-            winnerRole: curRole === 'guest' ? 'guest' : 'host',
-            myXpDelta: forfeitXpWin,
-            isForfeit: true,
-            hostTiles: curTiles.filter(t => t.owner === 'gold').length,
-            guestTiles: curTiles.filter(t => t.owner === 'silver').length,
-          },
-        })
+        finishByForfeit(curRole === 'guest' ? 'guest' : 'host', xpRewards(currentXpPolicy(), { forfeit: true }).win)
         break
       }
     }
@@ -571,17 +852,136 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
   // ── Room subscription ──────────────────────────────────────────────────────
 
   let _reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let _opponentSeen   = false  // presence: only a drop AFTER the opponent was here counts
+  let _pausedForAway  = false  // host froze the duel clock while the opponent was away
+  let _announceResume = false  // resumed from the DB — resync once the channel is up
+
+  /** Full state for one follower (`to` = their player id) or, with null, for everyone. */
+  function broadcastSnapshot(to: string | null) {
+    const { tiles, gridCols, gridRows, cursor, duel, hostScore, guestScore, currentPicker, gameSettings } = get()
+    broadcast({
+      type: 'state_snapshot', to, tiles, gridCols, gridRows, cursor, duel: freezeOrNull(duel), hostScore, guestScore, picker: currentPicker, settings: gameSettings,
+      roundsPlayed: _host.roundNo, matchMs: matchTimeLeft(_host.matchClock, performance.now()), showdown: _host.showdown !== null,
+    })
+  }
+
+  // Presence decides "reconnecting…" vs "back": a reload drops the opponent's
+  // presence for a few seconds, which must not end the match.
+  function onPresenceSync(present: string[]) {
+    const { opponentId, status, role, duel, opponentAway } = get()
+    if (!opponentId || status !== 'playing') return
+
+    if (present.includes(opponentId)) {
+      _opponentSeen = true
+      if (!opponentAway) return
+      clearGraceTimer()
+      set({ opponentAway: null })
+      get().showToast('🔌 Przeciwnik wrócił')
+      if (role !== 'host') return
+      if (_pausedForAway && duel) {
+        _pausedForAway = false
+        dispatchHost({ type: 'start_clock' })
+      }
+      broadcastSnapshot(opponentId)
+      return
+    }
+
+    if (!_opponentSeen || opponentAway) return
+    set({ opponentAway: { since: Date.now(), expired: false } })
+    clearGraceTimer()
+    graceTimer = setTimeout(() => {
+      const away = get().opponentAway
+      if (!away) return
+      set({ opponentAway: { ...away, expired: true } })
+      claimAbandonedMatch()
+    }, RECONNECT_GRACE_MS)
+    if (role === 'host' && duel?.started && !duel.paused && !get().countdown) {
+      _pausedForAway = true
+      dispatchHost({ type: 'pause_clock' })
+    }
+  }
+
+  // The opponent never came back: take the match as a forfeit win. The server
+  // only agrees once their room heartbeat has gone stale as well, so a refused
+  // claim is retried with backoff (on graceTimer, which their return clears)
+  // while the "did not return" banner stays up.
+  async function claimAbandonedMatch(attempt = 0) {
+    const { status, role } = get()
+    if (status !== 'playing' || !role || role === 'spectator') return
+    const rewards = await settleMatch('abandon')
+    if (rewards) { finishByForfeit(role, rewards.win); return }
+    if (get().status !== 'playing' || !get().opponentAway?.expired) return
+    clearGraceTimer()
+    graceTimer = setTimeout(() => claimAbandonedMatch(attempt + 1),
+      Math.min(ABANDON_RETRY_MS * 2 ** attempt, ABANDON_RETRY_MAX_MS))
+  }
+
+  function finishByForfeit(winnerRole: MPActivePlayer, myXpDelta: number) {
+    const { tiles } = get()
+    stopHostTimers()
+    clearCountdown()
+    clearGraceTimer()
+    set({
+      status: 'finished', opponentAway: null,
+      duel: null, currentQuestion: null, winner: null, countdown: null, feedback: { text: '', type: '' },
+      gameResult: {
+        winnerRole, myXpDelta, isForfeit: true,
+        hostTiles:  tiles.filter(t => t.owner === 'gold').length,
+        guestTiles: tiles.filter(t => t.owner === 'silver').length,
+      },
+    })
+  }
+
+  // A guest timestamp on the host's timeline; without an estimate yet the
+  // answer simply counts on arrival.
+  function guestTime(at: number): number | undefined {
+    const est = syncEstimate(_sync)
+    return est ? toLocalTime(at, est) : undefined
+  }
+
+  function startPing() {
+    stopPing()
+    let sent = 0
+    const ping = () => {
+      broadcast({ type: 'clock_ping', t0: performance.now() })
+      pingTimer = setTimeout(ping, ++sent < PING_BURST ? PING_BURST_MS : PING_INTERVAL_MS)
+    }
+    ping()
+  }
+
+  function startRoomHeartbeat(roomId: string) {
+    stopRoomHeartbeat()
+    const beat = () => {
+      supabase.rpc('room_heartbeat', { p_room_id: roomId }).then(({ error }) => {
+        if (error) console.warn('[MP] room_heartbeat error:', error)
+      })
+    }
+    beat()
+    roomHeartbeatTimer = setInterval(beat, ROOM_HEARTBEAT_MS)
+  }
+
+  type RoomRow = { guest_id: string | null; status: string; game_state: MPGameState | null; host_score: number; guest_score: number }
 
   function subscribeRoom(roomId: string) {
     const { channel: old } = get()
     if (old) old.unsubscribe()
     if (_reconnectTimer) { clearTimeout(_reconnectTimer); _reconnectTimer = null }
 
-    const ch = supabase.channel(`room:${roomId}`, { config: { broadcast: { self: false } } })
+    const ch = realtime().channel(`room:${roomId}`, { presenceKey: effectivePlayerId() })
 
-    ch.on('broadcast', { event: 'game' }, (pl) => onEvent(pl.payload as MPEvent))
-      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'game_rooms', filter: `id=eq.${roomId}` }, (pl) => {
-        const room = pl.new as { guest_id: string | null; status: string; game_state: MPGameState | null; host_score: number; guest_score: number }
+    _outEpoch = Date.now()
+    _outSeq   = 0
+    _inSeq    = {}
+    _versionReported = false
+    _sync     = emptySync()
+
+    ch.onBroadcast('game', onPayload)
+      .onPresenceSync(() => {
+        const state = ch.presenceState<{ role?: MPRole }>()
+        set({ spectators: Object.values(state).filter(metas => metas.some(m => m.role === 'spectator')).length })
+        onPresenceSync(Object.keys(state))
+      })
+      .onRowChange<RoomRow>({ event: 'UPDATE', table: 'game_rooms', filter: `id=eq.${roomId}` }, ({ new: room }) => {
         const { role, status } = get()
 
         if (role === 'host' && room.guest_id && status === 'waiting') {
@@ -590,11 +990,31 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
             set({ status: 'lobby', opponentId: room.guest_id!, opponentName: d?.username ?? 'GOŚĆ', opponentAvatar: d?.avatar ?? '🎮', guestReady: true })
             const gs = get().gameSettings
             broadcast({ type: 'opponent_name', name: get().playerName, avatar: effectivePlayerAvatar() })
-            setTimeout(() => broadcast({ type: 'game_settings', duelTime: gs.duelTime, categoriesCount: gs.categoriesCount, gameMode: gs.gameMode, passPenalty: gs.passPenalty }), 300)
+            setTimeout(() => broadcast(settingsEvent(gs)), 300)
+          })
+        }
+
+        // Settled while we were away — the opponent claimed the match
+        if (room.status === 'finished' && status === 'playing') {
+          fetchMatchResult(roomId).then(r => {
+            const me = get().role
+            if (!r || !me || get().gameResult) return
+            if (me === 'spectator') {
+              // A player forfeited (or game_end was missed) — show the settled winner
+              clearCountdown()
+              set({
+                status: 'finished', duel: null, currentQuestion: null, winner: null, countdown: null,
+                gameResult: { winnerRole: r.winner, myXpDelta: 0, isForfeit: r.forfeit, hostTiles: room.host_score ?? 0, guestTiles: room.guest_score ?? 0 },
+              })
+              return
+            }
+            if (!r.forfeit) return
+            finishByForfeit(r.winner === 'draw' ? me : r.winner, playerXpDelta(me, r.winner, r.rewards))
+            useAuthStore.getState().refreshProfile()
           })
         }
 
-        if (role === 'guest') {
+        if (role === 'guest' || role === 'spectator') {
           const gs = room.game_state
           if (gs?.tiles) set({ tiles: gs.tiles })
           if (gs?.cursor !== undefined) set({ cursor: gs.cursor })
@@ -603,6 +1023,15 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
         }
       })
       .subscribe((chStatus, err) => {
+        if (chStatus === 'SUBSCRIBED') {
+          ch.track({ role: get().role })
+          if (get().role !== 'spectator') startPing()
+          if (_announceResume) {
+            _announceResume = false
+            if (get().role === 'host') broadcastSnapshot(null)
+            else broadcast({ type: 'resync_request', from: get().playerId })
+          }
+        }
         if (chStatus === 'CHANNEL_ERROR' || chStatus === 'CLOSED') {
           const { roomId: curRoom, status: curStatus } = get()
           if (curRoom && curStatus !== 'idle' && curStatus !== 'finished') {
@@ -613,6 +1042,55 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       })
 
     set({ channel: ch })
+    // Spectators are not seats — their absence must never count as abandon
+    if (get().role !== 'spectator') startRoomHeartbeat(roomId)
+  }
+
+  // ── Ranked matchmaking ─────────────────────────────────────────────────────
+
+  // Both players land here: the one whose poll created the room and the one
+  // who was paired into it. Role comes from the row — the longer-waiting
+  // player is the host.
+  async function enterMatchedRoom(roomId: string, code: string) {
+    const { data } = await supabase.from('game_rooms').select('host_id,guest_id,config').eq('id', roomId).maybeSingle()
+    const room = data as { host_id: string; guest_id: string | null; config: Record<string, unknown> | null } | null
+    if (!room?.guest_id) { set({ status: 'idle', matchmaking: null, error: 'Nie udało się dołączyć do meczu' }); return }
+
+    // Tournament rooms carry the organiser's settings; the host cannot change them
+    const cfg = room.config ?? {}
+    if (typeof cfg.tournament === 'string' && typeof cfg.match === 'string') {
+      set({
+        tournament:   { id: cfg.tournament, matchKey: cfg.match },
+        gameSettings: settingsFromConfig(cfg, get().gameSettings),
+      })
+    }
+
+    const playerId   = effectivePlayerId()
+    const role: MPRole = room.host_id === playerId ? 'host' : 'guest'
+    const opponentId = role === 'host' ? room.guest_id : room.host_id
+
+    const [{ data: opp }] = await Promise.all([
+      supabase.from('profiles').select('username,avatar').eq('id', opponentId).maybeSingle(),
+      get().loadCategories(),
+    ])
+    const o = opp as { username: string; avatar: string } | null
+
+    const { tiles, cols, rows } = role === 'host'
+      ? buildTiles(get().categories, get().gameSettings.categoriesCount)
+      : { tiles: [], cols: get().gridCols, rows: get().gridRows }
+
+    set({
+      roomId, roomCode: code, role, status: 'lobby', matchmaking: null,
+      opponentId, opponentName: o?.username ?? null, opponentAvatar: o?.avatar ?? '🎮',
+      tiles, cursor: Math.max(0, Math.floor(tiles.length / 2) - 1), gridCols: cols, gridRows: rows,
+      hostScore: 0, guestScore: 0, guestReady: true, currentPicker: 'host',
+    })
+    subscribeRoom(roomId)
+
+    if (role === 'host') {
+      const gs = get().gameSettings
+      setTimeout(() => broadcast(settingsEvent(gs)), 800)
+    }
   }
 
   // ── Initial state + actions ────────────────────────────────────────────────
@@ -628,10 +1106,19 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
     feedback:       { text: '', type: '' },
     winner:         null, countdown: null, error: null, toastText: '', channel: null,
     chatMessages:   [],
-    gameSettings:   { duelTime: 45, categoriesCount: 12, gameMode: 'classic', passPenalty: 2 },
+    gameSettings:   { duelTime: 45, categoriesCount: 12, gameMode: 'classic', passPenalty: 2, rules: 'classic', maxRounds: 0, matchMinutes: 0, victory: DEFAULT_VICTORY, suddenDeath: false },
     guestReady:     false,
     gameResult:     null,
     currentPicker:  'host',
+    matchmaking:    null,
+    opponentAway:   null,
+    matchStatus:    { roundsPlayed: 0, clock: null },
+    showdown:       false,
+    bot:            null,
+    spectators:     0,
+    pingMs:         null,
+    watched:        null,
+    tournament:     null,
 
     setPlayerName: (name) => { setLocalPlayerName(name); set({ playerName: name }) },
 
@@ -748,32 +1235,265 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       }
     },
 
+    // Reload mid-match: the store is empty but the room row is not. The role
+    // comes from host_id/guest_id, the state from game_state; the host then
+    // pushes (or the guest requests) a fresh snapshot once the channel is up.
+    resumeRoom: async (code) => {
+      const playerId = effectivePlayerId()
+      set({ status: 'joining', error: null })
+      try {
+        const { data } = await supabase.from('game_rooms')
+          .select('id,code,host_id,guest_id,game_state,host_score,guest_score,config')
+          .eq('code', code.toUpperCase()).eq('status', 'playing').maybeSingle()
+        const r = data as {
+          id: string; code: string; host_id: string; guest_id: string | null
+          game_state: MPGameState | null; host_score: number; guest_score: number
+          config: Record<string, unknown> | null
+        } | null
+        const role: MPRole | null = r?.host_id === playerId ? 'host' : r?.guest_id === playerId ? 'guest' : null
+        if (!r?.guest_id || !role) { set({ status: 'idle' }); return false }
+
+        const opponentId = role === 'host' ? r.guest_id : r.host_id
+        const [{ data: opp }] = await Promise.all([
+          supabase.from('profiles').select('username,avatar').eq('id', opponentId).maybeSingle(),
+          get().loadCategories(),
+        ])
+        const o   = opp as { username: string; avatar: string } | null
+        const gs  = r.game_state ?? { tiles: [], cursor: 0, duel: null }
+        const cfg = r.config ?? {}
+        const num = (k: string, fallback: number) => typeof cfg[k] === 'number' ? cfg[k] as number : fallback
+        // The host's clock restarts from the last persisted transition
+        const duel = gs.duel && role === 'host' && gs.duel.started ? { ...gs.duel, paused: false } : gs.duel
+
+        _host          = { ...freshHost(gs.seed), roundNo: gs.roundNo ?? 0, duelsWon: gs.duelsWon ?? {}, showdown: gs.showdown ?? null }
+        _opponentSeen  = true
+        _pausedForAway = false
+        _announceResume = true
+        set({
+          roomId: r.id, roomCode: r.code, role, status: 'playing',
+          playerId, playerName: effectivePlayerName(),
+          opponentId, opponentName: o?.username ?? null, opponentAvatar: o?.avatar ?? '🎮',
+          tiles: gs.tiles ?? [], cursor: gs.cursor ?? 0, gridCols: num('cols', 4), gridRows: num('rows', 3),
+          duel, currentQuestion: duel ? resolveQ(duel.questionId) : null,
+          hostScore: r.host_score ?? 0, guestScore: r.guest_score ?? 0,
+          currentPicker: gs.picker ?? 'host',
+          gameSettings: settingsFromConfig(cfg, get().gameSettings),
+          matchStatus: matchStatusOf(gs.roundNo ?? 0, gs.matchMs ?? null), showdown: !!gs.showdown,
+          winner: null, countdown: null, gameResult: null, opponentAway: null, guestReady: true,
+        })
+        subscribeRoom(r.id)
+        // The match clock carries on from the last write, like the duel clock
+        if (role === 'host') dispatchHost({ type: 'start_match', matchMs: gs.matchMs ?? null })
+        if (role === 'host' && duel?.started) dispatchHost({ type: 'start_clock' })
+        // Left between the draw and the showdown (or its result) — pick up from there
+        if (role === 'host' && !duel && gs.showdown) dispatchHost({ type: 'close_duel' })
+        useAuthStore.getState().setInGame()
+        return true
+      } catch {
+        set({ status: 'idle', error: 'Błąd połączenia' })
+        return false
+      }
+    },
+
+    // Spectating: same restore path as resumeRoom, but the role is never a
+    // seat. The board comes from game_state; the host's snapshot (requested
+    // once the channel is up) fills in the live duel clocks.
+    watchRoom: async (code) => {
+      set({ status: 'joining', error: null })
+      try {
+        const { data } = await supabase.from('game_rooms')
+          .select('id,code,host_id,guest_id,game_state,host_score,guest_score,config')
+          .eq('code', code.toUpperCase()).eq('status', 'playing').maybeSingle()
+        const r = data as {
+          id: string; code: string; host_id: string; guest_id: string | null
+          game_state: MPGameState | null; host_score: number; guest_score: number
+          config: Record<string, unknown> | null
+        } | null
+        if (!r?.guest_id) { set({ status: 'idle', error: 'Nie znaleziono trwającego meczu o podanym kodzie.' }); return false }
+
+        const [{ data: players }] = await Promise.all([
+          supabase.from('profiles').select('id,username').in('id', [r.host_id, r.guest_id]),
+          get().loadCategories(),
+        ])
+        const nameOf = (id: string, fallback: string) =>
+          (players as { id: string; username: string }[] | null)?.find(p => p.id === id)?.username ?? fallback
+        const gs  = r.game_state ?? { tiles: [], cursor: 0, duel: null }
+        const cfg = r.config ?? {}
+        const num = (k: string, fallback: number) => typeof cfg[k] === 'number' ? cfg[k] as number : fallback
+
+        _announceResume = true
+        set({
+          roomId: r.id, roomCode: r.code, role: 'spectator', status: 'playing',
+          playerId: effectivePlayerId(), playerName: effectivePlayerName(),
+          opponentId: null, opponentName: null, opponentAvatar: '🎮',
+          watched: { hostId: r.host_id, guestId: r.guest_id, hostName: nameOf(r.host_id, 'HOST'), guestName: nameOf(r.guest_id, 'GOŚĆ') },
+          tiles: gs.tiles ?? [], cursor: gs.cursor ?? 0, gridCols: num('cols', 4), gridRows: num('rows', 3),
+          duel: gs.duel, currentQuestion: gs.duel ? resolveQ(gs.duel.questionId) : null,
+          hostScore: r.host_score ?? 0, guestScore: r.guest_score ?? 0,
+          currentPicker: gs.picker ?? 'host',
+          gameSettings: settingsFromConfig(cfg, get().gameSettings),
+          matchStatus: matchStatusOf(gs.roundNo ?? 0, gs.matchMs ?? null), showdown: !!gs.showdown,
+          winner: null, countdown: null, gameResult: null, opponentAway: null,
+        })
+        subscribeRoom(r.id)
+        return true
+      } catch {
+        set({ status: 'idle', error: 'Błąd połączenia' })
+        return false
+      }
+    },
+
+    findMatch: async () => {
+      const authUser = useAuthStore.getState().user
+      if (!authUser) { set({ error: 'Musisz być zalogowany, aby grać rankingowo.' }); return }
+      if (get().status !== 'idle') return
+
+      const playerId   = effectivePlayerId()
+      const playerName = effectivePlayerName()
+      const startedAt  = Date.now()
+      stopMatchmakingPoll()
+      set({ status: 'searching', error: null, playerId, playerName, matchmaking: { startedAt, window: ratingWindow(0), waitedMs: 0 } })
+
+      await ensureProfile(playerId, playerName, effectivePlayerAvatar())
+      try {
+        await enqueueForMatch(ratingWindow(0))
+      } catch (e) {
+        console.warn('[MM] enqueue failed:', e)
+        set({ status: 'idle', matchmaking: null, error: 'Nie udało się dołączyć do kolejki' })
+        return
+      }
+
+      // The room is created server-side by whichever poll finds the pair, so
+      // it carries the settings of that player — same shape as createRoom().
+      const { gameSettings } = get()
+      const { cols, rows } = MP_BOARD[gameSettings.categoriesCount] ?? getBoardDimensions(useConfigStore.getState().config)
+      const roomConfig = { cols, rows, duelTime: gameSettings.duelTime, passPenalty: gameSettings.passPenalty }
+
+      const poll = async () => {
+        matchmakingTimer = null
+        const mm = get().matchmaking
+        if (get().status !== 'searching' || !mm) return
+
+        const waitedMs = Date.now() - mm.startedAt
+        if (isQueueTimedOut(waitedMs)) {
+          await cancelMatchSearch()
+          if (get().status === 'searching') {
+            set({ status: 'idle', matchmaking: null, error: 'Nie znaleziono przeciwnika. Spróbuj ponownie za chwilę.' })
+          }
+          return
+        }
+
+        const eloWindow = ratingWindow(waitedMs)
+        set({ matchmaking: { ...mm, window: eloWindow, waitedMs } })
+        try {
+          const match = await pollForMatch(eloWindow, roomConfig)
+          if (match && get().status !== 'searching') {
+            // Cancelled while the poll was in flight — don't strand the opponent
+            await supabase.from('game_rooms').update({ status: 'finished', updated_at: new Date().toISOString() }).eq('id', match.roomId)
+            return
+          }
+          if (match) { await enterMatchedRoom(match.roomId, match.code); return }
+        } catch (e) {
+          console.warn('[MM] poll error:', e)
+        }
+        if (get().status === 'searching') matchmakingTimer = setTimeout(poll, MM_POLL_MS)
+      }
+      matchmakingTimer = setTimeout(poll, MM_POLL_MS)
+    },
+
+    cancelMatchmaking: async () => {
+      if (get().status !== 'searching') return
+      stopMatchmakingPoll()
+      set({ status: 'idle', matchmaking: null })
+      await cancelMatchSearch()
+    },
+
+    // Both players of a bracket match call this; the RPC hands them the same
+    // room (slot a hosts), after which it is an ordinary matched room.
+    playTournamentMatch: async (tournamentId, matchKey) => {
+      if (!useAuthStore.getState().user) { set({ error: 'Musisz być zalogowany, aby grać w turnieju.' }); return false }
+      if (get().status !== 'idle') return false
+      const playerId   = effectivePlayerId()
+      const playerName = effectivePlayerName()
+      set({ status: 'joining', error: null, playerId, playerName })
+      try {
+        await ensureProfile(playerId, playerName, effectivePlayerAvatar())
+        const { roomId, code } = await openTournamentMatch(tournamentId, matchKey)
+        await enterMatchedRoom(roomId, code)
+        return get().status === 'lobby'
+      } catch (e) {
+        console.warn('[MP] playTournamentMatch failed:', e)
+        set({ status: 'idle', error: 'Nie udało się otworzyć meczu turniejowego' })
+        return false
+      }
+    },
+
+    // A match against the bot on the lobby's settings, straight to the board
+    practiceBot: async (level) => {
+      if (get().status !== 'idle') return
+      set({ status: 'creating', error: null, playerId: effectivePlayerId(), playerName: effectivePlayerName() })
+      await get().loadCategories()
+      _botRates = await fetchCategoryRates()
+      _bot = level
+      set({
+        roomId: null, roomCode: BOT_ROOM, role: 'host', status: 'lobby', tournament: null,
+        opponentId: null, opponentName: `🤖 ${BOT_NAMES[level]}`, opponentAvatar: '🤖',
+        guestReady: true, bot: level,
+      })
+      get().startGame()
+    },
+
     startGame: () => {
       const { role, status, categories, gameSettings } = get()
       if (role !== 'host' || status !== 'lobby') return
 
-      const { tiles, cols, rows } = buildTiles(categories, gameSettings.categoriesCount)
+      // A fresh seed deals the board and draws the questions; game_state keeps it
+      _host = freshHost()
+      const board = buildTiles(categories, gameSettings.categoriesCount, streamRng(_host.seed, 'board'))
+      const { cols, rows } = board
+      const tiles  = gameSettings.rules === 'territory' ? seedTerritories(board.tiles) : board.tiles
       const cursor = Math.floor(tiles.length / 2) - 1
 
-      set({ status: 'playing', tiles, cursor, gridCols: cols, gridRows: rows, currentPicker: 'host' })
-      broadcast({ type: 'game_settings', duelTime: gameSettings.duelTime, categoriesCount: gameSettings.categoriesCount, gameMode: gameSettings.gameMode, passPenalty: gameSettings.passPenalty })
+      set({ status: 'playing', tiles, cursor, gridCols: cols, gridRows: rows, currentPicker: 'host', showdown: false })
+      broadcast(settingsEvent(gameSettings))
       // Include tiles in game_start so guest sees the same board
       broadcast({ type: 'game_start', tiles, gridCols: cols, gridRows: rows, cursor })
-      writeDB({ tiles, cursor, status: 'playing' })
+      dispatchHost({ type: 'start_match' })
+      // Settings first: the server freezes config once the room is 'playing'
+      writeRoomSettings().then(() => writeDB({ tiles, cursor, status: 'playing' }))
       useAuthStore.getState().setInGame()
     },
 
     leaveRoom: async () => {
-      const { channel, roomId, role, status, opponentId, gameSettings } = get()
-      stopTicker()
+      const { channel, roomId, role, status, opponentId } = get()
+      if (status === 'searching') { await get().cancelMatchmaking(); return }
+
+      // The opponent did not come back: leaving now still takes the forfeit win.
+      // If the server refuses the claim for now, stay put and let the retry run.
+      const abandoned = status === 'playing' && !!opponentId && !!get().opponentAway?.expired
+      if (abandoned && role && role !== 'spectator') {
+        const rewards = await settleMatch('abandon')
+        if (rewards) finishByForfeit(role, rewards.win)
+        else if (get().status === 'playing') {
+          get().showToast('⏳ Serwer jeszcze nie potwierdził walkowera — spróbuj za chwilę')
+          return
+        }
+      }
+
+      stopHostTimers()
       clearCountdown()
       if (_reconnectTimer) { clearTimeout(_reconnectTimer); _reconnectTimer = null }
+      clearGraceTimer()
+      stopRoomHeartbeat()
+      stopPing()
+      clearBotTimer()
+      _bot = null
+      _opponentSeen = false
+      _pausedForAway = false
 
-      if (status === 'playing' && role === 'host' && opponentId) {
-        await awardXP(effectivePlayerId(), opponentId, 'guest', gameSettings.categoriesCount, true).catch(() => {})
-      }
+      if (status === 'playing' && opponentId && !abandoned) await settleMatch('forfeit')
 
-      if (channel && status !== 'idle' && status !== 'finished') {
+      if (channel && role !== 'spectator' && !abandoned && status !== 'idle' && status !== 'finished') {
         broadcast({ type: 'opponent_left' })
         await new Promise(r => setTimeout(r, 150))
       }
@@ -781,14 +1501,16 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       if (roomId && role === 'host') {
         await supabase.from('game_rooms').update({ status: 'finished', updated_at: new Date().toISOString() }).eq('id', roomId)
       }
-      useAuthStore.getState().setOnline()
+      if (role !== 'spectator') useAuthStore.getState().setOnline()
       set({
         roomId: null, roomCode: null, role: null, status: 'idle',
         opponentId: null, opponentName: null, opponentAvatar: '🎮',
         tiles: [], cursor: 0, duel: null, currentQuestion: null, winner: null,
         countdown: null, hostScore: 0, guestScore: 0, channel: null, error: null,
         feedback: { text: '', type: '' }, chatMessages: [], guestReady: false,
-        gameResult: null, currentPicker: 'host',
+        gameResult: null, currentPicker: 'host', opponentAway: null,
+        spectators: 0, pingMs: null, watched: null, tournament: null, matchStatus: { roundsPlayed: 0, clock: null },
+        showdown: false, bot: null,
       })
     },
 
@@ -813,24 +1535,13 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       if (duel || role !== currentPicker) return
       const tile = tiles[cursor]
       if (!tile) return
-      const cat = categories.find(c => c.id === tile.categoryId)
-      const qs  = cat?.questions ?? []
-      if (!qs.length) { get().showToast('❌ Brak pytań w tej kategorii'); return }
-
-      const duelTime    = gameSettings.duelTime
-      const q           = qs[Math.floor(Math.random() * qs.length)]
-      const lang        = (cat?.lang ?? 'pl-PL') as SpeechLang
-      const firstActive: MPActivePlayer = Math.random() < 0.5 ? 'host' : 'guest'
-
-      const newDuel: MPDuelState = {
-        tileIdx: cursor, categoryId: tile.categoryId, categoryName: tile.categoryName,
-        emoji: getCatEmoji(tile.categoryName, cat?.emoji),
-        questionId: q.id, usedQuestionIds: [q.id],
-        timerHost: duelTime, timerGuest: duelTime,
-        active: firstActive, started: false, paused: false, lang,
+      if (gameSettings.rules === 'territory' && !canChallenge(tiles, cursor, sideOf(currentPicker))) {
+        get().showToast('🗺️ Możesz zaatakować tylko pole przeciwnika sąsiadujące z Twoim terytorium')
+        return
       }
-      set({ duel: newDuel, currentQuestion: q, winner: null, feedback: { text: '', type: '' } })
-      broadcast({ type: 'duel_start', tileIdx: cursor, categoryId: tile.categoryId, categoryName: tile.categoryName, emoji: newDuel.emoji, questionId: q.id, lang, firstActive, timerHost: duelTime, timerGuest: duelTime })
+      const cat = categories.find(c => c.id === tile.categoryId)
+      if (!cat?.questions.length) { get().showToast('❌ Brak pytań w tej kategorii'); return }
+      openDuel(cursor)
     },
 
     startFight: () => {
@@ -838,12 +1549,7 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       if (!duel || duel.started || role !== 'host') return
       set({ duel: { ...duel, started: true, paused: true }, countdown: null, winner: null })
       broadcast({ type: 'fight_start' })
-      runCountdown(() => {
-        const { duel } = get()
-        if (!duel) return
-        set({ duel: { ...duel, paused: false } })
-        startTicker()
-      })
+      runCountdown(() => dispatchHost({ type: 'start_clock' }))
     },
 
     markCorrect: () => {
@@ -852,11 +1558,11 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       if (duel.active !== role) return
 
       if (role === 'host') {
-        hostAdvanceAfterCorrect('host')
+        dispatchHost({ type: 'answer', player: 'host', result: 'correct' })
       } else {
         const ans = get().currentQuestion?.answer ?? '???'
         get().showFeedback(`✓ ${ans}`, 'correct')
-        broadcast({ type: 'guest_correct' })
+        broadcast({ type: 'guest_correct', at: performance.now() })
       }
     },
 
@@ -866,25 +1572,18 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
       if (duel.active !== role) return
 
       if (role === 'host') {
-        hostAdvanceAfterPass('host')
+        dispatchHost({ type: 'answer', player: 'host', result: 'pass' })
       } else {
         const ans = get().currentQuestion?.answer ?? '???'
         get().showFeedback(`⏱ PAS · ${ans}`, 'pass')
-        broadcast({ type: 'guest_pass' })
+        broadcast({ type: 'guest_pass', at: performance.now() })
       }
     },
 
     closeDuel: () => {
-      stopTicker()
       clearCountdown()
       set({ duel: null, currentQuestion: null, winner: null, countdown: null, feedback: { text: '', type: '' } })
-      if (get().role === 'host') {
-        const { tiles } = get()
-        if (!hostCheckGameEnd(tiles)) {
-          broadcast({ type: 'duel_close' })
-          writeDB({ tiles, cursor: get().cursor })
-        }
-      }
+      dispatchHost({ type: 'close_duel' })
     },
 
     showFeedback: (text, type) => {
@@ -901,29 +1600,29 @@ export const useMultiplayerStore = create<MPStore>((set, get) => {
     },
 
     sendChatMessage: (text) => {
-      const { playerName } = get()
+      const { playerName, role } = get()
+      if (role === 'spectator') return
       const msg = { from: playerName, text, ts: Date.now() }
       set(s => ({ chatMessages: [...s.chatMessages.slice(-99), msg] }))
       broadcast({ type: 'chat_message', ...msg })
     },
 
     updateGameSettings: (s) => {
+      if (get().tournament) return
       const next = { ...get().gameSettings, ...s }
       set({ gameSettings: next })
-      broadcast({ type: 'game_settings', duelTime: next.duelTime, categoriesCount: next.categoriesCount, gameMode: next.gameMode, passPenalty: next.passPenalty })
+      broadcast(settingsEvent(next))
     },
 
     sendInvite: (targetPlayerId) => {
       const { roomCode, playerName } = get()
       if (!roomCode) return
       const fromId = effectivePlayerId()
-      const invChannel = supabase.channel(`invites:${targetPlayerId}`)
+      const invChannel = realtime().channel(`invites:${targetPlayerId}`)
       invChannel.subscribe((st) => {
         if (st === 'SUBSCRIBED') {
-          invChannel.send({
-            type: 'broadcast', event: 'invite',
-            payload: { roomCode, fromName: playerName, fromId },
-          }).then(() => setTimeout(() => invChannel.unsubscribe(), 1500))
+          invChannel.send('invite', { roomCode, fromName: playerName, fromId })
+            .then(() => setTimeout(() => invChannel.unsubscribe(), 1500))
         }
       })
     },
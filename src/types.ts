@@ -1,11 +1,26 @@
+import type { VictoryPolicy } from './domain/board'
+import type { DuelClock } from './domain/clock'
+import type { DuelTally } from './domain/matchLimit'
+import type { RulesMode, Side } from './domain/territory'
+
 export interface GameConfig {
   // Board
   GRID_COLS: number; GRID_ROWS: number; TILE_SIZE: number; BOARD_SHAPE: number
   // Gameplay
   DUEL_TIME: number; PASS_PENALTY: number; FEEDBACK_MS: number
   WIN_CLOSE_MS: number; TOAST_MS: number; RANDOM_TILES: number
-  MAX_PASSES: number; ROUND_TIMER: number; MAX_ROUNDS: number
+  MAX_PASSES: number
+  ROUND_TIMER: number   // zegar meczu w minutach, 0 = bez (domain/matchLimit.ts)
+  MAX_ROUNDS: number    // limit pojedynków, 0 = bez limitu
   LOTTERY_PICK: number  // 1 = klawisz "L" losuje kursor z nierozegranych kafelków
+  RULES_MODE: number    // 0 = klasyczne, 1 = terytoria (domain/territory.ts)
+  PARTY_MODE: number    // 1 = tryb imprezowy, 3–12 graczy z listy party (domain/party.ts)
+  VICTORY_MODE: number  // warunek zwycięstwa: indeks w VICTORY_KINDS (domain/board.ts)
+  VICTORY_PCT: number   // próg planszy w % (VICTORY_MODE 0)
+  VICTORY_TILES: number // liczba pól do zdobycia (VICTORY_MODE 2)
+  SUDDEN_DEATH_DUEL: number  // 1 = remis w pojedynku → runda na refleks (domain/suddenDeath.ts)
+  SUDDEN_DEATH_MATCH: number // 1 = remis w meczu → pojedynek o wszystko
+  BOT_LEVEL: number     // gracz 2 to bot: 1 = łatwy, 2 = średni, 3 = trudny, 0 = człowiek (domain/bot.ts)
   // Sound
   SOUND_VOLUME: number; MUSIC_VOLUME: number; SFX_VOLUME: number
   // Voice
@@ -15,6 +30,7 @@ export interface GameConfig {
   // Multiplayer
   MP_DUEL_TIME: number; MP_PASS_PENALTY: number; MP_FEEDBACK_MS: number
   MP_WIN_CLOSE_MS: number; MP_XP_WIN: number; MP_XP_DRAW: number; MP_XP_LOSS: number
+  MP_XP_FORFEIT_PCT: number; MP_XP_MARGIN_BONUS: number; MP_XP_STREAK_BONUS: number; MP_XP_STREAK_CAP: number
 }
 
 export interface PlayerSettings { name: string; color: string }
@@ -27,23 +43,36 @@ export interface Question {
   id: string; category_id: string; image_path: string | null
   answer: string; synonyms: string[]; created_at: string
 }
-export type TileOwner = 'gold' | 'silver' | 'neutral'
-export interface Tile { x: number; y: number; categoryId: string; categoryName: string; owner: TileOwner }
+// Party mode seats are `p0`…`p11`, indices into the party roster (domain/party.ts)
+export type PartyOwner = `p${number}`
+export type TileOwner = 'gold' | 'silver' | 'neutral' | PartyOwner
+export interface Tile {
+  x: number; y: number; categoryId: string; categoryName: string; owner: TileOwner
+  // Territory rules only: the region the tile belongs to (domain/territory.ts)
+  territory?: number
+}
 
 export interface DuelState {
   tileIdx: number; categoryId: string; categoryName: string; emoji: string
-  questions: Question[]; usedIds: Set<string>; timer1: number; timer2: number
+  questions: Question[]; usedIds: Set<string>
+  // Who sides 1 and 2 play for: gold/silver, or two party seats
+  owners: [Side, Side]
+  // Deadline clocks (domain/clock.ts); only the active player's one runs
+  clock1: DuelClock; clock2: DuelClock
   active: 1 | 2; paused: boolean; started: boolean; currentQuestion: Question | null; lang: SpeechLang
   passCount: number
+  // Sudden death after a draw (domain/suddenDeath.ts): no clocks, first correct answer wins
+  buzzer?: boolean
 }
 export interface GameStats {
   goldTiles: number; silverTiles: number; totalTiles: number; goldPct: number; silverPct: number
 }
 
 // ── Multiplayer ────────────────────────────────────────────────────────────────
-export type MPRole   = 'host' | 'guest'
-// lobby = both joined, waiting for host to start game
-export type MPStatus = 'idle' | 'creating' | 'joining' | 'waiting' | 'lobby' | 'playing' | 'finished'
+// spectator = read-only viewer: follows the broadcast stream, never sends intents
+export type MPRole   = 'host' | 'guest' | 'spectator'
+// lobby = both joined, waiting for host to start game; searching = in the ranked queue
+export type MPStatus = 'idle' | 'creating' | 'joining' | 'searching' | 'waiting' | 'lobby' | 'playing' | 'finished'
 export type MPRoomStatus  = 'waiting' | 'lobby' | 'playing' | 'finished'
 export type MPActivePlayer = 'host' | 'guest'
 
@@ -54,16 +83,39 @@ export interface MPDuelState {
   emoji:           string
   questionId:      string
   usedQuestionIds: string[]
-  timerHost:       number   // own countdown, ticks only when active='host'
-  timerGuest:      number   // own countdown, ticks only when active='guest'
+  // Deadline clocks (domain/clock.ts), only the active one runs. runningSince
+  // is a local timestamp: the state is frozen (domain/duel.ts) before it is
+  // sent or stored, and re-anchored on arrival.
+  clockHost:       DuelClock
+  clockGuest:      DuelClock
   active:          MPActivePlayer   // whose turn it is
   started:         boolean          // false = pre-fight screen
   paused:          boolean
   lang:            SpeechLang
 }
 
+// Persisted by the host on every state transition so either player can reload
+// and resume (duel clocks are frozen as of the write).
 export interface MPGameState {
   tiles: Tile[]; cursor: number; duel: MPDuelState | null
+  picker?: MPActivePlayer; roundNo?: number
+  // Match clock left as of the write (null = no clock) and duels won, for limits
+  matchMs?: number | null; duelsWon?: DuelTally
+  // Sudden death after a drawn match: being played, or who won it
+  showdown?: 'pending' | MPActivePlayer | null
+  // The game's seed (domain/random.ts): board and questions follow from it
+  seed?: number
+}
+
+export interface MPGameSettings {
+  duelTime: number; categoriesCount: number; gameMode: string; passPenalty: number
+  rules: RulesMode
+  // Match limits (domain/matchLimit.ts), 0 = off
+  maxRounds: number; matchMinutes: number
+  // When the board ends the match (domain/board.ts)
+  victory: VictoryPolicy
+  // A drawn match goes to a showdown duel (domain/suddenDeath.ts)
+  suddenDeath: boolean
 }
 
 export interface MPRoom {
@@ -75,24 +127,39 @@ export interface MPRoom {
 // ── Events broadcast over Supabase Realtime ────────────────────────────────────
 // Architecture: HOST is authoritative. All state transitions initiated by host.
 // Guest sends INTENT events → host validates & advances state → host broadcasts results.
+// On the wire each event is wrapped in an MPEnvelope (domain/protocol.ts) —
+// changing a shape here means bumping PROTOCOL_VERSION and its schema there.
 export type MPEvent =
   | { type: 'cursor_move';   idx: number }
-  // timerHost/timerGuest carry the lobby-configured duelTime so guest uses correct values
-  | { type: 'duel_start';    tileIdx: number; categoryId: string; categoryName: string; emoji: string; questionId: string; lang: SpeechLang; firstActive: MPActivePlayer; timerHost: number; timerGuest: number }
+  // hostMs/guestMs carry the lobby-configured duelTime so guest uses correct values
+  | { type: 'duel_start';    tileIdx: number; categoryId: string; categoryName: string; emoji: string; questionId: string; lang: SpeechLang; firstActive: MPActivePlayer; hostMs: number; guestMs: number }
   | { type: 'fight_start' }
-  | { type: 'tick';          timerHost: number; timerGuest: number }
+  // Both clocks as of sending; if running, the active one runs from arrival
+  | { type: 'clock';         hostMs: number; guestMs: number; running: boolean }
   | { type: 'correct';       player: MPActivePlayer; answer: string }
   | { type: 'pass';          player: MPActivePlayer; answer: string }
   // Guest-to-host intent signals (host processes, then broadcasts next_question/round_end)
-  | { type: 'guest_correct' }
-  | { type: 'guest_pass' }
+  // `at`: the guest's performance.now() when answering — see domain/clockSync.ts
+  | { type: 'guest_correct'; at: number }
+  | { type: 'guest_pass';    at: number }
   | { type: 'duel_close' }
-  | { type: 'next_question'; questionId: string; active: MPActivePlayer; timerHost: number; timerGuest: number }
+  | { type: 'next_question'; questionId: string; active: MPActivePlayer; hostMs: number; guestMs: number }
   | { type: 'round_end';     winner: MPActivePlayer | 'draw'; tileIdx: number; hostScore: number; guestScore: number }
   | { type: 'feedback';      text: string; feedbackType: 'correct' | 'pass' | 'timeout' | 'voice' }
   | { type: 'game_start'; tiles: Tile[]; gridCols: number; gridRows: number; cursor: number }
   | { type: 'game_end'; winner: MPActivePlayer | 'draw'; hostXpDelta: number; guestXpDelta: number; hostTiles: number; guestTiles: number }
   | { type: 'chat_message';  from: string; text: string; ts: number }
-  | { type: 'game_settings'; duelTime: number; categoriesCount: number; gameMode: string; passPenalty: number }
+  | ({ type: 'game_settings' } & MPGameSettings)
   | { type: 'opponent_name'; name: string; avatar: string }
   | { type: 'opponent_left' }   // one player left — other should exit to lobby
+  // Reconnect: a resumed guest asks for the full state; the host answers (or
+  // pushes it unasked after its own resume)
+  | { type: 'resync_request'; from: string }
+  // Clock sync: t0 is the pinger's timestamp, t1 the ponger's on receipt
+  | { type: 'clock_ping'; t0: number }
+  | { type: 'clock_pong'; t0: number; t1: number }
+  | { type: 'state_snapshot'; to: string | null; tiles: Tile[]; gridCols: number; gridRows: number; cursor: number; duel: MPDuelState | null; hostScore: number; guestScore: number; picker: MPActivePlayer; settings: MPGameSettings; roundsPlayed: number; matchMs: number | null; showdown: boolean }
+  // Match limits: duels played and the match clock (ms left as of sending, null = none)
+  | { type: 'match_status'; roundsPlayed: number; matchMs: number | null }
+  // Sudden death: the match is drawn and the next duel decides it
+  | { type: 'showdown' }
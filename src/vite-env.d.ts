@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON: string
+  /** 'local' = in-memory / cross-tab realtime instead of Supabase channels */
+  readonly VITE_REALTIME?: 'supabase' | 'local'
 }
 
 interface ImportMeta {
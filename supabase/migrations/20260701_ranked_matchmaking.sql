@@ -0,0 +1,225 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Ranked Matchmaking (matchmaking_queue)
+--
+-- Run AFTER 20260622_admin_rls_hardening.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   Tabela matchmaking_queue istniała (z indeksem elo + joined_at), ale nic jej
+--   nie używało — do gry dało się wejść tylko kodem pokoju lub zaproszeniem.
+--
+-- Co robi:
+--   1. Gwarantuje kolumny kolejki (elo, joined_at, elo_window, room_id)
+--      + UNIQUE(player_id) — jeden wpis na gracza
+--   2. RLS: gracz widzi tylko własny wpis; zapis wyłącznie przez RPC poniżej
+--   3. RPC matchmaking_enqueue(window) — wejście do kolejki; ELO czytane
+--      z profiles.rating na serwerze, nie z klienta
+--   4. RPC matchmaking_poll(window, config) — atomowe parowanie: blokuje oba
+--      wpisy, tworzy pokój game_rooms (status 'lobby'), zwraca id + kod
+--   5. RPC matchmaking_cancel() — wyjście z kolejki (także po timeoutcie)
+--
+-- Okno ELO rośnie po stronie klienta (domain/matchmaking.ts) i jest raportowane
+-- przy każdym pollu; serwer przycina je do max_window_cap (= maxWindow
+-- z DEFAULT_MATCHMAKING_POLICY). Para jest dobierana, gdy różnica ELO mieści
+-- się w OBU oknach (isAcceptablePair). Dłużej czekający gracz zostaje hostem.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. Kolumny kolejki
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.matchmaking_queue (
+  player_id uuid        NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  elo       integer     NOT NULL DEFAULT 0,
+  joined_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.matchmaking_queue
+  ADD COLUMN IF NOT EXISTS elo_window integer NOT NULL DEFAULT 0;
+ALTER TABLE public.matchmaking_queue
+  ADD COLUMN IF NOT EXISTS room_id uuid REFERENCES public.game_rooms(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_matchmaking_queue_player
+  ON public.matchmaking_queue (player_id);
+
+-- Kandydaci do parowania: tylko wpisy bez przydzielonego pokoju
+CREATE INDEX IF NOT EXISTS idx_matchmaking_open
+  ON public.matchmaking_queue (joined_at) WHERE room_id IS NULL;
+
+-- ELO gracza w kolejce pochodzi z profilu (pełna definicja ratingu:
+-- 20260703_skill_rating.sql)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS rating integer NOT NULL DEFAULT 1200;
+
+-- Górna granica okna ELO — klient nie może rozciągnąć wyszukiwania dowolnie
+CREATE OR REPLACE FUNCTION public.matchmaking_window(p_window integer)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT least(greatest(coalesce(p_window, 0), 0), 500);
+$$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. RLS — odczyt własnego wpisu, brak bezpośredniego zapisu
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.matchmaking_queue ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "own queue entry read" ON public.matchmaking_queue;
+  CREATE POLICY "own queue entry read" ON public.matchmaking_queue
+    FOR SELECT TO authenticated
+    USING (player_id = auth.uid());
+END $$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. RPC: matchmaking_enqueue(window)
+--    ELO brane z profiles.rating (1200 bez profilu) — klient mógłby zaniżyć
+--    swój rating, żeby trafiać na słabszych przeciwników.
+--    Ponowne wejście resetuje czas oczekiwania i ewentualny stary pokój.
+--    Przy okazji czyści wpisy porzucone dawniej niż 10 minut.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS public.matchmaking_enqueue(integer, integer);
+
+CREATE OR REPLACE FUNCTION public.matchmaking_enqueue(p_window integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_elo integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'forbidden: login required';
+  END IF;
+
+  SELECT p.rating INTO v_elo FROM profiles p WHERE p.id = auth.uid();
+
+  DELETE FROM matchmaking_queue WHERE joined_at < now() - interval '10 minutes';
+
+  INSERT INTO matchmaking_queue (player_id, elo, joined_at, elo_window, room_id)
+  VALUES (auth.uid(), coalesce(v_elo, 1200), now(), matchmaking_window(p_window), NULL)
+  ON CONFLICT (player_id) DO UPDATE
+    SET elo = EXCLUDED.elo, joined_at = now(), elo_window = EXCLUDED.elo_window, room_id = NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.matchmaking_enqueue(integer) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4. RPC: matchmaking_poll(window, config)
+--    Zwraca 0 wierszy (nadal szukamy) albo 1 wiersz (room_id, code).
+--    FOR UPDATE SKIP LOCKED: dwa równoległe polle nigdy nie sparują tego
+--    samego gracza dwa razy — w najgorszym razie para trafi w następnym pollu.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.matchmaking_poll(p_window integer, p_config jsonb DEFAULT '{}'::jsonb)
+RETURNS TABLE (room_id uuid, code text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  me      matchmaking_queue%ROWTYPE;
+  opp     matchmaking_queue%ROWTYPE;
+  chars   constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_code  text;
+  v_room  uuid;
+  attempt integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'forbidden: login required';
+  END IF;
+
+  SELECT * INTO me FROM matchmaking_queue q WHERE q.player_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;  -- anulowane albo wygasłe
+  END IF;
+
+  -- Ktoś już nas sparował — oddaj jego pokój i wyjdź z kolejki
+  IF me.room_id IS NOT NULL THEN
+    DELETE FROM matchmaking_queue q WHERE q.player_id = auth.uid();
+    RETURN QUERY SELECT r.id, r.code FROM game_rooms r WHERE r.id = me.room_id;
+    RETURN;
+  END IF;
+
+  me.elo_window := matchmaking_window(p_window);
+  UPDATE matchmaking_queue q SET elo_window = me.elo_window WHERE q.player_id = auth.uid();
+
+  SELECT * INTO opp FROM matchmaking_queue q
+  WHERE q.player_id <> auth.uid()
+    AND q.room_id IS NULL
+    AND q.joined_at > now() - interval '10 minutes'
+    AND abs(q.elo - me.elo) <= least(me.elo_window, q.elo_window)
+  ORDER BY q.joined_at, abs(q.elo - me.elo)
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Kod pokoju: ten sam alfabet co generateCode() w kliencie, retry na 23505
+  LOOP
+    attempt := attempt + 1;
+    v_code  := '';
+    FOR i IN 1..4 LOOP
+      v_code := v_code || substr(chars, 1 + floor(random() * length(chars))::integer, 1);
+    END LOOP;
+    BEGIN
+      INSERT INTO game_rooms (code, host_id, guest_id, status, game_state, host_score, guest_score, current_round, config)
+      VALUES (
+        v_code, opp.player_id, auth.uid(), 'lobby',
+        jsonb_build_object('tiles', '[]'::jsonb, 'cursor', 0, 'duel', NULL),
+        0, 0, 0,
+        coalesce(p_config, '{}'::jsonb) || jsonb_build_object('ranked', true)
+      )
+      RETURNING id INTO v_room;
+      EXIT;
+    EXCEPTION WHEN unique_violation THEN
+      IF attempt >= 6 THEN RAISE; END IF;
+    END;
+  END LOOP;
+
+  UPDATE matchmaking_queue q SET room_id = v_room WHERE q.player_id = opp.player_id;
+  DELETE FROM matchmaking_queue q WHERE q.player_id = auth.uid();
+
+  RETURN QUERY SELECT v_room, v_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.matchmaking_poll(integer, jsonb) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 5. RPC: matchmaking_cancel()
+--    Jeśli przeciwnik zdążył nas sparować, zamykamy jego pokój, żeby nie
+--    czekał w poczekalni na kogoś, kto już zrezygnował.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.matchmaking_cancel()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room uuid;
+BEGIN
+  DELETE FROM matchmaking_queue q WHERE q.player_id = auth.uid()
+  RETURNING q.room_id INTO v_room;
+
+  IF v_room IS NOT NULL THEN
+    UPDATE game_rooms SET status = 'finished', updated_at = now()
+    WHERE id = v_room AND status = 'lobby';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.matchmaking_cancel() TO authenticated;
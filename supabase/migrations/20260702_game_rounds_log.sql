@@ -0,0 +1,72 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Per-round results (game_rounds)
+--
+-- Run AFTER 20260701_ranked_matchmaking.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   game_rounds miało FK do game_history / game_rooms / questions / categories /
+--   profiles, ale host zapisywał tylko snapshot planszy i wyniku (writeDB).
+--   Brakowało surowych danych pod powtórki, analitykę pytań i spory.
+--
+-- Co robi:
+--   1. Kolumny rundy: numer, pole, pokazane pytania, odpowiedzi (jsonb),
+--      pasy i pozostały czas obu stron, rola zwycięzcy
+--   2. RLS: host pokoju zapisuje rundy i podpina je do game_history
+--      (game_id uzupełniany po zakończeniu meczu); odczyt dla zalogowanych
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. Kolumny rundy
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS round_no        integer;
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS tile_idx        integer;
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS question_ids    text[]  NOT NULL DEFAULT '{}';
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS answers         jsonb   NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS host_passes     integer NOT NULL DEFAULT 0;
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS guest_passes    integer NOT NULL DEFAULT 0;
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS host_time_left  integer;
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS guest_time_left integer;
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS winner_role     text;
+
+DO $$
+BEGIN
+  ALTER TABLE public.game_rounds DROP CONSTRAINT IF EXISTS game_rounds_winner_role_check;
+  ALTER TABLE public.game_rounds
+    ADD CONSTRAINT game_rounds_winner_role_check
+    CHECK (winner_role IS NULL OR winner_role IN ('host', 'guest', 'draw'));
+END $$;
+
+-- Rundy pokoju w kolejności (powtórki)
+CREATE INDEX IF NOT EXISTS idx_game_rounds_room_round
+  ON public.game_rounds (room_id, round_no);
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. RLS — zapis tylko przez hosta pokoju
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.game_rounds ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "read rounds" ON public.game_rounds;
+  CREATE POLICY "read rounds" ON public.game_rounds
+    FOR SELECT TO authenticated
+    USING (true);
+
+  DROP POLICY IF EXISTS "room host insert rounds" ON public.game_rounds;
+  CREATE POLICY "room host insert rounds" ON public.game_rounds
+    FOR INSERT TO authenticated
+    WITH CHECK (EXISTS (
+      SELECT 1 FROM public.game_rooms r WHERE r.id = room_id AND r.host_id = auth.uid()
+    ));
+
+  DROP POLICY IF EXISTS "room host link rounds" ON public.game_rounds;
+  CREATE POLICY "room host link rounds" ON public.game_rounds
+    FOR UPDATE TO authenticated
+    USING (EXISTS (
+      SELECT 1 FROM public.game_rooms r WHERE r.id = room_id AND r.host_id = auth.uid()
+    ));
+END $$;
@@ -0,0 +1,70 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Skill rating (ELO) obok XP
+--
+-- Run AFTER 20260702_game_rounds_log.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   XP rośnie z każdym meczem, więc mierzy aktywność, a nie umiejętności.
+--   Matchmaking rankingowy porównywał graczy po XP, a ranking nie odróżniał
+--   weterana od dobrego gracza.
+--
+-- Co robi:
+--   1. profiles.rating (start 1200) + rating_games (liczba meczów w ratingu)
+--   2. Indeks pod ranking umiejętności
+--   3. admin_reset_all_stats() zeruje też rating
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. Kolumny ratingu
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS rating       integer NOT NULL DEFAULT 1200;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS rating_games integer NOT NULL DEFAULT 0;
+
+DO $$
+BEGIN
+  ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_rating_check;
+  ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_rating_check
+    CHECK (rating >= 100 AND rating_games >= 0);
+END $$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. Ranking umiejętności
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS idx_profiles_rating
+  ON public.profiles (rating DESC);
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. RPC: admin_reset_all_stats() — reset obejmuje rating
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION admin_reset_all_stats()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'forbidden: only admins can reset all stats';
+  END IF;
+
+  UPDATE profiles
+  SET wins = 0, losses = 0, win_streak = 0, best_streak = 0, xp = 0,
+      rating = 1200, rating_games = 0,
+      updated_at = now();
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_reset_all_stats() TO authenticated;
@@ -0,0 +1,143 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Sezony rankingowe (seasons + season_standings)
+--
+-- Run AFTER 20260703_skill_rating.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   Jedynym sposobem na nowy start drabinki był ręczny
+--   scripts/reset_player_stats.sql, który bezpowrotnie kasował wyniki.
+--   Nie było śladu, kto wygrał poprzedni „sezon".
+--
+-- Co robi:
+--   1. seasons — numer, nazwa, początek, koniec (NULL = sezon trwa);
+--      co najwyżej jeden aktywny sezon; zakłada „Sezon 1" gdy tabela pusta
+--   2. season_standings — końcowe XP / rating / bilans każdego gracza
+--   3. RLS: odczyt dla wszystkich, zapis tylko przez RPC
+--   4. RPC admin_close_season(p_next_name) — archiwizuje tabelę, zeruje
+--      statystyki graczy i otwiera kolejny sezon (jedna transakcja)
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. seasons
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.seasons (
+  id         uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  number     integer     NOT NULL UNIQUE,
+  name       text        NOT NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at   timestamptz,
+  CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+-- Co najwyżej jeden trwający sezon
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seasons_single_active
+  ON public.seasons ((true)) WHERE ended_at IS NULL;
+
+INSERT INTO public.seasons (number, name, started_at)
+SELECT 1, 'Sezon 1', COALESCE((SELECT min(created_at) FROM public.profiles), now())
+WHERE NOT EXISTS (SELECT 1 FROM public.seasons);
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. season_standings
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.season_standings (
+  season_id    uuid    NOT NULL REFERENCES public.seasons(id)  ON DELETE CASCADE,
+  player_id    uuid    NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  username     text    NOT NULL,
+  avatar       text,
+  avatar_url   text,
+  xp_rank      integer NOT NULL,
+  rating_rank  integer NOT NULL,
+  xp           integer NOT NULL DEFAULT 0,
+  wins         integer NOT NULL DEFAULT 0,
+  losses       integer NOT NULL DEFAULT 0,
+  best_streak  integer NOT NULL DEFAULT 0,
+  rating       integer NOT NULL DEFAULT 1200,
+  rating_games integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (season_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_standings_xp
+  ON public.season_standings (season_id, xp DESC);
+CREATE INDEX IF NOT EXISTS idx_season_standings_rating
+  ON public.season_standings (season_id, rating DESC);
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. RLS — archiwum tylko do odczytu
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.seasons          ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.season_standings ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "read seasons" ON public.seasons;
+  CREATE POLICY "read seasons" ON public.seasons
+    FOR SELECT USING (true);
+
+  DROP POLICY IF EXISTS "read season standings" ON public.season_standings;
+  CREATE POLICY "read season standings" ON public.season_standings
+    FOR SELECT USING (true);
+END $$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4. RPC: admin_close_season(p_next_name)
+--    Zwraca liczbę zarchiwizowanych graczy.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION admin_close_season(p_next_name text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cur      seasons%ROWTYPE;
+  archived integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'forbidden: only admins can close a season';
+  END IF;
+
+  SELECT * INTO cur FROM seasons WHERE ended_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'no active season';
+  END IF;
+
+  -- Archiwum: tylko gracze, którzy w tym sezonie coś rozegrali
+  INSERT INTO season_standings (
+    season_id, player_id, username, avatar, avatar_url, xp_rank, rating_rank,
+    xp, wins, losses, best_streak, rating, rating_games
+  )
+  SELECT cur.id, p.id, p.username, p.avatar, p.avatar_url,
+         row_number() OVER (ORDER BY p.xp DESC, p.wins DESC, p.username),
+         row_number() OVER (ORDER BY p.rating DESC, p.rating_games DESC, p.username),
+         p.xp, p.wins, p.losses, p.best_streak, p.rating, p.rating_games
+  FROM profiles p
+  WHERE p.xp <> 0 OR p.wins <> 0 OR p.losses <> 0 OR p.rating_games <> 0
+  ON CONFLICT (season_id, player_id) DO NOTHING;
+  GET DIAGNOSTICS archived = ROW_COUNT;
+
+  UPDATE seasons SET ended_at = now() WHERE id = cur.id;
+
+  UPDATE profiles
+  SET wins = 0, losses = 0, win_streak = 0, best_streak = 0, xp = 0,
+      rating = 1200, rating_games = 0,
+      updated_at = now();
+
+  INSERT INTO seasons (number, name)
+  VALUES (cur.number + 1, COALESCE(NULLIF(trim(p_next_name), ''), 'Sezon ' || (cur.number + 1)));
+
+  RETURN archived;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_close_season(text) TO authenticated;
@@ -0,0 +1,556 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Turnieje (drabinki single / double elimination, round robin)
+--
+-- Run AFTER 20260706_room_heartbeat.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   Turnieje firmowe prowadziliśmy ręcznie: zakładanie pokoi, wyniki na
+--   tablicy, ręczne przesuwanie zwycięzców. Nie zostawał żaden ślad historii.
+--
+-- Co robi:
+--   1. tournaments — nazwa, format, rozstawienie (XP / rating), stałe
+--      ustawienia gry, status open → running → finished, zwycięzca
+--   2. tournament_entrants — zapisani gracze i ich numer rozstawienia
+--   3. tournament_matches — mecze drabinki z jawnymi trasami zwycięzcy i
+--      przegranego (generuje je start_tournament przy starcie)
+--   4. RLS: odczyt dla wszystkich; zapis / wypis tylko dopóki turniej otwarty
+--   5. RPC start_tournament(p_id) — twórca albo admin; rozstawienie i
+--      drabinkę buduje serwer, eliminacja zawsze z dogrywką
+--   6. Awans: tournament_place / tournament_decide / tournament_finish_league
+--      (tylko wewnętrznie) + trigger na game_rooms.result
+--   7. RPC tournament_open_match(p_tournament, p_key) — pokój game_rooms
+--      dla meczu (host = slot a, gość = slot b), idempotentnie
+--   8. Realtime dla tournaments / tournament_matches (widok drabinki)
+--   9. freeze_room_config: config pokoju turniejowego zamrożony od utworzenia
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. tournaments
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.tournaments (
+  id          uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        text        NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 60),
+  format      text        NOT NULL CHECK (format IN ('single', 'double', 'round_robin')),
+  seeding     text        NOT NULL DEFAULT 'xp' CHECK (seeding IN ('xp', 'rating')),
+  settings    jsonb       NOT NULL DEFAULT '{}'::jsonb,  -- config każdego pokoju meczu
+  status      text        NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'running', 'finished')),
+  created_by  uuid        NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  winner_id   uuid        REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  started_at  timestamptz,
+  finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_created
+  ON public.tournaments (created_at DESC);
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. tournament_entrants
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.tournament_entrants (
+  tournament_id uuid        NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  player_id     uuid        NOT NULL REFERENCES public.profiles(id)    ON DELETE CASCADE,
+  seed          integer,    -- 1 = najlepszy; ustawiane przy starcie
+  joined_at     timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (tournament_id, player_id)
+);
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. tournament_matches
+--    slot_a / slot_b: id gracza (tekst), 'bye' albo NULL (jeszcze nieznany).
+--    winner: 'a' | 'b' | 'draw' (remis tylko w round robin).
+--    winner_to / loser_to: klucz meczu, do którego trafia zwycięzca / przegrany.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.tournament_matches (
+  tournament_id  uuid    NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  key            text    NOT NULL,
+  side           text    NOT NULL CHECK (side IN ('winners', 'losers', 'final', 'league')),
+  round          integer NOT NULL,
+  idx            integer NOT NULL,
+  slot_a         text,
+  slot_b         text,
+  winner         text    CHECK (winner IN ('a', 'b', 'draw')),
+  winner_to      text,
+  winner_to_slot text    CHECK (winner_to_slot IN ('a', 'b')),
+  loser_to       text,
+  loser_to_slot  text    CHECK (loser_to_slot IN ('a', 'b')),
+  room_id        uuid    REFERENCES public.game_rooms(id) ON DELETE SET NULL,
+  PRIMARY KEY (tournament_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_matches_room
+  ON public.tournament_matches (room_id) WHERE room_id IS NOT NULL;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4. RLS
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.tournaments         ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_entrants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_matches  ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "read tournaments" ON public.tournaments;
+  CREATE POLICY "read tournaments" ON public.tournaments
+    FOR SELECT USING (true);
+
+  DROP POLICY IF EXISTS "create own tournament" ON public.tournaments;
+  CREATE POLICY "create own tournament" ON public.tournaments
+    FOR INSERT WITH CHECK (created_by = auth.uid() AND status = 'open');
+
+  DROP POLICY IF EXISTS "cancel open tournament" ON public.tournaments;
+  CREATE POLICY "cancel open tournament" ON public.tournaments
+    FOR DELETE USING (status = 'open' AND (created_by = auth.uid() OR public.is_admin(auth.uid())));
+
+  DROP POLICY IF EXISTS "read tournament entrants" ON public.tournament_entrants;
+  CREATE POLICY "read tournament entrants" ON public.tournament_entrants
+    FOR SELECT USING (true);
+
+  DROP POLICY IF EXISTS "enter open tournament" ON public.tournament_entrants;
+  CREATE POLICY "enter open tournament" ON public.tournament_entrants
+    FOR INSERT WITH CHECK (
+      player_id = auth.uid() AND seed IS NULL
+      AND EXISTS (SELECT 1 FROM public.tournaments t WHERE t.id = tournament_id AND t.status = 'open'));
+
+  DROP POLICY IF EXISTS "leave open tournament" ON public.tournament_entrants;
+  CREATE POLICY "leave open tournament" ON public.tournament_entrants
+    FOR DELETE USING (
+      player_id = auth.uid()
+      AND EXISTS (SELECT 1 FROM public.tournaments t WHERE t.id = tournament_id AND t.status = 'open'));
+
+  DROP POLICY IF EXISTS "read tournament matches" ON public.tournament_matches;
+  CREATE POLICY "read tournament matches" ON public.tournament_matches
+    FOR SELECT USING (true);
+END $$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 5. RPC: start_tournament(p_id)
+--    Rozstawienie i drabinkę liczy serwer — klient mógłby podać dowolne.
+--    tournament_build to ta sama logika co buildBracket() w
+--    domain/tournament.ts. Zmieniasz jedno — zmień oba.
+--    Eliminacja nie zna remisu: settings.suddenDeath jest wymuszane, więc
+--    remisowy mecz rozstrzyga dogrywka (domain/suddenDeath.ts).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.tournament_build(p_tid uuid, p_format text, p_seeds text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  n        integer := cardinality(p_seeds);
+  v_size   integer := 2;
+  v_rounds integer := 1;
+  v_last   integer;
+  v_order  integer[] := ARRAY[1];
+  v_seats  text[];
+  v_idx    integer;
+  m        tournament_matches%ROWTYPE;
+BEGIN
+  -- Round robin: metoda kołowa — miejsce 1 stoi, reszta obraca się co kolejkę
+  IF p_format = 'round_robin' THEN
+    v_seats := CASE WHEN n % 2 = 0 THEN p_seeds ELSE p_seeds || 'bye'::text END;
+    n := cardinality(v_seats);
+    FOR r IN 1 .. n - 1 LOOP
+      v_idx := 0;
+      FOR i IN 1 .. n / 2 LOOP
+        IF v_seats[i] <> 'bye' AND v_seats[n + 1 - i] <> 'bye' THEN
+          INSERT INTO tournament_matches (tournament_id, key, side, round, idx, slot_a, slot_b)
+          VALUES (p_tid, format('R%s-%s', r, v_idx), 'league', r, v_idx, v_seats[i], v_seats[n + 1 - i]);
+          v_idx := v_idx + 1;
+        END IF;
+      END LOOP;
+      v_seats := v_seats[1:1] || v_seats[n:n] || v_seats[2:n - 1];
+    END LOOP;
+    RETURN;
+  END IF;
+
+  WHILE v_size < n LOOP
+    v_size   := v_size * 2;
+    v_rounds := v_rounds + 1;
+  END LOOP;
+  -- bracketOrder(): rozstawieni 1 i 2 mogą się spotkać dopiero w finale
+  WHILE cardinality(v_order) < v_size LOOP
+    v_order := ARRAY(
+      SELECT v.seed
+      FROM unnest(v_order) WITH ORDINALITY AS o(s, k),
+           LATERAL (VALUES (1, o.s), (2, 2 * cardinality(v_order) + 1 - o.s)) AS v(j, seed)
+      ORDER BY o.k, v.j);
+  END LOOP;
+
+  -- Drabinka zwycięzców
+  FOR r IN 1 .. v_rounds LOOP
+    FOR i IN 0 .. (v_size >> r) - 1 LOOP
+      INSERT INTO tournament_matches (
+        tournament_id, key, side, round, idx, slot_a, slot_b,
+        winner_to, winner_to_slot, loser_to, loser_to_slot
+      )
+      VALUES (
+        p_tid, format('W%s-%s', r, i), 'winners', r, i,
+        CASE WHEN r = 1 THEN coalesce(p_seeds[v_order[2 * i + 1]], 'bye') END,
+        CASE WHEN r = 1 THEN coalesce(p_seeds[v_order[2 * i + 2]], 'bye') END,
+        CASE WHEN r < v_rounds THEN format('W%s-%s', r + 1, i / 2) WHEN p_format = 'double' THEN 'GF' END,
+        CASE WHEN r < v_rounds THEN (CASE WHEN i % 2 = 0 THEN 'a' ELSE 'b' END) WHEN p_format = 'double' THEN 'a' END,
+        CASE
+          WHEN p_format <> 'double' THEN NULL
+          WHEN v_rounds = 1        THEN 'GF'
+          WHEN r = 1               THEN format('L1-%s', i / 2)
+          -- Kolejne fale przegranych odwrotnie, żeby nie było szybkich rewanżów
+          ELSE format('L%s-%s', 2 * (r - 1), (v_size >> r) - 1 - i)
+        END,
+        CASE
+          WHEN p_format <> 'double'     THEN NULL
+          WHEN v_rounds > 1 AND r = 1   THEN (CASE WHEN i % 2 = 0 THEN 'a' ELSE 'b' END)
+          ELSE 'b'
+        END
+      );
+    END LOOP;
+  END LOOP;
+
+  -- Drabinka przegranych (nieparzyste rundy łączą ocalałych, parzyste
+  -- przyjmują przegranych z drabinki zwycięzców) i wielki finał
+  IF p_format = 'double' THEN
+    v_last := 2 * (v_rounds - 1);
+    FOR r IN 1 .. v_last LOOP
+      FOR i IN 0 .. (v_size >> ((r + 1) / 2 + 1)) - 1 LOOP
+        INSERT INTO tournament_matches (tournament_id, key, side, round, idx, winner_to, winner_to_slot)
+        VALUES (
+          p_tid, format('L%s-%s', r, i), 'losers', r, i,
+          CASE WHEN r = v_last THEN 'GF' WHEN r % 2 = 1 THEN format('L%s-%s', r + 1, i) ELSE format('L%s-%s', r + 1, i / 2) END,
+          CASE WHEN r = v_last THEN 'b'  WHEN r % 2 = 1 THEN 'a' WHEN i % 2 = 0 THEN 'a' ELSE 'b' END
+        );
+      END LOOP;
+    END LOOP;
+    INSERT INTO tournament_matches (tournament_id, key, side, round, idx)
+    VALUES (p_tid, 'GF', 'final', 1, 0);
+  END IF;
+
+  -- Wolne losy pierwszej rundy rozstrzygają się od razu (i dalej po trasach)
+  FOR m IN
+    SELECT * FROM tournament_matches x
+    WHERE x.tournament_id = p_tid AND x.side = 'winners' AND x.round = 1 AND 'bye' IN (x.slot_a, x.slot_b)
+    ORDER BY x.idx
+  LOOP
+    PERFORM tournament_decide(p_tid, m.key, CASE WHEN m.slot_a = 'bye' AND m.slot_b <> 'bye' THEN 'b' ELSE 'a' END);
+  END LOOP;
+END;
+$$;
+
+-- Wcześniejsza wersja przyjmowała rozstawienie i drabinkę od klienta
+DROP FUNCTION IF EXISTS public.start_tournament(uuid, uuid[], jsonb);
+
+CREATE OR REPLACE FUNCTION public.start_tournament(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  t        tournaments%ROWTYPE;
+  v_seeds  text[];
+BEGIN
+  SELECT * INTO t FROM tournaments WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'tournament not found';
+  END IF;
+  IF t.created_by <> auth.uid() AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'forbidden: only the organiser can start a tournament';
+  END IF;
+  IF t.status <> 'open' THEN
+    RAISE EXCEPTION 'tournament already started';
+  END IF;
+
+  -- seedEntrants(): XP albo rating malejąco, remis — nazwa gracza
+  SELECT array_agg(e.player_id::text
+           ORDER BY CASE t.seeding WHEN 'rating' THEN p.rating ELSE p.xp END DESC, p.username, e.player_id)
+  INTO v_seeds
+  FROM tournament_entrants e
+  JOIN profiles p ON p.id = e.player_id
+  WHERE e.tournament_id = p_id;
+  IF coalesce(cardinality(v_seeds), 0) NOT BETWEEN 2 AND 32 THEN
+    RAISE EXCEPTION 'tournament needs 2–32 players (has %)', coalesce(cardinality(v_seeds), 0);
+  END IF;
+
+  UPDATE tournament_entrants e SET seed = s.n
+  FROM unnest(v_seeds) WITH ORDINALITY AS s(player_id, n)
+  WHERE e.tournament_id = p_id AND e.player_id::text = s.player_id;
+
+  PERFORM tournament_build(p_id, t.format, v_seeds);
+
+  UPDATE tournaments SET
+    status     = 'running',
+    started_at = now(),
+    settings   = CASE WHEN t.format = 'round_robin' THEN settings
+                      ELSE settings || '{"suddenDeath": true}'::jsonb END
+  WHERE id = p_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.tournament_build(uuid, text, text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_tournament(uuid) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 6. Awans po drabince — ta sama logika co recordResult() w
+--    domain/tournament.ts. Zmieniasz jedno — zmień oba.
+--    Remis w eliminacji nie powinien się zdarzyć (dogrywka); gdyby jednak,
+--    przepuszcza slot a. Wolny los ('bye') przegrywa
+--    automatycznie, gdy tylko znany jest drugi slot.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.tournament_finish_league(p_tid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_champ uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM tournament_matches m WHERE m.tournament_id = p_tid AND m.winner IS NULL) THEN
+    RETURN;
+  END IF;
+
+  -- leagueStandings(): punkty (wygrana 1, remis ½), potem rozstawienie
+  SELECT e.player_id INTO v_champ
+  FROM tournament_entrants e
+  LEFT JOIN LATERAL (
+    SELECT sum(CASE
+      WHEN m.winner = 'draw' THEN 0.5
+      WHEN (m.winner = 'a' AND m.slot_a = e.player_id::text)
+        OR (m.winner = 'b' AND m.slot_b = e.player_id::text) THEN 1
+      ELSE 0 END) AS pts
+    FROM tournament_matches m
+    WHERE m.tournament_id = p_tid AND e.player_id::text IN (m.slot_a, m.slot_b)
+  ) s ON true
+  WHERE e.tournament_id = p_tid
+  ORDER BY coalesce(s.pts, 0) DESC, e.seed
+  LIMIT 1;
+
+  UPDATE tournaments SET status = 'finished', finished_at = now(), winner_id = v_champ
+  WHERE id = p_tid AND status = 'running';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.tournament_place(p_tid uuid, p_key text, p_slot text, p_player text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  m tournament_matches%ROWTYPE;
+BEGIN
+  UPDATE tournament_matches t SET
+    slot_a = CASE WHEN p_slot = 'a' THEN p_player ELSE t.slot_a END,
+    slot_b = CASE WHEN p_slot = 'b' THEN p_player ELSE t.slot_b END
+  WHERE t.tournament_id = p_tid AND t.key = p_key
+  RETURNING * INTO m;
+
+  IF m.winner IS NULL AND m.slot_a IS NOT NULL AND m.slot_b IS NOT NULL
+     AND 'bye' IN (m.slot_a, m.slot_b) THEN
+    PERFORM tournament_decide(p_tid, p_key,
+      CASE WHEN m.slot_a = 'bye' AND m.slot_b <> 'bye' THEN 'b' ELSE 'a' END);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.tournament_decide(p_tid uuid, p_key text, p_outcome text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  m      tournament_matches%ROWTYPE;
+  v_slot text;
+  v_win  text;
+  v_lose text;
+BEGIN
+  SELECT * INTO m FROM tournament_matches t
+  WHERE t.tournament_id = p_tid AND t.key = p_key FOR UPDATE;
+  IF NOT FOUND OR m.winner IS NOT NULL OR m.slot_a IS NULL OR m.slot_b IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF m.side = 'league' THEN
+    UPDATE tournament_matches t SET winner = p_outcome WHERE t.tournament_id = p_tid AND t.key = p_key;
+    PERFORM tournament_finish_league(p_tid);
+    RETURN;
+  END IF;
+
+  v_slot := CASE WHEN p_outcome = 'b' THEN 'b' ELSE 'a' END;
+  v_win  := CASE v_slot WHEN 'a' THEN m.slot_a ELSE m.slot_b END;
+  v_lose := CASE v_slot WHEN 'a' THEN m.slot_b ELSE m.slot_a END;
+  UPDATE tournament_matches t SET winner = v_slot WHERE t.tournament_id = p_tid AND t.key = p_key;
+
+  IF m.winner_to IS NOT NULL THEN
+    PERFORM tournament_place(p_tid, m.winner_to, m.winner_to_slot, v_win);
+  ELSE
+    -- Finał (single) albo wielki finał (double)
+    UPDATE tournaments SET status = 'finished', finished_at = now(),
+      winner_id = CASE WHEN v_win = 'bye' THEN NULL ELSE v_win::uuid END
+    WHERE id = p_tid AND status = 'running';
+  END IF;
+  IF m.loser_to IS NOT NULL THEN
+    PERFORM tournament_place(p_tid, m.loser_to, m.loser_to_slot, v_lose);
+  END IF;
+END;
+$$;
+
+-- Wewnętrzne — klient awansuje wyłącznie przez wynik pokoju
+REVOKE ALL ON FUNCTION public.tournament_finish_league(uuid)            FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.tournament_place(uuid, text, text, text)  FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.tournament_decide(uuid, text, text)       FROM PUBLIC, anon, authenticated;
+
+-- Wynik meczu rozliczony przez submit_match_result() → awans w drabince
+CREATE OR REPLACE FUNCTION public.tournament_room_result()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  m tournament_matches%ROWTYPE;
+BEGIN
+  SELECT * INTO m FROM tournament_matches t WHERE t.room_id = NEW.id;
+  IF FOUND THEN
+    PERFORM tournament_decide(m.tournament_id, m.key,
+      CASE NEW.result->>'winner' WHEN 'host' THEN 'a' WHEN 'guest' THEN 'b' ELSE 'draw' END);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_tournament_room_result ON public.game_rooms;
+CREATE TRIGGER trg_tournament_room_result
+  AFTER UPDATE OF result ON public.game_rooms
+  FOR EACH ROW
+  WHEN (OLD.result IS NULL AND NEW.result IS NOT NULL)
+  EXECUTE FUNCTION public.tournament_room_result();
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 7. RPC: tournament_open_match(p_tournament, p_key)
+--    Woła któryś z dwóch graczy meczu. Zwraca istniejący pokój albo zakłada
+--    nowy (status 'lobby', config = tournaments.settings + tournament/match).
+--    Pokój porzucony w poczekalni (finished bez wyniku) jest zastępowany.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.tournament_open_match(p_tournament uuid, p_key text)
+RETURNS TABLE (room_id uuid, code text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  t       tournaments%ROWTYPE;
+  m       tournament_matches%ROWTYPE;
+  r       game_rooms%ROWTYPE;
+  chars   constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_code  text;
+  v_room  uuid;
+  attempt integer := 0;
+BEGIN
+  SELECT * INTO t FROM tournaments x WHERE x.id = p_tournament;
+  IF NOT FOUND OR t.status <> 'running' THEN
+    RAISE EXCEPTION 'tournament is not running';
+  END IF;
+
+  SELECT * INTO m FROM tournament_matches x
+  WHERE x.tournament_id = p_tournament AND x.key = p_key FOR UPDATE;
+  IF NOT FOUND OR m.winner IS NOT NULL OR m.slot_a IS NULL OR m.slot_b IS NULL
+     OR 'bye' IN (m.slot_a, m.slot_b) THEN
+    RAISE EXCEPTION 'match is not playable';
+  END IF;
+  IF auth.uid()::text NOT IN (m.slot_a, m.slot_b) THEN
+    RAISE EXCEPTION 'forbidden: not a player in this match';
+  END IF;
+
+  IF m.room_id IS NOT NULL THEN
+    SELECT * INTO r FROM game_rooms x WHERE x.id = m.room_id;
+    IF FOUND AND r.status <> 'finished' THEN
+      RETURN QUERY SELECT r.id, r.code;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Kod pokoju: ten sam alfabet co generateCode() w kliencie, retry na 23505
+  LOOP
+    attempt := attempt + 1;
+    v_code  := '';
+    FOR i IN 1..4 LOOP
+      v_code := v_code || substr(chars, 1 + floor(random() * length(chars))::integer, 1);
+    END LOOP;
+    BEGIN
+      INSERT INTO game_rooms (code, host_id, guest_id, status, game_state, host_score, guest_score, current_round, config)
+      VALUES (
+        v_code, m.slot_a::uuid, m.slot_b::uuid, 'lobby',
+        jsonb_build_object('tiles', '[]'::jsonb, 'cursor', 0, 'duel', NULL),
+        0, 0, 0,
+        t.settings || jsonb_build_object('tournament', t.id, 'match', m.key)
+      )
+      RETURNING id INTO v_room;
+      EXIT;
+    EXCEPTION WHEN unique_violation THEN
+      IF attempt >= 6 THEN RAISE; END IF;
+    END;
+  END LOOP;
+
+  UPDATE tournament_matches x SET room_id = v_room
+  WHERE x.tournament_id = p_tournament AND x.key = p_key;
+
+  RETURN QUERY SELECT v_room, v_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.tournament_open_match(uuid, text) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 8. Realtime — widok drabinki odświeża się sam po każdym wyniku
+-- ─────────────────────────────────────────────────────────────────────────────
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables
+                 WHERE pubname = 'supabase_realtime' AND tablename = 'tournaments') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.tournaments;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables
+                 WHERE pubname = 'supabase_realtime' AND tablename = 'tournament_matches') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.tournament_matches;
+  END IF;
+END $$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 9. Trigger: stałe ustawienia meczu turniejowego
+--    Pokój turniejowy dostaje config z tournaments.settings przy utworzeniu.
+--    Blokada w poczekalni była tylko w UI — host mógł zapisać config wprost
+--    (np. wyłączyć dogrywkę albo zmienić warunek zwycięstwa), więc config
+--    z kluczem 'tournament' jest cofany w każdym statusie.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.freeze_room_config()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IN ('playing', 'finished') OR OLD.config ? 'tournament' THEN
+    NEW.config := OLD.config;
+  END IF;
+  RETURN NEW;
+END;
+$$;
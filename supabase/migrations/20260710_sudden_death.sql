@@ -0,0 +1,210 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Dogrywka online
+--
+-- Run AFTER 20260709_victory_policy.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   Host może w lobby włączyć dogrywkę (config.suddenDeath): remisowy mecz
+--   rozstrzyga pojedynek o wszystko, który nie zmienia planszy. Plansza
+--   i wygrane pojedynki wciąż wskazują remis, więc submit_match_result
+--   odrzucał zwycięzcę dogrywki jako „outcome does not match the board".
+--
+-- Co robi:
+--   submit_match_result(): gdy plansza (i limit) dają remis, a pokój ma
+--   włączoną dogrywkę, wygrywa zwycięzca z game_state.showdown zapisany przez
+--   hosta. Pokoje bez config.suddenDeath liczą się jak dotąd.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+CREATE OR REPLACE FUNCTION public.submit_match_result(p_room_id uuid, p_outcome text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  me       uuid := auth.uid();
+  room     game_rooms%ROWTYPE;
+  hp       profiles%ROWTYPE;
+  gp       profiles%ROWTYPE;
+  v_winner text;
+  v_forfeit boolean := p_outcome IN ('forfeit', 'abandon');
+  v_opp_seen timestamptz;
+  v_total  integer;
+  v_gold   integer;
+  v_silver integer;
+  v_neutral integer;
+  v_victory jsonb;
+  v_decided boolean;
+  v_rounds integer;
+  v_minutes numeric;
+  v_limit  boolean;
+  v_mult   numeric;
+  v_pct    numeric;
+  v_base   numeric;
+  v_streak integer;
+  v_win    integer;
+  v_loss   integer;
+  v_draw   integer;
+  v_exp    numeric;
+  v_host_d integer;
+  v_guest_d integer;
+  v_game   uuid;
+  v_result jsonb;
+BEGIN
+  IF p_outcome NOT IN ('host', 'guest', 'draw', 'forfeit', 'abandon') THEN
+    RAISE EXCEPTION 'invalid outcome: %', p_outcome;
+  END IF;
+
+  SELECT * INTO room FROM game_rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'room not found';
+  END IF;
+  IF me IS NULL OR me NOT IN (room.host_id, room.guest_id) THEN
+    RAISE EXCEPTION 'forbidden: not a player in this room';
+  END IF;
+
+  -- Już rozliczony (np. host oddał mecz, gość zgłasza ponownie) → ten sam wynik
+  IF room.result IS NOT NULL THEN
+    RETURN room.result;
+  END IF;
+  IF room.status <> 'playing' OR room.guest_id IS NULL THEN
+    RAISE EXCEPTION 'room is not in a playable state (%)', room.status;
+  END IF;
+
+  SELECT count(*),
+         count(*) FILTER (WHERE t->>'owner' = 'gold'),
+         count(*) FILTER (WHERE t->>'owner' = 'silver'),
+         count(*) FILTER (WHERE t->>'owner' = 'neutral')
+    INTO v_total, v_gold, v_silver, v_neutral
+    FROM jsonb_array_elements(COALESCE(room.game_state->'tiles', '[]'::jsonb)) t;
+
+  IF p_outcome = 'forfeit' THEN
+    v_winner := CASE WHEN me = room.host_id THEN 'guest' ELSE 'host' END;
+  ELSIF p_outcome = 'abandon' THEN
+    -- Przeciwnik zniknął: jego heartbeat musi być starszy niż okres łaski
+    v_opp_seen := CASE WHEN me = room.host_id THEN room.guest_seen_at ELSE room.host_seen_at END;
+    IF COALESCE(v_opp_seen, room.created_at) > now() - interval '30 seconds' THEN
+      RAISE EXCEPTION 'opponent is still connected';
+    END IF;
+    v_winner := CASE WHEN me = room.host_id THEN 'host' ELSE 'guest' END;
+  ELSE
+    IF me <> room.host_id THEN
+      RAISE EXCEPTION 'forbidden: only the host reports a finished match';
+    END IF;
+    -- Limity meczu (domain/matchLimit.ts): liczba rund z game_state albo
+    -- zegar od started_at (10 s zapasu na opóźnienie zapisu statusu)
+    v_rounds  := CASE WHEN jsonb_typeof(room.config->'maxRounds') = 'number' THEN (room.config->>'maxRounds')::integer ELSE 0 END;
+    v_minutes := CASE WHEN jsonb_typeof(room.config->'matchMinutes') = 'number' THEN (room.config->>'matchMinutes')::numeric ELSE 0 END;
+    v_limit := (v_rounds > 0 AND COALESCE((room.game_state->>'roundNo')::integer, 0) >= v_rounds)
+            OR (v_minutes > 0 AND room.started_at IS NOT NULL
+                AND now() >= room.started_at + v_minutes * interval '1 minute' - interval '10 seconds');
+
+    -- Warunek zwycięstwa (config.victory, jak boardVictor w domain/board.ts);
+    -- terytoria kończy zawsze eliminacja, brak polityki = 75% planszy
+    v_victory := CASE WHEN jsonb_typeof(room.config->'victory') = 'object' THEN room.config->'victory' ELSE '{}'::jsonb END;
+    v_decided := CASE
+      WHEN room.config->>'rules' = 'territory' THEN least(v_gold, v_silver) = 0
+      WHEN v_victory->>'kind' = 'elimination'  THEN v_neutral = 0 AND least(v_gold, v_silver) = 0
+      WHEN v_victory->>'kind' = 'full_board'   THEN v_neutral = 0
+      WHEN v_victory->>'kind' = 'first_to'     THEN greatest(v_gold, v_silver) >= least(v_total, greatest(1,
+        CASE WHEN jsonb_typeof(v_victory->'tiles') = 'number' THEN (v_victory->>'tiles')::numeric ELSE 8 END))
+      ELSE greatest(v_gold, v_silver) >= ceil(v_total *
+        CASE WHEN jsonb_typeof(v_victory->'threshold') = 'number' THEN (v_victory->>'threshold')::numeric ELSE 0.75 END)
+    END;
+
+    -- Plansza musi być rozstrzygnięta albo limit osiągnięty
+    IF v_total = 0 OR (NOT v_decided AND NOT v_limit) THEN
+      RAISE EXCEPTION 'board is not decided yet';
+    END IF;
+    v_winner := CASE WHEN v_gold > v_silver THEN 'host' WHEN v_silver > v_gold THEN 'guest' ELSE 'draw' END;
+    -- Remis na polach przy limicie: rozstrzygają wygrane pojedynki (limitLeader)
+    IF v_winner = 'draw' AND v_limit THEN
+      v_winner := CASE
+        WHEN COALESCE((room.game_state->'duelsWon'->>'gold')::integer, 0) > COALESCE((room.game_state->'duelsWon'->>'silver')::integer, 0) THEN 'host'
+        WHEN COALESCE((room.game_state->'duelsWon'->>'silver')::integer, 0) > COALESCE((room.game_state->'duelsWon'->>'gold')::integer, 0) THEN 'guest'
+        ELSE 'draw' END;
+    END IF;
+    -- Dogrywka (domain/suddenDeath.ts): remis rozstrzyga pojedynek o wszystko,
+    -- którego zwycięzcę host zapisuje w game_state.showdown
+    IF v_winner = 'draw' AND room.config->'suddenDeath' = 'true'::jsonb
+       AND room.game_state->>'showdown' IN ('host', 'guest') THEN
+      v_winner := room.game_state->>'showdown';
+    END IF;
+    IF v_winner <> p_outcome THEN
+      RAISE EXCEPTION 'outcome % does not match the board (%)', p_outcome, v_winner;
+    END IF;
+  END IF;
+
+  SELECT * INTO hp FROM profiles WHERE id = room.host_id  FOR UPDATE;
+  SELECT * INTO gp FROM profiles WHERE id = room.guest_id FOR UPDATE;
+  IF hp.id IS NULL OR gp.id IS NULL THEN
+    RAISE EXCEPTION 'profile missing';
+  END IF;
+
+  -- XP (xpRewards). Mnożniki trybów = MP_MODES w useMultiplayerStore.
+  v_mult := CASE room.config->>'gameMode' WHEN 'blitz' THEN 0.75 WHEN 'hardcore' THEN 1.5 ELSE 1 END;
+  v_pct  := greatest(0, config_number('MP_XP_FORFEIT_PCT', 50)) / 100;
+  v_base := greatest(0, config_number('MP_XP_WIN', 10)) * v_mult;
+  v_streak := least(
+    greatest(0, CASE v_winner WHEN 'host' THEN hp.win_streak WHEN 'guest' THEN gp.win_streak ELSE 0 END),
+    greatest(0, config_number('MP_XP_STREAK_CAP', 5))::integer);
+
+  v_win := round(
+    CASE WHEN v_forfeit THEN v_base * (1 + v_pct) ELSE v_base END
+    + v_streak * greatest(0, config_number('MP_XP_STREAK_BONUS', 0))
+    + CASE WHEN v_forfeit THEN 0 ELSE abs(v_gold - v_silver) * greatest(0, config_number('MP_XP_MARGIN_BONUS', 0)) END);
+  v_loss := CASE WHEN v_forfeit THEN -round(v_base * v_pct)
+                 ELSE round(greatest(0, config_number('MP_XP_LOSS', 0)) * v_mult) END;
+  v_draw := round(greatest(0, config_number('MP_XP_DRAW', 5)) * v_mult);
+
+  -- Rating (applyRatingResult): K 40 przez pierwsze 10 meczów, potem 20; min 100
+  v_exp := 1 / (1 + power(10, (gp.rating - hp.rating) / 400.0));
+  v_host_d  := round(CASE WHEN hp.rating_games < 10 THEN 40 ELSE 20 END
+    * (CASE v_winner WHEN 'host' THEN 1 WHEN 'draw' THEN 0.5 ELSE 0 END - v_exp));
+  v_guest_d := round(CASE WHEN gp.rating_games < 10 THEN 40 ELSE 20 END
+    * (CASE v_winner WHEN 'guest' THEN 1 WHEN 'draw' THEN 0.5 ELSE 0 END - (1 - v_exp)));
+
+  -- Statystyki (applyMatchResult)
+  UPDATE profiles p SET
+    xp          = greatest(0, p.xp + CASE WHEN v_winner = 'draw' THEN v_draw WHEN v_winner = s.role THEN v_win ELSE v_loss END),
+    wins        = p.wins   + CASE WHEN v_winner = s.role THEN 1 ELSE 0 END,
+    losses      = p.losses + CASE WHEN v_winner NOT IN ('draw', s.role) THEN 1 ELSE 0 END,
+    win_streak  = CASE WHEN v_winner = s.role THEN p.win_streak + 1 ELSE 0 END,
+    best_streak = CASE WHEN v_winner = s.role THEN greatest(p.best_streak, p.win_streak + 1) ELSE p.best_streak END,
+    rating      = greatest(100, p.rating + s.delta),
+    rating_games = p.rating_games + 1,
+    updated_at  = now()
+  FROM (VALUES (room.host_id, 'host', v_host_d), (room.guest_id, 'guest', v_guest_d)) AS s(id, role, delta)
+  WHERE p.id = s.id;
+
+  IF v_winner <> 'draw' THEN
+    INSERT INTO game_history (winner_id, loser_id, winner_score, loser_score, is_draw, room_id)
+    VALUES (
+      CASE v_winner WHEN 'host' THEN room.host_id ELSE room.guest_id END,
+      CASE v_winner WHEN 'host' THEN room.guest_id ELSE room.host_id END,
+      CASE v_winner WHEN 'host' THEN v_gold ELSE v_silver END,
+      CASE v_winner WHEN 'host' THEN v_silver ELSE v_gold END,
+      false, room.id)
+    RETURNING id INTO v_game;
+
+    UPDATE game_rounds SET game_id = v_game WHERE room_id = room.id AND game_id IS NULL;
+  END IF;
+
+  v_result := jsonb_build_object(
+    'winner', v_winner, 'forfeit', v_forfeit,
+    'win', v_win, 'loss', v_loss, 'draw', v_draw);
+
+  UPDATE game_rooms SET
+    result      = v_result,
+    status      = 'finished',
+    host_score  = v_gold,
+    guest_score = v_silver,
+    updated_at  = now()
+  WHERE id = room.id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_match_result(uuid, text) TO authenticated;
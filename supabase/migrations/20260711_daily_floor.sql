@@ -0,0 +1,181 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Daily Floor (daily_results)
+--
+-- Run AFTER 20260710_sudden_death.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   Wszystkie wyniki żyły w game_history i dotyczyły meczów 1v1. Dzienne
+--   wyzwanie (ta sama plansza dla wszystkich, bieg na czas w pojedynkę)
+--   nie miało gdzie zapisać wyniku, rankingu dnia ani serii dni z rzędu.
+--
+-- Co robi:
+--   1. daily_results — jeden bieg gracza na dzień (UTC): trafienia, pasy,
+--      pozostały czas i seria dni z rzędu; nazwa i avatar jak w chwili biegu;
+--      finished_at pusty, dopóki bieg trwa
+--   2. RLS: odczyt dla wszystkich, zapis tylko przez RPC
+--   3. RPC start_daily_run(p_day) — wiersz biegu (wynik 0) zakładany przy
+--      starcie: porzucony bieg też się liczy jako rozegrany
+--   4. RPC submit_daily_run(...) — uzupełnia rozpoczęty bieg, liczy serię
+--      i zwraca miejsce gracza w rankingu dnia
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. daily_results
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.daily_results (
+  day          date        NOT NULL,
+  player_id    uuid        NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  username     text        NOT NULL,
+  avatar       text,
+  avatar_url   text,
+  score        integer     NOT NULL CHECK (score >= 0),
+  passes       integer     NOT NULL DEFAULT 0 CHECK (passes >= 0),
+  time_left_ms integer     NOT NULL DEFAULT 0 CHECK (time_left_ms >= 0),
+  streak       integer     NOT NULL DEFAULT 1 CHECK (streak >= 1),
+  played_at    timestamptz NOT NULL DEFAULT now(),
+  finished_at  timestamptz,
+  PRIMARY KEY (day, player_id)
+);
+
+ALTER TABLE public.daily_results ADD COLUMN IF NOT EXISTS finished_at timestamptz;
+-- Biegi zapisane, zanim istniał start_daily_run, były od razu ukończone
+-- (porzucony start ma same zera)
+UPDATE public.daily_results SET finished_at = played_at
+WHERE finished_at IS NULL AND played_at < now() - interval '5 minutes'
+  AND (score > 0 OR passes > 0 OR time_left_ms > 0);
+
+-- Ranking dnia (ta sama kolejność co domain/timeAttack.ts compareResults);
+-- tylko ukończone biegi
+DROP INDEX IF EXISTS public.idx_daily_results_rank;
+CREATE INDEX IF NOT EXISTS idx_daily_results_rank
+  ON public.daily_results (day, score DESC, time_left_ms DESC, passes) WHERE finished_at IS NOT NULL;
+-- Ostatni bieg gracza (seria)
+CREATE INDEX IF NOT EXISTS idx_daily_results_player
+  ON public.daily_results (player_id, day DESC);
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. RLS — ranking jawny, zapis tylko przez RPC
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.daily_results ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "read daily results" ON public.daily_results;
+  CREATE POLICY "read daily results" ON public.daily_results
+    FOR SELECT USING (true);
+END $$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. RPC: start_daily_run(p_day)
+--    Wywoływane przy START. Liczy się tylko pierwszy bieg dnia — zwraca
+--    false, gdy gracz już go zaczął (przeładowanie strony nie daje drugiej
+--    próby po podejrzeniu haseł w pasach). Dzień musi być dzisiejszy;
+--    wczorajszy tylko przez 5 minut po północy (strona otwarta przed nią).
+--    Seria liczy się od startu.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.start_daily_run(p_day date)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  me     uuid := auth.uid();
+  today  date := (now() AT TIME ZONE 'utc')::date;
+  me_row profiles%ROWTYPE;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+  IF p_day <> today
+     AND NOT (p_day = today - 1 AND (now() AT TIME ZONE 'utc') < today + interval '5 minutes') THEN
+    RAISE EXCEPTION 'daily run for % is closed', p_day;
+  END IF;
+
+  SELECT * INTO me_row FROM profiles WHERE id = me;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'profile not found';
+  END IF;
+
+  INSERT INTO daily_results (day, player_id, username, avatar, avatar_url, score, passes, time_left_ms, streak)
+  VALUES (
+    p_day, me, me_row.username, me_row.avatar, me_row.avatar_url, 0, 0, 0,
+    COALESCE((SELECT streak FROM daily_results WHERE player_id = me AND day = p_day - 1), 0) + 1
+  )
+  ON CONFLICT (day, player_id) DO NOTHING;
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_daily_run(date) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4. RPC: submit_daily_run(p_day, p_score, p_passes, p_time_left_ms)
+--    Uzupełnia bieg zaczęty przez start_daily_run, jeśli nie jest jeszcze
+--    ukończony i zaczął się nie dawniej niż 5 minut temu (90 s zegara +
+--    odliczanie + zapas na sieć). Powtórka zwraca zapisany wynik.
+--    Bieg kończy się przed czasem tylko, gdy skończy się talia.
+--    Zwraca { score, streak, rank }.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.submit_daily_run(
+  p_day          date,
+  p_score        integer,
+  p_passes       integer,
+  p_time_left_ms integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  me     uuid := auth.uid();
+  run    daily_results%ROWTYPE;
+  v_rank integer;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+  -- 5 kategorii × 8 pytań, 90 s zegara, pas za 3 s (domain/daily.ts)
+  IF p_score < 0 OR p_passes < 0 OR p_score + p_passes > 40
+     OR p_time_left_ms NOT BETWEEN 0 AND greatest(0, 90000 - 3000 * p_passes)
+     OR (p_score + p_passes < 40 AND p_time_left_ms > 0) THEN
+    RAISE EXCEPTION 'invalid daily run';
+  END IF;
+
+  SELECT * INTO run FROM daily_results WHERE day = p_day AND player_id = me FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'daily run for % was not started', p_day;
+  END IF;
+
+  IF run.finished_at IS NULL THEN
+    IF run.played_at < now() - interval '5 minutes' THEN
+      RAISE EXCEPTION 'daily run for % has expired', p_day;
+    END IF;
+    UPDATE daily_results SET
+      score = p_score, passes = p_passes, time_left_ms = p_time_left_ms, finished_at = now()
+    WHERE day = p_day AND player_id = me
+    RETURNING * INTO run;
+  END IF;
+
+  SELECT count(*) + 1 INTO v_rank
+  FROM daily_results d
+  WHERE d.day = p_day AND d.finished_at IS NOT NULL
+    AND (d.score > run.score
+      OR (d.score = run.score AND d.time_left_ms > run.time_left_ms)
+      OR (d.score = run.score AND d.time_left_ms = run.time_left_ms AND d.passes < run.passes));
+
+  RETURN jsonb_build_object('score', run.score, 'streak', run.streak, 'rank', v_rank);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_daily_run(date, integer, integer, integer) TO authenticated;
@@ -0,0 +1,124 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Solo: rekordy osobiste per kategoria (profiles.solo_bests)
+--
+-- Run AFTER 20260711_daily_floor.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   Tryb solo (bieg na czas w jednej kategorii) nie miał gdzie zapisać
+--   rekordu — profil znał tylko wyniki meczów 1v1.
+--
+-- Co robi:
+--   1. profiles.solo_bests — mapa jsonb '<category_id>:<sekundy>' →
+--      { score, passes, timeLeftMs, at } (domain/solo.ts)
+--   2. RPC submit_solo_run(...) — zapisuje bieg tylko, jeśli bije rekord
+--      (ta sama kolejność co domain/timeAttack.ts compareResults)
+--   3. protect_profile_stats() chroni też solo_bests — bez tego polityka
+--      profiles_self_update pozwalała wpisać dowolny rekord z pominięciem RPC
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. profiles.solo_bests
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS solo_bests jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. RPC: submit_solo_run(p_category_id, p_duration_ms, p_score, p_passes, p_time_left_ms)
+--    Zwraca { best: bool, record: { score, passes, timeLeftMs, at } } —
+--    record to rekord po zapisie (nowy albo dotychczasowy).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.submit_solo_run(
+  p_category_id  text,
+  p_duration_ms  integer,
+  p_score        integer,
+  p_passes       integer,
+  p_time_left_ms integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  me      uuid := auth.uid();
+  v_key   text;
+  v_prev  jsonb;
+  v_run   jsonb;
+  v_best  boolean;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+  -- Długości zegara z domain/solo.ts SOLO_DURATIONS_MS
+  IF p_duration_ms NOT IN (60000, 90000, 120000) THEN
+    RAISE EXCEPTION 'invalid solo duration';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM categories WHERE id::text = p_category_id) THEN
+    RAISE EXCEPTION 'category not found';
+  END IF;
+  IF p_score < 0 OR p_passes < 0 OR p_time_left_ms NOT BETWEEN 0 AND p_duration_ms
+     OR p_score + p_passes > (SELECT count(*) FROM questions WHERE category_id::text = p_category_id) THEN
+    RAISE EXCEPTION 'invalid solo run';
+  END IF;
+
+  v_key := p_category_id || ':' || (p_duration_ms / 1000);
+  v_run := jsonb_build_object('score', p_score, 'passes', p_passes, 'timeLeftMs', p_time_left_ms, 'at', now());
+
+  SELECT solo_bests -> v_key INTO v_prev FROM profiles WHERE id = me FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'profile not found';
+  END IF;
+
+  v_best := CASE
+    WHEN v_prev IS NULL THEN p_score > 0
+    ELSE p_score > (v_prev->>'score')::int
+      OR (p_score = (v_prev->>'score')::int AND p_time_left_ms > (v_prev->>'timeLeftMs')::int)
+      OR (p_score = (v_prev->>'score')::int AND p_time_left_ms = (v_prev->>'timeLeftMs')::int
+          AND p_passes < (v_prev->>'passes')::int)
+  END;
+
+  IF v_best THEN
+    UPDATE profiles SET solo_bests = solo_bests || jsonb_build_object(v_key, v_run) WHERE id = me;
+  END IF;
+
+  RETURN jsonb_build_object('best', v_best, 'record', CASE WHEN v_best THEN v_run ELSE v_prev END);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_solo_run(text, integer, integer, integer, integer) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. Trigger: rekordy solo tylko przez RPC (albo admina)
+--    Ta sama funkcja co w 20260705_submit_match_result.sql, rozszerzona
+--    o solo_bests. submit_solo_run jest SECURITY DEFINER, więc przechodzi.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.protect_profile_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND NOT public.is_admin(auth.uid()) THEN
+    NEW.xp           := OLD.xp;
+    NEW.wins         := OLD.wins;
+    NEW.losses       := OLD.losses;
+    NEW.win_streak   := OLD.win_streak;
+    NEW.best_streak  := OLD.best_streak;
+    NEW.rating       := OLD.rating;
+    NEW.rating_games := OLD.rating_games;
+    NEW.solo_bests   := OLD.solo_bests;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_protect_profile_stats ON public.profiles;
+CREATE TRIGGER trg_protect_profile_stats
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_stats();
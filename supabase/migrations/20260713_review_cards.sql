@@ -0,0 +1,58 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Trening z powtórkami (review_cards)
+--
+-- Run AFTER 20260712_solo_bests.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   Gracze przegrywają pojedynki, bo nie znają zdjęć, a nie było jak się ich
+--   uczyć. Tryb treningu planuje powtórki algorytmem SM-2 (domain/srs.ts) —
+--   postęp musi przeżyć zmianę urządzenia, więc trafia na konto.
+--
+-- Co robi:
+--   1. review_cards — karta gracza dla pytania: ease, interwał, seria,
+--      potknięcia, termin następnej powtórki i czas ostatniej
+--   2. RLS: gracz czyta i zapisuje tylko własne karty
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. review_cards
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.review_cards (
+  player_id     uuid        NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  question_id   uuid        NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  ease          real        NOT NULL DEFAULT 2.5 CHECK (ease >= 1.3),
+  interval_days integer     NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  reps          integer     NOT NULL DEFAULT 0 CHECK (reps >= 0),
+  lapses        integer     NOT NULL DEFAULT 0 CHECK (lapses >= 0),
+  due_at        timestamptz NOT NULL DEFAULT now(),
+  reviewed_at   timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (player_id, question_id)
+);
+
+-- Powtórki na dziś
+CREATE INDEX IF NOT EXISTS idx_review_cards_due
+  ON public.review_cards (player_id, due_at);
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. RLS — tylko własne karty
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.review_cards ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "read own review cards" ON public.review_cards;
+  CREATE POLICY "read own review cards" ON public.review_cards
+    FOR SELECT USING (auth.uid() = player_id);
+
+  DROP POLICY IF EXISTS "insert own review cards" ON public.review_cards;
+  CREATE POLICY "insert own review cards" ON public.review_cards
+    FOR INSERT WITH CHECK (auth.uid() = player_id);
+
+  DROP POLICY IF EXISTS "update own review cards" ON public.review_cards;
+  CREATE POLICY "update own review cards" ON public.review_cards
+    FOR UPDATE USING (auth.uid() = player_id) WITH CHECK (auth.uid() = player_id);
+END $$;
@@ -0,0 +1,448 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- THE FLOOR — Plansza odtwarzana z logu rund (game_rounds)
+--
+-- Run AFTER 20260713_review_cards.sql w Supabase SQL Editor.
+-- Idempotent: bezpieczne do ponownego uruchomienia.
+--
+-- Problem który naprawia:
+--   submit_match_result sprawdzał wynik z game_state.tiles, roundNo, duelsWon
+--   i showdown — wszystko to zapisuje host. Zmodyfikowany klient hosta mógł
+--   zapisać wygraną planszę i ją rozliczyć.
+--
+-- Co robi:
+--   1. game_rounds.picker (kto wybrał pole) + showdown (pojedynek dogrywki)
+--      — wystarczają, żeby odtworzyć planszę także w trybie terytoriów
+--   2. game_rooms.start_tiles — plansza z chwili przejścia na 'playing',
+--      ustawiana triggerem i niezmienna dla klienta
+--   3. RLS game_rounds: log tylko dopisywany (INSERT hosta w trakcie meczu);
+--      podpięcie do game_history robi wyłącznie RPC
+--   4. room_round_log(room) / replay_room_board(room) — log bez duplikatów
+--      i plansza odtworzona z planszy startowej i kolejnych rund (jak
+--      resolveRound w domain/duel.ts i resolveTerritoryRound w territory.ts)
+--   5. submit_match_result(): wynik hosta przyjmowany tylko, gdy
+--      game_state.tiles zgadza się z odtworzoną planszą; liczba rund,
+--      wygrane pojedynki i zwycięzca dogrywki liczone z logu
+--
+-- Czego NIE robi:
+--   Host nadal prowadzi pojedynki i zapisuje rundy — serwer nie sprawdza
+--   odpowiedzi. Nie da się już jednak dopisać planszy niezgodnej z logiem.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. Kolumny rundy potrzebne do odtworzenia planszy
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS picker   text;
+ALTER TABLE public.game_rounds ADD COLUMN IF NOT EXISTS showdown boolean NOT NULL DEFAULT false;
+
+DO $$
+BEGIN
+  ALTER TABLE public.game_rounds DROP CONSTRAINT IF EXISTS game_rounds_picker_check;
+  ALTER TABLE public.game_rounds
+    ADD CONSTRAINT game_rounds_picker_check
+    CHECK (picker IS NULL OR picker IN ('host', 'guest'));
+END $$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. Plansza startowa
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.game_rooms ADD COLUMN IF NOT EXISTS start_tiles jsonb;
+
+CREATE OR REPLACE FUNCTION public.game_rooms_start_tiles()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'playing' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'playing') THEN
+    NEW.start_tiles := NEW.game_state->'tiles';
+  ELSIF TG_OP = 'INSERT' THEN
+    NEW.start_tiles := NULL;
+  ELSE
+    NEW.start_tiles := OLD.start_tiles;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS game_rooms_start_tiles ON public.game_rooms;
+CREATE TRIGGER game_rooms_start_tiles
+  BEFORE INSERT OR UPDATE ON public.game_rooms
+  FOR EACH ROW EXECUTE FUNCTION public.game_rooms_start_tiles();
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. RLS — log rund tylko dopisywany
+-- ─────────────────────────────────────────────────────────────────────────────
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "room host link rounds" ON public.game_rounds;
+
+  DROP POLICY IF EXISTS "room host insert rounds" ON public.game_rounds;
+  CREATE POLICY "room host insert rounds" ON public.game_rounds
+    FOR INSERT TO authenticated
+    WITH CHECK (EXISTS (
+      SELECT 1 FROM public.game_rooms r
+      WHERE r.id = room_id AND r.host_id = auth.uid() AND r.status = 'playing'
+    ));
+END $$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4a. room_round_log(room) — rundy pokoju w kolejności; przy zdublowanym
+--     numerze rundy liczy się pierwszy zapis
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.room_round_log(p_room_id uuid)
+RETURNS TABLE (round_no integer, tile_idx integer, winner_role text, picker text, showdown boolean)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (g.round_no) g.round_no, g.tile_idx, g.winner_role, g.picker, g.showdown
+    FROM game_rounds g
+   WHERE g.room_id = p_room_id AND g.round_no IS NOT NULL
+   ORDER BY g.round_no, g.created_at;
+$$;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4b. replay_room_board(room) — właściciele pól po wszystkich rundach
+--     Plansza startowa musi być taka, jaką buduje klient: klasycznie same
+--     pola neutralne, w terytoriach pierwsza połowa pól (po x, potem y)
+--     złota, reszta srebrna (seedTerritories). NULL = planszy nie da się
+--     odtworzyć (brak startu, zła plansza startowa, niepełna runda).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.replay_room_board(p_room game_rooms)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_territory boolean := p_room.config->>'rules' = 'territory';
+  owners  text[];
+  terr    integer[];
+  xs      integer[];
+  ys      integer[];
+  n       integer;
+  rnd     record;
+  v_idx   integer;   -- 1-based, jak tablice w PL/pgSQL
+  v_win   text;
+  v_chal  text;
+  v_owner text;
+  v_target integer;
+  v_attack integer;
+  v_best  integer;
+  v_size  integer;
+BEGIN
+  IF jsonb_typeof(p_room.start_tiles) IS DISTINCT FROM 'array' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT array_agg(s.t->>'owner' ORDER BY s.o),
+         array_agg((s.t->>'x')::integer ORDER BY s.o),
+         array_agg((s.t->>'y')::integer ORDER BY s.o)
+    INTO owners, xs, ys
+    FROM jsonb_array_elements(p_room.start_tiles) WITH ORDINALITY AS s(t, o);
+  n := COALESCE(array_length(owners, 1), 0);
+  IF n = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_territory THEN
+    -- Każde pole to osobne terytorium o id = indeks pola (od 0)
+    terr := ARRAY(SELECT generate_series(0, n - 1));
+    IF EXISTS (
+      SELECT 1 FROM (
+        SELECT k, row_number() OVER (ORDER BY xs[k], ys[k], k) AS pos
+          FROM generate_subscripts(owners, 1) k
+      ) r
+      WHERE owners[r.k] IS DISTINCT FROM CASE WHEN r.pos <= n / 2 THEN 'gold' ELSE 'silver' END
+    ) THEN
+      RETURN NULL;
+    END IF;
+  ELSIF EXISTS (SELECT 1 FROM unnest(owners) u WHERE u IS DISTINCT FROM 'neutral') THEN
+    RETURN NULL;
+  END IF;
+
+  FOR rnd IN SELECT * FROM room_round_log(p_room.id) LOOP
+    -- Remis nie zmienia planszy, dogrywka gra o mecz, nie o pole
+    CONTINUE WHEN rnd.showdown OR rnd.winner_role IS NULL OR rnd.winner_role NOT IN ('host', 'guest');
+    IF rnd.tile_idx IS NULL OR rnd.tile_idx < 0 OR rnd.tile_idx >= n THEN
+      RETURN NULL;
+    END IF;
+    v_idx := rnd.tile_idx + 1;
+    v_win := CASE rnd.winner_role WHEN 'host' THEN 'gold' ELSE 'silver' END;
+
+    IF NOT v_territory THEN
+      owners[v_idx] := v_win;
+      CONTINUE;
+    END IF;
+
+    IF rnd.picker IS NULL THEN
+      RETURN NULL;
+    END IF;
+    v_chal   := CASE rnd.picker WHEN 'host' THEN 'gold' ELSE 'silver' END;
+    v_owner  := owners[v_idx];
+    v_target := terr[v_idx];
+
+    -- attackingTerritory: największe sąsiadujące terytorium atakującego,
+    -- przy remisie najniższe id
+    v_attack := NULL;
+    v_best   := -1;
+    FOR i IN 1..n LOOP
+      CONTINUE WHEN abs(xs[i] - xs[v_idx]) + abs(ys[i] - ys[v_idx]) <> 1 OR owners[i] IS DISTINCT FROM v_chal;
+      SELECT count(*) INTO v_size FROM generate_subscripts(owners, 1) k WHERE owners[k] = v_chal AND terr[k] = terr[i];
+      IF v_size > v_best OR (v_size = v_best AND terr[i] < v_attack) THEN
+        v_attack := terr[i];
+        v_best   := v_size;
+      END IF;
+    END LOOP;
+
+    -- resolveTerritoryRound: zwycięzca przejmuje całe terytorium przegranego
+    IF v_win = v_chal THEN
+      FOR i IN 1..n LOOP
+        IF owners[i] = v_owner AND terr[i] = v_target THEN
+          owners[i] := v_win;
+          terr[i]   := COALESCE(v_attack, v_target);
+        END IF;
+      END LOOP;
+    ELSIF v_owner = v_win AND v_attack IS NOT NULL THEN
+      FOR i IN 1..n LOOP
+        IF owners[i] = v_chal AND terr[i] = v_attack THEN
+          owners[i] := v_win;
+          terr[i]   := v_target;
+        END IF;
+      END LOOP;
+    ELSE
+      owners[v_idx] := v_win;
+    END IF;
+  END LOOP;
+
+  RETURN owners;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.room_round_log(uuid)          FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.replay_room_board(game_rooms) FROM PUBLIC, anon, authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 5. submit_match_result — wynik hosta sprawdzany z odtworzoną planszą
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.submit_match_result(p_room_id uuid, p_outcome text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  me       uuid := auth.uid();
+  room     game_rooms%ROWTYPE;
+  hp       profiles%ROWTYPE;
+  gp       profiles%ROWTYPE;
+  v_winner text;
+  v_forfeit boolean := p_outcome IN ('forfeit', 'abandon');
+  v_opp_seen timestamptz;
+  v_total  integer;
+  v_gold   integer;
+  v_silver integer;
+  v_neutral integer;
+  v_victory jsonb;
+  v_decided boolean;
+  v_rounds integer;
+  v_minutes numeric;
+  v_limit  boolean;
+  v_mult   numeric;
+  v_pct    numeric;
+  v_base   numeric;
+  v_streak integer;
+  v_win    integer;
+  v_loss   integer;
+  v_draw   integer;
+  v_exp    numeric;
+  v_host_d integer;
+  v_guest_d integer;
+  v_game   uuid;
+  v_result jsonb;
+  v_owners text[];
+  v_played integer;
+  v_host_duels  integer;
+  v_guest_duels integer;
+  v_showdown text;
+BEGIN
+  IF p_outcome NOT IN ('host', 'guest', 'draw', 'forfeit', 'abandon') THEN
+    RAISE EXCEPTION 'invalid outcome: %', p_outcome;
+  END IF;
+
+  SELECT * INTO room FROM game_rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'room not found';
+  END IF;
+  IF me IS NULL OR me NOT IN (room.host_id, room.guest_id) THEN
+    RAISE EXCEPTION 'forbidden: not a player in this room';
+  END IF;
+
+  -- Już rozliczony (np. host oddał mecz, gość zgłasza ponownie) → ten sam wynik
+  IF room.result IS NOT NULL THEN
+    RETURN room.result;
+  END IF;
+  IF room.status <> 'playing' OR room.guest_id IS NULL THEN
+    RAISE EXCEPTION 'room is not in a playable state (%)', room.status;
+  END IF;
+
+  SELECT count(*),
+         count(*) FILTER (WHERE t->>'owner' = 'gold'),
+         count(*) FILTER (WHERE t->>'owner' = 'silver'),
+         count(*) FILTER (WHERE t->>'owner' = 'neutral')
+    INTO v_total, v_gold, v_silver, v_neutral
+    FROM jsonb_array_elements(COALESCE(room.game_state->'tiles', '[]'::jsonb)) t;
+
+  IF p_outcome = 'forfeit' THEN
+    v_winner := CASE WHEN me = room.host_id THEN 'guest' ELSE 'host' END;
+  ELSIF p_outcome = 'abandon' THEN
+    -- Przeciwnik zniknął: jego heartbeat musi być starszy niż okres łaski
+    v_opp_seen := CASE WHEN me = room.host_id THEN room.guest_seen_at ELSE room.host_seen_at END;
+    IF COALESCE(v_opp_seen, room.created_at) > now() - interval '30 seconds' THEN
+      RAISE EXCEPTION 'opponent is still connected';
+    END IF;
+    v_winner := CASE WHEN me = room.host_id THEN 'host' ELSE 'guest' END;
+  ELSE
+    IF me <> room.host_id THEN
+      RAISE EXCEPTION 'forbidden: only the host reports a finished match';
+    END IF;
+    -- Plansza hosta musi wynikać z logu rund (replay_room_board)
+    v_owners := replay_room_board(room);
+    IF v_owners IS NULL OR v_owners IS DISTINCT FROM (
+      SELECT array_agg(t->>'owner' ORDER BY o)
+        FROM jsonb_array_elements(COALESCE(room.game_state->'tiles', '[]'::jsonb)) WITH ORDINALITY AS s(t, o)
+    ) THEN
+      RAISE EXCEPTION 'board does not match the round log';
+    END IF;
+    -- Rundy, wygrane pojedynki i dogrywka też z logu, nie z game_state
+    SELECT count(*),
+           count(*) FILTER (WHERE x.winner_role = 'host'),
+           count(*) FILTER (WHERE x.winner_role = 'guest'),
+           max(x.winner_role) FILTER (WHERE x.showdown AND x.winner_role IN ('host', 'guest'))
+      INTO v_played, v_host_duels, v_guest_duels, v_showdown
+      FROM room_round_log(room.id) x;
+    -- Limity meczu (domain/matchLimit.ts): liczba rund z logu albo
+    -- zegar od started_at (10 s zapasu na opóźnienie zapisu statusu)
+    v_rounds  := CASE WHEN jsonb_typeof(room.config->'maxRounds') = 'number' THEN (room.config->>'maxRounds')::integer ELSE 0 END;
+    v_minutes := CASE WHEN jsonb_typeof(room.config->'matchMinutes') = 'number' THEN (room.config->>'matchMinutes')::numeric ELSE 0 END;
+    v_limit := (v_rounds > 0 AND v_played >= v_rounds)
+            OR (v_minutes > 0 AND room.started_at IS NOT NULL
+                AND now() >= room.started_at + v_minutes * interval '1 minute' - interval '10 seconds');
+
+    -- Warunek zwycięstwa (config.victory, jak boardVictor w domain/board.ts);
+    -- terytoria kończy zawsze eliminacja, brak polityki = 75% planszy
+    v_victory := CASE WHEN jsonb_typeof(room.config->'victory') = 'object' THEN room.config->'victory' ELSE '{}'::jsonb END;
+    v_decided := CASE
+      WHEN room.config->>'rules' = 'territory' THEN least(v_gold, v_silver) = 0
+      WHEN v_victory->>'kind' = 'elimination'  THEN v_neutral = 0 AND least(v_gold, v_silver) = 0
+      WHEN v_victory->>'kind' = 'full_board'   THEN v_neutral = 0
+      WHEN v_victory->>'kind' = 'first_to'     THEN greatest(v_gold, v_silver) >= least(v_total, greatest(1,
+        CASE WHEN jsonb_typeof(v_victory->'tiles') = 'number' THEN (v_victory->>'tiles')::numeric ELSE 8 END))
+      ELSE greatest(v_gold, v_silver) >= ceil(v_total *
+        CASE WHEN jsonb_typeof(v_victory->'threshold') = 'number' THEN (v_victory->>'threshold')::numeric ELSE 0.75 END)
+    END;
+
+    -- Plansza musi być rozstrzygnięta albo limit osiągnięty
+    IF v_total = 0 OR (NOT v_decided AND NOT v_limit) THEN
+      RAISE EXCEPTION 'board is not decided yet';
+    END IF;
+    v_winner := CASE WHEN v_gold > v_silver THEN 'host' WHEN v_silver > v_gold THEN 'guest' ELSE 'draw' END;
+    -- Remis na polach przy limicie: rozstrzygają wygrane pojedynki (limitLeader)
+    IF v_winner = 'draw' AND v_limit THEN
+      v_winner := CASE
+        WHEN v_host_duels > v_guest_duels THEN 'host'
+        WHEN v_guest_duels > v_host_duels THEN 'guest'
+        ELSE 'draw' END;
+    END IF;
+    -- Dogrywka (domain/suddenDeath.ts): remis rozstrzyga pojedynek o wszystko,
+    -- zalogowany jako runda z showdown = true
+    IF v_winner = 'draw' AND room.config->'suddenDeath' = 'true'::jsonb AND v_showdown IS NOT NULL THEN
+      v_winner := v_showdown;
+    END IF;
+    IF v_winner <> p_outcome THEN
+      RAISE EXCEPTION 'outcome % does not match the board (%)', p_outcome, v_winner;
+    END IF;
+  END IF;
+
+  SELECT * INTO hp FROM profiles WHERE id = room.host_id  FOR UPDATE;
+  SELECT * INTO gp FROM profiles WHERE id = room.guest_id FOR UPDATE;
+  IF hp.id IS NULL OR gp.id IS NULL THEN
+    RAISE EXCEPTION 'profile missing';
+  END IF;
+
+  -- XP (xpRewards). Mnożniki trybów = MP_MODES w useMultiplayerStore.
+  v_mult := CASE room.config->>'gameMode' WHEN 'blitz' THEN 0.75 WHEN 'hardcore' THEN 1.5 ELSE 1 END;
+  v_pct  := greatest(0, config_number('MP_XP_FORFEIT_PCT', 50)) / 100;
+  v_base := greatest(0, config_number('MP_XP_WIN', 10)) * v_mult;
+  v_streak := least(
+    greatest(0, CASE v_winner WHEN 'host' THEN hp.win_streak WHEN 'guest' THEN gp.win_streak ELSE 0 END),
+    greatest(0, config_number('MP_XP_STREAK_CAP', 5))::integer);
+
+  v_win := round(
+    CASE WHEN v_forfeit THEN v_base * (1 + v_pct) ELSE v_base END
+    + v_streak * greatest(0, config_number('MP_XP_STREAK_BONUS', 0))
+    + CASE WHEN v_forfeit THEN 0 ELSE abs(v_gold - v_silver) * greatest(0, config_number('MP_XP_MARGIN_BONUS', 0)) END);
+  v_loss := CASE WHEN v_forfeit THEN -round(v_base * v_pct)
+                 ELSE round(greatest(0, config_number('MP_XP_LOSS', 0)) * v_mult) END;
+  v_draw := round(greatest(0, config_number('MP_XP_DRAW', 5)) * v_mult);
+
+  -- Rating (applyRatingResult): K 40 przez pierwsze 10 meczów, potem 20; min 100
+  v_exp := 1 / (1 + power(10, (gp.rating - hp.rating) / 400.0));
+  v_host_d  := round(CASE WHEN hp.rating_games < 10 THEN 40 ELSE 20 END
+    * (CASE v_winner WHEN 'host' THEN 1 WHEN 'draw' THEN 0.5 ELSE 0 END - v_exp));
+  v_guest_d := round(CASE WHEN gp.rating_games < 10 THEN 40 ELSE 20 END
+    * (CASE v_winner WHEN 'guest' THEN 1 WHEN 'draw' THEN 0.5 ELSE 0 END - (1 - v_exp)));
+
+  -- Statystyki (applyMatchResult)
+  UPDATE profiles p SET
+    xp          = greatest(0, p.xp + CASE WHEN v_winner = 'draw' THEN v_draw WHEN v_winner = s.role THEN v_win ELSE v_loss END),
+    wins        = p.wins   + CASE WHEN v_winner = s.role THEN 1 ELSE 0 END,
+    losses      = p.losses + CASE WHEN v_winner NOT IN ('draw', s.role) THEN 1 ELSE 0 END,
+    win_streak  = CASE WHEN v_winner = s.role THEN p.win_streak + 1 ELSE 0 END,
+    best_streak = CASE WHEN v_winner = s.role THEN greatest(p.best_streak, p.win_streak + 1) ELSE p.best_streak END,
+    rating      = greatest(100, p.rating + s.delta),
+    rating_games = p.rating_games + 1,
+    updated_at  = now()
+  FROM (VALUES (room.host_id, 'host', v_host_d), (room.guest_id, 'guest', v_guest_d)) AS s(id, role, delta)
+  WHERE p.id = s.id;
+
+  IF v_winner <> 'draw' THEN
+    INSERT INTO game_history (winner_id, loser_id, winner_score, loser_score, is_draw, room_id)
+    VALUES (
+      CASE v_winner WHEN 'host' THEN room.host_id ELSE room.guest_id END,
+      CASE v_winner WHEN 'host' THEN room.guest_id ELSE room.host_id END,
+      CASE v_winner WHEN 'host' THEN v_gold ELSE v_silver END,
+      CASE v_winner WHEN 'host' THEN v_silver ELSE v_gold END,
+      false, room.id)
+    RETURNING id INTO v_game;
+
+    UPDATE game_rounds SET game_id = v_game WHERE room_id = room.id AND game_id IS NULL;
+  END IF;
+
+  v_result := jsonb_build_object(
+    'winner', v_winner, 'forfeit', v_forfeit,
+    'win', v_win, 'loss', v_loss, 'draw', v_draw);
+
+  UPDATE game_rooms SET
+    result      = v_result,
+    status      = 'finished',
+    host_score  = v_gold,
+    guest_score = v_silver,
+    updated_at  = now()
+  WHERE id = room.id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_match_result(uuid, text) TO authenticated;
@@ -2,11 +2,14 @@
 -- reset_player_stats.sql
 --
 -- Czyści WSZYSTKIE statystyki graczy w bazie:
---   • profiles: xp, wins, losses, win_streak, best_streak → 0
+--   • profiles: xp, wins, losses, win_streak, best_streak → 0; rating → 1200
 --   • game_history: usuwa cały zapisany historyczny przebieg meczy
 --   • game_rounds:  usuwa wszystkie zapisane rundy
 --
 -- Uwagi:
+--   • Ten skrypt NIE archiwizuje wyników. Na koniec sezonu użyj
+--     Admin → Zaawansowane → „Zamknij sezon" (RPC admin_close_season()),
+--     które najpierw zapisuje końcową tabelę w season_standings.
 --   • NIE usuwa kont, nicków, avatarów, kategorii, pytań, ustawień config.
 --   • NIE rusza aktywnych pokoi (game_rooms) ani kolejki (matchmaking_queue).
 --   • Operacja jest atomowa (transakcja). Jak coś padnie — ROLLBACK.
@@ -26,7 +29,8 @@
 SELECT
   (SELECT COUNT(*) FROM public.profiles
      WHERE xp <> 0 OR wins <> 0 OR losses <> 0
-        OR win_streak <> 0 OR best_streak <> 0)               AS profiles_to_reset,
+        OR win_streak <> 0 OR best_streak <> 0
+        OR rating <> 1200 OR rating_games <> 0)               AS profiles_to_reset,
   (SELECT COUNT(*) FROM public.profiles)                      AS profiles_total,
   (SELECT COUNT(*) FROM public.game_history)                  AS game_history_rows,
   (SELECT COUNT(*) FROM public.game_rounds)                   AS game_rounds_rows;
@@ -47,10 +51,13 @@ SET
   losses               = 0,
   win_streak           = 0,
   best_streak          = 0,
+  rating               = 1200,
+  rating_games         = 0,
   updated_at           = NOW()
 WHERE
   xp <> 0 OR wins <> 0 OR losses <> 0
-  OR win_streak <> 0 OR best_streak <> 0;
+  OR win_streak <> 0 OR best_streak <> 0
+  OR rating <> 1200 OR rating_games <> 0;
 
 -- 2) Usuń historię meczy (FK z game_rounds → game_history idzie z CASCADE)
 DELETE FROM public.game_history;
@@ -63,7 +70,8 @@ DELETE FROM public.game_rounds;
 SELECT
   (SELECT COUNT(*) FROM public.profiles
      WHERE xp <> 0 OR wins <> 0 OR losses <> 0
-        OR win_streak <> 0 OR best_streak <> 0)               AS profiles_with_stats_remaining,
+        OR win_streak <> 0 OR best_streak <> 0
+        OR rating <> 1200 OR rating_games <> 0)               AS profiles_with_stats_remaining,
   (SELECT COUNT(*) FROM public.game_history)                  AS game_history_remaining,
   (SELECT COUNT(*) FROM public.game_rounds)                   AS game_rounds_remaining;
 
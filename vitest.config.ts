@@ -2,6 +2,8 @@ import { defineConfig } from 'vitest/config'
 
 // Unit tests target the framework-free pure logic in src/domain and the
 // matching helpers in src/lib. No jsdom needed — these are plain functions.
+// The one store test plays host and guest over lib/localRealtime with the
+// database stubbed, still without a DOM.
 export default defineConfig({
   test: {
     environment: 'node',